@@ -33,7 +33,10 @@ import ExportDropdown from '@/components/ExportDropDown'
 import Loading from '../loading'
 import Summary from '@/components/errorDetectionUi/Summary'
 import Status from '@/components/errorDetectionUi/Status'
+import AppendBatch from '@/components/errorDetectionUi/AppendBatch'
+import VersionSelector from '@/components/errorDetectionUi/VersionSelector'
 import ColumnStatisticsTable from '@/components/errorDetectionUi/SchemaDefinitionTable'
+import ValidationRulesEditor from '@/components/errorDetectionUi/ValidationRulesEditor'
 import { GetIssues, GetSchema } from '@/utils/errorDetectionActions'
 import { IssueTable } from '@/components/IssueTable'
 import BarChartComponent from '@/components/BarChart'
@@ -71,6 +74,7 @@ const DatasetDetails = ({params}:Props) => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [deleteError, setDeleteError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
   const router = useRouter()
   
   // Convert quality score to progress percentage for UI
@@ -80,7 +84,8 @@ const DatasetDetails = ({params}:Props) => {
     const fetchErrorReport = async () => {
         const fileId = await params
         const { fileid } = fileId
-        setIsLoading(true)
+        // Refreshing after appending a batch or switching versions keeps the page (and its summary) on screen
+        if (!reloadKey) setIsLoading(true)
 
         if (fileid) {
             setFileId(fileid)
@@ -105,7 +110,7 @@ const DatasetDetails = ({params}:Props) => {
     }
 
     fetchErrorReport()
-  }, [params])
+  }, [params, reloadKey])
 
   if (fileId && isLoading) {
     return <Loading/>
@@ -265,6 +270,8 @@ const DatasetDetails = ({params}:Props) => {
             <Download className="h-3.5 w-3.5" />
             Download
           </button>
+          <AppendBatch fileId={fileId} onAppended={() => setReloadKey(key => key + 1)} />
+          <VersionSelector fileId={fileId} onChanged={() => setReloadKey(key => key + 1)} />
           <div className="ml-auto">
             <ExportDropdown />
           </div>
@@ -515,7 +522,10 @@ const DatasetDetails = ({params}:Props) => {
         {activeTab === "data" && (
           <div className="space-y-6">
             {/* Column Statistics */}
-            <ColumnStatisticsTable fileId={fileId} />
+            <ColumnStatisticsTable fileId={fileId} onSchemaChanged={() => setReloadKey(key => key + 1)} />
+
+            {/* Cross-column validation rules */}
+            <ValidationRulesEditor fileId={fileId} onRulesChanged={() => setReloadKey(key => key + 1)} />
             
             {/* Critical Issues */}
             <IssueTable issueTypeCounts={issueTypeCounts} fileId={fileId} />
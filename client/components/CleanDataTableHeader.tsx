@@ -10,8 +10,7 @@ import { BsThreeDots } from "react-icons/bs";
 import { FaRegWindowClose } from "react-icons/fa";
 import { useState } from "react";
 import Link from "next/link";
-
-const COLORS = {INVALID_VALUE:"#FF5733",TYPE_MISMATCH:"#FFC300",NULL_VALUE:"#36A2EB",DUPLICATE_VALUE:"#4CAF50",INVALID_FORMAT:"#9C27B0",INVALID_SEPARATOR:"#FF9800",INVALID_DATE: "#E53935"}
+import { ISSUE_COLORS } from "@/utils/issue-colors";
 
 
 const CleanDataTableHeader = ({expand,setExpand}:{expand:boolean,setExpand:React.Dispatch<React.SetStateAction<boolean>>}) => {
@@ -36,7 +35,7 @@ const CleanDataTableHeader = ({expand,setExpand}:{expand:boolean,setExpand:React
         </div>
         {/* grid-cols-3 */}
         <ul className="grid grid-cols-4 gap-1 md:hidden lg:grid">
-            {Object.entries(COLORS).map(([key, value]) => (
+            {Object.entries(ISSUE_COLORS).map(([key, value]) => (
                 <li key={key} className="flex items-center gap-1">
                     <span className="min-w-4 min-h-4 rounded" style={{ backgroundColor: value }}></span>
                     <span className="text-[10px]">{key}</span>
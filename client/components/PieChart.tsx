@@ -31,7 +31,17 @@ const COLORS = {
   DUPLICATE_VALUE: "#a0a0a0",    // Medium gray
   INVALID_FORMAT: "#808080",     // Gray
   INVALID_SEPARATOR: "#606060",  // Dark gray
-  INVALID_DATE: "#404040"        // Very dark gray
+  INVALID_DATE: "#404040",       // Very dark gray
+  PATTERN_MISMATCH: "#d0d0d0",   // Pale gray
+  LENGTH_VIOLATION: "#b0b0b0",   // Light silver
+  INVALID_CATEGORY: "#909090",   // Steel gray
+  OUT_OF_RANGE: "#707070",       // Slate gray
+  RULE_VIOLATION: "#505050",     // Graphite
+  ORPHAN_REFERENCE: "#f0f0f0",   // Off-white
+  DUPLICATE_KEY: "#989898",      // Ash gray
+  INVALID_PHONE_NUMBER: "#585858", // Charcoal gray
+  POSSIBLE_PHONE_NUMBER: "#c8c8c8", // Mist gray
+  WRONG_REGION_PHONE_NUMBER: "#787878" // Dim gray
 }
 
 type IssueType = keyof typeof COLORS;
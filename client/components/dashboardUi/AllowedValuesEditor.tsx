@@ -0,0 +1,99 @@
+/**
+ * Allowed Values Editor
+ * Purpose: Edits the list of values a category column allows
+ * Used in: Column data type definition
+ * Features:
+ * - Values seeded at upload shown as removable chips
+ * - New values added with Enter or the Add button, duplicates ignored
+ * - Live check of a test value, showing the closest allowed value validation would suggest
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { IoClose } from 'react-icons/io5'
+import { checkAllowedValue } from '@/utils/allowed-values'
+
+const AllowedValuesEditor = ({
+  allowedValues,
+  onChange,
+}: {
+  allowedValues: string[] | null | undefined
+  onChange: (allowedValues: string[] | null) => void
+}) => {
+  const [newValue, setNewValue] = useState('')
+  const [testValue, setTestValue] = useState('')
+  const values = allowedValues || []
+  const testIssue = testValue ? checkAllowedValue(testValue, values) : null
+
+  const addValue = () => {
+    if (newValue === '' || values.includes(newValue)) return
+    onChange([...values, newValue])
+    setNewValue('')
+  }
+
+  // An empty list means the column takes any value
+  const removeValue = (value: string) => {
+    const remaining = values.filter(allowed => allowed !== value)
+    onChange(remaining.length > 0 ? remaining : null)
+  }
+
+  return (
+    <div className="w-full p-4 rounded-lg">
+      <h4 className="mb-2 text-sm font-semibold para">
+        Allowed Values: <small className="font-normal">{values.length === 0 ? '(any value)' : `(${values.length})`}</small>
+      </h4>
+
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {values.map(value => (
+            <span key={value} className="flex items-center gap-1 secondaryBg text-xs rounded-md px-2 py-0.5">
+              {value}
+              <IoClose onClick={() => removeValue(value)} className="cursor-pointer text-gray-400 hover:text-red-400" />
+            </span>
+          ))}
+          <button type="button" onClick={() => onChange(null)} className="text-xs text-gray-400 hover:text-red-400 px-1">
+            Clear
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={newValue}
+          onChange={(e) => setNewValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              addValue()
+            }
+          }}
+          placeholder="Add a value"
+          className="w-48 font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none"
+        />
+        <button type="button" onClick={addValue} className="bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1 px-3 text-xs font-medium transition-colors">
+          Add
+        </button>
+
+        {values.length > 0 && (
+          <input
+            type="text"
+            value={testValue}
+            onChange={(e) => setTestValue(e.target.value)}
+            placeholder="Test a value"
+            className="w-48 font-mono secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none"
+          />
+        )}
+      </div>
+
+      {testValue && values.length > 0 && (
+        <p className={`text-xs mt-1 ${testIssue ? 'text-red-400' : 'text-green-500'}`}>
+          {testIssue ? testIssue.issueDesc : `'${testValue}' is allowed`}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default AllowedValuesEditor
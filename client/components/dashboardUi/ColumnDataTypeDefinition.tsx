@@ -1,18 +1,28 @@
 import React from 'react';
-import {schemaTypeDefinition, SchemaDefinition} from '@/utils/types'
+import {schemaTypeDefinition, SchemaDefinition, NumberFormatSetting, SchemaReference} from '@/utils/types'
+import { NUMBER_LOCALE_OPTIONS } from '@/utils/number-format';
+import TypeInferenceDetails, { formatShare } from './TypeInferenceDetails';
+import TextConstraintsEditor from './TextConstraintsEditor';
+import AllowedValuesEditor from './AllowedValuesEditor';
+import RangeConstraintsEditor from './RangeConstraintsEditor';
+import ReferenceEditor from './ReferenceEditor';
+import { BUILT_IN_DATA_TYPES, CustomDataType } from '@/utils/data-types';
+import PhoneCountrySelect from './PhoneCountrySelect';
 
 const ColumnDataTypeDefinition = ({
     SchemaDefinition,
     setSchemaDefinition,
-    setLoading
+    setLoading,
+    customTypes = []
 }: {
     SchemaDefinition: SchemaDefinition;
     setSchemaDefinition: React.Dispatch<React.SetStateAction<SchemaDefinition>>;
     setLoading: React.Dispatch<React.SetStateAction<boolean>>,
+    customTypes?: CustomDataType[];
 }) => {
 
     // Function to update SchemaDefinition when a value changes
-    const handleChange = (key: string, field: keyof schemaTypeDefinition, value: string | boolean | null | number) => {
+    const handleChange = (key: string, field: keyof schemaTypeDefinition, value: string | boolean | null | number | NumberFormatSetting | string[] | SchemaReference) => {
         setLoading(true);
         setSchemaDefinition((prevSchema) => ({
             ...prevSchema,
@@ -37,6 +47,9 @@ const ColumnDataTypeDefinition = ({
                         <div className="w-auto p-4 rounded-lg">
                             <h4 className="mb-2 text-sm font-semibold para text-nowrap">Column</h4>
                             <h4 className="mb-2 text-base font-semibold heading">{key}</h4>
+                            {columnData.inference && columnData.inference.nonNull > 0 && (
+                                <span className="text-xs para text-nowrap">{formatShare(columnData.inference.confidence)} confidence</span>
+                            )}
                         </div>
 
                         <div className="flex gap-2 flex-wrap w-full">
@@ -62,6 +75,18 @@ const ColumnDataTypeDefinition = ({
                                     <option value="Currency">Currency</option>
                                     <option value="Percentage">Percentage</option>
                                     <option value="All">Allow all types</option>
+                                    <optgroup label="Domain types">
+                                        {BUILT_IN_DATA_TYPES.map((type) => (
+                                            <option key={type.name} value={type.name} title={type.description}>{type.name}</option>
+                                        ))}
+                                    </optgroup>
+                                    {customTypes.length > 0 && (
+                                        <optgroup label="Your types">
+                                            {customTypes.map((type) => (
+                                                <option key={type.name} value={type.name} title={type.description || undefined}>{type.name}</option>
+                                            ))}
+                                        </optgroup>
+                                    )}
                                 </select>
                             </div>
 
@@ -99,6 +124,34 @@ const ColumnDataTypeDefinition = ({
                                 </select>
                             </div>
 
+                            {/* Number Format */}
+                            <div className="w-auto p-4 rounded-lg">
+                                <h4 className="mb-2 text-sm font-semibold para">Number Format:</h4>
+                                <select
+                                    value={columnData.numberFormat?.locale || ""}
+                                    onChange={(e) => handleChange(key, "numberFormat", e.target.value ? { locale: e.target.value } : null)}
+                                    className="w-full font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none disabled:opacity-50"
+                                    disabled={!["Integer", "Float", "Currency", "Percentage", "All"].includes(columnData.dataType)}
+                                >
+                                    <option value="">Project default</option>
+                                    {NUMBER_LOCALE_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {/* Country of the phone numbers written without a +country code */}
+                            <div className="w-auto p-4 rounded-lg">
+                                <h4 className="mb-2 text-sm font-semibold para">Phone Country:</h4>
+                                <PhoneCountrySelect
+                                    value={columnData.phoneCountry}
+                                    onChange={(country) => handleChange(key, "phoneCountry", country)}
+                                    emptyLabel="Project default"
+                                    disabled={columnData.dataType !== "PhoneNumber"}
+                                    className="w-full font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none disabled:opacity-50"
+                                />
+                            </div>
+
                             {/* Uniqueness Constraint */}
                             <div className="w-auto p-4 rounded-lg">
                                 <h4 className="mb-2 text-sm font-semibold para">Uniqueness:</h4>
@@ -112,11 +165,24 @@ const ColumnDataTypeDefinition = ({
                                 </select>
                             </div>
 
+                            {/* Whether empty values are reported */}
+                            <div className="w-auto p-4 rounded-lg">
+                                <h4 className="mb-2 text-sm font-semibold para">Empty Values:</h4>
+                                <select
+                                    value={columnData.required === false ? "Optional" : "Required"}
+                                    onChange={(e) => handleChange(key, "required", e.target.value === "Required")}
+                                    className="w-full font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none"
+                                >
+                                    <option value="Required">Required (Empty values are issues)</option>
+                                    <option value="Optional">Optional (Empty values allowed)</option>
+                                </select>
+                            </div>
+
                             {/* Date Format */}
                             <div className="w-auto p-4 rounded-lg">
                                 <h4 className="mb-2 text-sm font-semibold para">Date Format:</h4>
                                 <select
-                                    value={columnData.format || "null"}
+                                    value={columnData.format ? columnData.format.replace(/[-/.]/g, "/") : "null"}
                                     onChange={(e) => handleChange(key, "format", e.target.value !== "null" ? e.target.value : null)}
                                     className="w-full font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none disabled:opacity-50"
                                     disabled={(columnData.dataType !== "Date") && (columnData.dataType !== "All")}
@@ -144,6 +210,44 @@ const ColumnDataTypeDefinition = ({
                                 </select>
                             </div>
 
+                            {/* Minimum and maximum of numeric and date columns */}
+                            <RangeConstraintsEditor
+                                range={{ min: columnData.min, max: columnData.max }}
+                                dataType={columnData.dataType}
+                                onChange={(field, value) => handleChange(key, field, value)}
+                            />
+
+                            {/* Pattern and length, tested live against sample values */}
+                            {!["Boolean", "Array", "Object"].includes(columnData.dataType) && (
+                                <TextConstraintsEditor
+                                    constraints={{ pattern: columnData.pattern, minLength: columnData.minLength, maxLength: columnData.maxLength }}
+                                    onChange={(field, value) => handleChange(key, field, value)}
+                                />
+                            )}
+
+                            {/* Values a category column allows, seeded from the values seen at upload */}
+                            {!["Boolean", "Array", "Object", "Null"].includes(columnData.dataType) && (
+                                <AllowedValuesEditor
+                                    allowedValues={columnData.allowedValues}
+                                    onChange={(allowedValues) => handleChange(key, "allowedValues", allowedValues)}
+                                />
+                            )}
+
+                            {/* Column of another project every value must exist in */}
+                            {!["Boolean", "Array", "Object", "Null"].includes(columnData.dataType) && (
+                                <ReferenceEditor
+                                    reference={columnData.reference}
+                                    onChange={(reference) => handleChange(key, "reference", reference)}
+                                />
+                            )}
+
+                            {/* Why the type was inferred */}
+                            {columnData.inference && (
+                                <div className="w-full px-4 rounded-lg">
+                                    <TypeInferenceDetails inference={columnData.inference} />
+                                </div>
+                            )}
+
                             {/* Description */}
                             <div className="w-full p-4 rounded-lg">
                                 <h4 className="mb-2 text-sm font-semibold para">Description:</h4>
@@ -0,0 +1,202 @@
+/**
+ * Custom Types Editor
+ * Purpose: Defines the user's own data types, e.g. an SKU as ^[A-Z]{3}-\d{4}$ or a card number with a Luhn check
+ * Used in: Define schema (column schema step)
+ * Features:
+ * - A type is a pattern, a checksum or both, checked after a normaliser (trim, uppercase, compact, ...)
+ * - Tests the type live against a sample value with the same rules as validation
+ * - Types are saved for the whole account and offered in every project's type list
+ * - Saving or deleting a type revalidates the projects with a column of it
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { DeleteDataType, SaveDataType } from '@/utils/dataTypeActions'
+import {
+  buildDataTypeRegistry,
+  CHECKSUM_OPTIONS,
+  checkDataType,
+  CustomDataType,
+  DataTypeChecksum,
+  DataTypeNormalizer,
+  describeDataTypeError,
+  normalizeDataTypeValue,
+  NORMALIZER_OPTIONS,
+} from '@/utils/data-types'
+
+const EMPTY_TYPE: CustomDataType = { name: '', pattern: '', checksum: null, normalizer: 'trim', message: '', description: '' }
+
+const CustomTypesEditor = ({
+  customTypes,
+  onChange,
+}: {
+  customTypes: CustomDataType[]
+  onChange: (customTypes: CustomDataType[]) => void
+}) => {
+  const [draft, setDraft] = useState<CustomDataType | null>(null)
+  const [sample, setSample] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ error: boolean, text: string } | null>(null)
+
+  const draftError = draft ? describeDataTypeError(draft) : null
+  const draftType = draft && !draftError ? buildDataTypeRegistry([{ ...draft, name: draft.name.trim() }])[draft.name.trim()] : null
+  const sampleIssue = draftType && sample ? checkDataType(sample, draftType) : null
+
+  const update = (field: keyof CustomDataType, value: string | null) => {
+    if (draft) setDraft({ ...draft, [field]: value })
+  }
+
+  const save = async () => {
+    if (!draft || draftError) return
+
+    setBusy(true)
+    setMessage(null)
+    const data = await SaveDataType({ ...draft, name: draft.name.trim() })
+    setBusy(false)
+
+    if (data?.status) {
+      onChange([...customTypes.filter(type => type.name !== data.dataType.name), data.dataType])
+      setMessage({ error: false, text: data.message })
+      setDraft(null)
+      setSample('')
+    } else {
+      setMessage({ error: true, text: data?.message || 'Could not save the type' })
+    }
+  }
+
+  const remove = async (type: CustomDataType) => {
+    if (!type.type_id) return
+
+    setBusy(true)
+    setMessage(null)
+    const data = await DeleteDataType(type.type_id)
+    setBusy(false)
+
+    if (data?.status) {
+      onChange(customTypes.filter(other => other.type_id !== type.type_id))
+    } else {
+      setMessage({ error: true, text: data?.message || 'Could not delete the type' })
+    }
+  }
+
+  return (
+    <div className='flex flex-col gap-2'>
+      <label className='heading font-bold inline-block'>Custom Data Types</label>
+      <small className='para'>Your own column types, checked with a pattern, a checksum or both. They are available in every project.</small>
+
+      {customTypes.map(type => (
+        <div key={type.name} className='flex flex-wrap items-center gap-2 text-sm'>
+          <span className='secondaryBg rounded-md px-2 py-1 font-medium'>{type.name}</span>
+          <span className='para text-xs'>
+            {[type.pattern && `pattern ${type.pattern}`, type.checksum && `${type.checksum} checksum`].filter(Boolean).join(', ')}
+          </span>
+          <button type='button' onClick={() => setDraft({ ...EMPTY_TYPE, ...type })} className='text-xs text-gray-400 hover:text-white px-1'>
+            Edit
+          </button>
+          <button type='button' onClick={() => remove(type)} disabled={busy} className='text-xs text-gray-400 hover:text-red-400 px-1'>
+            Delete
+          </button>
+        </div>
+      ))}
+
+      {draft ? (
+        <div className='flex flex-col gap-2 secondaryBg rounded-md p-3'>
+          <div className='flex flex-wrap gap-2'>
+            <input
+              type='text'
+              placeholder='Type name, e.g. SKU'
+              value={draft.name}
+              onChange={(e) => update('name', e.target.value)}
+              className='w-40 p-1 px-2 sectionBg rounded-md text-sm focus:outline-none'
+            />
+            <input
+              type='text'
+              placeholder='Pattern, e.g. [A-Z]{3}-\d{4}'
+              value={draft.pattern || ''}
+              onChange={(e) => update('pattern', e.target.value)}
+              className='flex-1 min-w-48 p-1 px-2 sectionBg rounded-md text-sm font-mono focus:outline-none'
+            />
+            <select
+              value={draft.checksum || ''}
+              onChange={(e) => update('checksum', (e.target.value || null) as DataTypeChecksum | null)}
+              className='font-medium sectionBg text-sm rounded-md px-2 py-1 focus:outline-none'
+            >
+              <option value=''>No checksum</option>
+              {CHECKSUM_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={draft.normalizer || 'trim'}
+              onChange={(e) => update('normalizer', e.target.value as DataTypeNormalizer)}
+              className='font-medium sectionBg text-sm rounded-md px-2 py-1 focus:outline-none'
+            >
+              {NORMALIZER_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className='flex flex-wrap gap-2'>
+            <input
+              type='text'
+              placeholder='Issue message, e.g. Invalid SKU'
+              value={draft.message || ''}
+              onChange={(e) => update('message', e.target.value)}
+              className='flex-1 min-w-48 p-1 px-2 sectionBg rounded-md text-sm focus:outline-none'
+            />
+            <input
+              type='text'
+              placeholder='Description'
+              value={draft.description || ''}
+              onChange={(e) => update('description', e.target.value)}
+              className='flex-1 min-w-48 p-1 px-2 sectionBg rounded-md text-sm focus:outline-none'
+            />
+          </div>
+          <div className='flex flex-wrap items-center gap-2'>
+            <input
+              type='text'
+              placeholder='Test a value'
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              className='w-56 p-1 px-2 sectionBg rounded-md text-sm focus:outline-none'
+            />
+            {draftType && sample && (
+              sampleIssue
+                ? <small className='text-red-400'>{sampleIssue.issueDesc}</small>
+                : <small className='text-green-500'>Valid, saved as {normalizeDataTypeValue(sample, draftType)}</small>
+            )}
+          </div>
+          {draftError && draft.name && <small className='text-red-400'>{draftError}</small>}
+          <div className='flex items-center gap-2'>
+            <button
+              type='button'
+              onClick={save}
+              disabled={busy || Boolean(draftError)}
+              className='bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1 px-3 text-xs font-medium transition-colors disabled:opacity-50'
+            >
+              {busy ? 'Saving...' : 'Save type'}
+            </button>
+            <button type='button' onClick={() => setDraft(null)} className='text-xs text-gray-400 hover:text-white px-1'>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <button
+            type='button'
+            onClick={() => setDraft({ ...EMPTY_TYPE })}
+            className='bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1 px-3 text-xs font-medium transition-colors'
+          >
+            Add data type
+          </button>
+        </div>
+      )}
+
+      {message && <small className={message.error ? 'text-red-400' : 'para'}>{message.text}</small>}
+    </div>
+  )
+}
+
+export default CustomTypesEditor
@@ -5,6 +5,14 @@ import { AiOutlineLoading3Quarters } from "react-icons/ai";
 import ColumnDataTypeDefinition from './ColumnDataTypeDefinition';
 import {SchemaType, SchemaDefinition} from '@/utils/types'
 import { UpdateSchema, getSchema } from '@/utils/fileActions';
+import { SaveTemplate } from '@/utils/templateActions';
+import SchemaImportExport from './SchemaImportExport';
+import UniqueKeysEditor from './UniqueKeysEditor';
+import CustomTypesEditor from './CustomTypesEditor';
+import PhoneCountrySelect from './PhoneCountrySelect';
+import { GetDataTypes } from '@/utils/dataTypeActions';
+import { CustomDataType } from '@/utils/data-types';
+import { describeUniqueKeysError } from '@/utils/unique-keys';
 import { useGlobalContext } from '@/context/context';
 import SmallLoading from '../SmallLoading';
 
@@ -26,6 +34,12 @@ const DefineSchema = ({
     const [schemaTypeDefinition, setSchemaTypeDefinition] = useState<SchemaDefinition>({});
     const [fileId, setFileId] = useState<string>("");
     const [awareness, setAwareness] = useState('');
+    const [uniqueKeys, setUniqueKeys] = useState<string[][]>([]);
+    const [customTypes, setCustomTypes] = useState<CustomDataType[]>([]);
+    const [phoneCountry, setPhoneCountry] = useState<string | null>(null);
+    const [templateName, setTemplateName] = useState('');
+    const [savingTemplate, setSavingTemplate] = useState(false);
+    const [templateMessage, setTemplateMessage] = useState<{error:boolean, text:string} | null>(null);
     const {cleanDataFileId} = useGlobalContext();
 
     useEffect(() => {
@@ -33,6 +47,8 @@ const DefineSchema = ({
         if(schemaDefinition?.schema_definition){
             setSchemaTypeDefinition(schemaDefinition.schema_definition);
             setFileId(schemaDefinition.file_id);
+            setUniqueKeys(schemaDefinition.unique_keys || []);
+            setPhoneCountry(schemaDefinition.phone_country || null);
         }else{
             const fetchSchema = async() => {
 
@@ -42,6 +58,8 @@ const DefineSchema = ({
                     setSchemaTypeDefinition(response?.data.result[0].schema_definition);
                     setFileId(response?.data.result[0].file_id);
                     setAwareness(response?.data.result[0].awareness);
+                    setUniqueKeys(response?.data.result[0].unique_keys || []);
+                    setPhoneCountry(response?.data.result[0].phone_country || null);
                 }
                 
             }
@@ -54,17 +72,41 @@ const DefineSchema = ({
         setLoadingPage(false);
     }, [schemaDefinition, cleanDataFileId]);
 
+    // The user's own types are offered in every column's type list
+    useEffect(() => {
+        GetDataTypes().then(data => setCustomTypes(data?.status ? data.customTypes : []));
+    }, []);
+
+    const columnNames = Object.keys(schemaTypeDefinition).filter((column) => column !== "originalRowIndex");
+
     const handleSave = async(e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
 
         setLoading(true);
 
-        await UpdateSchema({file_id:fileId,schema_definition:schemaTypeDefinition,awareness:awareness});
+        await UpdateSchema({file_id:fileId,schema_definition:schemaTypeDefinition,awareness:awareness,unique_keys:uniqueKeys,phone_country:phoneCountry || ''});
         setLoading(false);
         setShowOverlay(false);
         setStep(1);
     }
 
+    // Saves the schema as edited here, so later uploads with the same layout can reuse it
+    const handleSaveTemplate = async() => {
+        if(!templateName.trim()) return;
+
+        setSavingTemplate(true);
+        setTemplateMessage(null);
+        const data = await SaveTemplate(templateName.trim(), fileId, schemaTypeDefinition);
+        setSavingTemplate(false);
+
+        if(data?.status){
+            setTemplateMessage({error:false, text:data.message});
+            setTemplateName('');
+        }else{
+            setTemplateMessage({error:true, text:data?.message || 'Could not save the template'});
+        }
+    }
+
     return (
         <div className='sectionBg w-full rounded-lg'>
             {
@@ -93,7 +135,46 @@ const DefineSchema = ({
                             {
                                 (step === 3) && <>
                                     <label className='heading font-bold text-lg inline-block mb-2'>Define Columns Schema <small className='para'>(optional)</small></label>
-                                    <ColumnDataTypeDefinition SchemaDefinition={schemaTypeDefinition} setSchemaDefinition={setSchemaTypeDefinition} setLoading={setLoading}/>
+                                    <SchemaImportExport schema={schemaTypeDefinition} onImport={setSchemaTypeDefinition}/>
+                                    <ColumnDataTypeDefinition SchemaDefinition={schemaTypeDefinition} setSchemaDefinition={setSchemaTypeDefinition} setLoading={setLoading} customTypes={customTypes}/>
+                                    <UniqueKeysEditor columns={columnNames} uniqueKeys={uniqueKeys} onChange={setUniqueKeys}/>
+                                    <div className='flex flex-col gap-2'>
+                                        <label className='heading font-bold inline-block'>Phone Country</label>
+                                        <small className='para'>Country of the phone numbers written without a +country code, for phone columns without a country of their own.</small>
+                                        <PhoneCountrySelect
+                                            value={phoneCountry}
+                                            onChange={setPhoneCountry}
+                                            emptyLabel='None (numbers need a +country code)'
+                                            className='w-72 font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none'
+                                        />
+                                    </div>
+                                    <CustomTypesEditor customTypes={customTypes} onChange={setCustomTypes}/>
+                                    <div className='flex flex-col gap-2'>
+                                        <label className='heading font-bold inline-block'>Save as Template</label>
+                                        <small className='para'>Reuse these column settings when uploading files with the same layout.</small>
+                                        <div className='flex gap-3 items-center'>
+                                            <input
+                                                type='text'
+                                                placeholder='Template name'
+                                                className='flex-1 p-2 secondaryBg rounded-md focus:outline-none'
+                                                value={templateName}
+                                                onChange={(e) => setTemplateName(e.target.value)}
+                                            />
+                                            <button
+                                                type='button'
+                                                className='secondaryBtn flex gap-3 items-center'
+                                                disabled={savingTemplate || !templateName.trim() || !fileId}
+                                                onClick={handleSaveTemplate}
+                                            >
+                                                {savingTemplate && (
+                                                    <AiOutlineLoading3Quarters className='animate-spin text-xl' />
+                                                )} Save Template
+                                            </button>
+                                        </div>
+                                        {templateMessage && (
+                                            <small className={templateMessage.error ? 'text-red-400' : 'para'}>{templateMessage.text}</small>
+                                        )}
+                                    </div>
                                 </>
                             }
 
@@ -127,7 +208,7 @@ const DefineSchema = ({
                             }
                             {
                                 (step === 3) && (
-                                    <button type='submit' className='primaryBtn flex gap-3 items-center' disabled={loading}>
+                                    <button type='submit' className='primaryBtn flex gap-3 items-center' disabled={loading || Boolean(describeUniqueKeysError(uniqueKeys, columnNames))}>
                                         {loading && (
                                             <AiOutlineLoading3Quarters className='animate-spin text-xl' />
                                         )} Save
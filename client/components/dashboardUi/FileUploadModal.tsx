@@ -2,7 +2,8 @@
 
 import { useState } from 'react'
 import { FileUploadWizard } from '@/components/file-upload-wizard'
-import { uploadProjectFile, updateProjectSchema, UploadResponse } from '@/utils/file-upload-adapter'
+import { updateProjectSchema, UploadResponse } from '@/utils/file-upload-adapter'
+import { uploadFileInChunks } from '@/utils/chunked-upload'
 import { transformColumnsToSchema } from '@/utils/schema-transformers'
 import { useGlobalContext } from '@/context/context'
 
@@ -20,6 +21,7 @@ export default function FileUploadModal({
   setRevalidateProjects
 }: FileUploadModalProps) {
   const [isProcessing, setIsProcessing] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
   const { setCleanDataFileId } = useGlobalContext()
 
   const handleProjectComplete = async (projectData: any) => {
@@ -27,12 +29,6 @@ export default function FileUploadModal({
     setIsProcessing(true)
 
     try {
-      // Create form data from the wizard data
-      const formData = new FormData()
-      formData.append('file', projectData.files[0])
-      formData.append('category', projectData.category || 'General')
-      formData.append('description', projectData.description || 'Uploaded file')
-      
       // Add timestamp metadata with full precision
       const now = new Date()
       
@@ -41,15 +37,15 @@ export default function FileUploadModal({
       const uploadTime = now.toISOString().split('T')[1].split('.')[0]
       const fullTimestamp = `${uploadDate}T${uploadTime}`
       const timestampOrder = now.getTime() // Unix timestamp for sorting
-      
-      // Add all time-related metadata to the form
-      formData.append('upload_date', uploadDate)
-      formData.append('upload_time', uploadTime)
-      formData.append('timestamp', fullTimestamp)
-      formData.append('timestamp_order', timestampOrder.toString())
 
-      // Upload file using existing backend
-      const uploadResult: UploadResponse = await uploadProjectFile(formData)
+      // Upload the file in resumable chunks, reporting progress to the wizard
+      setUploadProgress(0)
+      const uploadResult: UploadResponse = await uploadFileInChunks(projectData.file, {
+        category: projectData.category || 'General',
+        description: projectData.description || 'Uploaded file',
+        parseOptions: projectData.parseOptions || {},
+        onProgress: ({ percent }) => setUploadProgress(percent),
+      })
 
       if (uploadResult?.fileSchemaDefinition?.file_id) {
         // Prepare metadata for schema
@@ -107,6 +103,7 @@ export default function FileUploadModal({
       alert(`Error: ${errorMessage}`)
     } finally {
       setIsProcessing(false)
+      setUploadProgress(null)
     }
   }
 
@@ -115,6 +112,7 @@ export default function FileUploadModal({
       isOpen={isOpen}
       onClose={onClose}
       onComplete={handleProjectComplete}
+      uploadProgress={uploadProgress}
     />
   )
 } 
\ No newline at end of file
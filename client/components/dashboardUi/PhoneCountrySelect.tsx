@@ -0,0 +1,53 @@
+/**
+ * Phone Country Select
+ * Purpose: Picks the country phone numbers written without a +country code belong to
+ * Used in: Column data type definition (per column), Define schema (project default)
+ * Features:
+ * - Countries listed by name, stored as ISO 3166 codes
+ * - Territories without phone numbers of their own (Antarctica, Bouvet Island, ...) are left out
+ * - The empty option falls back to the project's country, or to +country codes only
+ */
+
+'use client'
+
+import { COUNTRY_CODES } from '@/utils/data-types'
+
+// ISO 3166 codes the phone numbering plans do not cover
+const NO_PHONE_NUMBERS = ['AQ', 'BV', 'GS', 'HM', 'PN', 'TF', 'UM']
+
+const countryNames = typeof Intl.DisplayNames === 'function' ? new Intl.DisplayNames(['en'], { type: 'region' }) : null
+
+const PHONE_COUNTRIES = COUNTRY_CODES
+  .filter(code => !NO_PHONE_NUMBERS.includes(code))
+  .map(code => ({ code, name: countryNames?.of(code) || code }))
+  .sort((a, b) => a.name.localeCompare(b.name))
+
+const PhoneCountrySelect = ({
+  value,
+  onChange,
+  emptyLabel,
+  disabled = false,
+  className,
+}: {
+  value: string | null | undefined
+  onChange: (country: string | null) => void
+  emptyLabel: string
+  disabled?: boolean
+  className?: string
+}) => {
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled}
+      className={className}
+    >
+      <option value=''>{emptyLabel}</option>
+      {PHONE_COUNTRIES.map(country => (
+        <option key={country.code} value={country.code}>{country.name} ({country.code})</option>
+      ))}
+    </select>
+  )
+}
+
+export default PhoneCountrySelect
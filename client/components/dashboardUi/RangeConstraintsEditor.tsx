@@ -0,0 +1,69 @@
+/**
+ * Range Constraints Editor
+ * Purpose: Edits the minimum and maximum of a numeric or date column
+ * Used in: Column data type definition
+ * Features:
+ * - Number inputs for numeric, Currency, Percentage and Timestamp columns, nothing for other types
+ * - Date pickers (YYYY-MM-DD) for Date columns
+ * - Message when the range does not suit the column type, e.g. after the type was changed
+ */
+
+'use client'
+
+import { describeRangeError, RangeConstraints, RangeKind, rangeKind } from '@/utils/range-constraints'
+
+type RangeField = keyof RangeConstraints
+
+function toBound(value: string, kind: RangeKind): number | string | null {
+  if (value === '') return null
+  return kind === 'number' ? Number(value) : value
+}
+
+const RangeConstraintsEditor = ({
+  range,
+  dataType,
+  onChange,
+}: {
+  range: RangeConstraints
+  dataType: string
+  onChange: (field: RangeField, value: number | string | null) => void
+}) => {
+  const kind = rangeKind(dataType)
+  if (!kind) return null
+
+  const rangeError = describeRangeError(range, dataType)
+
+  return (
+    <div className="flex gap-2 flex-wrap">
+      {(['min', 'max'] as const).map(field => (
+        <div key={field} className="w-auto p-4 rounded-lg">
+          <h4 className="mb-2 text-sm font-semibold para">{field === 'min' ? 'Minimum:' : 'Maximum:'}</h4>
+          <input
+            type={kind === 'number' ? 'number' : 'date'}
+            value={range[field] ?? ''}
+            onChange={(e) => onChange(field, toBound(e.target.value, kind))}
+            placeholder="None"
+            className="w-36 font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none"
+          />
+        </div>
+      ))}
+      {rangeError && (
+        <p className="self-center text-xs text-red-400">
+          {rangeError}
+          <button
+            type="button"
+            onClick={() => {
+              onChange('min', null)
+              onChange('max', null)
+            }}
+            className="ml-2 underline hover:no-underline"
+          >
+            Clear
+          </button>
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default RangeConstraintsEditor
@@ -0,0 +1,105 @@
+/**
+ * Reference Editor
+ * Purpose: Points a column at a column of another project, e.g. orders.customer_id at customers.customer_id
+ * Used in: Column data type definition
+ * Features:
+ * - Picks one of the user's projects, then one of its columns
+ * - Projects are only loaded once a reference is added, so columns without one cost nothing
+ * - Values missing from the referenced column are reported as ORPHAN_REFERENCE issues
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { GetFile } from '@/utils/fileActions'
+import { GetSchema } from '@/utils/errorDetectionActions'
+import { projectType, SchemaReference } from '@/utils/types'
+
+const ReferenceEditor = ({
+  reference,
+  onChange,
+}: {
+  reference: SchemaReference | null | undefined
+  onChange: (reference: SchemaReference | null) => void
+}) => {
+  const [editing, setEditing] = useState(Boolean(reference))
+  const [fileId, setFileId] = useState(reference?.fileId || '')
+  const [projects, setProjects] = useState<projectType[] | null>(null)
+  const [columns, setColumns] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!editing || projects) return
+    GetFile().then(resp => setProjects(resp?.data?.status ? resp.data.result : []))
+  }, [editing, projects])
+
+  useEffect(() => {
+    setColumns([])
+    if (!fileId) return
+    GetSchema(fileId).then(data => {
+      const definition = data?.status ? data.result[0].schema_definition : {}
+      setColumns(Object.keys(definition).filter(column => column !== 'originalRowIndex'))
+    })
+  }, [fileId])
+
+  // The reference is only set once both the project and its column are picked
+  const pickProject = (id: string) => {
+    setFileId(id)
+    onChange(null)
+  }
+
+  const remove = () => {
+    setEditing(false)
+    setFileId('')
+    onChange(null)
+  }
+
+  if (!editing) {
+    return (
+      <div className="w-auto p-4 rounded-lg">
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1 px-3 text-xs font-medium transition-colors"
+        >
+          Reference another project
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-auto p-4 rounded-lg">
+      <h4 className="mb-2 text-sm font-semibold para">
+        Must Exist In: <small className="font-normal">(values missing there are reported)</small>
+      </h4>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={fileId}
+          onChange={(e) => pickProject(e.target.value)}
+          className="w-48 font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none"
+        >
+          <option value="">{projects ? 'Pick a project' : 'Loading projects...'}</option>
+          {projects?.map(project => (
+            <option key={project.file_id} value={project.file_id}>{project.original_name}</option>
+          ))}
+        </select>
+        <select
+          value={reference?.fileId === fileId ? reference.column : ''}
+          onChange={(e) => onChange(e.target.value ? { fileId, column: e.target.value } : null)}
+          disabled={columns.length === 0}
+          className="w-48 font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none disabled:opacity-50"
+        >
+          <option value="">Pick a column</option>
+          {columns.map(column => (
+            <option key={column} value={column}>{column}</option>
+          ))}
+        </select>
+        <button type="button" onClick={remove} className="text-xs text-gray-400 hover:text-red-400 px-1">
+          Remove
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ReferenceEditor
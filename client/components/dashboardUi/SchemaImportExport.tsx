@@ -0,0 +1,148 @@
+/**
+ * Schema Import / Export
+ * Purpose: Moves a project's schema in and out as JSON Schema or Frictionless Table Schema
+ * Used in: Define data types, Schema definition table (error detection page, data tab)
+ * Features:
+ * - Download of the schema as schema.json (JSON Schema) or tableschema.json (Table Schema)
+ * - Upload of either standard, detected from the document, applied to the project's columns by name
+ * - Report of every setting or constraint that could not be converted
+ */
+
+'use client'
+
+import { useRef, useState } from 'react'
+import { Download, Upload } from 'lucide-react'
+import {
+  exportJSONSchema,
+  exportTableSchema,
+  importSchemaDocument,
+  mergeImportedSchema,
+  SchemaConversionWarning,
+  SchemaStandard,
+} from '@/utils/schema-standards'
+import { SchemaDefinition } from '@/utils/types'
+
+const STANDARD_LABELS: Record<SchemaStandard, string> = {
+  'json-schema': 'JSON Schema',
+  'table-schema': 'Table Schema',
+}
+
+type ConversionReport = {
+  summary: string
+  warnings: SchemaConversionWarning[]
+}
+
+function downloadJSON(document: unknown, fileName: string) {
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = window.document.createElement('a')
+  link.href = url
+  link.download = fileName
+  window.document.body.appendChild(link)
+  link.click()
+  window.document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+const SchemaImportExport = ({
+  schema,
+  title,
+  onImport,
+}: {
+  schema: SchemaDefinition
+  title?: string
+  onImport?: (schema: SchemaDefinition) => Promise<string | void> | string | void
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [report, setReport] = useState<ConversionReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const exportAs = (standard: SchemaStandard) => {
+    setError(null)
+    const result = standard === 'json-schema' ? exportJSONSchema(schema, title) : exportTableSchema(schema)
+    downloadJSON(result.document, standard === 'json-schema' ? 'schema.json' : 'tableschema.json')
+    setReport({ summary: `Exported as ${STANDARD_LABELS[standard]}`, warnings: result.warnings })
+  }
+
+  // Reads the chosen file; onImport saves the merged schema and may return an error message
+  const importFile = async (file: File) => {
+    setError(null)
+    setReport(null)
+    setBusy(true)
+    try {
+      const imported = importSchemaDocument(JSON.parse(await file.text()))
+      const merged = mergeImportedSchema(schema, imported.schema)
+      const failure = await onImport?.(merged.schema)
+      if (failure) {
+        setError(failure)
+        return
+      }
+      setReport({
+        summary: `Imported ${STANDARD_LABELS[imported.standard]} from ${file.name}`,
+        warnings: [...imported.warnings, ...merged.warnings],
+      })
+    } catch (err) {
+      setError(err instanceof SyntaxError ? 'The file is not valid JSON' : (err as Error).message)
+    } finally {
+      setBusy(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const buttonClass = 'bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1.5 px-3 text-xs font-medium flex items-center gap-1.5 transition-colors disabled:opacity-50'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => exportAs('json-schema')} className={buttonClass}>
+          <Download className="h-3.5 w-3.5" />
+          Export JSON Schema
+        </button>
+        <button type="button" onClick={() => exportAs('table-schema')} className={buttonClass}>
+          <Download className="h-3.5 w-3.5" />
+          Export Table Schema
+        </button>
+        {onImport && (
+          <>
+            <button type="button" onClick={() => inputRef.current?.click()} disabled={busy} className={buttonClass}>
+              <Upload className="h-3.5 w-3.5" />
+              {busy ? 'Importing...' : 'Import Schema'}
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && importFile(e.target.files[0])}
+            />
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {report && (
+        <div className="text-xs text-gray-400 space-y-1">
+          <p>
+            {report.summary}
+            {report.warnings.length === 0
+              ? ', every setting was converted.'
+              : `, ${report.warnings.length} setting${report.warnings.length !== 1 ? 's' : ''} not converted or not applied:`}
+          </p>
+          {report.warnings.length > 0 && (
+            <ul className="list-disc pl-5 space-y-0.5">
+              {report.warnings.map((warning, index) => (
+                <li key={index}>
+                  {warning.column && <span className="text-gray-300">{warning.column}: </span>}
+                  {warning.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SchemaImportExport
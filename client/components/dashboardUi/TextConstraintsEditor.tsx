@@ -0,0 +1,102 @@
+/**
+ * Text Constraints Editor
+ * Purpose: Edits a column's pattern and length constraints and tests them as they are typed
+ * Used in: Column data type definition
+ * Features:
+ * - Regular expression pattern with a check that it compiles
+ * - Minimum and maximum length
+ * - Live test of sample values, showing the issues validation would report for each
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { checkTextConstraints, describeTextConstraintError, TextConstraints } from '@/utils/text-constraints'
+
+type TextConstraintField = keyof TextConstraints
+
+function toLength(value: string): number | null {
+  return value === '' ? null : Math.max(0, Math.floor(Number(value)))
+}
+
+const TextConstraintsEditor = ({
+  constraints,
+  onChange,
+}: {
+  constraints: TextConstraints
+  onChange: (field: TextConstraintField, value: string | number | null) => void
+}) => {
+  const [samples, setSamples] = useState('')
+  const constraintError = describeTextConstraintError(constraints)
+  const hasConstraints = Boolean(constraints.pattern) || constraints.minLength != null || constraints.maxLength != null
+  const sampleValues = samples.split('\n').filter(sample => sample !== '')
+
+  return (
+    <div className="flex gap-2 flex-wrap w-full">
+      <div className="w-auto p-4 rounded-lg">
+        <h4 className="mb-2 text-sm font-semibold para">Pattern:</h4>
+        <input
+          type="text"
+          value={constraints.pattern || ''}
+          onChange={(e) => onChange('pattern', e.target.value || null)}
+          placeholder="^[A-Z]{3}-\d{4}$"
+          className="w-64 font-mono secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none"
+        />
+      </div>
+
+      <div className="w-auto p-4 rounded-lg">
+        <h4 className="mb-2 text-sm font-semibold para">Min Length:</h4>
+        <input
+          type="number"
+          min={0}
+          value={constraints.minLength ?? ''}
+          onChange={(e) => onChange('minLength', toLength(e.target.value))}
+          placeholder="None"
+          className="w-24 font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none"
+        />
+      </div>
+
+      <div className="w-auto p-4 rounded-lg">
+        <h4 className="mb-2 text-sm font-semibold para">Max Length:</h4>
+        <input
+          type="number"
+          min={0}
+          value={constraints.maxLength ?? ''}
+          onChange={(e) => onChange('maxLength', toLength(e.target.value))}
+          placeholder="None"
+          className="w-24 font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none"
+        />
+      </div>
+
+      {hasConstraints && (
+        <div className="w-auto p-4 rounded-lg flex-1 min-w-[240px]">
+          <h4 className="mb-2 text-sm font-semibold para">Test Values <small>(one per line)</small>:</h4>
+          <textarea
+            rows={3}
+            value={samples}
+            onChange={(e) => setSamples(e.target.value)}
+            placeholder="ABC-1234"
+            className="w-full font-mono secondaryBg text-sm rounded-md px-2 py-1 resize-none focus:outline-none"
+          />
+          {constraintError ? (
+            <p className="text-xs text-red-400 mt-1">{constraintError}</p>
+          ) : (
+            <ul className="text-xs mt-1 space-y-0.5">
+              {sampleValues.map((sample, index) => {
+                const issues = checkTextConstraints(sample, constraints)
+                return (
+                  <li key={index} className={issues.length === 0 ? 'text-green-500' : 'text-red-400'}>
+                    <span className="font-mono">{sample}</span>
+                    {issues.length === 0 ? ' passes' : ` - ${issues.map(issue => issue.issueDesc).join('; ')}`}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TextConstraintsEditor
@@ -0,0 +1,73 @@
+/**
+ * Type Inference Details
+ * Purpose: Explains why a column got its inferred type
+ * Used in: Column data type definition, File upload wizard
+ * Features:
+ * - Confidence as the share of non-empty values that fit the type
+ * - Closest other type when a column was kept as text
+ * - The first values that did not fit, with their row numbers
+ * - How the date format was settled, or why the day/month order is a guess
+ */
+
+import { DateFormatInference, TypeInferenceType } from '@/utils/types'
+
+/**
+ * Formats a share between 0 and 1 as a percentage
+ */
+export function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function describeDateFormat({ format, ambiguous, evidence }: DateFormatInference): string {
+  const { dayFirst, monthFirst } = evidence
+  if (!ambiguous) {
+    const settled = Math.max(dayFirst, monthFirst)
+    return settled > 0
+      ? `Dates read as ${format}: ${settled} value${settled !== 1 ? 's have' : ' has'} a day above 12.`
+      : `Dates read as ${format}.`
+  }
+  return dayFirst === 0
+    ? `Dates read as ${format}, but no day above 12 was found, so day and month may be swapped.`
+    : `Dates read as ${format}, but ${dayFirst} value${dayFirst !== 1 ? 's put' : ' puts'} the day first and ${monthFirst} the month first.`
+}
+
+const TypeInferenceDetails = ({ inference }: { inference: TypeInferenceType }) => {
+  if (inference.nonNull === 0) {
+    return <p className="text-xs text-gray-400">Every value of this column is empty, so it was kept as {inference.dataType}.</p>
+  }
+
+  const { alternative } = inference
+  const checkedType = alternative ? alternative.dataType : inference.dataType
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="text-gray-400">
+        {alternative
+          ? `Inferred ${inference.dataType}: only ${formatShare(alternative.share)} of ${inference.nonNull} values are ${alternative.dataType}.`
+          : `Inferred ${inference.dataType}: ${formatShare(inference.confidence)} of ${inference.nonNull} values fit.`}
+        {inference.nullCount > 0 && ` ${inference.nullCount} empty.`}
+      </p>
+      {inference.dateFormat && (
+        <p className={inference.dateFormat.ambiguous ? 'text-[#E8920E]' : 'text-gray-400'}>{describeDateFormat(inference.dateFormat)}</p>
+      )}
+      {inference.counterexamples.length > 0 && (
+        <div>
+          <span className="text-gray-400">Not {checkedType}:</span>
+          <ul className="mt-0.5 space-y-0.5">
+            {inference.counterexamples.map(example => (
+              <li key={example.row} className="text-[#E8920E]">
+                Row {example.row}: <span className="font-mono">{formatValue(example.value)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TypeInferenceDetails
@@ -0,0 +1,85 @@
+/**
+ * Unique Keys Editor
+ * Purpose: Edits the keys a project is unique on when no single column is, e.g. (store_id, date)
+ * Used in: Define schema (column schema step)
+ * Features:
+ * - Each key combines two or more columns, picked from the project's columns
+ * - Shows why a key cannot be saved while it is edited
+ * - Rows sharing a key are reported as DUPLICATE_KEY issues that link to each other
+ */
+
+'use client'
+
+import { describeUniqueKeysError } from '@/utils/unique-keys'
+
+const UniqueKeysEditor = ({
+  columns,
+  uniqueKeys,
+  onChange,
+}: {
+  columns: string[]
+  uniqueKeys: string[][]
+  onChange: (uniqueKeys: string[][]) => void
+}) => {
+  const keyError = describeUniqueKeysError(uniqueKeys, columns)
+
+  const updateKey = (index: number, key: string[]) => {
+    onChange(uniqueKeys.map((current, i) => (i === index ? key : current)))
+  }
+
+  return (
+    <div className='flex flex-col gap-2'>
+      <label className='heading font-bold inline-block'>Unique Keys</label>
+      <small className='para'>Columns that are unique together, such as a store and a date. Rows sharing all of their values are reported.</small>
+
+      {uniqueKeys.map((key, index) => (
+        <div key={index} className='flex flex-wrap items-center gap-2'>
+          {key.map(column => (
+            <span key={column} className='secondaryBg rounded-md px-2 py-1 text-sm flex items-center gap-2'>
+              {column}
+              <button
+                type='button'
+                onClick={() => updateKey(index, key.filter(other => other !== column))}
+                aria-label={`Remove ${column} from the key`}
+                className='text-gray-400 hover:text-red-400'
+              >
+                &times;
+              </button>
+            </span>
+          ))}
+          <select
+            value=''
+            onChange={(e) => e.target.value && updateKey(index, [...key, e.target.value])}
+            className='w-40 font-medium secondaryBg text-sm rounded-md px-2 py-1 focus:outline-none'
+          >
+            <option value=''>Add a column</option>
+            {columns.filter(column => !key.includes(column)).map(column => (
+              <option key={column} value={column}>{column}</option>
+            ))}
+          </select>
+          <button
+            type='button'
+            onClick={() => onChange(uniqueKeys.filter((_, i) => i !== index))}
+            className='text-xs text-gray-400 hover:text-red-400 px-1'
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      {keyError && <small className='text-red-400'>{keyError}</small>}
+
+      <div>
+        <button
+          type='button'
+          onClick={() => onChange([...uniqueKeys, []])}
+          className='bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1 px-3 text-xs font-medium transition-colors'
+        >
+          Add unique key
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default UniqueKeysEditor
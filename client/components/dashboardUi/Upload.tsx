@@ -1,12 +1,12 @@
 'use client'
 
-import {startTransition, useActionState, useEffect, useState} from 'react'
+import {useEffect, useState} from 'react'
 import { IoIosArrowDown } from "react-icons/io";
 import { IoIosClose } from "react-icons/io";
 import { FiUpload } from "react-icons/fi";
 import { AiOutlineLoading3Quarters } from "react-icons/ai";
 import { FaFileAlt } from "react-icons/fa";
-import { UploadFile } from '@/utils/fileActions';
+import { uploadFileInChunks } from '@/utils/chunked-upload';
 import {SchemaType} from '@/utils/types'
 
 // const mockResponse = {
@@ -110,26 +110,47 @@ const Upload = ({setShowOverlay, setRevalidateProjects,revalidateProjects, setSt
     const [uploadedFile, setUploadedFile] = useState<File | null>(null);
     const [fileError, setFileError] = useState<string | null>(null);
     const [showSuccessMessage,setShowSuccessMessage] = useState(false);
-    const [state, formAction] = useActionState(UploadFile, initialState);
+    const [state, setState] = useState(initialState);
     const [loading, setLoading] = useState(false);
+    const [uploadProgress, setUploadProgress] = useState<number | null>(null);
 
         const handleSubmit = async (e: React.FormEvent<HTMLElement>) => {
             e.preventDefault();
         
-            const formData = new FormData(e.currentTarget as HTMLFormElement);
-        
-            setLoading(true);
-            if(uploadedFile){
-                startTransition(() => {
-                formAction(formData);
-                setLoading(false);
-                setRevalidateProjects(!revalidateProjects);
-                });
-            }else{
-                setLoading(false);
+            if(!uploadedFile){
                 setFileError("File upload cannot be empty. Only CSV or Excel files are allowed.");    
+                return;
             }
-            
+
+            const errors: Record<string, string[]> = {};
+            if(!category) errors.category = ["Category is required."];
+            if(!desc) errors.description = ["File Description is required."];
+            if(Object.keys(errors).length){
+                setState({...initialState, errors});
+                return;
+            }
+
+            // Upload in resumable chunks so large files can show progress and survive network drops
+            setLoading(true);
+            setUploadProgress(0);
+            const result = await uploadFileInChunks(uploadedFile, {
+                category,
+                description: desc,
+                onProgress: ({percent}) => setUploadProgress(percent),
+            });
+            setLoading(false);
+            setUploadProgress(null);
+
+            if(result.errors?.root){
+                setFileError(result.errors.root[0]);
+            }
+            setState({
+                message: result.message,
+                isCreated: Boolean(result.fileSchemaDefinition),
+                fileSchemaDefinition: result.fileSchemaDefinition || null,
+                errors: result.errors,
+            });
+            setRevalidateProjects(!revalidateProjects);
         }
 
         const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -264,6 +285,17 @@ const Upload = ({setShowOverlay, setRevalidateProjects,revalidateProjects, setSt
                             ) : (
                                 <p className='text-center'>No files uploaded yet</p>
                             )}
+                            {uploadProgress !== null && (
+                                <div className='mt-3'>
+                                    <div className='flex justify-between text-sm heading mb-1'>
+                                        <span>{uploadProgress < 100 ? 'Uploading' : 'Processing'}</span>
+                                        <span>{uploadProgress}%</span>
+                                    </div>
+                                    <div className='w-full h-2 rounded-full sectionBg overflow-hidden'>
+                                        <div className='h-full bg-green-500 transition-all' style={{width: `${uploadProgress}%`}} />
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,97 @@
+/**
+ * Append Batch
+ * Purpose: Adds a new batch of rows (e.g. this month's export) to an existing project
+ * Used in: Error detection page header
+ * Features:
+ * - Compares the file with the project's schema first, so drift is reviewed before any row is added
+ * - Uploads the file in resumable chunks with progress
+ * - The server validates the rows against the project's saved schema
+ * - Shows how many rows and new issues were added, and which extra columns were ignored
+ */
+
+'use client'
+
+import { useRef, useState } from 'react'
+import { FilePlus } from 'lucide-react'
+import { uploadFileInChunks } from '@/utils/chunked-upload'
+import { BatchSummaryType } from '@/utils/types'
+import SchemaDriftReview from './SchemaDriftReview'
+
+const ACCEPTED_FILES = '.csv,.xls,.xlsx,.json,.ndjson,.jsonl'
+
+const AppendBatch = ({ fileId, onAppended }: { fileId: string, onAppended?: (batch: BatchSummaryType) => void }) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [progress, setProgress] = useState<number | null>(null)
+  const [summary, setSummary] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingFile, setPendingFile] = useState<File | null>(null)
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setError(null)
+    setSummary(null)
+    setPendingFile(file)
+  }
+
+  const upload = async (file: File) => {
+    setPendingFile(null)
+    setProgress(0)
+
+    const result = await uploadFileInChunks(file, {
+      category: 'batch',
+      description: 'batch',
+      targetFileId: fileId,
+      onProgress: ({ percent }) => setProgress(percent),
+    })
+
+    setProgress(null)
+
+    if (!result.batch) {
+      setError(result.errors?.root?.[0] || 'Could not append the rows')
+      return
+    }
+
+    const { rowsAdded, issuesAdded, ignoredColumns } = result.batch
+    setSummary(
+      `${rowsAdded} rows added, ${issuesAdded} with issues` +
+      (ignoredColumns.length > 0 ? `. Ignored columns: ${ignoredColumns.join(', ')}` : '')
+    )
+    onAppended?.(result.batch)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_FILES}
+        className="hidden"
+        onChange={handleFile}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={progress !== null || pendingFile !== null}
+        className="bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1.5 px-3 text-xs font-medium flex items-center gap-1.5 transition-colors disabled:opacity-50"
+      >
+        <FilePlus className="h-3.5 w-3.5" />
+        {progress !== null ? `Appending ${progress}%` : 'Append Data'}
+      </button>
+      {pendingFile && (
+        <SchemaDriftReview
+          fileId={fileId}
+          file={pendingFile}
+          mode="batch"
+          onContinue={() => upload(pendingFile)}
+          onCancel={() => setPendingFile(null)}
+        />
+      )}
+      {summary && <span className="text-xs text-gray-400">{summary}</span>}
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  )
+}
+
+export default AppendBatch
@@ -16,29 +16,37 @@
  * - Null counts and unique value counts
  * - Loading states and error handling
  * - Scrollable interface for many columns
+ * - Schema history with a column-by-column diff and rollback
+ * - Schema export and import as JSON Schema or Frictionless Table Schema
  */
 
 'use client'
 import React, { useEffect, useState } from 'react';
 import { CardHeader, CardTitle } from '../ui/card'
 import { GetSchema } from '@/utils/errorDetectionActions'
-import { SchemaType, schemaTypeDefinition } from '@/utils/types'
+import { UpdateSchema } from '@/utils/fileActions'
+import { SchemaDefinition, SchemaType, schemaTypeDefinition } from '@/utils/types'
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '../ui/table';
 import Loading from '@/components/Loading';
+import SchemaVersionHistory from './SchemaVersionHistory';
+import SchemaImportExport from '../dashboardUi/SchemaImportExport';
 
 /**
  * Schema Definition Table Component
  * Displays statistical information about each column in a dataset
  * @param {Object} props - Component props
  * @param {string} props.fileId - The ID of the file to retrieve schema for
+ * @param {Function} props.onSchemaChanged - Called after the schema was restored or imported and the issues revalidated
  * @returns {JSX.Element} The rendered component
  */
-const ColumnStatisticsTable = ({fileId}:{fileId:string}) => {
+const ColumnStatisticsTable = ({fileId, onSchemaChanged}:{fileId:string, onSchemaChanged?: () => void}) => {
     // State management for schema, column statistics, loading status, and errors
     const [schema, setSchema] = useState<SchemaType>();
     const [columnStats, setColumnStats] = useState<Record<string, any>>({});
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    // Bumped after a rollback or an import so the new schema is fetched again
+    const [schemaKey, setSchemaKey] = useState(0);
 
     /**
      * Fetches schema data on component mount
@@ -47,7 +55,7 @@ const ColumnStatisticsTable = ({fileId}:{fileId:string}) => {
     useEffect(() => {
         const fetchSchema = async() => {
             try {
-                setLoading(true);
+                if (!schemaKey) setLoading(true);
                 const resp = await GetSchema(fileId);
                 setSchema(resp.result[0]);
 
@@ -87,7 +95,7 @@ const ColumnStatisticsTable = ({fileId}:{fileId:string}) => {
         if (fileId) {
             fetchSchema();
         }
-    }, [fileId]);
+    }, [fileId, schemaKey]);
 
     /**
      * Returns the appropriate color class based on data type
@@ -111,6 +119,23 @@ const ColumnStatisticsTable = ({fileId}:{fileId:string}) => {
         }
     };
 
+    /**
+     * Saves an imported schema; the server revalidates every row and records a new schema version
+     * @param {SchemaDefinition} schemaDefinition - Project schema with the imported settings
+     * @returns {Promise<string | void>} Error message if the schema could not be saved
+     */
+    const saveImportedSchema = async (schemaDefinition: SchemaDefinition) => {
+        if (!schema) return;
+
+        const result = await UpdateSchema({ file_id: fileId, schema_definition: schemaDefinition, awareness: schema.awareness });
+        if (!result?.status) {
+            return result?.message || 'Could not save the imported schema';
+        }
+
+        setSchemaKey(key => key + 1);
+        onSchemaChanged?.();
+    };
+
     // Display loading state
     if (loading) {
         return (
@@ -189,6 +214,22 @@ const ColumnStatisticsTable = ({fileId}:{fileId:string}) => {
                     * Showing all {columnEntries.length} columns. Scroll to see more data.
                 </div>
             )}
+
+            {/* Schema Import / Export Section */}
+            <div className="border-t border-[#2a2a2a] p-4 space-y-3">
+                <h3 className="text-sm font-medium text-white">Schema Standards</h3>
+                <SchemaImportExport schema={schema.schema_definition} onImport={saveImportedSchema} />
+            </div>
+
+            {/* Schema History Section (remounted after an import so the new version is listed) */}
+            <SchemaVersionHistory
+                key={schemaKey}
+                fileId={fileId}
+                onRestored={() => {
+                    setSchemaKey(key => key + 1);
+                    onSchemaChanged?.();
+                }}
+            />
         </div>
     );
 };
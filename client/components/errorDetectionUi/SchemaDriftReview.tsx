@@ -0,0 +1,190 @@
+/**
+ * Schema Drift Review
+ * Purpose: Shows how a file about to be added differs from the project's schema, before it is uploaded
+ * Used in: Append batch, version selector
+ * Features:
+ * - Reads the first rows of the file in the browser, with the project's parse options when it is in the project's format,
+ *   and compares them with the saved schema
+ * - Lists added, removed and renamed columns, type changes and null-rate changes
+ * - Applies the chosen schema edits before the upload; renamed columns of a new version are read under their schema names
+ * - A batch missing project columns is stopped here, the server would reject it
+ * - Files without drift go straight to the upload
+ */
+
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { parseFileSample, StoredParseOptions } from '@/utils/file-parsers'
+import { GetSchema } from '@/utils/errorDetectionActions'
+import { UpdateSchema } from '@/utils/fileActions'
+import { applySchemaEdits, detectSchemaDrift, DRIFT_SAMPLE_ROWS, hasSchemaDrift, sampleParseOptions, SchemaDriftReport, withColumnRenames } from '@/utils/schema-drift'
+import { SchemaType } from '@/utils/types'
+
+function formatRate(rate: number | null): string {
+  return rate === null ? 'unknown' : `${Math.round(rate * 100)}%`
+}
+
+const SchemaDriftReview = ({
+  fileId,
+  file,
+  mode,
+  onContinue,
+  onCancel,
+}: {
+  fileId: string
+  file: File
+  mode: 'batch' | 'version'
+  /** Called with the parse options to upload the file with, empty to let the server pick them */
+  onContinue: (parseOptions: StoredParseOptions) => void
+  onCancel: () => void
+}) => {
+  const [schema, setSchema] = useState<SchemaType | null>(null)
+  const [report, setReport] = useState<SchemaDriftReport | null>(null)
+  const [parseOptions, setParseOptions] = useState<StoredParseOptions>({})
+  const [selectedEdits, setSelectedEdits] = useState<number[]>([])
+  const [selectedRenames, setSelectedRenames] = useState<number[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The parent passes a new callback on every render; the file is compared once, with the latest one
+  const onContinueRef = useRef(onContinue)
+  useEffect(() => {
+    onContinueRef.current = onContinue
+  }, [onContinue])
+
+  useEffect(() => {
+    const onContinue = (parseOptions: StoredParseOptions) => onContinueRef.current(parseOptions)
+
+    const compare = async () => {
+      const data = await GetSchema(fileId)
+      if (!data?.status) {
+        // Without a schema there is nothing to compare, the server reports what it finds
+        onContinue({})
+        return
+      }
+
+      const options = sampleParseOptions(file.name, data.fileType, data.parseOptions)
+      let rows
+      try {
+        rows = await parseFileSample(file, DRIFT_SAMPLE_ROWS, options)
+      } catch {
+        onContinue({})
+        return
+      }
+
+      const saved: SchemaType = data.result[0]
+      const next = detectSchemaDrift(saved.schema_definition, rows)
+      if (!hasSchemaDrift(next)) {
+        onContinue({})
+        return
+      }
+
+      setSchema(saved)
+      setReport(next)
+      setParseOptions(options)
+      setSelectedEdits(next.schemaEdits.map((_, index) => index))
+      setSelectedRenames(next.renamedColumns.map((_, index) => index))
+    }
+
+    compare()
+  }, [fileId, file])
+
+  if (!report || !schema) {
+    return <span className="text-xs text-gray-400">Comparing {file.name} with the schema...</span>
+  }
+
+  // Batches are cut to the project's columns: new columns are ignored and missing ones are rejected
+  const edits = report.schemaEdits
+    .map((edit, index) => ({ edit, index }))
+    .filter(({ edit }) => mode === 'version' || (edit.kind !== 'added' && edit.kind !== 'removed'))
+  const missingColumns = [...report.removedColumns, ...report.renamedColumns.map(rename => rename.from)]
+  const blocked = mode === 'batch' && missingColumns.length > 0
+
+  const toggle = (list: number[], index: number) => (list.includes(index) ? list.filter(i => i !== index) : [...list, index])
+
+  const proceed = async () => {
+    setError(null)
+    const chosenEdits = report.schemaEdits.filter((_, index) => selectedEdits.includes(index) && edits.some(item => item.index === index))
+
+    if (chosenEdits.length > 0) {
+      setBusy(true)
+      const data = await UpdateSchema({
+        ...schema,
+        schema_definition: applySchemaEdits(schema.schema_definition, chosenEdits),
+      })
+      setBusy(false)
+
+      if (!data?.status) {
+        setError(data?.message || 'Could not update the schema')
+        return
+      }
+    }
+
+    // Chosen renames are read under the schema's names before validation and the saved actions see the rows
+    const renames = mode === 'version' ? report.renamedColumns.filter((_, index) => selectedRenames.includes(index)) : []
+    onContinue(renames.length > 0 ? withColumnRenames(parseOptions, renames) : {})
+  }
+
+  return (
+    <div className="bg-[#1e1e1e] border border-[#2a2a2a] rounded-md p-3 space-y-2 text-xs max-w-xl">
+      <div className="flex items-center gap-2 text-[#E8920E] font-medium">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        {file.name} differs from the project&apos;s schema
+      </div>
+
+      <ul className="space-y-1 text-gray-300">
+        {report.renamedColumns.map(rename => (
+          <li key={rename.from}>Renamed: {rename.from} → {rename.to}</li>
+        ))}
+        {report.removedColumns.length > 0 && <li>Missing: {report.removedColumns.join(', ')}</li>}
+        {report.addedColumns.length > 0 && (
+          <li>New{mode === 'batch' ? ' (ignored in a batch)' : ''}: {report.addedColumns.join(', ')}</li>
+        )}
+        {report.typeChanges.map(change => (
+          <li key={`type-${change.column}`}>Type of {change.column}: {change.before} → {change.after}</li>
+        ))}
+        {report.nullRateChanges.map(change => (
+          <li key={`null-${change.column}`}>Empty values in {change.column}: {formatRate(change.before)} → {formatRate(change.after)}</li>
+        ))}
+      </ul>
+
+      {blocked ? (
+        <p className="text-red-400">
+          A batch needs every project column; rename or add {missingColumns.join(', ')} in the file, or upload it as a new version.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {mode === 'version' && report.renamedColumns.map((rename, index) => (
+            <label key={rename.from} className="flex items-center gap-2">
+              <input type="checkbox" checked={selectedRenames.includes(index)} onChange={() => setSelectedRenames(toggle(selectedRenames, index))} />
+              Read {rename.to} as {rename.from} <span className="text-gray-500">(column name)</span>
+            </label>
+          ))}
+          {edits.map(({ edit, index }) => (
+            <label key={index} className="flex items-center gap-2">
+              <input type="checkbox" checked={selectedEdits.includes(index)} onChange={() => setSelectedEdits(toggle(selectedEdits, index))} />
+              {edit.description} <span className="text-gray-500">(schema)</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={proceed}
+          disabled={busy || blocked}
+          className="bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1.5 px-3 font-medium transition-colors disabled:opacity-50"
+        >
+          {busy ? 'Updating schema...' : 'Continue upload'}
+        </button>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white px-1">
+          Cancel
+        </button>
+        {error && <span className="text-red-400">{error}</span>}
+      </div>
+    </div>
+  )
+}
+
+export default SchemaDriftReview
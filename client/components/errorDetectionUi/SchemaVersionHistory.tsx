@@ -0,0 +1,212 @@
+/**
+ * Schema Version History
+ * Purpose: Shows how a project's schema changed between saves and restores earlier schemas
+ * Used in: Schema definition table (error detection page, data tab)
+ * Features:
+ * - Every saved schema with its author and time
+ * - Column-by-column diff between any two versions, with the project's rules, composite keys and phone country
+ * - One-click rollback of all of them, after which every row is revalidated
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { History, RotateCcw } from 'lucide-react'
+import { GetSchemaVersions, RollbackSchema } from '@/utils/errorDetectionActions'
+import { diffSchemas, SchemaColumnDiff } from '@/utils/schema-diff'
+import { SchemaRollbackReportType, SchemaVersionType } from '@/utils/types'
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '../ui/table'
+
+const CHANGE_STYLES: Record<SchemaColumnDiff['change'], string> = {
+  added: 'text-[#6FB856] bg-[#6FB856]/10',
+  removed: 'text-[#EF8B7E] bg-[#EF8B7E]/10',
+  changed: 'text-[#F2AD4A] bg-[#F2AD4A]/10',
+  unchanged: 'text-[#8B8C8C] bg-[#8B8C8C]/10',
+}
+
+const SOURCE_LABELS: Record<SchemaVersionType['source'], string> = {
+  generated: 'Generated on upload',
+  edit: 'Edited',
+  rules: 'Validation rules saved',
+  rollback: 'Restored',
+}
+
+// Project settings saved and restored with every version
+const PROJECT_SETTINGS: { key: 'validation_rules' | 'unique_keys' | 'phone_country', label: string }[] = [
+  { key: 'validation_rules', label: 'Validation rules' },
+  { key: 'unique_keys', label: 'Unique keys' },
+  { key: 'phone_country', label: 'Phone country' },
+]
+
+function formatSetting(value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'none'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function describeVersion(version: SchemaVersionType): string {
+  const source = version.source === 'rollback' && version.restored_from
+    ? `Restored version ${version.restored_from}`
+    : SOURCE_LABELS[version.source] || version.source
+  const author = version.author.name ? ` by ${version.author.name}` : ''
+  return `Version ${version.version_number} · ${source}${author} · ${new Date(version.created_at).toLocaleString()}`
+}
+
+const SchemaVersionHistory = ({ fileId, onRestored }: { fileId: string, onRestored?: (report: SchemaRollbackReportType) => void }) => {
+  const [versions, setVersions] = useState<SchemaVersionType[]>([])
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [summary, setSummary] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Compares the previous schema with the current one by default
+  const loadVersions = useCallback(async () => {
+    const data = await GetSchemaVersions(fileId)
+    if (!data?.status) return
+
+    const list: SchemaVersionType[] = data.versions
+    setVersions(list)
+    setToVersion(list.length > 0 ? list[list.length - 1].version_number : null)
+    setFromVersion(list.length > 1 ? list[list.length - 2].version_number : null)
+  }, [fileId])
+
+  useEffect(() => {
+    if (fileId) loadVersions()
+  }, [fileId, loadVersions])
+
+  const restore = async (version: number) => {
+    if (!window.confirm(`Restore schema version ${version}? Every row will be revalidated against it.`)) return
+
+    setError(null)
+    setSummary(null)
+    setBusy(true)
+    const data = await RollbackSchema(fileId, version)
+    setBusy(false)
+
+    if (!data?.status) {
+      setError(data?.message || 'Could not restore the schema')
+      return
+    }
+
+    setSummary(`Restored version ${data.restoredFrom} as version ${data.schemaVersion}: ${data.issueCount} of ${data.rowCount} rows with issues`)
+    await loadVersions()
+    onRestored?.(data)
+  }
+
+  if (versions.length === 0) return null
+
+  const currentVersion = versions[versions.length - 1].version_number
+  const from = versions.find(version => version.version_number === fromVersion)
+  const to = versions.find(version => version.version_number === toVersion)
+  const diff = from && to ? diffSchemas(from.schema_definition, to.schema_definition) : []
+  const visibleDiff = showUnchanged ? diff : diff.filter(entry => entry.change !== 'unchanged')
+  const settingChanges = from && to
+    ? PROJECT_SETTINGS.filter(setting => JSON.stringify(from[setting.key] ?? null) !== JSON.stringify(to[setting.key] ?? null))
+    : []
+
+  const versionSelect = (value: number | null, onChange: (version: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-[#2a2a2a] rounded-md py-1 px-2 text-xs outline-none max-w-[360px]"
+    >
+      {versions.map(version => (
+        <option key={version.schema_version_id} value={version.version_number}>{describeVersion(version)}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="border-t border-[#2a2a2a] p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-gray-400" />
+        <h3 className="text-sm font-medium text-white">Schema History</h3>
+        <span className="text-xs text-gray-500">{versions.length} version{versions.length !== 1 ? 's' : ''}</span>
+      </div>
+
+      {versions.length > 1 ? (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <span>Compare</span>
+            {versionSelect(fromVersion, setFromVersion)}
+            <span>with</span>
+            {versionSelect(toVersion, setToVersion)}
+            <label className="flex items-center gap-1 ml-auto">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              Show unchanged columns
+            </label>
+          </div>
+
+          <Table className="w-full">
+            <TableHeader className="bg-[#1a1a1a]">
+              <TableRow>
+                <TableHead className="w-[180px] whitespace-nowrap">Column Name</TableHead>
+                <TableHead className="whitespace-nowrap">Change</TableHead>
+                <TableHead className="whitespace-nowrap">Settings</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleDiff.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-6 text-xs text-gray-400">
+                    {fromVersion === toVersion ? 'Pick two different versions to compare' : 'No column changed between these versions'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleDiff.map(entry => (
+                  <TableRow key={entry.column}>
+                    <TableCell className="font-medium">{entry.column}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 text-xs rounded-full ${CHANGE_STYLES[entry.change]}`}>{entry.change}</span>
+                    </TableCell>
+                    <TableCell className="text-xs space-y-0.5">
+                      {entry.fields.map(field => (
+                        <div key={field.field}>
+                          <span className="text-gray-400">{field.field}:</span>{' '}
+                          <span className="line-through text-gray-500">{formatSetting(field.before)}</span>{' → '}
+                          <span>{formatSetting(field.after)}</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {settingChanges.length > 0 && (
+            <div className="text-xs space-y-0.5">
+              {settingChanges.map(setting => (
+                <div key={setting.key}>
+                  <span className="text-gray-400">{setting.label}:</span>{' '}
+                  <span className="line-through text-gray-500">{formatSetting(from?.[setting.key])}</span>{' → '}
+                  <span>{formatSetting(to?.[setting.key])}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-gray-400">The schema has not been changed since it was generated.</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        {fromVersion !== null && fromVersion !== currentVersion && (
+          <button
+            onClick={() => restore(fromVersion)}
+            disabled={busy}
+            className="bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1.5 px-3 text-xs font-medium flex items-center gap-1.5 transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            {busy ? 'Restoring...' : `Restore Version ${fromVersion}`}
+          </button>
+        )}
+        {summary && <span className="text-xs text-gray-400">{summary}</span>}
+        {error && <span className="text-xs text-red-400">{error}</span>}
+      </div>
+    </div>
+  )
+}
+
+export default SchemaVersionHistory
@@ -0,0 +1,168 @@
+/**
+ * Validation Rules Editor
+ * Purpose: Edits the cross-column rules every row of a project is checked against
+ * Used in: Error detection page (data tab)
+ * Features:
+ * - A name and an expression per rule, e.g. `end_date >= start_date`
+ * - Checks each expression as it is typed and lists the columns it uses
+ * - Saving revalidates every row; violations show up as RULE_VIOLATION issues
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ListChecks, Plus, Trash2 } from 'lucide-react'
+import { GetRules, SaveRules } from '@/utils/ruleActions'
+import { compileRule, describeRuleError, ValidationRule } from '@/utils/validation-rules'
+
+const EXAMPLES = [
+  'end_date >= start_date',
+  'total == quantity * unit_price',
+  "state is required when country == 'US'",
+]
+
+function usedColumns(expression: string): string[] {
+  try {
+    return compileRule(expression).columns
+  } catch {
+    return []
+  }
+}
+
+const ValidationRulesEditor = ({ fileId, onRulesChanged }: { fileId: string, onRulesChanged?: () => void }) => {
+  const [rules, setRules] = useState<ValidationRule[]>([])
+  const [columns, setColumns] = useState<string[]>([])
+  const [dirty, setDirty] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [summary, setSummary] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!fileId) return
+    GetRules(fileId).then(data => {
+      if (!data?.status) return
+      setRules(data.rules)
+      setColumns(data.columns)
+      setDirty(false)
+    })
+  }, [fileId])
+
+  const updateRule = (index: number, field: keyof ValidationRule, value: string) => {
+    setRules(current => current.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)))
+    setDirty(true)
+    setSummary(null)
+  }
+
+  const addRule = () => {
+    setRules(current => [...current, { name: `Rule ${current.length + 1}`, expression: '' }])
+    setDirty(true)
+  }
+
+  const removeRule = (index: number) => {
+    setRules(current => current.filter((_, i) => i !== index))
+    setDirty(true)
+  }
+
+  const ruleErrors = rules.map(rule => describeRuleError(rule, columns))
+  const duplicateName = rules.find((rule, index) =>
+    rules.findIndex(other => other.name.trim().toLowerCase() === rule.name.trim().toLowerCase()) !== index
+  )
+
+  const save = async () => {
+    setError(null)
+    setSummary(null)
+    setBusy(true)
+    const data = await SaveRules(fileId, rules)
+    setBusy(false)
+
+    if (!data?.status) {
+      setError(data?.message || 'Could not save the rules')
+      return
+    }
+
+    setRules(data.rules)
+    setDirty(false)
+    setSummary(`Rules saved: ${data.issueCount} rows with issues`)
+    onRulesChanged?.()
+  }
+
+  return (
+    <div className="bg-[#1e1e1e] border border-[#2a2a2a] rounded-md">
+      <div className="border-b border-[#2a2a2a] p-4 flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-4 w-4 text-gray-400" />
+          <h2 className="text-sm font-medium text-white">Validation Rules</h2>
+          <span className="text-xs text-gray-500">{rules.length} rule{rules.length !== 1 ? 's' : ''}</span>
+        </div>
+        <button
+          onClick={addRule}
+          className="bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1.5 px-3 text-xs font-medium flex items-center gap-1.5 transition-colors"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add Rule
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {rules.length === 0 && (
+          <p className="text-xs text-gray-400">
+            Rules check columns against each other, e.g. {EXAMPLES.map((example, index) => (
+              <span key={example}>
+                <code className="text-gray-300">{example}</code>{index < EXAMPLES.length - 1 ? ', ' : '.'}
+              </span>
+            ))}
+          </p>
+        )}
+
+        {rules.map((rule, index) => {
+          const columnsUsed = usedColumns(rule.expression)
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  value={rule.name}
+                  onChange={(e) => updateRule(index, 'name', e.target.value)}
+                  placeholder="Rule name"
+                  className="w-48 bg-[#2a2a2a] rounded-md py-1 px-2 text-xs outline-none"
+                />
+                <input
+                  value={rule.expression}
+                  onChange={(e) => updateRule(index, 'expression', e.target.value)}
+                  placeholder={EXAMPLES[index % EXAMPLES.length]}
+                  spellCheck={false}
+                  className="flex-1 bg-[#2a2a2a] rounded-md py-1 px-2 text-xs font-mono outline-none"
+                />
+                <button onClick={() => removeRule(index)} aria-label="Remove rule" className="text-gray-400 hover:text-white">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              {ruleErrors[index] ? (
+                <p className="text-xs text-red-400">{ruleErrors[index]}</p>
+              ) : columnsUsed.length > 0 && (
+                <p className="text-xs text-gray-500">Columns: {columnsUsed.join(', ')}</p>
+              )}
+            </div>
+          )
+        })}
+
+        {duplicateName && <p className="text-xs text-red-400">There is more than one rule named &apos;{duplicateName.name}&apos;</p>}
+
+        <div className="flex items-center gap-2">
+          {dirty && (
+            <button
+              onClick={save}
+              disabled={busy || Boolean(duplicateName) || ruleErrors.some(Boolean)}
+              className="bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1.5 px-3 text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              {busy ? 'Saving...' : 'Save Rules'}
+            </button>
+          )}
+          {summary && <span className="text-xs text-gray-400">{summary}</span>}
+          {error && <span className="text-xs text-red-400">{error}</span>}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ValidationRulesEditor
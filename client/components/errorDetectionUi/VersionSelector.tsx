@@ -0,0 +1,169 @@
+/**
+ * Version Selector
+ * Purpose: Switches a project between versions of its source file and uploads new ones
+ * Used in: Error detection page header
+ * Features:
+ * - Lists every uploaded version, the active one is used for cleaning
+ * - Uploads a corrected export as a new version, keeping the schema and saved actions
+ * - Reviews schema drift before the upload; renamed columns can be read under their schema names
+ * - Warns when saved actions refer to columns the chosen version no longer has
+ */
+
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { History, Upload } from 'lucide-react'
+import { uploadFileInChunks } from '@/utils/chunked-upload'
+import { GetVersions, SetVersion } from '@/utils/versionActions'
+import { StoredParseOptions } from '@/utils/file-parsers'
+import { FileVersionType, VersionReportType } from '@/utils/types'
+import SchemaDriftReview from './SchemaDriftReview'
+
+const ACCEPTED_FILES = '.csv,.xls,.xlsx,.json,.ndjson,.jsonl'
+
+/**
+ * Describes what changed when the project switched versions
+ */
+function describeReport(report: VersionReportType): string[] {
+  const lines = [`Version ${report.currentVersion}: ${report.rowCount} rows, ${report.issueCount} with issues`]
+
+  if (report.removedColumns.length > 0) {
+    lines.push(`Schema columns missing from this version: ${report.removedColumns.join(', ')}`)
+  }
+  if (report.addedColumns.length > 0) {
+    lines.push(`New columns not in the schema: ${report.addedColumns.join(', ')}`)
+  }
+  report.actionWarnings.forEach(warning => {
+    lines.push(`Saved action "${warning.title}" uses missing column ${warning.missingColumns.join(', ')}`)
+  })
+
+  return lines
+}
+
+const VersionSelector = ({ fileId, onChanged }: { fileId: string, onChanged?: (report: VersionReportType) => void }) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [versions, setVersions] = useState<FileVersionType[]>([])
+  const [currentVersion, setCurrentVersion] = useState<number>(1)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [report, setReport] = useState<VersionReportType | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingFile, setPendingFile] = useState<File | null>(null)
+
+  const loadVersions = useCallback(async () => {
+    const data = await GetVersions(fileId)
+    if (data?.status) {
+      setVersions(data.versions)
+      setCurrentVersion(data.currentVersion)
+    }
+  }, [fileId])
+
+  useEffect(() => {
+    if (fileId) loadVersions()
+  }, [fileId, loadVersions])
+
+  const applyReport = async (next: VersionReportType) => {
+    setReport(next)
+    setCurrentVersion(next.currentVersion)
+    await loadVersions()
+    onChanged?.(next)
+  }
+
+  const changeVersion = async (version: number) => {
+    setError(null)
+    setBusy('Switching...')
+    const data = await SetVersion(fileId, version)
+    setBusy(null)
+
+    if (!data?.status) {
+      setError(data?.message || 'Could not switch the version')
+      return
+    }
+    await applyReport(data)
+  }
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setError(null)
+    setReport(null)
+    setPendingFile(file)
+  }
+
+  const upload = async (file: File, parseOptions: StoredParseOptions) => {
+    setPendingFile(null)
+    setBusy('Uploading 0%')
+
+    const result = await uploadFileInChunks(file, {
+      category: 'version',
+      description: 'version',
+      targetFileId: fileId,
+      targetMode: 'version',
+      parseOptions,
+      onProgress: ({ percent }) => setBusy(`Uploading ${percent}%`),
+    })
+
+    setBusy(null)
+
+    if (!result.version) {
+      setError(result.errors?.root?.[0] || 'Could not add the version')
+      return
+    }
+
+    await applyReport(result.version)
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <div className="bg-[#2a2a2a] rounded-md py-1 px-2 text-xs font-medium flex items-center gap-1.5">
+          <History className="h-3.5 w-3.5" />
+          <select
+            value={currentVersion}
+            disabled={busy !== null}
+            onChange={(e) => changeVersion(Number(e.target.value))}
+            className="bg-transparent outline-none"
+          >
+            {versions.length === 0 && <option value={1}>Version 1</option>}
+            {versions.map(version => (
+              <option key={version.version_id} value={version.version_number} className="bg-[#2a2a2a]">
+                Version {version.version_number} · {version.original_name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_FILES}
+          className="hidden"
+          onChange={handleFile}
+        />
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={busy !== null || pendingFile !== null}
+          className="bg-[#2a2a2a] hover:bg-[#3a3a3a] rounded-md py-1.5 px-3 text-xs font-medium flex items-center gap-1.5 transition-colors disabled:opacity-50"
+        >
+          <Upload className="h-3.5 w-3.5" />
+          {busy || 'New Version'}
+        </button>
+      </div>
+      {pendingFile && (
+        <SchemaDriftReview
+          fileId={fileId}
+          file={pendingFile}
+          mode="version"
+          onContinue={(parseOptions) => upload(pendingFile, parseOptions)}
+          onCancel={() => setPendingFile(null)}
+        />
+      )}
+      {report && describeReport(report).map((line, index) => (
+        <span key={index} className={`text-xs ${index === 0 ? 'text-gray-400' : 'text-[#E8920E]'}`}>{line}</span>
+      ))}
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  )
+}
+
+export default VersionSelector
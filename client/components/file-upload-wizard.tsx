@@ -4,8 +4,15 @@
  * Used in: Project creation and data import flows
  * Features:
  * - CSV/Excel file upload with drag-and-drop
- * - Automatic column type detection
+ * - Sheet picker for multi-sheet Excel workbooks
+ * - JSON / NDJSON import with configurable flattening of nested objects
+ * - Character encoding detection with manual override
+ * - Header row detection with skip-top/skip-bottom rows and multi-row headers
+ * - Number format choice for locale-formatted numbers ("1.234,56")
+ * - Upload progress bar for chunked uploads
+ * - Column type inference over the whole file in a Web Worker, with confidence and counterexamples
  * - Column schema configuration
+ * - Saved schema templates applied by column name, with manual mapping of unmatched columns
  * - Data preview
  * - Project metadata collection
  */
@@ -30,14 +37,43 @@ import {
   FileUp,
   Info,
   Download,
+  LayoutTemplate,
 } from "lucide-react"
-import { parseCSVFile, detectColumnTypes } from "@/utils/file-parsers"
+import {
+  parseCSVFile,
+  parseExcelFile,
+  parseJSONFile,
+  isExcelFile,
+  isJSONFile,
+  detectColumnTypes,
+  detectCSVDialect,
+  detectEncoding,
+  detectJSONFormat,
+  detectCSVLayout,
+  isDefaultTableLayout,
+  CSVDialect,
+  ExcelSheetSummary,
+  JSONParseOptions,
+  TableLayout,
+  MAX_HEADER_ROWS,
+} from "@/utils/file-parsers"
+import { ColumnInference, inferRequired } from "@/utils/type-inference"
+import { inferDateFormat } from "@/utils/date-format"
+import { NumberFormat, NUMBER_LOCALE_OPTIONS, numberFormatForLocale } from "@/utils/number-format"
+import type { TypeInferenceRequest, TypeInferenceResponse } from "@/utils/type-inference.worker"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import TypeInferenceDetails, { formatShare } from "@/components/dashboardUi/TypeInferenceDetails"
+import { columnNameSimilarity, matchTemplateColumns, TemplateMatchResult } from "@/utils/schema-templates"
+import { transformSchemaToColumnSettings } from "@/utils/schema-transformers"
+import { GetTemplates } from "@/utils/templateActions"
+import { BUILT_IN_DATA_TYPES } from "@/utils/data-types"
+import { NumberFormatSetting, SchemaDefinition, SchemaTemplateType } from "@/utils/types"
 
 interface FileUploadWizardProps {
   isOpen: boolean
   onClose: () => void
   onComplete: (projectData: any) => void
+  uploadProgress?: number | null
 }
 
 type FileWithPreview = File & {
@@ -53,21 +89,249 @@ type ColumnSchema = {
   numericSign?: string
   precision?: string
   uniqueness?: string
+  requirement?: string
   dateFormat?: string
   dateSeparator?: string
   description?: string
+  numberFormat?: NumberFormatSetting | null
+  pattern?: string | null
+  minLength?: number | null
+  maxLength?: number | null
+  allowedValues?: string[] | null
+  min?: number | string | null
+  max?: number | string | null
+  inference?: ColumnInference
+}
+
+/**
+ * Template applied in the schema step, with the columns the user mapped by hand
+ */
+type AppliedTemplate = {
+  schema: SchemaDefinition
+  mappings: Record<string, string>
 }
 
 type DataRow = Record<string, any>
 
+/**
+ * Delimiter choices offered when the detected CSV dialect needs correcting
+ */
+const DELIMITER_OPTIONS = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+]
+
+const QUOTE_OPTIONS = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+]
+
+const ENCODING_OPTIONS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'iso-8859-15', label: 'ISO-8859-15 (Latin-9)' },
+]
+
+/**
+ * Table layout settings shown for CSV and Excel files
+ */
+const LAYOUT_FIELDS: { field: keyof TableLayout, label: string, min: number, max?: number }[] = [
+  { field: 'skipTop', label: 'Skip Rows at Top', min: 0 },
+  { field: 'headerRows', label: 'Header Rows', min: 1, max: MAX_HEADER_ROWS },
+  { field: 'skipBottom', label: 'Skip Rows at Bottom', min: 0 },
+]
+
+/**
+ * Number formats for CSV and Excel text; plain numbers are read without thousands separators
+ */
+const NUMBER_FORMAT_OPTIONS = [
+  { value: '', label: 'Plain (1234.56)' },
+  ...NUMBER_LOCALE_OPTIONS,
+]
+
+const JSON_FORMAT_OPTIONS = [
+  { value: 'json', label: 'JSON document' },
+  { value: 'ndjson', label: 'Newline-delimited (NDJSON)' },
+]
+
+const FLATTEN_DEPTH_OPTIONS = [
+  { value: 'all', label: 'All levels' },
+  { value: '0', label: 'Keep nested objects' },
+  { value: '1', label: '1 level' },
+  { value: '2', label: '2 levels' },
+  { value: '3', label: '3 levels' },
+]
+
+/**
+ * Day, month and year orders offered for date columns, written with the column's separator
+ */
+const DATE_ORDERS = [
+  ['MM', 'DD', 'YYYY'],
+  ['DD', 'MM', 'YYYY'],
+  ['YYYY', 'MM', 'DD'],
+]
+
+/**
+ * Formats a preview cell, showing nested JSON values as JSON text
+ * @param value - Cell value
+ */
+function formatCellValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Builds the number format of the chosen locale, or none for plain numbers
+ * @param locale - Locale chosen in the wizard, empty for plain numbers
+ */
+function toNumberFormat(locale: string): NumberFormat | undefined {
+  return locale ? numberFormatForLocale(locale) : undefined
+}
+
+/**
+ * Infers the column types of the whole file in a Web Worker, so the wizard stays responsive
+ * @param request - File and the parse settings chosen in the wizard
+ * @returns The inferred type of every column, or an error message
+ */
+function inferTypesInWorker(request: TypeInferenceRequest): Promise<TypeInferenceResponse> {
+  return new Promise(resolve => {
+    const worker = new Worker(new URL("../utils/type-inference.worker.ts", import.meta.url))
+    worker.onmessage = (event: MessageEvent<TypeInferenceResponse>) => {
+      resolve(event.data)
+      worker.terminate()
+    }
+    worker.onerror = (event) => {
+      resolve({ error: event.message || "Could not infer the column types" })
+      worker.terminate()
+    }
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * Generates column definitions from preview rows, or from the whole-file inference once it is ready
+ * @param data - Parsed preview rows
+ * @param inference - Types inferred from every row of the file
+ * @returns Column schema with detected types, sign, precision, date format and allowed values
+ */
+function generateColumns(data: DataRow[], inference?: Record<string, ColumnInference>): ColumnSchema[] {
+  const columnTypes = inference
+    ? Object.fromEntries(Object.entries(inference).map(([colName, result]) => [colName, result.dataType]))
+    : detectColumnTypes(data)
+
+  return Object.keys(columnTypes).map(colName => {
+    const dataType = columnTypes[colName]
+    const columnInference = inference?.[colName]
+    
+    // Configure default properties based on data type
+    const column: ColumnSchema = { 
+      name: colName, 
+      dataType,
+      // Mostly empty columns start out optional, so their empty values are not reported
+      ...(columnInference ? { inference: columnInference, requirement: inferRequired(columnInference) ? 'Required' : 'Optional' } : {}),
+    }
+    
+    // Add data-type-specific properties
+    if (dataType === 'Integer' || dataType === 'Float') {
+      // Check if all values are positive
+      const allPositive = columnInference?.numbers
+        ? columnInference.numbers.min >= 0
+        : data.every(row => typeof row[colName] === 'number' && row[colName] >= 0)
+      if (allPositive) {
+        column.numericSign = 'Positive Only'
+      }
+      
+      // For float values, detect precision
+      if (dataType === 'Float') {
+        const maxDecimals = columnInference?.numbers?.maxDecimals ?? data.reduce((max, row) => {
+          if (typeof row[colName] !== 'number') return max
+          const decimal = row[colName].toString().split('.')[1]
+          return Math.max(max, decimal ? decimal.length : 0)
+        }, 0)
+        
+        if (maxDecimals > 0) {
+          column.precision = `${maxDecimals} Decimals`
+        }
+      }
+    }
+    
+    // For dates, take the format settled by every value of the column (MM/DD or DD/MM)
+    if (dataType === 'Date') {
+      const dateFormat = columnInference?.dateFormat ?? inferDateFormat(data.map(row => row[colName]))
+      column.dateFormat = dateFormat.format
+      column.dateSeparator = dateFormat.separator
+    }
+
+    // Text columns with a few repeated values start out limited to the values seen
+    if (dataType === 'String' && columnInference?.categories) {
+      column.allowedValues = columnInference.categories
+    }
+    
+    return column
+  })
+}
+
+/**
+ * Applies a schema template to the columns of the file
+ * Matched columns take the template's settings and keep their own name and inference;
+ * columns mapped by hand are matched to the template column the user picked.
+ * @param columns - Columns generated from the file
+ * @param template - Template schema and the manual mappings
+ * @returns Columns with the template settings, and which columns were matched
+ */
+function applyTemplateToColumns(columns: ColumnSchema[], template: AppliedTemplate): { columns: ColumnSchema[], match: TemplateMatchResult } {
+  const names = columns.map(column => column.name)
+  const match = matchTemplateColumns(names, template.schema)
+
+  Object.entries(template.mappings).forEach(([column, templateColumn]) => {
+    if (!match.unmatchedColumns.includes(column) || !match.unusedTemplateColumns.includes(templateColumn)) return
+    match.matches.push({ column, templateColumn, score: Number(columnNameSimilarity(column, templateColumn).toFixed(2)), exact: false })
+    match.unmatchedColumns = match.unmatchedColumns.filter(name => name !== column)
+    match.unusedTemplateColumns = match.unusedTemplateColumns.filter(name => name !== templateColumn)
+  })
+  match.matches.sort((a, b) => names.indexOf(a.column) - names.indexOf(b.column))
+
+  return {
+    columns: columns.map(column => {
+      const columnMatch = match.matches.find(entry => entry.column === column.name)
+      return columnMatch
+        ? { ...column, ...transformSchemaToColumnSettings(template.schema[columnMatch.templateColumn]) }
+        : column
+    }),
+    match,
+  }
+}
+
+/**
+ * Takes the whole-file inference for the columns the user has not edited since they were generated
+ * A column counts as edited when it differs from the generated column of the same name,
+ * so edited, added and renamed columns keep their settings and removed columns stay removed.
+ * @param current - Columns shown in the schema step
+ * @param generated - Columns as they were last generated from the file
+ * @param inferred - Columns generated from the whole-file inference
+ * @returns Current columns with the untouched ones replaced by their inferred settings
+ */
+function mergeInferredColumns(current: ColumnSchema[], generated: ColumnSchema[], inferred: ColumnSchema[]): ColumnSchema[] {
+  return current.map(column => {
+    const generatedColumn = generated.find(entry => entry.name === column.name)
+    const isUntouched = generatedColumn !== undefined && JSON.stringify(generatedColumn) === JSON.stringify(column)
+    return isUntouched ? inferred.find(entry => entry.name === column.name) ?? column : column
+  })
+}
+
 /**
  * Multi-step file upload wizard component
  * Handles file upload, data preview, and column configuration
  * @param isOpen - Controls wizard visibility
  * @param onClose - Callback when wizard is closed
  * @param onComplete - Callback when upload is complete
+ * @param uploadProgress - Percentage of the file uploaded so far, null when no upload is running
  */
-export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWizardProps) {
+export function FileUploadWizard({ isOpen, onClose, onComplete, uploadProgress = null }: FileUploadWizardProps) {
   const [step, setStep] = useState(1)
   const [files, setFiles] = useState<FileWithPreview[]>([])
   const [fileData, setFileData] = useState<DataRow[]>([])
@@ -79,6 +343,25 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
   const [category, setCategory] = useState("")
   const [expandedColumns, setExpandedColumns] = useState<number[]>([])
   const [isParsingFile, setIsParsingFile] = useState(false)
+  const [csvDialect, setCsvDialect] = useState<CSVDialect | null>(null)
+  const [encoding, setEncoding] = useState<string | null>(null)
+  const [jsonOptions, setJsonOptions] = useState<JSONParseOptions | null>(null)
+  const [excelSheets, setExcelSheets] = useState<ExcelSheetSummary[]>([])
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([])
+  const [previewSheet, setPreviewSheet] = useState<string | null>(null)
+  const [layout, setLayout] = useState<TableLayout | null>(null)
+  const [detectedLayout, setDetectedLayout] = useState<TableLayout | null>(null)
+  const [numberLocale, setNumberLocale] = useState("")
+  const [isInferring, setIsInferring] = useState(false)
+  const [templates, setTemplates] = useState<SchemaTemplateType[] | null>(null)
+  const [templateId, setTemplateId] = useState("")
+  const [templateMatch, setTemplateMatch] = useState<TemplateMatchResult | null>(null)
+  // Template in use, applied again whenever the columns are regenerated from the file
+  const appliedTemplateRef = useRef<AppliedTemplate | null>(null)
+  // Counts inference runs, so a result is dropped when the settings changed while it was running
+  const inferenceRunRef = useRef(0)
+  // Columns as last generated from the file, before any template, to tell which ones the user edited before the inference finished
+  const generatedColumnsRef = useRef<ColumnSchema[]>([])
 
   /**
    * Returns color class based on data type for UI styling
@@ -94,10 +377,16 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
         return 'bg-emerald-900/30 text-emerald-300'
       case 'Boolean':
         return 'bg-purple-900/30 text-purple-300'
+      case 'Email':
+      case 'UUID':
+        return 'bg-cyan-900/30 text-cyan-300'
       case 'Date':
         return 'bg-orange-900/30 text-orange-300'
       case 'DateTime':
         return 'bg-yellow-900/30 text-yellow-300'
+      case 'Array':
+      case 'Object':
+        return 'bg-pink-900/30 text-pink-300'
       default:
         return 'bg-gray-900/30 text-gray-300'
     }
@@ -144,10 +433,258 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
     }
   }, [isOpen, onClose])
 
+  /**
+   * Shows columns generated from the file, with the template in use applied to them
+   * @param generatedColumns - Columns generated from the preview or the whole-file inference
+   * @param keepEdits - Keep the columns the user edited since the columns were last generated
+   * @returns The columns shown
+   */
+  const showGeneratedColumns = useCallback((generatedColumns: ColumnSchema[], keepEdits = false) => {
+    const template = appliedTemplateRef.current
+    const applied = template ? applyTemplateToColumns(generatedColumns, template) : null
+    const shownColumns = applied ? applied.columns : generatedColumns
+    // Compared with the template in use now, so picking a template does not count as an edit
+    const previousColumns = template ? applyTemplateToColumns(generatedColumnsRef.current, template).columns : generatedColumnsRef.current
+    generatedColumnsRef.current = generatedColumns
+
+    setColumns(current => (keepEdits ? mergeInferredColumns(current, previousColumns, shownColumns) : shownColumns))
+    if (applied) setTemplateMatch(applied.match)
+    return shownColumns
+  }, [])
+
+  /**
+   * Replaces the preview-based columns with the types inferred from every row of the file
+   * Columns the user edited while the inference was running keep their settings;
+   * the preview columns stay in place if the inference fails
+   * @param request - File and parse settings
+   * @param previewData - Preview rows the columns were generated from
+   */
+  const inferWholeFile = useCallback(async (request: TypeInferenceRequest, previewData: DataRow[]) => {
+    const run = ++inferenceRunRef.current
+    setIsInferring(true)
+    const response = await inferTypesInWorker(request)
+    if (run !== inferenceRunRef.current) return
+
+    setIsInferring(false)
+    if ("error" in response) {
+      console.error("Error inferring column types:", response.error)
+      return
+    }
+    showGeneratedColumns(generateColumns(previewData, response.inference), true)
+  }, [showGeneratedColumns])
+
+  /**
+   * Parses the first rows of a file with the given dialect and regenerates the columns
+   * Only the start of the file is read, so large files do not block the preview;
+   * the whole file is then read in a worker to infer the column types
+   * @param file - File to preview
+   * @param dialect - Delimiter and quote character to split with
+   * @param fileEncoding - Character encoding to decode with
+   * @param tableLayout - Skipped rows and header rows
+   * @param numberFormat - Separators to read numbers with, if not plain
+   * @returns Generated column definitions
+   */
+  const loadPreview = useCallback(async (file: File, dialect: CSVDialect, fileEncoding: string, tableLayout: TableLayout, numberFormat?: NumberFormat) => {
+    const data = await parseCSVFile(file, 10, { dialect, encoding: fileEncoding, layout: tableLayout, numberFormat }) // Get first 10 rows for preview
+    setFileData(data)
+    
+    const generatedColumns = showGeneratedColumns(generateColumns(data))
+    inferWholeFile({ file, kind: "csv", dialect, encoding: fileEncoding, layout: tableLayout, numberFormat }, data)
+    return generatedColumns
+  }, [inferWholeFile, showGeneratedColumns])
+
+  /**
+   * Parses the first records of a JSON file and regenerates the columns
+   * @param file - File to preview
+   * @param options - JSON format and flatten depth
+   * @param fileEncoding - Character encoding to decode with
+   * @returns Generated column definitions
+   */
+  const loadJSONPreview = useCallback(async (file: File, options: JSONParseOptions, fileEncoding: string) => {
+    const data = await parseJSONFile(file, 10, { ...options, encoding: fileEncoding }) // Get first 10 rows for preview
+    setFileData(data)
+
+    const generatedColumns = showGeneratedColumns(generateColumns(data))
+    inferWholeFile({ file, kind: "json", json: options, encoding: fileEncoding }, data)
+    return generatedColumns
+  }, [inferWholeFile, showGeneratedColumns])
+
+  /**
+   * Builds the preview and columns from the selected sheets
+   * Rows of several sheets are combined in workbook order, as the server does
+   * @param file - Workbook, read again in full to infer the column types
+   * @param sheets - All sheets of the workbook
+   * @param sheetNames - Names of the selected sheets
+   * @param sheetLayout - Skipped rows and header rows applied to every sheet
+   * @param numberFormat - Separators to read numbers stored as text with, if not plain
+   * @returns Generated column definitions
+   */
+  const applySheetSelection = useCallback((file: File, sheets: ExcelSheetSummary[], sheetNames: string[], sheetLayout: TableLayout | null, numberFormat?: NumberFormat) => {
+    const data = sheets
+      .filter(sheet => sheetNames.includes(sheet.name))
+      .flatMap(sheet => sheet.preview)
+    setFileData(data.slice(0, 10))
+
+    const generatedColumns = showGeneratedColumns(generateColumns(data))
+    inferWholeFile({ file, kind: "excel", sheets: sheetNames, layout: sheetLayout ?? undefined, numberFormat }, data)
+    return generatedColumns
+  }, [inferWholeFile, showGeneratedColumns])
+
+  /**
+   * Adds or removes a sheet from the selection, keeping at least one selected
+   * @param sheetName - Name of the sheet to toggle
+   */
+  const toggleSheet = (sheetName: string) => {
+    const isSelected = selectedSheets.includes(sheetName)
+    if (isSelected && selectedSheets.length === 1) return
+
+    const nextSelection = excelSheets
+      .map(sheet => sheet.name)
+      .filter(name => (name === sheetName ? !isSelected : selectedSheets.includes(name)))
+    setSelectedSheets(nextSelection)
+    applySheetSelection(files[0], excelSheets, nextSelection, layout, toNumberFormat(numberLocale))
+  }
+
+  /**
+   * Re-parses the preview after the user corrects the detected dialect
+   * @param field - Dialect setting to change
+   * @param value - New delimiter or quote character
+   */
+  const changeDialect = async (field: keyof CSVDialect, value: string) => {
+    if (!csvDialect || !encoding || !layout || !files[0]) return
+
+    const dialect = { ...csvDialect, [field]: value }
+    setCsvDialect(dialect)
+    setIsParsingFile(true)
+    try {
+      await loadPreview(files[0], dialect, encoding, layout, toNumberFormat(numberLocale))
+    } catch (error) {
+      console.error("Error parsing file:", error)
+      alert(`Error parsing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsParsingFile(false)
+    }
+  }
+
+  /**
+   * Re-parses the preview after the user changes the JSON format or flatten depth
+   * @param field - JSON setting to change
+   * @param value - Selected option value
+   */
+  const changeJSONOption = async (field: keyof JSONParseOptions, value: string) => {
+    if (!jsonOptions || !encoding || !files[0]) return
+
+    const options: JSONParseOptions = field === "format"
+      ? { ...jsonOptions, format: value as JSONParseOptions["format"] }
+      : { ...jsonOptions, flattenDepth: value === "all" ? null : Number(value) }
+    setJsonOptions(options)
+    setIsParsingFile(true)
+    try {
+      await loadJSONPreview(files[0], options, encoding)
+    } catch (error) {
+      console.error("Error parsing file:", error)
+      alert(`Error parsing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsParsingFile(false)
+    }
+  }
+
+  /**
+   * Re-parses the preview after the user changes the skipped rows or header rows
+   * Excel sheets are re-read, as the layout applies to every sheet
+   * @param nextLayout - New table layout
+   */
+  const changeLayout = async (nextLayout: TableLayout) => {
+    if (!files[0]) return
+
+    setLayout(nextLayout)
+    setIsParsingFile(true)
+    try {
+      if (excelSheets.length > 0) {
+        const numberFormat = toNumberFormat(numberLocale)
+        const sheets = await parseExcelFile(files[0], 10, nextLayout, numberFormat)
+        setExcelSheets(sheets)
+        applySheetSelection(files[0], sheets, selectedSheets, nextLayout, numberFormat)
+      } else if (csvDialect && encoding) {
+        await loadPreview(files[0], csvDialect, encoding, nextLayout, toNumberFormat(numberLocale))
+      }
+    } catch (error) {
+      console.error("Error parsing file:", error)
+      alert(`Error parsing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsParsingFile(false)
+    }
+  }
+
+  /**
+   * Updates one layout count from its input, ignoring values outside its range
+   * @param field - Layout setting to change
+   * @param value - Input value
+   */
+  const changeLayoutField = (field: keyof TableLayout, value: string) => {
+    if (!layout) return
+
+    const settings = LAYOUT_FIELDS.find(option => option.field === field)
+    const count = Number(value)
+    if (!settings || !Number.isInteger(count) || count < settings.min || (settings.max && count > settings.max)) return
+
+    changeLayout({ ...layout, [field]: count })
+  }
+
+  /**
+   * Re-parses the preview after the user corrects the detected encoding
+   * @param value - New encoding label
+   */
+  const changeEncoding = async (value: string) => {
+    if (!files[0]) return
+
+    setEncoding(value)
+    setIsParsingFile(true)
+    try {
+      if (csvDialect && layout) {
+        await loadPreview(files[0], csvDialect, value, layout, toNumberFormat(numberLocale))
+      } else if (jsonOptions) {
+        await loadJSONPreview(files[0], jsonOptions, value)
+      }
+    } catch (error) {
+      console.error("Error parsing file:", error)
+      alert(`Error parsing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsParsingFile(false)
+    }
+  }
+
+  /**
+   * Re-parses the preview after the user picks how numbers are written in the file
+   * @param value - Locale of the number format, empty for plain numbers
+   */
+  const changeNumberLocale = async (value: string) => {
+    if (!files[0] || !layout) return
+
+    setNumberLocale(value)
+    setIsParsingFile(true)
+    try {
+      const numberFormat = toNumberFormat(value)
+      if (excelSheets.length > 0) {
+        const sheets = await parseExcelFile(files[0], 10, layout, numberFormat)
+        setExcelSheets(sheets)
+        applySheetSelection(files[0], sheets, selectedSheets, layout, numberFormat)
+      } else if (csvDialect && encoding) {
+        await loadPreview(files[0], csvDialect, encoding, layout, numberFormat)
+      }
+    } catch (error) {
+      console.error("Error parsing file:", error)
+      alert(`Error parsing file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsParsingFile(false)
+    }
+  }
+
   /**
    * Handles file drop and initial processing
    * - Creates file preview
    * - Extracts project name
+   * - Detects the encoding and CSV dialect
    * - Parses file data
    * - Detects column types
    * - Configures column schema
@@ -165,6 +702,7 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
           preview: URL.createObjectURL(file),
         })
         setFiles([fileWithPreview])
+        setNumberLocale("")
         
         // Try to extract a project name from the file
         if (!projectName) {
@@ -173,80 +711,54 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
           setProjectName(nameWithoutExtension)
         }
         
-        // Parse file to get actual data for preview
-        const data = await parseCSVFile(file, 10) // Get first 10 rows for preview
-        setFileData(data)
-        
-        // Generate column definitions based on the data
-        const columnTypes = detectColumnTypes(data)
-        
-        const generatedColumns: ColumnSchema[] = Object.keys(columnTypes).map(colName => {
-          const dataType = columnTypes[colName]
-          
-          // Configure default properties based on data type
-          const column: ColumnSchema = { 
-            name: colName, 
-            dataType 
+        let generatedColumns: ColumnSchema[]
+        if (isExcelFile(file)) {
+          // List every sheet and start with the first one selected, using the layout detected on it
+          let sheets = await parseExcelFile(file)
+          if (!sheets.length) {
+            throw new Error("The workbook does not contain any sheets")
           }
-          
-          // Add data-type-specific properties
-          if (dataType === 'Integer' || dataType === 'Float') {
-            // Check if all values are positive
-            const allPositive = data.every(row => typeof row[colName] === 'number' && row[colName] >= 0)
-            if (allPositive) {
-              column.numericSign = 'Positive Only'
-            }
-            
-            // For float values, detect precision
-            if (dataType === 'Float') {
-              const maxDecimals = data.reduce((max, row) => {
-                if (typeof row[colName] !== 'number') return max
-                const decimal = row[colName].toString().split('.')[1]
-                return Math.max(max, decimal ? decimal.length : 0)
-              }, 0)
-              
-              if (maxDecimals > 0) {
-                column.precision = `${maxDecimals} Decimals`
-              }
-            }
+          const sheetLayout = sheets[0].detectedLayout
+          if (!isDefaultTableLayout(sheetLayout)) {
+            sheets = await parseExcelFile(file, 10, sheetLayout)
           }
-          
-          // For dates, try to detect format
-          if (dataType === 'Date') {
-            // Get the first date value
-            const dateValue = data.find(row => row[colName] !== null)?.[colName]
-            if (dateValue) {
-              // Simple format detection (this is very basic)
-              if (dateValue.includes('/')) {
-                column.dateSeparator = '/'
-                
-                const parts = dateValue.split('/')
-                if (parts.length === 3) {
-                  if (parts[0].length === 4) {
-                    column.dateFormat = 'YYYY/MM/DD'
-                  } else if (parts[2].length === 4) {
-                    column.dateFormat = 'MM/DD/YYYY'
-                  }
-                }
-              } else if (dateValue.includes('-')) {
-                column.dateSeparator = '-'
-                
-                const parts = dateValue.split('-')
-                if (parts.length === 3) {
-                  if (parts[0].length === 4) {
-                    column.dateFormat = 'YYYY-MM-DD'
-                  } else if (parts[2].length === 4) {
-                    column.dateFormat = 'MM-DD-YYYY'
-                  }
-                }
-              }
-            }
-          }
-          
-          return column
-        })
-        
-        setColumns(generatedColumns)
+          setLayout(sheetLayout)
+          setDetectedLayout(sheetLayout)
+          setCsvDialect(null)
+          setJsonOptions(null)
+          setEncoding(null)
+          setExcelSheets(sheets)
+          setSelectedSheets([sheets[0].name])
+          setPreviewSheet(sheets[0].name)
+          generatedColumns = applySheetSelection(file, sheets, [sheets[0].name], sheetLayout)
+        } else if (isJSONFile(file)) {
+          // Detect JSON vs NDJSON and flatten every nested level by default
+          const fileEncoding = await detectEncoding(file)
+          const options: JSONParseOptions = { format: await detectJSONFormat(file, fileEncoding), flattenDepth: null }
+          setLayout(null)
+          setDetectedLayout(null)
+          setCsvDialect(null)
+          setJsonOptions(options)
+          setEncoding(fileEncoding)
+          setExcelSheets([])
+          setSelectedSheets([])
+          setPreviewSheet(null)
+          generatedColumns = await loadJSONPreview(file, options, fileEncoding)
+        } else {
+          // Detect the encoding, delimiter, quote character and header row, then parse the first rows for preview
+          const fileEncoding = await detectEncoding(file)
+          const dialect = await detectCSVDialect(file, fileEncoding)
+          const csvLayout = await detectCSVLayout(file, dialect, fileEncoding)
+          setLayout(csvLayout)
+          setDetectedLayout(csvLayout)
+          setCsvDialect(dialect)
+          setJsonOptions(null)
+          setEncoding(fileEncoding)
+          setExcelSheets([])
+          setSelectedSheets([])
+          setPreviewSheet(null)
+          generatedColumns = await loadPreview(file, dialect, fileEncoding, csvLayout)
+        }
         
         // If this is a new file upload, automatically expand the first 2 columns
         if (expandedColumns.length === 0 && generatedColumns.length > 0) {
@@ -263,7 +775,7 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
         setIsParsingFile(false)
       }
     },
-    [projectName, expandedColumns],
+    [projectName, expandedColumns, loadPreview, loadJSONPreview, applySheetSelection],
   )
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -272,6 +784,8 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
       "text/csv": [".csv"],
       "application/vnd.ms-excel": [".xls"],
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+      "application/json": [".json"],
+      "application/x-ndjson": [".ndjson", ".jsonl"],
     },
     maxFiles: 1,
   })
@@ -313,6 +827,66 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
     setColumns(columns.map((col, i) => (i === index ? { ...col, [field]: value } : col)))
   }
 
+  /**
+   * Changes a date column's separator, writing its format with the same separator
+   * @param index - Index of the column
+   * @param separator - New date separator
+   */
+  const updateDateSeparator = (index: number, separator: string) => {
+    setColumns(columns.map((col, i) => (i === index
+      ? { ...col, dateSeparator: separator, dateFormat: (col.dateFormat || "MM/DD/YYYY").replace(/[-/.]/g, separator) }
+      : col)))
+  }
+
+  /**
+   * Loads the saved schema templates the first time the schema step is shown
+   */
+  useEffect(() => {
+    if (step !== 3 || templates !== null) return
+
+    GetTemplates().then(data => setTemplates(data?.status ? data.templates : []))
+  }, [step, templates])
+
+  /**
+   * Applies a saved template to the columns, or stops using one
+   * Unmatched columns are expanded so they can be mapped by hand.
+   * @param id - ID of the template, empty for none
+   */
+  const selectTemplate = (id: string) => {
+    setTemplateId(id)
+    const template = templates?.find(entry => entry.template_id === id)
+    if (!template) {
+      appliedTemplateRef.current = null
+      setTemplateMatch(null)
+      return
+    }
+
+    appliedTemplateRef.current = { schema: template.schema_definition, mappings: {} }
+    const applied = applyTemplateToColumns(columns, appliedTemplateRef.current)
+    setColumns(applied.columns)
+    setTemplateMatch(applied.match)
+    setExpandedColumns(applied.columns
+      .map((column, index) => (applied.match.unmatchedColumns.includes(column.name) ? index : -1))
+      .filter(index => index >= 0))
+  }
+
+  /**
+   * Maps a column the template did not match to one of its unused columns
+   * @param columnName - Column of the file
+   * @param templateColumn - Template column whose settings it takes
+   */
+  const mapTemplateColumn = (columnName: string, templateColumn: string) => {
+    if (!appliedTemplateRef.current || !templateColumn) return
+
+    appliedTemplateRef.current = {
+      ...appliedTemplateRef.current,
+      mappings: { ...appliedTemplateRef.current.mappings, [columnName]: templateColumn },
+    }
+    const applied = applyTemplateToColumns(columns, appliedTemplateRef.current)
+    setColumns(applied.columns)
+    setTemplateMatch(applied.match)
+  }
+
   /**
    * Handles the final submission of the file upload wizard
    * - Validates input
@@ -334,6 +908,14 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
         category,
         columns,
         file: files[0],
+        parseOptions: {
+          ...(encoding ? { encoding } : {}),
+          ...(csvDialect ? { dialect: csvDialect } : {}),
+          ...(excelSheets.length > 0 ? { sheets: selectedSheets } : {}),
+          ...(jsonOptions ? { json: jsonOptions } : {}),
+          ...(layout && !isDefaultTableLayout(layout) ? { layout } : {}),
+          ...(numberLocale ? { numberFormat: { locale: numberLocale } } : {}),
+        },
       }
       onComplete(projectData)
     } catch (error) {
@@ -472,7 +1054,7 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                               ? "Drop the file here" 
                               : "Drag & drop your file here"}
                         </p>
-                        <p className="text-xs text-gray-500">Supports CSV, XLS, XLSX</p>
+                        <p className="text-xs text-gray-500">Supports CSV, XLS, XLSX, JSON, NDJSON</p>
                       </div>
                     </div>
                   </div>
@@ -495,6 +1077,17 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                             onClick={() => {
                               setFiles([])
                               setFileData([])
+                              setCsvDialect(null)
+                              setJsonOptions(null)
+                              setEncoding(null)
+                              setExcelSheets([])
+                              setSelectedSheets([])
+                              setPreviewSheet(null)
+                              setLayout(null)
+                              setDetectedLayout(null)
+                              setNumberLocale("")
+                              inferenceRunRef.current++
+                              setIsInferring(false)
                             }}
                             className="text-gray-400 hover:text-red-400 transition-colors"
                           >
@@ -502,6 +1095,197 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                           </button>
                         </div>
                       ))}
+                      {encoding && (
+                        <div className="p-2 border-t border-[#2a2a2a] space-y-1">
+                          <label className="block text-xs text-gray-400">Encoding</label>
+                          <select
+                            value={encoding}
+                            onChange={(e) => changeEncoding(e.target.value)}
+                            disabled={isParsingFile}
+                            className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                          >
+                            {ENCODING_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {csvDialect && (
+                        <div className="grid grid-cols-2 gap-2 p-2 border-t border-[#2a2a2a]">
+                          <div className="space-y-1">
+                            <label className="block text-xs text-gray-400">Delimiter</label>
+                            <select
+                              value={csvDialect.delimiter}
+                              onChange={(e) => changeDialect("delimiter", e.target.value)}
+                              disabled={isParsingFile}
+                              className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                            >
+                              {DELIMITER_OPTIONS.map((option) => (
+                                <option key={option.label} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="space-y-1">
+                            <label className="block text-xs text-gray-400">Quote Character</label>
+                            <select
+                              value={csvDialect.quoteChar}
+                              onChange={(e) => changeDialect("quoteChar", e.target.value)}
+                              disabled={isParsingFile}
+                              className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                            >
+                              {QUOTE_OPTIONS.map((option) => (
+                                <option key={option.label} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      )}
+                      {jsonOptions && (
+                        <div className="grid grid-cols-2 gap-2 p-2 border-t border-[#2a2a2a]">
+                          <div className="space-y-1">
+                            <label className="block text-xs text-gray-400">Format</label>
+                            <select
+                              value={jsonOptions.format}
+                              onChange={(e) => changeJSONOption("format", e.target.value)}
+                              disabled={isParsingFile}
+                              className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                            >
+                              {JSON_FORMAT_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="space-y-1">
+                            <label className="block text-xs text-gray-400">Flatten Nested Objects</label>
+                            <select
+                              value={jsonOptions.flattenDepth === null || jsonOptions.flattenDepth === undefined ? "all" : String(jsonOptions.flattenDepth)}
+                              onChange={(e) => changeJSONOption("flattenDepth", e.target.value)}
+                              disabled={isParsingFile}
+                              className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                            >
+                              {FLATTEN_DEPTH_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      )}
+                      {layout && (
+                        <div className="p-2 border-t border-[#2a2a2a] space-y-1">
+                          <label className="block text-xs text-gray-400">Number Format</label>
+                          <select
+                            value={numberLocale}
+                            onChange={(e) => changeNumberLocale(e.target.value)}
+                            disabled={isParsingFile}
+                            className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                          >
+                            {NUMBER_FORMAT_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {layout && (
+                        <div className="p-2 border-t border-[#2a2a2a] space-y-2">
+                          <div className="grid grid-cols-3 gap-2">
+                            {LAYOUT_FIELDS.map(({ field, label, min, max }) => (
+                              <div key={field} className="space-y-1">
+                                <label className="block text-xs text-gray-400">{label}</label>
+                                <input
+                                  type="number"
+                                  min={min}
+                                  max={max}
+                                  value={layout[field]}
+                                  onChange={(e) => changeLayoutField(field, e.target.value)}
+                                  disabled={isParsingFile}
+                                  className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                          {detectedLayout && (
+                            <div className="flex items-center justify-between text-xs text-gray-500">
+                              <span>
+                                Detected header on row {detectedLayout.skipTop + 1}
+                                {detectedLayout.headerRows > 1 ? ` (${detectedLayout.headerRows} rows merged)` : ''}
+                                {detectedLayout.skipBottom > 0 ? `, ${detectedLayout.skipBottom} footer row${detectedLayout.skipBottom !== 1 ? 's' : ''}` : ''}
+                              </span>
+                              {(Object.keys(layout) as (keyof TableLayout)[]).some(key => layout[key] !== detectedLayout[key]) && (
+                                <button
+                                  onClick={() => changeLayout(detectedLayout)}
+                                  disabled={isParsingFile}
+                                  className="text-gray-400 hover:text-white transition-colors"
+                                >
+                                  Use detected
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {excelSheets.length > 0 && (
+                    <div className="rounded-md border border-[#2a2a2a] bg-[#1a1a1a] overflow-hidden">
+                      <div className="flex items-center justify-between p-2 border-b border-[#2a2a2a]">
+                        <h4 className="text-xs font-medium">Sheets</h4>
+                        <span className="text-xs text-gray-400">
+                          {selectedSheets.length} of {excelSheets.length} selected
+                        </span>
+                      </div>
+                      {excelSheets.map((sheet) => (
+                        <div key={sheet.name} className="border-b border-[#2a2a2a] last:border-0">
+                          <div className="flex items-center justify-between p-2">
+                            <label className="flex items-center space-x-2 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={selectedSheets.includes(sheet.name)}
+                                onChange={() => toggleSheet(sheet.name)}
+                                className="accent-gray-400"
+                              />
+                              <span className="text-xs font-medium">{sheet.name}</span>
+                              <span className="text-xs text-gray-500">
+                                {sheet.rowCount} row{sheet.rowCount !== 1 ? 's' : ''}
+                              </span>
+                            </label>
+                            <button
+                              onClick={() => setPreviewSheet(previewSheet === sheet.name ? null : sheet.name)}
+                              className="text-xs text-gray-400 hover:text-white transition-colors"
+                            >
+                              {previewSheet === sheet.name ? "Hide preview" : "Preview"}
+                            </button>
+                          </div>
+                          {previewSheet === sheet.name && (
+                            <div className="overflow-x-auto scrollbar-themed border-t border-[#2a2a2a]">
+                              {sheet.preview.length > 0 ? (
+                                <Table className="w-full">
+                                  <TableHeader>
+                                    <TableRow>
+                                      {Object.keys(sheet.preview[0]).map((column) => (
+                                        <TableHead key={column} className="whitespace-nowrap">{column}</TableHead>
+                                      ))}
+                                    </TableRow>
+                                  </TableHeader>
+                                  <TableBody>
+                                    {sheet.preview.slice(0, 5).map((row, rowIndex) => (
+                                      <TableRow key={rowIndex}>
+                                        {Object.keys(sheet.preview[0]).map((column) => (
+                                          <TableCell key={`${rowIndex}-${column}`} className="whitespace-nowrap">
+                                            {row[column] !== null ? formatCellValue(row[column]) : <i className="text-red-400">Null</i>}
+                                          </TableCell>
+                                        ))}
+                                      </TableRow>
+                                    ))}
+                                  </TableBody>
+                                </Table>
+                              ) : (
+                                <p className="p-2 text-xs text-gray-400">This sheet has no data rows</p>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ))}
                     </div>
                   )}
 
@@ -628,7 +1412,7 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                                   <TableRow key={rowIndex} className="hover:bg-[#1a1a1a] transition-colors">
                                     {Object.keys(fileData[0]).map((column) => (
                                       <TableCell key={`${rowIndex}-${column}`} className="whitespace-nowrap">
-                                        {row[column] !== null ? String(row[column]) : <i className="text-red-400">Null</i>}
+                                        {row[column] !== null ? formatCellValue(row[column]) : <i className="text-red-400">Null</i>}
                                       </TableCell>
                                     ))}
                                   </TableRow>
@@ -674,6 +1458,9 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                   <div>
                     <h3 className="text-xs font-medium">Schema Definition</h3>
                     <p className="text-xs text-gray-400 mt-0.5">Define the schema for your data columns</p>
+                    {isInferring && (
+                      <p className="text-xs text-gray-500 mt-0.5">Checking the types against every row of the file...</p>
+                    )}
                   </div>
                   <button
                     onClick={addColumn}
@@ -684,6 +1471,44 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                   </button>
                 </div>
 
+                {templates && templates.length > 0 && columns.length > 0 && (
+                  <div className="rounded-md border border-[#2a2a2a] bg-[#1a1a1a]/50 p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center space-x-2">
+                        <LayoutTemplate className="h-3.5 w-3.5 text-gray-300" />
+                        <label className="text-xs font-medium">Apply Template</label>
+                      </div>
+                      <select
+                        value={templateId}
+                        onChange={(e) => selectTemplate(e.target.value)}
+                        className="bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                      >
+                        <option value="">No template</option>
+                        {templates.map((template) => (
+                          <option key={template.template_id} value={template.template_id}>{template.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {templateMatch && (
+                      <div className="text-xs text-gray-400 space-y-1">
+                        <p>
+                          {templateMatch.matches.length} of {columns.length} columns matched
+                          {templateMatch.matches.some((match) => !match.exact) &&
+                            ` (${templateMatch.matches.filter((match) => !match.exact).length} by a similar name or by hand)`}
+                        </p>
+                        {templateMatch.unmatchedColumns.length > 0 && (
+                          <p className="text-orange-300">
+                            Not in the template: {templateMatch.unmatchedColumns.join(", ")}. Map them to a template column below or set them by hand.
+                          </p>
+                        )}
+                        {templateMatch.unusedTemplateColumns.length > 0 && (
+                          <p>Template columns not in this file: {templateMatch.unusedTemplateColumns.join(", ")}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   {columns.length === 0 ? (
                     <div className="rounded-md border border-[#2a2a2a] bg-[#1a1a1a]/50 p-4 text-center">
@@ -704,7 +1529,7 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                     <div className="space-y-2">
                       {/* Column Type Summary Stats */}
                       <div className="flex flex-wrap gap-2 mb-3">
-                        {['String', 'Integer', 'Float', 'Boolean', 'Date'].map((type) => {
+                        {['String', 'Integer', 'Float', 'Boolean', 'Email', 'UUID', 'Date', 'Array', 'Object'].map((type) => {
                           const count = columns.filter((col) => col.dataType === type).length;
                           if (count === 0) return null;
                           return (
@@ -728,6 +1553,17 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                               <span className={`text-xs px-1.5 py-0.5 rounded-full ${getTypeColor(column.dataType)}`}>
                                 {column.dataType}
                               </span>
+                              {column.inference && column.inference.dataType === column.dataType && column.inference.nonNull > 0 && (
+                                <span className="text-[10px] text-gray-400">{formatShare(column.inference.confidence)}</span>
+                              )}
+                              {templateMatch?.unmatchedColumns.includes(column.name) && (
+                                <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-orange-900/30 text-orange-300">Not in template</span>
+                              )}
+                              {templateMatch?.matches.some((match) => match.column === column.name && !match.exact) && (
+                                <span className="text-[10px] text-gray-400">
+                                  ≈ {templateMatch.matches.find((match) => match.column === column.name)?.templateColumn}
+                                </span>
+                              )}
                             </div>
                             <div className="flex items-center space-x-2">
                               <button
@@ -750,6 +1586,22 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                           {expandedColumns.includes(index) && (
                             <div className="p-2 border-t border-[#2a2a2a] bg-[#1a1a1a]">
                               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {templateMatch?.unmatchedColumns.includes(column.name) && templateMatch.unusedTemplateColumns.length > 0 && (
+                                  <div className="space-y-2 md:col-span-2">
+                                    <label className="block text-xs font-medium">Map to Template Column</label>
+                                    <select
+                                      value=""
+                                      onChange={(e) => mapTemplateColumn(column.name, e.target.value)}
+                                      className="w-full bg-[#1a1a1a] border border-orange-900/50 rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                                    >
+                                      <option value="">Choose a column of the template...</option>
+                                      {templateMatch.unusedTemplateColumns.map((templateColumn) => (
+                                        <option key={templateColumn} value={templateColumn}>{templateColumn}</option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                )}
+
                                 <div className="space-y-2">
                                   <label className="block text-xs font-medium">Column Name</label>
                                   <input
@@ -771,11 +1623,26 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                                     <option value="Integer">Integer</option>
                                     <option value="Float">Float</option>
                                     <option value="Boolean">Boolean</option>
+                                    <option value="Email">Email</option>
+                                    <option value="UUID">UUID</option>
                                     <option value="Date">Date</option>
                                     <option value="DateTime">DateTime</option>
+                                    <option value="Array">Array</option>
+                                    <option value="Object">Object</option>
+                                    <optgroup label="Domain types">
+                                      {BUILT_IN_DATA_TYPES.map((type) => (
+                                        <option key={type.name} value={type.name} title={type.description}>{type.name}</option>
+                                      ))}
+                                    </optgroup>
                                   </select>
                                 </div>
 
+                                {column.inference && (
+                                  <div className="md:col-span-2">
+                                    <TypeInferenceDetails inference={column.inference} />
+                                  </div>
+                                )}
+
                                 {(column.dataType === "Integer" || column.dataType === "Float") && (
                                   <>
                                     <div className="space-y-2">
@@ -819,12 +1686,10 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                                         onChange={(e) => updateColumn(index, "dateFormat", e.target.value)}
                                         className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
                                       >
-                                        <option value="MM/DD/YYYY">MM/DD/YYYY</option>
-                                        <option value="DD/MM/YYYY">DD/MM/YYYY</option>
-                                        <option value="YYYY/MM/DD">YYYY/MM/DD</option>
-                                        <option value="MM-DD-YYYY">MM-DD-YYYY</option>
-                                        <option value="DD-MM-YYYY">DD-MM-YYYY</option>
-                                        <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                                        {DATE_ORDERS.map((order) => {
+                                          const format = order.join(column.dateSeparator || "/")
+                                          return <option key={format} value={format}>{format}</option>
+                                        })}
                                       </select>
                                     </div>
 
@@ -832,7 +1697,7 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                                       <label className="block text-xs font-medium">Date Separator</label>
                                       <select
                                         value={column.dateSeparator || "/"}
-                                        onChange={(e) => updateColumn(index, "dateSeparator", e.target.value)}
+                                        onChange={(e) => updateDateSeparator(index, e.target.value)}
                                         className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
                                       >
                                         <option value="/">/</option>
@@ -855,6 +1720,18 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
                                   </select>
                                 </div>
 
+                                <div className="space-y-2">
+                                  <label className="block text-xs font-medium">Empty Values</label>
+                                  <select
+                                    value={column.requirement || "Required"}
+                                    onChange={(e) => updateColumn(index, "requirement", e.target.value)}
+                                    className="w-full bg-[#1a1a1a] border border-[#2a2a2a] rounded-md py-1 px-2 text-xs focus:outline-none focus:ring-[#3a3a3a] focus:border-[#3a3a3a] transition-colors"
+                                  >
+                                    <option value="Required">Required (Empty values are issues)</option>
+                                    <option value="Optional">Optional (Empty values allowed)</option>
+                                  </select>
+                                </div>
+
                                 <div className="space-y-2 md:col-span-2">
                                   <label className="block text-xs font-medium">Description</label>
                                   <textarea
@@ -878,6 +1755,22 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
           </AnimatePresence>
         </div>
 
+        {/* Upload progress */}
+        {uploadProgress !== null && (
+          <div className="border-t border-[#2a2a2a] px-3 pt-3">
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>{uploadProgress < 100 ? "Uploading file" : "Processing file"}</span>
+              <span>{uploadProgress}%</span>
+            </div>
+            <div className="h-1.5 w-full rounded-full bg-[#2a2a2a] overflow-hidden">
+              <div
+                className="h-full rounded-full bg-gray-300 transition-all duration-300"
+                style={{ width: `${uploadProgress}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="border-t border-[#2a2a2a] p-3 flex justify-between">
           <button
@@ -912,10 +1805,15 @@ export function FileUploadWizard({ isOpen, onClose, onComplete }: FileUploadWiza
             ) : (
               <button
                 onClick={handleSubmit}
-                disabled={isSubmitting}
+                disabled={isSubmitting || uploadProgress !== null}
                 className="flex items-center space-x-1 rounded-md bg-[#2a2a2a] px-3 py-1.5 text-xs font-medium hover:bg-[#3a3a3a] transition-colors disabled:bg-[#2a2a2a]/50 disabled:cursor-not-allowed"
               >
-                {isSubmitting ? (
+                {uploadProgress !== null ? (
+                  <>
+                    <div className="h-3.5 w-3.5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    <span>{uploadProgress < 100 ? `Uploading ${uploadProgress}%` : "Processing..."}</span>
+                  </>
+                ) : isSubmitting ? (
                   <>
                     <div className="h-3.5 w-3.5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                     <span>Creating...</span>
@@ -1,6 +1,7 @@
 import {useState, useEffect} from 'react'
 import {RecordType} from '@/utils/types'
 import { useGlobalContext } from '@/context/context';
+import { dataColumnsOf } from '@/utils/row-ids';
 
 
 interface ResizableTableHeaderProps {
@@ -43,7 +44,7 @@ const ResizableTableHeader = ({
             
           </span>
         </div>
-      {Object.keys(records[0] || {}).map((key) => (
+      {dataColumnsOf(records[0]).map((key) => (
         <div
           key={key}
           className="relative flex items-center px-2 py-2 overflow-hidden border-b border-gray-500/20"
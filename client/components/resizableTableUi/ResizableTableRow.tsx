@@ -5,6 +5,8 @@ import { useHoverTooltip } from '@/hooks/useHoverTooltip';
 import { Tooltip } from "@/components/workstationUi/Tooltip";
 import { IoCheckmarkSharp } from "react-icons/io5";
 import { IoClose } from "react-icons/io5";
+import { dataColumnsOf, rowIdOf } from '@/utils/row-ids';
+import { ISSUE_COLORS, IssueColorType } from '@/utils/issue-colors';
 
 
 interface ResizableTableRowProps {
@@ -29,10 +31,10 @@ const ResizableTableRow = ({
     const [editedRow, setEditedRow] = useState<RecordType>(row);
     const [editCell, setEditCell] = useState<string>();
     const {selectedRow, issues} = useGlobalContext()
-    const { hoveredRowIndex, cursorPosition, isTooltipAbove, handleMouseMove, handleMouseLeave } = useHoverTooltip();
-    const rowIssues = issues.find((issue) => issue.row === rowIndex + 1);
-
-    const COLORS = {INVALID_VALUE:"#FF5733",TYPE_MISMATCH:"#FFC300",NULL_VALUE:"#36A2EB",DUPLICATE_VALUE:"#4CAF50",INVALID_FORMAT:"#9C27B0",INVALID_SEPARATOR:"#FF9800",INVALID_DATE: "#E53935"}
+    const { hoveredRowIndex, cursorPosition, isTooltipAbove, handleMouseMove, handleMouseLeave, keepTooltip } = useHoverTooltip();
+    // Issues and the selected row refer to the row's ID, which stays with it when actions move it
+    const rowId = rowIdOf(row, rowIndex);
+    const rowIssues = issues.find((issue) => issue.row === rowId);
 
     useEffect(() => {
         setEditedRow(row);
@@ -43,12 +45,12 @@ const ResizableTableRow = ({
         <div
             key={rowIndex}
             style={{ height: `${rowHeights[rowIndex]}px` }}
-            id={`row-${rowIndex}`}
+            id={`row-${rowId}`}
             onMouseMove={(e) => handleMouseMove(e, rowIndex, containerRef)}
             onMouseLeave={handleMouseLeave}
             className={`flex relative 
-                ${(rowIndex % 2 === 0 && selectedRow !== rowIndex + 1 ) ? 'sectionBg' : 'background'} 
-                ${selectedRow === rowIndex + 1 ? "animate-blink bg-blue-400" : ""}`}
+                ${(rowIndex % 2 === 0 && selectedRow !== rowId ) ? 'sectionBg' : 'background'} 
+                ${selectedRow === rowId ? "animate-blink bg-blue-400" : ""}`}
         >
             <div
                 key={rowIndex}
@@ -56,14 +58,19 @@ const ResizableTableRow = ({
                 style={{ width: `${columnWidths["rowNumber"]}px`, minWidth: "50px" }}
             >
                 {rowIndex + 1}
+                {/* Row in the source file, once sorting or deleting rows moved it */}
+                {rowId !== rowIndex + 1 && (
+                    <span className="para text-xs font-light ml-1" title={`Row ${rowId} of the source file`}>#{rowId}</span>
+                )}
                 <span
                     className="absolute right-0 top-0 bottom-0 w-px cursor-ew-resize bg-gray-500/20"
                     onMouseDown={(e) => handleColumnResize(e, "rowNumber")}
                     ></span>
             </div>
-                {Object.keys(row).map((key) => {
-                const issue = rowIssues?.errors.find((error) => error.column === key);
-                const backgroundColor = issue ? COLORS[issue.issueType as keyof typeof COLORS] || "bg-red-600/60" : "transparent";
+                {dataColumnsOf(row).map((key) => {
+                // A rule violation marks every column of the rule
+                const issue = rowIssues?.errors.find((error) => error.column === key || error.columns?.includes(key));
+                const backgroundColor = issue ? ISSUE_COLORS[issue.issueType as IssueColorType] || "bg-red-600/60" : "transparent";
 
                 return (
                     <div
@@ -72,7 +79,7 @@ const ResizableTableRow = ({
                         style={{ width: `${columnWidths[key]}px`, minWidth: `${columnWidths[key]}px`, backgroundColor: issue ? backgroundColor : "transparent" }}
                     >
                         {hoveredRowIndex === rowIndex && rowIssues && (
-                            <Tooltip issues={rowIssues.errors} cursorPosition={cursorPosition} isTooltipAbove={isTooltipAbove} />
+                            <Tooltip issues={rowIssues.errors} cursorPosition={cursorPosition} isTooltipAbove={isTooltipAbove} onMouseEnter={keepTooltip} />
                         )}
                         
                         <div  className='w-full h-full flex  gap-1'>
@@ -3,10 +3,13 @@ import { IoChevronDown, IoChevronForward } from "react-icons/io5";
 import { FaBoxTissue } from "react-icons/fa";
 import SmallLoading from "@/components/SmallLoading";
 import { useGlobalContext } from "@/context/context";
+import { rowLabel } from "@/utils/row-ids";
+import { ISSUE_COLORS, IssueColorType } from "@/utils/issue-colors";
 
 // Define types
 interface Issue {
     row: number;
+    position?: number;
     issueType: string;
 }
 
@@ -14,20 +17,21 @@ interface IssuesData {
     [column: string]: Issue[];
 }
 
-const COLORS = {INVALID_VALUE:"#FF5733",TYPE_MISMATCH:"#FFC300",NULL_VALUE:"#36A2EB",DUPLICATE_VALUE:"#4CAF50",INVALID_FORMAT:"#9C27B0",INVALID_SEPARATOR:"#FF9800",INVALID_DATE: "#E53935"}
-
 const ColumnsIssue = () => {
     const [isIssueOpen, setIsIssueOpen] = useState<boolean>(false);
     const [expandedColumns, setExpandedColumns] = useState<Record<string, boolean>>({});
     const { issues, isCleanDataLoading, setSelectedRow } = useGlobalContext();
 
     // Ensure 'issues' is correctly typed as an array of objects
-    const columnBasedIssues: IssuesData = (issues as { row: number; errors: { column: string; issueType: string }[] }[]).reduce((acc, { row, errors }) => {
-        errors.forEach(({ column, issueType }) => {
-        if (!acc[column]) {
-            acc[column] = [];
-        }
-        acc[column].push({ row, issueType });
+    // A rule violation or duplicate key is listed under every column it names, as in the table
+    const columnBasedIssues: IssuesData = (issues as { row: number; position?: number; errors: { column: string; columns?: string[]; issueType: string }[] }[]).reduce((acc, { row, position, errors }) => {
+        errors.forEach(({ column, columns, issueType }) => {
+        (columns || [column]).forEach((name) => {
+            if (!acc[name]) {
+            acc[name] = [];
+            }
+            acc[name].push({ row, position, issueType });
+        });
         });
         return acc;
     }, {} as IssuesData); 
@@ -76,18 +80,18 @@ const ColumnsIssue = () => {
                     {/* List of Issues (Only show if column is expanded) */}
                     {expandedColumns[column] && (
                     <ul className="ml-5 mt-1 text-xs space-y-1">
-                        {issues.map(({ row, issueType }, i) => (
+                        {issues.map(({ row, position, issueType }, i) => (
                         <div key={i} className="flex gap-1">
                             <div 
                             className="min-w-4 min-h-4 rounded" 
-                            style={{ backgroundColor: COLORS[issueType as keyof typeof COLORS] }} 
+                            style={{ backgroundColor: ISSUE_COLORS[issueType as IssueColorType] }} 
                             ></div>
                             <li
                                 key={i}
                                 className="cursor-pointer text-nowrap hover:underline"
                                 onClick={() => setSelectedRow(row)}
                             >
-                                Row {row}: {issueType}
+                                {rowLabel(row, position)}: {issueType}
                             </li>
                         </div>
                         ))}
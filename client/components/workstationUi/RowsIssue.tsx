@@ -3,6 +3,7 @@ import { IoChevronDown, IoChevronForward } from "react-icons/io5";
 import { FaBoxTissue } from "react-icons/fa";
 import SmallLoading from "@/components/SmallLoading";
 import { useGlobalContext } from '@/context/context'
+import { rowLabel } from '@/utils/row-ids'
 
 const RowsIssue = () => {
   const [isIssueOpen, setIsIssueOpen] = useState(false);
@@ -32,7 +33,7 @@ const RowsIssue = () => {
                         <div>
                         <span className="flex items-center text-sm gap-1 truncate font-bold">
                             <FaBoxTissue />
-                            Row {eachIssue.row}<span className="para text-xs font-light">({eachIssue.errors.length})</span>
+                            {rowLabel(eachIssue.row, eachIssue.position)}<span className="para text-xs font-light">({eachIssue.errors.length})</span>
                         </span>
                         </div>
                     </li>
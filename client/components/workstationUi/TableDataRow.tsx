@@ -1,6 +1,7 @@
 import { TableRow, TableCell } from "@/components/ui/table";
 import { Tooltip } from "@/components/workstationUi/Tooltip";
 import { RecordType, Issue } from "../../utils/types";
+import { dataColumnsOf, rowIdOf } from "@/utils/row-ids";
 
 interface TableDataRowProps {
   record: RecordType;
@@ -25,22 +26,24 @@ export const TableDataRow = ({
   cursorPosition,
   isTooltipAbove,
 }: TableDataRowProps) => {
-  const rowIssues = issues.find((issue) => issue.row === index + 1);
-  const errorColumns = rowIssues ? rowIssues.errors.map((error) => error.column) : [];
+  // Issues and the selected row refer to the row's ID, which stays with it when actions move it
+  const rowId = rowIdOf(record, index);
+  const rowIssues = issues.find((issue) => issue.row === rowId);
+  const errorColumns = rowIssues ? rowIssues.errors.flatMap((error) => error.columns || [error.column]) : [];
 
   return (
     <TableRow
       key={index}
-      id={`row-${index}`}
+      id={`row-${rowId}`}
       onMouseMove={(e) => handleMouseMove(e, index)}
       onMouseLeave={handleMouseLeave}
-      className={`w-full relative ${selectedRow === index + 1 ? "animate-blink bg-blue-400" : ""}`}
+      className={`w-full relative ${selectedRow === rowId ? "animate-blink bg-blue-400" : ""}`}
     >
       <TableCell className="w-3 sticky left-0 z-40 bg-secondary">{index + 1}</TableCell>
 
-      {Object.entries(record).map(([key, value], i) => (
+      {dataColumnsOf(record).map((key, i) => (
         <TableCell key={i} className={`z-10 text-nowrap ${errorColumns.includes(key) ? "bg-red-600/60" : ""} font-medium`}>
-          {String(value)}
+          {String(record[key])}
 
           {hoveredRowIndex === index && rowIssues && (
             <Tooltip issues={rowIssues.errors} cursorPosition={cursorPosition} isTooltipAbove={isTooltipAbove} />
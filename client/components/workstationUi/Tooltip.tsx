@@ -1,37 +1,94 @@
+import { useState } from "react";
 import ReactDOM from "react-dom";
 import { error } from "../../utils/types";
-
-const COLORS = {INVALID_VALUE:"#FF5733",TYPE_MISMATCH:"#FFC300",NULL_VALUE:"#36A2EB",DUPLICATE_VALUE:"#4CAF50",INVALID_FORMAT:"#9C27B0",INVALID_SEPARATOR:"#FF9800",INVALID_DATE: "#E53935"}
+import { useGlobalContext } from "@/context/context";
+import { AddAction } from "@/utils/cleanDataActions";
+import { IssueFix, suggestedFixes } from "@/utils/issue-fixes";
+import { ISSUE_COLORS, IssueColorType } from "@/utils/issue-colors";
 
 export const Tooltip = ({
   issues,
   cursorPosition,
   isTooltipAbove,
+  onMouseEnter,
 }: {
   issues: error[];
   cursorPosition: { x: number; y: number };
   isTooltipAbove: boolean;
+  onMouseEnter?: () => void;
 }) => {
+  const { cleanDataFileId, setRefreshWorkstation, setResponseWarning, setSelectedRow } = useGlobalContext();
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Saves the fix of an issue as an action, then replays the actions
+  const applyFix = async (fix: IssueFix) => {
+    let action;
+    if ("action" in fix) {
+      action = fix.action;
+    } else {
+      const answer = window.prompt(fix.prompt);
+      if (answer === null) return;
+      action = fix.actionFor(answer);
+    }
+
+    setIsApplying(true);
+    const result = await AddAction(cleanDataFileId, action);
+    setIsApplying(false);
+
+    if (result.status) {
+      setRefreshWorkstation((prev) => !prev);
+    } else {
+      setResponseWarning(result.message);
+    }
+  };
+
   const tooltip = (
     <ul
+      onMouseEnter={onMouseEnter}
+      onMouseMove={(e) => e.stopPropagation()}
       className={`fixed border border-gray-300 rounded-lg p-2 font-light text-sm z-50 bg-secondary text-secondary-foreground ${
         isTooltipAbove ? "before:bottom-[-5px]" : "before:top-[-5px]"
       } before:content-[''] before:absolute before:w-2 before:h-2 before:bg-white before:border-l before:border-t before:border-gray-300 before:rotate-45`}
       style={{ top: `${cursorPosition.y}px`, left: `${cursorPosition.x}px`, whiteSpace: "nowrap" }}
     >
       <h4 className="mb-1">({issues.length}) Issues in this row</h4>
-      {issues.map((error, idx) => (
-        <div key={idx} className="flex gap-1">
-            <div 
-              className="w-4 h-4 rounded" 
-              style={{ backgroundColor: COLORS[error.issueType as keyof typeof COLORS] }} 
-            ></div>
-          <li>
-            On column <b>{error.column}:&nbsp;</b>
-            {error.issueDesc}
-          </li>
-        </div>
-      ))}
+      {issues.map((error, idx) => {
+        const fixes = suggestedFixes(error);
+        return (
+          <div key={idx} className="flex gap-1">
+              <div 
+                className="w-4 h-4 rounded" 
+                style={{ backgroundColor: ISSUE_COLORS[error.issueType as IssueColorType] }} 
+              ></div>
+            <li>
+              On column <b>{error.column}:&nbsp;</b>
+              {error.issueDesc}
+              {/* Rows sharing a composite key by their row in the source, each one scrolls the table to it */}
+              {error.duplicateRows?.map((row) => (
+                <button
+                  key={row}
+                  type="button"
+                  onClick={() => setSelectedRow(row)}
+                  className="ml-2 underline hover:no-underline"
+                >
+                  Source row {row}
+                </button>
+              ))}
+              {fixes.map((fix) => (
+                <button
+                  key={fix.label}
+                  type="button"
+                  onClick={() => applyFix(fix)}
+                  disabled={isApplying}
+                  className="ml-2 underline hover:no-underline disabled:opacity-50"
+                >
+                  {isApplying ? "Applying..." : fix.label}
+                </button>
+              ))}
+            </li>
+          </div>
+        );
+      })}
     </ul>
   );
 
@@ -14,7 +14,7 @@
 
 import { CleanData } from "@/utils/cleanDataActions";
 import { createContext, useState, useContext, useEffect } from "react";
-import {Action, RecordType, Issue, Payload, Schema, } from "../utils/types"
+import {Action, RecordType, Issue, Payload, Schema, ActionWarningType } from "../utils/types"
 
 /**
  * Interface defining the shape of the global context
@@ -37,7 +37,7 @@ import {Action, RecordType, Issue, Payload, Schema, } from "../utils/types"
  * @property insertMessage - Function to insert new chat message
  * @property isCleanDataLoading - Loading state for data cleaning
  * @property refreshWorkstation - Workstation refresh trigger
- * @property selectedRow - Currently selected row index
+ * @property selectedRow - ID of the selected row (its row in the source), 0 for none
  * @property setSelectedRow - Function to update selected row
  */
 interface UserContextType {
@@ -148,8 +148,13 @@ const ContextAPI: React.FC<{children:React.ReactNode}> = ({children}) => {
                         setRecords(records);
                         setSchema(schema);
                         setChat("");
-                        setResponseWarning("");
                         setSelectedRow(0);
+
+                        // Saved actions written against columns this version of the file no longer has
+                        const actionWarnings: ActionWarningType[] = data.actionWarnings || [];
+                        setResponseWarning(actionWarnings.length > 0
+                            ? `Version ${data.currentVersion}: ${actionWarnings.map(warning => `"${warning.title}" uses missing column ${warning.missingColumns.join(", ")}`).join("; ")}`
+                            : "");
                     }else if(!success && response.status === 200){
                         const {message} = response;
                         setResponseWarning(message);
@@ -7,6 +7,7 @@
  * - Boundary detection
  * - Debounced hover events
  * - Above/below positioning based on available space
+ * - Short grace period on leaving, so the pointer can reach the tooltip and use its buttons
  */
 
 import { useState, useRef } from "react";
@@ -19,12 +20,14 @@ import { useState, useRef } from "react";
  * @property isTooltipAbove - Whether tooltip should appear above cursor
  * @property handleMouseMove - Handler for mouse move events
  * @property handleMouseLeave - Handler for mouse leave events
+ * @property keepTooltip - Keeps the tooltip open once the pointer is over it
  */
 export const useHoverTooltip = () => {
   const [hoveredRowIndex, setHoveredRowIndex] = useState<number | null>(null);
   const [cursorPosition, setCursorPosition] = useState({ x: 0, y: 0 });
   const [isTooltipAbove, setIsTooltipAbove] = useState(false);
   const hoverTimeout = useRef<NodeJS.Timeout | null>(null);
+  const hideTimeout = useRef<NodeJS.Timeout | null>(null);
 
   /**
    * Handles mouse movement to position tooltip
@@ -34,6 +37,7 @@ export const useHoverTooltip = () => {
    */
   const handleMouseMove = (e: React.MouseEvent, index: number, containerRef: React.RefObject<HTMLDivElement | null>) => {
     if (hoverTimeout.current) clearTimeout(hoverTimeout.current);
+    if (hideTimeout.current) clearTimeout(hideTimeout.current);
 
     hoverTimeout.current = setTimeout(() => {
       const offsetX = 30;
@@ -63,11 +67,20 @@ export const useHoverTooltip = () => {
 
   /**
    * Handles mouse leaving the hover area
+   * The tooltip stays a moment, so the pointer can move onto it
    */
   const handleMouseLeave = () => {
     if (hoverTimeout.current) clearTimeout(hoverTimeout.current);
-    setHoveredRowIndex(null);
+    if (hideTimeout.current) clearTimeout(hideTimeout.current);
+    hideTimeout.current = setTimeout(() => setHoveredRowIndex(null), 300);
   };
 
-  return { hoveredRowIndex, cursorPosition, isTooltipAbove, handleMouseMove, handleMouseLeave };
+  /**
+   * Cancels hiding the tooltip when the pointer reaches it
+   */
+  const keepTooltip = () => {
+    if (hideTimeout.current) clearTimeout(hideTimeout.current);
+  };
+
+  return { hoveredRowIndex, cursorPosition, isTooltipAbove, handleMouseMove, handleMouseLeave, keepTooltip };
 };
\ No newline at end of file
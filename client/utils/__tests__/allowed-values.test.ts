@@ -0,0 +1,39 @@
+/**
+ * Purpose: Tests for allowed values and their closest matches
+ * Used in: Testing automation
+ */
+
+import { inferColumnTypes } from "../type-inference"
+import { checkAllowedValue, closestAllowedValue, seedAllowedValues } from "../allowed-values"
+
+describe("allowed values", () => {
+  const allowed = ["Active", "Inactive", "Pending"]
+
+  it("suggests the closest allowed value", () => {
+    expect(closestAllowedValue("actve", allowed)).toBe("Active")
+    expect(closestAllowedValue(" PENDING ", allowed)).toBe("Pending")
+    expect(closestAllowedValue("Closed", allowed)).toBeNull()
+  })
+
+  it("reports values outside the list with the suggestion", () => {
+    expect(checkAllowedValue("Active", allowed)).toBeNull()
+    expect(checkAllowedValue(null, allowed)).toBeNull()
+    expect(checkAllowedValue("x", null)).toBeNull()
+    expect(checkAllowedValue("inactiv", allowed)).toEqual({
+      issueType: "INVALID_CATEGORY",
+      issueDesc: "Value Not Allowed (Found: 'inactiv', Did You Mean: 'Inactive')",
+      value: "inactiv",
+      suggestion: "Inactive",
+    })
+    expect(checkAllowedValue("Closed", allowed)?.suggestion).toBeNull()
+  })
+
+  it("seeds the list from repeated values, leaving out one-off typos", () => {
+    expect(seedAllowedValues(new Map([["Active", 5], ["Pending", 3], ["actve", 1], ["Closed", 1]]))).toEqual(["Active", "Closed", "Pending"])
+
+    const rows = Array.from({ length: 12 }, (_, index) => ({ status: allowed[index % 3], name: `Customer ${index}` }))
+    const inference = inferColumnTypes([...rows, { status: "actve", name: "Customer 12" }])
+    expect(inference.status.categories).toEqual(allowed)
+    expect(inference.name.categories).toBeUndefined()
+  })
+})
@@ -0,0 +1,35 @@
+/**
+ * Purpose: Tests for the data type registry
+ * Used in: Testing automation
+ */
+
+import { buildDataTypeRegistry, checkDataType, describeDataTypeError, normalizeDataTypeValue } from "../data-types"
+
+describe("data types", () => {
+  const registry = buildDataTypeRegistry([{ name: "SKU", pattern: "[A-Z]{3}-\\d{4}", normalizer: "upper", message: "Invalid SKU" }])
+
+  it("checks the normalised value against the format before the check digits", () => {
+    expect(checkDataType("gb82 west 1234 5698 7654 32", registry.IBAN)).toBeNull()
+    expect(normalizeDataTypeValue("gb82 west 1234 5698 7654 32", registry.IBAN)).toBe("GB82WEST12345698765432")
+    expect(checkDataType("GB82 WEST 1234 5698 7654 33", registry.IBAN)?.issueDesc).toMatch(/Check Digits/)
+    expect(checkDataType("GB82", registry.IBAN)?.issueDesc).toMatch(/Invalid IBAN Format/)
+    expect(normalizeDataTypeValue("sw1a1aa", registry.PostalCodeUK)).toBe("SW1A 1AA")
+    expect(checkDataType("de", registry.CountryCode)).toBeNull()
+    expect(checkDataType("XX", registry.CountryCode)).not.toBeNull()
+    expect(checkDataType("::ffff:192.168.0.1", registry.IPv6)).toBeNull()
+    expect(checkDataType("1::2::3", registry.IPv6)).not.toBeNull()
+    expect(checkDataType("example.com", registry.URL)).not.toBeNull()
+    expect(checkDataType("0-306-40615-2", registry.ISBN)).toBeNull()
+  })
+
+  it("anchors custom patterns and explains types that cannot be saved", () => {
+    expect(checkDataType("abc-1234", registry.SKU)).toBeNull()
+    expect(checkDataType("abc-12345", registry.SKU)?.issueDesc).toBe("Invalid SKU (Found: abc-12345)")
+    expect(describeDataTypeError({ name: "IBAN", pattern: "x" })).toMatch(/built-in/)
+    expect(describeDataTypeError({ name: "Code", pattern: "(" })).toMatch(/not a valid regular expression/)
+    expect(describeDataTypeError({ name: "Code" })).toMatch(/pattern, a checksum or both/)
+    expect(describeDataTypeError({ name: "Card", checksum: "luhn" })).toBeNull()
+    expect(describeDataTypeError({ name: "Code", pattern: "(\\d+-?)+" })).toMatch(/repeats a group/)
+    expect(describeDataTypeError({ name: "Code", pattern: "a".repeat(201) })).toMatch(/longer than 200 characters/)
+  })
+})
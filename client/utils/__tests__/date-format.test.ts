@@ -0,0 +1,34 @@
+/**
+ * Purpose: Tests for date format inference and calendar date checks
+ * Used in: Testing automation
+ */
+
+import { inferColumnTypes } from "../type-inference"
+import { inferDateFormat, isDateText } from "../date-format"
+
+describe("inferDateFormat", () => {
+  it("settles the day/month order from any value above 12", () => {
+    expect(inferDateFormat(["03/04/2024", "25/04/2024", "01/12/2023"])).toEqual({
+      format: "DD/MM/YYYY", separator: "/", ambiguous: false, evidence: { dayFirst: 1, monthFirst: 0 },
+    })
+    expect(inferDateFormat(["03.04.2024", "04.25.2024"])).toMatchObject({ format: "MM.DD.YYYY", separator: ".", ambiguous: false })
+    expect(inferDateFormat(["2024-01-31", "2024-02-01"])).toMatchObject({ format: "YYYY-MM-DD", ambiguous: false })
+  })
+
+  it("reports a column whose order cannot be settled", () => {
+    expect(inferDateFormat(["03/04/2024", "05/06/2024"])).toMatchObject({ format: "MM/DD/YYYY", ambiguous: true })
+    expect(inferDateFormat(["13/01/2024", "01/13/2024"])).toMatchObject({ ambiguous: true, evidence: { dayFirst: 1, monthFirst: 1 } })
+  })
+
+  it("accepts calendar dates in either order only", () => {
+    expect(isDateText("13/01/2024")).toBe(true)
+    expect(isDateText("2024-02-29")).toBe(true)
+    expect(isDateText("2023-02-29")).toBe(false)
+    expect(isDateText("13/13/2024")).toBe(false)
+  })
+
+  it("is reported with the inferred type of a date column", () => {
+    const inferred = inferColumnTypes([{ joined: "31/01/2024" }, { joined: "01/02/2024" }])
+    expect(inferred.joined).toMatchObject({ dataType: "Date", dateFormat: { format: "DD/MM/YYYY", ambiguous: false } })
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Purpose: Tests for the streaming CSV parser, dialect and encoding sniffing, JSON format sniffing and flattening, table layout detection, Excel rows and file samples
+ * Used in: Testing automation
+ * Notes: Chunk boundaries are exercised by feeding the parser one character at a time
+ */
+
+import * as XLSX from "xlsx"
+import {
+  CSVStreamParser,
+  detectTableLayout,
+  flattenRecord,
+  forEachExcelRow,
+  mergeHeaderRows,
+  parseFileSample,
+  sniffCSVDialect,
+  sniffEncoding,
+  sniffJSONFormat,
+  splitTableRecords,
+} from "../file-parsers"
+
+const parseAll = (text: string, delimiter = ",", quoteChar = '"') => {
+  const parser = new CSVStreamParser({ delimiter, quoteChar })
+  return [...parser.push(text), ...parser.flush()]
+}
+
+const parseByChar = (text: string) => {
+  const parser = new CSVStreamParser({ delimiter: ",", quoteChar: '"' })
+  const records: string[][] = []
+  for (const char of text) records.push(...parser.push(char))
+  return [...records, ...parser.flush()]
+}
+
+describe("CSVStreamParser", () => {
+  it("keeps line breaks, delimiters and doubled quotes inside quoted fields", () => {
+    const text = 'id,note\r\n1,"line one\nline two"\r\n2,"say ""hi"", then leave"\r\n'
+
+    expect(parseAll(text)).toEqual([
+      ["id", "note"],
+      ["1", "line one\nline two"],
+      ["2", 'say "hi", then leave'],
+    ])
+  })
+
+  it("produces the same records regardless of chunk boundaries", () => {
+    const text = 'a,b\r\n"x\r\ny",""""\r\n3,\n'
+
+    expect(parseByChar(text)).toEqual(parseAll(text))
+    expect(parseAll(text)).toEqual([["a", "b"], ["x\r\ny", '"'], ["3", ""]])
+  })
+
+  it("skips blank lines and emits a final record without a trailing line break", () => {
+    expect(parseAll("a,b\n\n1,2")).toEqual([["a", "b"], ["1", "2"]])
+  })
+})
+
+describe("sniffCSVDialect", () => {
+  it("detects semicolon, tab and pipe delimiters", () => {
+    expect(sniffCSVDialect("name;price\nA;1,50\nB;2,75\n").delimiter).toBe(";")
+    expect(sniffCSVDialect("name\tprice\nA\t1.50\nB\t2.75\n").delimiter).toBe("\t")
+    expect(sniffCSVDialect("name|price\nA|1.50\nB|2.75\n").delimiter).toBe("|")
+  })
+
+  it("detects single-quoted fields", () => {
+    const dialect = sniffCSVDialect("'name','city'\n'Smith, J','Paris'\n'Doe, A','Rome'\n")
+
+    expect(dialect).toEqual({ delimiter: ",", quoteChar: "'" })
+  })
+
+  it("falls back to the comma dialect for single-column text", () => {
+    expect(sniffCSVDialect("name\nA\nB\n")).toEqual({ delimiter: ",", quoteChar: '"' })
+  })
+})
+
+describe("sniffJSONFormat", () => {
+  it("detects one record per line as NDJSON", () => {
+    expect(sniffJSONFormat('{"id":1}\n{"id":2}\n')).toBe("ndjson")
+  })
+
+  it("treats arrays and pretty-printed objects as JSON documents", () => {
+    expect(sniffJSONFormat('[{"id":1},\n{"id":2}]')).toBe("json")
+    expect(sniffJSONFormat('{\n  "id": 1\n}')).toBe("json")
+  })
+})
+
+describe("flattenRecord", () => {
+  const record = { id: 1, address: { city: "Oslo", geo: { lat: 59.9 } }, tags: ["a", "b"] }
+
+  it("flattens every nested level into dotted columns and keeps arrays", () => {
+    expect(flattenRecord(record)).toEqual({
+      id: 1,
+      "address.city": "Oslo",
+      "address.geo.lat": 59.9,
+      tags: ["a", "b"],
+    })
+  })
+
+  it("keeps objects below the flatten depth as values", () => {
+    expect(flattenRecord(record, 1)).toEqual({
+      id: 1,
+      "address.city": "Oslo",
+      "address.geo": { lat: 59.9 },
+      tags: ["a", "b"],
+    })
+  })
+})
+
+describe("sniffEncoding", () => {
+  it("reads byte order marks", () => {
+    expect(sniffEncoding(Uint8Array.from([0xef, 0xbb, 0xbf, 0x61]))).toBe("utf-8")
+    expect(sniffEncoding(Uint8Array.from([0xff, 0xfe, 0x61, 0x00]))).toBe("utf-16le")
+  })
+
+  it("recognises UTF-16 without a byte order mark", () => {
+    const bytes = Uint8Array.from([0x61, 0x00, 0x2c, 0x00, 0x62, 0x00, 0x0a, 0x00])
+    expect(sniffEncoding(bytes)).toBe("utf-16le")
+  })
+
+  it("tells valid UTF-8 from single-byte Windows and Latin-1 text", () => {
+    // "José" in UTF-8, Latin-1, and "José €" in Windows-1252
+    expect(sniffEncoding(Uint8Array.from([0x4a, 0x6f, 0x73, 0xc3, 0xa9, 0x0a]))).toBe("utf-8")
+    expect(sniffEncoding(Uint8Array.from([0x4a, 0x6f, 0x73, 0xe9, 0x0a]))).toBe("iso-8859-1")
+    expect(sniffEncoding(Uint8Array.from([0x4a, 0x6f, 0x73, 0xe9, 0x20, 0x80, 0x0a]))).toBe("windows-1252")
+  })
+})
+
+describe("table layout", () => {
+  const report = [
+    ["Sales report 2024", "", "", "", ""],
+    ["", "Q1", "", "Q2", ""],
+    ["Region", "Sales", "Units", "Sales", "Units"],
+    ["North", "10", "1", "20", "2"],
+    ["South", "30", "3", "40", "4"],
+    ["East", "50", "5", "60", "6"],
+    ["Total", "90", "9", "120", "12"],
+  ]
+
+  it("detects a title banner, a group header row and a total footer", () => {
+    expect(detectTableLayout(report)).toEqual({ skipTop: 1, headerRows: 2, skipBottom: 1 })
+  })
+
+  it("keeps the default layout for a plain table", () => {
+    expect(detectTableLayout([["id", "name"], ["1", "Ann"], ["2", "Bob"]])).toEqual({ skipTop: 0, headerRows: 1, skipBottom: 0 })
+  })
+
+  it("merges group labels into the columns under them and names empty or repeated headers", () => {
+    expect(mergeHeaderRows([["", "Q1", "", "Q2", ""], ["Region", "Sales", "Units", "Sales", "Units"]]))
+      .toEqual(["Region", "Q1 Sales", "Q1 Units", "Q2 Sales", "Q2 Units"])
+    expect(mergeHeaderRows([["id", "", "id"]])).toEqual(["id", "Column 2", "id_2"])
+  })
+
+  it("drops the footer only when the records reach the end of the file", () => {
+    const layout = { skipTop: 1, headerRows: 2, skipBottom: 1 }
+
+    expect(splitTableRecords(report, layout, true).data.map(row => row[0])).toEqual(["North", "South", "East"])
+    expect(splitTableRecords(report, layout, false).data.map(row => row[0])).toEqual(["North", "South", "East", "Total"])
+  })
+})
+
+describe("forEachExcelRow", () => {
+  const workbookFile = () => {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["id", "amount"], [1, "1.234,5"], [2, 7]]), "2024")
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["id", "amount"], [3, 9]]), "2025")
+    return new Blob([XLSX.write(workbook, { type: "array", bookType: "xlsx" })])
+  }
+
+  it("passes the rows of the first sheet by default", async () => {
+    const rows: unknown[] = []
+    const numberFormat = { locale: "de-DE", decimalSeparator: ",", thousandsSeparator: ".", currencySymbols: ["€"] }
+
+    expect(await forEachExcelRow(workbookFile(), row => rows.push(row), { numberFormat })).toBe(2)
+    expect(rows).toEqual([{ id: 1, amount: 1234.5 }, { id: 2, amount: 7 }])
+  })
+
+  it("passes the rows of the chosen sheets only", async () => {
+    const rows: unknown[] = []
+
+    expect(await forEachExcelRow(workbookFile(), row => rows.push(row), { sheets: ["2025"] })).toBe(1)
+    expect(rows).toEqual([{ id: 3, amount: 9 }])
+  })
+})
+
+describe("parseFileSample", () => {
+  // jsdom has no TextDecoder, the browser and Node do
+  beforeAll(() => {
+    Object.assign(globalThis, { TextDecoder: jest.requireActual("util").TextDecoder })
+  })
+
+  it("reads a file with the given parse options", async () => {
+    const file = new File(["Sales report\nregion;total\nNorth;1.234,5\nSouth;10\n"], "sales.csv", { type: "text/csv" })
+    const options = {
+      dialect: { delimiter: ";", quoteChar: '"' },
+      layout: { skipTop: 1, headerRows: 1, skipBottom: 0 },
+      numberFormat: { locale: "de-DE", decimalSeparator: ",", thousandsSeparator: ".", currencySymbols: ["€"] },
+    }
+
+    expect(await parseFileSample(file, 10, options)).toEqual([
+      { region: "North", total: 1234.5 },
+      { region: "South", total: 10 },
+    ])
+    expect(await parseFileSample(file, 1, { ...options, renameColumns: { region: "area" } })).toEqual([{ area: "North", total: 1234.5 }])
+  })
+
+  it("keeps codes with a leading zero as text, with or without a number format", async () => {
+    const file = new File(["zip;isbn;qty;price\n02134;0306406152;7;0,5\n10001;0-8044-2957-X;12;3\n"], "books.csv", { type: "text/csv" })
+    const dialect = { delimiter: ";", quoteChar: '"' }
+    const numberFormat = { locale: "de-DE", decimalSeparator: ",", thousandsSeparator: ".", currencySymbols: ["€"] }
+
+    expect(await parseFileSample(file, 10, { dialect, numberFormat })).toEqual([
+      { zip: "02134", isbn: "0306406152", qty: 7, price: 0.5 },
+      { zip: 10001, isbn: "0-8044-2957-X", qty: 12, price: 3 },
+    ])
+    expect((await parseFileSample(file, 1, { dialect }))[0]).toMatchObject({ zip: "02134", isbn: "0306406152", qty: 7 })
+  })
+})
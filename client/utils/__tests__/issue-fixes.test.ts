@@ -0,0 +1,42 @@
+/**
+ * Purpose: Tests for the suggested fixes of issues
+ * Used in: Testing automation
+ */
+
+import { suggestedFixes } from "../issue-fixes"
+
+describe("suggestedFixes", () => {
+  it("replaces a value outside the allowed values with the closest one", () => {
+    const [fix] = suggestedFixes({ column: "status", issueType: "INVALID_CATEGORY", issueDesc: "", value: "actve", suggestion: "Active" })
+    expect(fix).toMatchObject({ action: { type: "REPLACE_VALUE", column: "status", oldValue: "actve", newValue: "Active" } })
+    expect(suggestedFixes({ column: "status", issueType: "INVALID_CATEGORY", issueDesc: "", value: "Closed", suggestion: null })).toEqual([])
+  })
+
+  it("deletes the rows outside the column's range", () => {
+    const [fix] = suggestedFixes({ column: "age", issueType: "OUT_OF_RANGE", issueDesc: "", max: 120 })
+    expect(fix).toEqual({
+      label: expect.any(String),
+      action: {
+        type: "DELETE_ROWS_WHERE_VALUE_NOT_IN_RANGE",
+        column: "age",
+        maxValue: 120,
+        title: "Delete rows where age is out of range (at most 120)",
+        response: expect.any(String),
+      },
+    })
+    expect(suggestedFixes({ column: "age", issueType: "NULL_VALUE", issueDesc: "" })).toEqual([])
+  })
+
+  it("deletes missing references or maps them to the default the user enters", () => {
+    const [remove, map] = suggestedFixes({ column: "customer_id", issueType: "ORPHAN_REFERENCE", issueDesc: "", value: "C9" })
+    expect(remove).toMatchObject({ action: { type: "DELETE_ROWS_WITH_ORPHAN_REFERENCES", column: "customer_id" } })
+    expect("actionFor" in map && map.actionFor("UNKNOWN")).toMatchObject({ type: "REPLACE_ORPHAN_REFERENCES", column: "customer_id", newValue: "UNKNOWN" })
+  })
+
+  it("dedupes rows on the composite key of a duplicate key", () => {
+    const columns = ["store_id", "date"]
+    const [keepFirst, deleteAll] = suggestedFixes({ column: "store_id", columns, issueType: "DUPLICATE_KEY", issueDesc: "", duplicateRows: [3] })
+    expect(keepFirst).toMatchObject({ action: { type: "DELETE_DUPLICATE_ROWS", columns } })
+    expect(deleteAll).toMatchObject({ action: { type: "KEEP_ONLY_UNIQUE_ROWS", columns } })
+  })
+})
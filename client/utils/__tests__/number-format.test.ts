@@ -0,0 +1,31 @@
+/**
+ * Purpose: Tests for locale-aware number parsing
+ * Used in: Testing automation
+ */
+
+import { numberFormatForLocale, parseLocaleNumber } from "../number-format"
+
+describe("parseLocaleNumber", () => {
+  it("reads the separators of the chosen locale", () => {
+    expect(parseLocaleNumber("1.234,56", numberFormatForLocale("de-DE"))).toEqual({ value: 1234.56, kind: "number" })
+    expect(parseLocaleNumber("1\u00a0234,5", numberFormatForLocale("fr-FR"))).toEqual({ value: 1234.5, kind: "number" })
+    expect(parseLocaleNumber("1'234.56", numberFormatForLocale("de-CH"))).toEqual({ value: 1234.56, kind: "number" })
+    expect(parseLocaleNumber("1,234.56")).toEqual({ value: 1234.56, kind: "number" })
+  })
+
+  it("reads currency amounts, percentages and negatives", () => {
+    expect(parseLocaleNumber("€1.234,50", numberFormatForLocale("de-DE"))).toEqual({ value: 1234.5, kind: "currency" })
+    expect(parseLocaleNumber("12 EUR")).toEqual({ value: 12, kind: "currency" })
+    expect(parseLocaleNumber("$-12")).toEqual({ value: -12, kind: "currency" })
+    expect(parseLocaleNumber("12,5 %", numberFormatForLocale("de-DE"))).toEqual({ value: 12.5, kind: "percentage" })
+    expect(parseLocaleNumber("(45)")).toEqual({ value: -45, kind: "number" })
+    expect(parseLocaleNumber("45-")).toEqual({ value: -45, kind: "number" })
+  })
+
+  it("rejects text that is not a number in the format", () => {
+    expect(parseLocaleNumber("1,234.56", numberFormatForLocale("de-DE"))).toBeNull()
+    expect(parseLocaleNumber("12,34,567")).toBeNull()
+    expect(parseLocaleNumber("12abc")).toBeNull()
+    expect(parseLocaleNumber("")).toBeNull()
+  })
+})
@@ -0,0 +1,17 @@
+/**
+ * Purpose: Tests for column ranges
+ * Used in: Testing automation
+ */
+
+import { describeRangeError } from "../range-constraints"
+
+describe("ranges", () => {
+  it("flags bounds that do not suit the column type", () => {
+    expect(describeRangeError({ min: 0, max: 120 }, "Integer")).toBeNull()
+    expect(describeRangeError({ min: 10, max: 1 }, "Float")).not.toBeNull()
+    expect(describeRangeError({ min: "2024-02-30" }, "Date")).not.toBeNull()
+    expect(describeRangeError({ min: "2024-02-29" }, "Date")).toBeNull()
+    expect(describeRangeError({ min: 5 }, "Date")).not.toBeNull()
+    expect(describeRangeError({ min: "x" }, "String")).toBeNull()
+  })
+})
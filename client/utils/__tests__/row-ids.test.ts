@@ -0,0 +1,18 @@
+/**
+ * Purpose: Tests for stable row IDs
+ * Used in: Testing automation
+ */
+
+import { dataColumnsOf, rowIdOf, rowLabel } from "../row-ids"
+
+describe("row ids", () => {
+  it("names rows by their row in the source, whatever position the actions moved them to", () => {
+    const sorted = [{ name: "b", originalRowIndex: 6 }, { name: "a", originalRowIndex: 0 }]
+    expect(sorted.map(rowIdOf)).toEqual([7, 1])
+    expect(rowIdOf({ name: "c" }, 2)).toBe(3)
+    expect(dataColumnsOf(sorted[0])).toEqual(["name"])
+    expect(rowLabel(7, 1)).toBe("Row 1 (source row 7)")
+    expect(rowLabel(3, 3)).toBe("Row 3")
+    expect(rowLabel(3)).toBe("Row 3")
+  })
+})
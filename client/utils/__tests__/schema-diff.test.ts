@@ -0,0 +1,26 @@
+/**
+ * Purpose: Tests for schema diffs between versions
+ * Used in: Testing automation
+ */
+
+import { diffSchemas } from "../schema-diff"
+
+describe("diffSchemas", () => {
+  const column = { dataType: "Integer", unique: false, numericSign: null, precision: null, format: null, separator: null, desc: null }
+
+  it("lists added, removed and changed columns with the settings that changed", () => {
+    const before = { id: column, age: column, legacy: column }
+    const after = {
+      id: column,
+      age: { ...column, dataType: "String", inference: { dataType: "Integer", confidence: 1, nonNull: 1, nullCount: 0, counterexamples: [] } },
+      email: { ...column, dataType: "Email" },
+    }
+
+    expect(diffSchemas(before, after)).toEqual([
+      { column: "id", change: "unchanged", fields: [] },
+      { column: "age", change: "changed", fields: [{ field: "dataType", before: "Integer", after: "String" }] },
+      { column: "email", change: "added", fields: [] },
+      { column: "legacy", change: "removed", fields: [] },
+    ])
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * Purpose: Tests for schema drift of appended batches and new versions
+ * Used in: Testing automation
+ */
+
+import { applySchemaEdits, detectSchemaDrift, hasSchemaDrift, sampleParseOptions, withColumnRenames } from "../schema-drift"
+
+describe("schema drift", () => {
+  const column = { unique: false, numericSign: null, precision: null, format: null, separator: null, desc: null }
+  const schema = {
+    cust_id: { ...column, dataType: "Integer" },
+    quantity: { ...column, dataType: "Integer" },
+    price: { ...column, dataType: "Float" },
+    note: { ...column, dataType: "String", required: true, inference: { dataType: "String", confidence: 1, nonNull: 10, nullCount: 0, counterexamples: [] } },
+    region: { ...column, dataType: "String" },
+    timestamp: { ...column, dataType: "Timestamp" },
+  }
+
+  it("finds renamed, removed and added columns, type and null-rate changes", () => {
+    const rows = [
+      { customer_id: 1, quantity: "one", price: 3, note: null, channel: "web" },
+      { customer_id: 2, quantity: "two", price: 4, note: "gift", channel: "shop" },
+    ]
+    const report = detectSchemaDrift(schema, rows)
+    expect(report.renamedColumns).toEqual([{ from: "cust_id", to: "customer_id", score: expect.any(Number) }])
+    expect(report.removedColumns).toEqual(["region"])
+    expect(report.addedColumns).toEqual(["channel"])
+    expect(report.typeChanges).toEqual([{ column: "quantity", before: "Integer", after: "String" }])
+    expect(report.nullRateChanges).toEqual([{ column: "note", before: 0, after: 0.5 }])
+    expect(withColumnRenames({ encoding: "utf-8" }, report.renamedColumns)).toEqual({ encoding: "utf-8", renameColumns: { customer_id: "cust_id" } })
+    expect(report.schemaEdits.map(edit => edit.kind)).toEqual(["type", "nullRate", "removed", "added"])
+
+    const edited = applySchemaEdits(schema, report.schemaEdits)
+    expect(edited.quantity.dataType).toBe("String")
+    expect(edited.note.required).toBe(false)
+    expect(edited.channel).toMatchObject({ dataType: "String", required: true })
+  })
+
+  it("accepts whole numbers in Float columns and a file matching the schema", () => {
+    const rows = [{ cust_id: 1, quantity: 2, price: 3, note: "a", region: "EU" }]
+    expect(hasSchemaDrift(detectSchemaDrift(schema, rows))).toBe(false)
+  })
+
+  it("reads files in the project's format with the project's parse options", () => {
+    const options = { dialect: { delimiter: ";", quoteChar: '"' }, layout: { skipTop: 2, headerRows: 1, skipBottom: 0 } }
+    expect(sampleParseOptions("March.CSV", "csv", options)).toBe(options)
+    expect(sampleParseOptions("march.xlsx", "csv", options)).toEqual({})
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Purpose: Tests for JSON Schema / Table Schema import and export
+ * Used in: Testing automation
+ */
+
+import { exportJSONSchema, exportTableSchema, importSchemaDocument } from "../schema-standards"
+
+describe("schema standards", () => {
+  const column = { dataType: "String", unique: false, required: false, numericSign: null, precision: null, format: null, separator: null, desc: null }
+  const schema = {
+    id: { ...column, dataType: "Integer", unique: true, numericSign: "Positive" },
+    price: { ...column, dataType: "Float", precision: 2, numberFormat: { locale: "de-DE" } },
+    joined: { ...column, dataType: "Date", format: "DD/MM/YYYY", separator: "/" },
+    email: { ...column, dataType: "Email", desc: "Contact address" },
+  }
+
+  it("round-trips through Table Schema, reporting the precision it cannot hold", () => {
+    const exported = exportTableSchema(schema)
+    expect(exported.document.fields).toEqual([
+      { name: "id", type: "integer", constraints: { minimum: 0, unique: true } },
+      { name: "price", type: "number", decimalChar: ",", groupChar: "." },
+      { name: "joined", type: "date", format: "%d/%m/%Y" },
+      { name: "email", type: "string", format: "email", description: "Contact address" },
+    ])
+    expect(exported.warnings).toEqual([{ column: "price", message: expect.stringContaining("precision") }])
+
+    const imported = importSchemaDocument(JSON.parse(JSON.stringify(exported.document)))
+    expect(imported.standard).toBe("table-schema")
+    expect(imported.schema).toEqual({ ...schema, price: { ...schema.price, precision: null } })
+  })
+
+  it("round-trips through JSON Schema, reporting uniqueness, separators and non-ISO dates", () => {
+    const exported = exportJSONSchema(schema, "Orders")
+    expect(exported.document.properties).toMatchObject({
+      id: { type: "integer", minimum: 0 },
+      price: { type: "number", multipleOf: 0.01 },
+      joined: { type: "string", pattern: "^\\d{1,2}/\\d{1,2}/\\d{4}$" },
+    })
+    expect(exported.warnings.map(warning => warning.column)).toEqual(["id", "price", "joined"])
+
+    const imported = importSchemaDocument(exported.document)
+    expect(imported.schema.id).toEqual({ ...column, dataType: "Integer", numericSign: "Positive" })
+    expect(imported.schema.price).toEqual({ ...column, dataType: "Float", precision: 2 })
+    expect(imported.schema.email).toEqual(schema.email)
+  })
+
+  it("reports the constraints it cannot convert on import", () => {
+    const imported = importSchemaDocument({
+      fields: [{ name: "code", type: "string", constraints: { pattern: "^[A-Z]{3}$", maxLength: 3, enum: ["ABC"], required: true } }],
+      primaryKey: ["code"],
+    })
+    expect(imported.schema.code).toMatchObject({ pattern: "^[A-Z]{3}$", maxLength: 3, allowedValues: ["ABC"], required: true })
+    expect(imported.warnings.map(warning => warning.message)).toEqual([
+      expect.stringContaining("primaryKey"),
+    ])
+    expect(() => importSchemaDocument({ name: "not a schema" })).toThrow()
+  })
+
+  it("converts ranges to minimum and maximum, merged with the sign", () => {
+    const age = { ...column, dataType: "Integer", numericSign: "Positive", min: 18, max: 120 }
+    const ordered = { ...column, dataType: "Date", format: "YYYY-MM-DD", separator: "-", min: "2000-01-01" }
+    expect(exportTableSchema({ age, ordered }).document.fields).toEqual([
+      { name: "age", type: "integer", constraints: { minimum: 18, maximum: 120 } },
+      { name: "ordered", type: "date", constraints: { minimum: "2000-01-01" } },
+    ])
+    expect(importSchemaDocument(exportTableSchema({ age, ordered }).document).schema).toEqual({
+      age: { ...age, numericSign: null },
+      ordered,
+    })
+
+    const exported = exportJSONSchema({ ordered })
+    expect(exported.document.properties).toEqual({ ordered: { type: "string", format: "date" } })
+    expect(exported.warnings).toEqual([{ column: "ordered", message: expect.stringContaining("range") }])
+  })
+
+  it("converts required columns to required and back, columns saved without the flag being required", () => {
+    const name = { ...column, required: true }
+    const middle = { ...column }
+    const legacy = { ...column }
+    delete (legacy as { required?: boolean }).required
+    expect(exportJSONSchema({ name, middle, legacy }).document.required).toEqual(["name", "legacy"])
+    expect(exportTableSchema({ name, middle }).document.fields).toEqual([
+      { name: "name", type: "string", constraints: { required: true } },
+      { name: "middle", type: "string" },
+    ])
+    expect(importSchemaDocument(exportJSONSchema({ name, middle }).document).schema).toEqual({ name, middle })
+    expect(importSchemaDocument(exportTableSchema({ name, middle }).document).schema).toEqual({ name, middle })
+    expect(importSchemaDocument({ properties: { name: { type: ["string", "null"] } }, required: ["name"] }).schema.name.required).toBe(false)
+  })
+
+  it("converts URL and IP columns to string formats and back", () => {
+    const addresses = { site: { ...column, dataType: "URL" }, host: { ...column, dataType: "IPv6" } }
+    expect(exportJSONSchema(addresses).document.properties).toMatchObject({ site: { format: "uri" }, host: { format: "ipv6" } })
+    expect(importSchemaDocument(exportJSONSchema(addresses).document).schema).toEqual(addresses)
+    expect(importSchemaDocument(exportTableSchema(addresses).document).schema.site).toEqual(addresses.site)
+  })
+
+  it("reports the phone country of a phone column, which neither format can hold", () => {
+    const phones = { mobile: { ...column, dataType: "PhoneNumber", phoneCountry: "DE" } }
+    expect(exportTableSchema(phones).warnings).toEqual([{ column: "mobile", message: expect.stringContaining("phone country DE") }])
+  })
+
+  it("converts allowed values to and from enum on text columns", () => {
+    const status = { ...column, dataType: "String", allowedValues: ["Active", "Inactive"] }
+    expect(exportJSONSchema({ status }).document.properties).toEqual({ status: { type: "string", enum: ["Active", "Inactive"] } })
+    expect(exportTableSchema({ status }).document.fields).toEqual([{ name: "status", type: "string", constraints: { enum: ["Active", "Inactive"] } }])
+    expect(importSchemaDocument(exportTableSchema({ status }).document).schema.status).toEqual(status)
+
+    const exported = exportJSONSchema({ level: { ...column, dataType: "Integer", allowedValues: ["1", "2"] } })
+    expect(exported.document.properties).toEqual({ level: { type: "integer" } })
+    expect(exported.warnings).toEqual([{ column: "level", message: expect.stringContaining("enum") }])
+  })
+})
@@ -0,0 +1,32 @@
+/**
+ * Purpose: Tests for template column matching
+ * Used in: Testing automation
+ */
+
+import { matchTemplateColumns, normalizeColumnName } from "../schema-templates"
+
+describe("matchTemplateColumns", () => {
+  const column = { dataType: "String", unique: false, numericSign: null, precision: null, format: null, separator: null, desc: null }
+
+  it("matches normalised names first, then similar names, each template column once", () => {
+    const template = { "Customer ID": column, "Order Date": column, "Email Address": column, Notes: column, timestamp: column }
+    const result = matchTemplateColumns(["customer_id", "Order Dt", "email", "Region"], template)
+
+    expect(result.matches).toEqual([
+      { column: "customer_id", templateColumn: "Customer ID", score: 1, exact: true },
+      { column: "Order Dt", templateColumn: "Order Date", score: 0.78, exact: false },
+      { column: "email", templateColumn: "Email Address", score: 0.8, exact: false },
+    ])
+    expect(result.unmatchedColumns).toEqual(["Region"])
+    expect(result.unusedTemplateColumns).toEqual(["Notes"])
+  })
+
+  it("leaves dissimilar names for manual mapping", () => {
+    const result = matchTemplateColumns(["qty"], { Quantity: column })
+    expect(result).toEqual({ matches: [], unmatchedColumns: ["qty"], unusedTemplateColumns: ["Quantity"] })
+  })
+
+  it("normalises case, spacing, punctuation and accents", () => {
+    expect(normalizeColumnName(" Café-Name_2 ")).toBe("cafename2")
+  })
+})
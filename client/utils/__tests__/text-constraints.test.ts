@@ -0,0 +1,37 @@
+/**
+ * Purpose: Tests for column patterns and length limits
+ * Used in: Testing automation
+ */
+
+import { checkTextConstraints, compilePattern, describeTextConstraintError, hasNestedQuantifier } from "../text-constraints"
+
+describe("checkTextConstraints", () => {
+  it("reports values that do not match the pattern or the lengths", () => {
+    const sku = { pattern: "^[A-Z]{3}-\\d{4}$" }
+    expect(checkTextConstraints("ABC-1234", sku)).toEqual([])
+    expect(checkTextConstraints("abc-12", sku)).toEqual([{ issueType: "PATTERN_MISMATCH", issueDesc: expect.any(String) }])
+
+    const name = { minLength: 2, maxLength: 80 }
+    expect(checkTextConstraints("Gérard", { maxLength: 6 })).toEqual([])
+    expect(checkTextConstraints("A", name)).toEqual([{ issueType: "LENGTH_VIOLATION", issueDesc: "Invalid Length (Expected: 2-80 characters, Found: 1)" }])
+    expect(checkTextConstraints(12345, { pattern: "^\\d{5}$" })).toEqual([])
+  })
+
+  it("flags constraints that cannot be enforced", () => {
+    expect(describeTextConstraintError({ pattern: "([" })).not.toBeNull()
+    expect(describeTextConstraintError({ minLength: 5, maxLength: 2 })).not.toBeNull()
+    expect(describeTextConstraintError({ pattern: "^a", minLength: 1 })).toBeNull()
+  })
+
+  it("rejects patterns that repeat a group that repeats itself, as the server does", () => {
+    for (const pattern of ["(a+)+$", "((ab)+c)+", "(\\d*-?)*", "(a+){3}"]) {
+      expect(hasNestedQuantifier(pattern)).toBe(true)
+      expect(compilePattern(pattern)).toBeNull()
+      expect(describeTextConstraintError({ pattern })).toMatch(/repeats a group/)
+    }
+    for (const pattern of ["(\\d+)?", "(?:ab)+", "(a|b)*", "[(a+)]+", "\\(a+\\)+"]) {
+      expect(hasNestedQuantifier(pattern)).toBe(false)
+    }
+    expect(describeTextConstraintError({ pattern: "a".repeat(201) })).toBe("The pattern is longer than 200 characters")
+  })
+})
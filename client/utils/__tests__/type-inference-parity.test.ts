@@ -0,0 +1,47 @@
+/**
+ * Purpose: Runs the same files through the client's and the server's type inference
+ * Used in: Testing automation
+ * Notes: The wizard shows the client's inference and the server stores its own, so both have to agree on every case
+ */
+
+import { inferColumnTypes } from "../type-inference"
+import { inferColumnTypes as inferColumnTypesOnServer } from "../../../server/utils/typeInference.js"
+
+const range = (length: number) => Array.from({ length }, (_, index) => index)
+
+const CASES: [string, Record<string, unknown>[]][] = [
+  ["numbers, numbers stored as text and booleans", range(30).map(index => ({
+    id: index + 1,
+    qty: String(index * 3),
+    price: index % 3 ? `${index}.25` : index,
+    active: index % 2 ? "true" : "FALSE",
+  }))],
+  ["dates in either day/month order", range(20).map(index => ({
+    us: `${(index % 12) + 1}/${(index % 15) + 13}/2024`,
+    eu: `${(index % 28) + 1}.${(index % 12) + 1}.2024`,
+    iso: `2024-01-${String(index + 1).padStart(2, "0")}`,
+  }))],
+  ["text mostly of another type, categories and empty values", range(40).map(index => ({
+    code: index < 30 ? index : `A${index}`,
+    status: ["Active", "Inactive", "Pending"][index % 3],
+    email: index === 7 ? "nobody" : `user${index}@example.com`,
+    middle_name: index % 4 ? null : "Lee",
+    id: `00000000-0000-4000-8000-${String(index).padStart(12, "0")}`,
+  }))],
+  ["codes with a leading zero", range(20).map(index => ({
+    zip: `0${2134 + index}`,
+    isbn: index % 2 ? "0306406152" : "9780306406157",
+    qty: `${index + 1}`,
+  }))],
+  ["nested values and columns that appear later", range(10).map(index => ({
+    tags: ["a", String(index)],
+    address: { city: "Berlin" },
+    ...(index >= 5 ? { late: index } : {}),
+  }))],
+]
+
+describe("type inference parity", () => {
+  it.each(CASES)("infers the same types on both sides: %s", (_, rows) => {
+    expect(inferColumnTypesOnServer(rows)).toEqual(inferColumnTypes(rows))
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Purpose: Tests for column type and required flag inference over every row
+ * Used in: Testing automation
+ */
+
+import { inferColumnTypes, inferRequired } from "../type-inference"
+
+describe("inferColumnTypes", () => {
+  const rows = Array.from({ length: 40 }, (_, index) => ({
+    id: index + 1,
+    price: index % 2 ? 2.5 : 3,
+    email: index === 12 ? "not-an-email" : `user${index}@example.com`,
+    code: index < 30 ? index : `A${index}`,
+    joined: "2024-03-15",
+    note: null,
+  }))
+  const inferred = inferColumnTypes(rows)
+
+  it("picks the most specific type that fits every value", () => {
+    expect(inferred.id).toMatchObject({ dataType: "Integer", confidence: 1, numbers: { min: 1, max: 40, maxDecimals: 0 } })
+    expect(inferred.price).toMatchObject({ dataType: "Float", confidence: 1 })
+    expect(inferred.joined).toMatchObject({ dataType: "Date", sample: "2024-03-15" })
+  })
+
+  it("keeps a type that fits nearly every value and reports the values that do not fit", () => {
+    expect(inferred.email.dataType).toBe("Email")
+    expect(inferred.email.confidence).toBe(0.975)
+    expect(inferred.email.counterexamples).toEqual([{ row: 13, value: "not-an-email" }])
+  })
+
+  it("falls back to String and names the closest type when too many values do not fit", () => {
+    expect(inferred.code).toMatchObject({ dataType: "String", confidence: 0.25, alternative: { dataType: "Integer", share: 0.75 } })
+    expect(inferred.code.counterexamples[0]).toEqual({ row: 31, value: "A30" })
+  })
+
+  it("leaves codes with a leading zero as text", () => {
+    const codes = inferColumnTypes(Array.from({ length: 20 }, (_, index) => ({ zip: `0${2134 + index}`, isbn: "0306406152", qty: "007" })))
+    expect(codes.zip).toMatchObject({ dataType: "String", confidence: 1 })
+    expect(codes.zip.alternative).toBeUndefined()
+    expect(codes.isbn.dataType).toBe("String")
+    expect(codes.qty.dataType).toBe("String")
+  })
+
+  it("does not infer a type from an empty column", () => {
+    expect(inferred.note).toMatchObject({ dataType: "String", confidence: 0, nonNull: 0, nullCount: 40 })
+  })
+
+  it("starts rarely empty columns out required and mostly empty ones optional", () => {
+    expect(inferRequired(inferred.id)).toBe(true)
+    expect(inferRequired(inferred.note)).toBe(false)
+    expect(inferRequired({ nonNull: 95, nullCount: 5 })).toBe(true)
+    expect(inferRequired({ nonNull: 90, nullCount: 10 })).toBe(false)
+  })
+})
@@ -0,0 +1,17 @@
+/**
+ * Purpose: Tests for composite unique keys
+ * Used in: Testing automation
+ */
+
+import { describeUniqueKeysError } from "../unique-keys"
+
+describe("unique keys", () => {
+  it("explains keys that cannot be enforced", () => {
+    const columns = ["store_id", "date", "sku"]
+    expect(describeUniqueKeysError([["store_id", "date"], ["store_id", "sku"]], columns)).toBeNull()
+    expect(describeUniqueKeysError([["store_id"]], columns)).toMatch(/at least two columns/)
+    expect(describeUniqueKeysError([["store_id", "day"]], columns)).toMatch(/'day' is not a column/)
+    expect(describeUniqueKeysError([["store_id", "store_id"]], columns)).toMatch(/more than once/)
+    expect(describeUniqueKeysError([["store_id", "date"], ["date", "store_id"]], columns)).toMatch(/listed more than once/)
+  })
+})
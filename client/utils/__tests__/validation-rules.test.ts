@@ -0,0 +1,26 @@
+/**
+ * Purpose: Tests for cross-column validation rules
+ * Used in: Testing automation
+ */
+
+import { compileRule, describeRuleError } from "../validation-rules"
+
+describe("validation rules", () => {
+  it("lists the columns a rule uses", () => {
+    expect(compileRule("end_date >= start_date").columns).toEqual(["end_date", "start_date"])
+    expect(compileRule("total == quantity * unit_price").columns).toEqual(["total", "quantity", "unit_price"])
+    expect(compileRule("state is required when country == 'US'").columns).toEqual(["state", "country"])
+    expect(compileRule("`Unit Price` > 0 and status in ('open', 'paid')").columns).toEqual(["Unit Price", "status"])
+  })
+
+  it("explains rules that cannot be evaluated", () => {
+    const columns = ["a", "b"]
+    expect(describeRuleError({ name: "r", expression: "a < b" }, columns)).toBeNull()
+    expect(describeRuleError({ name: "r", expression: "a +" }, columns)).toBe("The rule ends too early")
+    expect(describeRuleError({ name: "r", expression: "a + b" }, columns)).toMatch(/has to be a condition/)
+    expect(describeRuleError({ name: "r", expression: "a > c" }, columns)).toMatch(/'c' is not a column/)
+    expect(describeRuleError({ name: "r", expression: "sqrt(a) > 1" }, columns)).toMatch(/Unknown function 'sqrt'/)
+    expect(describeRuleError({ name: "r", expression: "a > date('01/02/2024')" }, columns)).toMatch(/YYYY-MM-DD/)
+    expect(describeRuleError({ name: " ", expression: "a < b" }, columns)).not.toBeNull()
+  })
+})
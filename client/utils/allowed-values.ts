@@ -0,0 +1,116 @@
+/**
+ * Allowed Values
+ * Purpose: Checks values against a category column's allowed values and finds the closest one
+ * Used in: Type inference (seeding the list at upload), column data type definition, workstation tooltip
+ * Features:
+ * - Closest allowed value, ignoring case, surrounding spaces and separators ("actve" suggests "Active")
+ * - Seeding from a column's distinct values, leaving out one-off typos of a more common value
+ * - Same rules as the server's utils/allowedValues.js, so the schema editor and validation agree
+ */
+
+/** Columns with more distinct values than this are not seeded with a list at upload */
+export const MAX_CATEGORY_VALUES = 20;
+/** How alike a value has to be to an allowed value before that value is suggested */
+const SUGGESTION_THRESHOLD = 0.6;
+
+export type CategoryIssue = {
+  issueType: 'INVALID_CATEGORY';
+  issueDesc: string;
+  value: unknown;
+  suggestion: string | null;
+};
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How alike two values are
+ * @returns 1 for values that only differ in case or separators, down to 0 for nothing in common
+ */
+export function valueSimilarity(a: unknown, b: unknown): number {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 1;
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Finds the allowed value most like a value
+ * @param value - Value outside the list
+ * @param allowedValues - Allowed values of the column
+ * @returns The closest allowed value, or null when none is alike enough
+ */
+export function closestAllowedValue(value: unknown, allowedValues: Iterable<string>): string | null {
+  let best: string | null = null;
+  let bestScore = SUGGESTION_THRESHOLD;
+  for (const allowed of allowedValues) {
+    const score = valueSimilarity(value, allowed);
+    if (score >= bestScore && (best === null || score > bestScore)) {
+      best = allowed;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Why a column's allowed values cannot be enforced
+ * @returns The reason, or null when the list is valid or there is none
+ */
+export function describeAllowedValuesError(allowedValues: string[] | null | undefined): string | null {
+  if (allowedValues === null || allowedValues === undefined) return null;
+  if (!Array.isArray(allowedValues) || allowedValues.length === 0) return 'Allowed values must list at least one value';
+  if (allowedValues.some(value => typeof value !== 'string' || value === '')) return 'Allowed values must be non-empty text';
+  return null;
+}
+
+/**
+ * Seeds allowed values from a column's distinct values
+ * A value seen once that is close to a more common value is left out, so typos show up as issues.
+ * @param counts - Distinct values of the column and how often each was seen
+ * @returns The values to allow, sorted
+ */
+export function seedAllowedValues(counts: Map<string, number>): string[] {
+  const common = [...counts].filter(([, count]) => count > 1).map(([value]) => value);
+  return [...counts]
+    .filter(([value, count]) => count > 1 || closestAllowedValue(value, common) === null)
+    .map(([value]) => value)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Checks one value against a column's allowed values
+ * @param value - Cell value
+ * @param allowedValues - Allowed values of the column
+ * @returns The INVALID_CATEGORY issue validation would report, with the closest allowed value, or null
+ */
+export function checkAllowedValue(value: unknown, allowedValues: string[] | null | undefined): CategoryIssue | null {
+  const allowed = new Set(allowedValues || []);
+  if (allowed.size === 0 || value === null || value === undefined || typeof value === 'object') return null;
+
+  const text = String(value);
+  if (allowed.has(text)) return null;
+
+  const suggestion = closestAllowedValue(text, allowed);
+  return {
+    issueType: 'INVALID_CATEGORY',
+    issueDesc: suggestion
+      ? `Value Not Allowed (Found: '${text}', Did You Mean: '${suggestion}')`
+      : `Value Not Allowed (Expected one of: ${[...allowed].join(', ')}, Found: '${text}')`,
+    value,
+    suggestion,
+  };
+}
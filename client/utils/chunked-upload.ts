@@ -0,0 +1,160 @@
+/**
+ * Chunked Upload
+ * Purpose: Uploads large files in checksummed chunks that survive network drops
+ * Used in: File upload wizard, Upload form, Append batch button, Version selector
+ * Features:
+ * - 5MB chunks sent one at a time with a SHA-256 checksum each
+ * - Retries with backoff when a chunk fails in transit
+ * - Resumes an interrupted upload of the same file (the server remembers received chunks)
+ * - Progress reporting after every chunk
+ * - Adding a file to an existing project as a new batch of rows or a new version
+ */
+
+import { StartChunkedUpload, UploadChunk, CompleteChunkedUpload } from '@/utils/uploadActions';
+import { UploadResponse } from '@/utils/file-upload-adapter';
+import { UploadProgressType } from '@/utils/types';
+
+/**
+ * Options for a chunked upload
+ */
+export type ChunkedUploadOptions = {
+  category: string;
+  description: string;
+  parseOptions?: Record<string, unknown>;
+  /** Adds the file to this project instead of creating a new one */
+  targetFileId?: string;
+  /** Append the rows as a batch (default) or replace the source file with a new version */
+  targetMode?: 'batch' | 'version';
+  onProgress?: (progress: UploadProgressType) => void;
+  maxRetries?: number;
+};
+
+const DEFAULT_MAX_RETRIES = 5;
+const RETRY_BASE_DELAY = 1000;
+
+/**
+ * Identifies a file across attempts, so a retry of the same file resumes its upload
+ */
+function fileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * Computes the SHA-256 checksum of a chunk as a hex string
+ */
+async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Uploads a file in chunks and registers it once every chunk has arrived
+ * If the upload stops (network drop, closed tab), calling this again with the
+ * same file continues from the chunks the server already has.
+ * @param file - File to upload
+ * @param options - Project details, parse options, progress callback and retry limit
+ * @returns Promise resolving to the same response as a regular upload, or the batch / version report
+ */
+export async function uploadFileInChunks(file: File, options: ChunkedUploadOptions): Promise<UploadResponse> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  const started = await StartChunkedUpload({
+    fileName: file.name,
+    fileSize: file.size,
+    fingerprint: fileFingerprint(file),
+    contentType: file.type || 'application/octet-stream',
+    category: options.category,
+    description: options.description,
+    parseOptions: options.parseOptions,
+    targetFileId: options.targetFileId,
+    targetMode: options.targetMode,
+  });
+
+  if (!started.session) {
+    return { message: null, errors: { root: [started.error || 'Could not start the upload'] } };
+  }
+
+  const { uploadId, chunkSize, totalChunks, receivedChunks } = started.session;
+  const received = new Set(receivedChunks);
+
+  const chunkLength = (index: number) => Math.min(chunkSize, file.size - index * chunkSize);
+  let uploadedBytes = receivedChunks.reduce((total, index) => total + chunkLength(index), 0);
+
+  const reportProgress = () => {
+    options.onProgress?.({
+      uploadedBytes,
+      totalBytes: file.size,
+      percent: file.size ? Math.round((uploadedBytes / file.size) * 100) : 100,
+    });
+  };
+  reportProgress();
+
+  for (let index = 0; index < totalChunks; index++) {
+    if (received.has(index)) continue;
+
+    const chunk = file.slice(index * chunkSize, index * chunkSize + chunkSize);
+    const checksum = await sha256Hex(await chunk.arrayBuffer());
+
+    for (let attempt = 0; ; attempt++) {
+      const formData = new FormData();
+      formData.append('uploadId', uploadId);
+      formData.append('index', String(index));
+      formData.append('checksum', checksum);
+      formData.append('chunk', chunk);
+
+      let result;
+      try {
+        result = await UploadChunk(formData);
+      } catch {
+        // The request to the Next.js server itself failed (offline)
+        result = { error: 'Network connection lost', retryable: true };
+      }
+
+      if (!result.error) break;
+
+      if (!result.retryable || attempt >= maxRetries) {
+        return {
+          message: null,
+          errors: { root: [`${result.error} Upload the same file again to resume.`] },
+        };
+      }
+
+      await wait(RETRY_BASE_DELAY * 2 ** attempt);
+    }
+
+    uploadedBytes += chunk.size;
+    reportProgress();
+  }
+
+  const completed = await CompleteChunkedUpload(uploadId);
+  if (options.targetFileId && options.targetMode === 'version') {
+    if (completed.error || !completed.version) {
+      return { message: null, errors: { root: [completed.error || 'Could not add the version'] } };
+    }
+    return { message: completed.message || 'Version uploaded', version: completed.version };
+  }
+
+  if (options.targetFileId) {
+    if (completed.error || !completed.batch) {
+      return { message: null, errors: { root: [completed.error || 'Could not append the rows'] } };
+    }
+    return { message: completed.message || 'Rows appended', batch: completed.batch };
+  }
+
+  if (completed.error || !completed.fileSchemaDefinition) {
+    return { message: null, errors: { root: [completed.error || 'Could not complete the upload'] } };
+  }
+
+  return {
+    message: completed.message || 'Uploaded successfully',
+    fileSchemaDefinition: {
+      file_id: completed.fileSchemaDefinition.file_id,
+      schema_definition: completed.fileSchemaDefinition.schema_definition,
+      awareness: completed.fileSchemaDefinition.awareness || '',
+    },
+  };
+}
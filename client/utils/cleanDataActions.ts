@@ -4,6 +4,7 @@
  * Used in: Data cleaning, action history, error recovery
  * Features:
  * - Data cleaning execution
+ * - Saving an action picked in the workstation (issue fixes)
  * - Action deletion
  * - Bulk action management
  * - Error handling
@@ -26,16 +27,17 @@ interface ErrorResponse {
  * Cleans data for a specific file
  * @param fileId - ID of the file to clean
  * @param chat - Optional chat message for the cleaning operation
+ * @param version - Optional version of the source file to replay the actions against
  * @returns Promise resolving to cleaning operation result
  */
-export const CleanData = async(fileId: string, chat:string | null) => {
+export const CleanData = async(fileId: string, chat:string | null, version?: number) => {
     const cookieStore = await cookies();
     const accessTokenCookie = cookieStore.get("accessToken")?.value;
     
     try {
         const { status, data } = await axiosPrivate.post(
             "/cleandata",
-            { fileId, chat },
+            { fileId, chat, version },
             {
                 headers: {
                     Authorization: `Bearer ${accessTokenCookie}`,
@@ -89,6 +91,38 @@ export const CleanData = async(fileId: string, chat:string | null) => {
     }
 }
 
+/**
+ * Saves an action without going through the AI chat, e.g. the suggested fix of an issue
+ * It is replayed with the other actions on the next clean data request.
+ * @param fileId - ID of the file the action applies to
+ * @param action - Action details with its type, title and response
+ * @returns Promise resolving to the save result
+ */
+export const AddAction = async (fileId: string, action: { type: string; title: string; response?: string; [key: string]: unknown }) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try {
+        const { data } = await axiosPrivate.post(
+            "/actions",
+            { fileId, action },
+            {
+                headers: {
+                    Authorization: `Bearer ${accessTokenCookie}`,
+                },
+            }
+        );
+
+        return { status: data.status === true, message: data.message };
+    } catch (error: unknown) {
+        const message = error instanceof AxiosError
+            ? (error.response?.data as ErrorResponse | undefined)?.message || error.message
+            : (error as Error).message;
+        console.error("Error saving action:", message);
+        return { status: false, message: message || "The action could not be saved." };
+    }
+}
+
 /**
  * Deletes a specific action
  * @param fileId - ID of the file associated with the action
@@ -0,0 +1,321 @@
+/**
+ * Data Types
+ * Purpose: Registry of the domain data types a column can have besides the basic ones (String, Integer, Date, ...)
+ * Used in: Column data type definition, custom types editor (schema editor), file upload wizard, phone country select
+ * Features:
+ * - Built-in types: IBAN, ISO country code, US and UK postal codes, URL, IPv4, IPv6 and ISBN
+ * - A type is a normaliser, a format (pattern and/or test) and an optional checksum (mod97, luhn, isbn)
+ * - User-defined types are built from the same pieces, a pattern must match the whole value
+ * - Same rules as the server's utils/dataTypes.js, so the live test and validation agree
+ */
+
+import { describePatternError } from '@/utils/text-constraints';
+
+export type DataTypeNormalizer = 'trim' | 'upper' | 'lower' | 'compact';
+export type DataTypeChecksum = 'mod97' | 'luhn' | 'isbn';
+
+/** Type a user defined, as stored in custom_data_types */
+export type CustomDataType = {
+  type_id?: string;
+  name: string;
+  description?: string | null;
+  pattern?: string | null;
+  checksum?: DataTypeChecksum | null;
+  normalizer?: DataTypeNormalizer | null;
+  /** Issue text used instead of "Invalid <name> Format" */
+  message?: string | null;
+};
+
+export type RegisteredDataType = {
+  name: string;
+  description: string | null;
+  builtIn: boolean;
+  normalize: (text: string) => string;
+  pattern: RegExp | null;
+  test: ((text: string) => boolean) | null;
+  checksum: ((text: string) => boolean) | null;
+  message: string | null;
+};
+
+export type DataTypeIssue = {
+  issueType: 'INVALID_FORMAT';
+  issueDesc: string;
+};
+
+type BuiltInDataType = {
+  name: string;
+  description: string;
+  normalizer?: DataTypeNormalizer;
+  normalize?: (text: string) => string;
+  pattern?: string;
+  test?: (text: string) => boolean;
+  checksum?: DataTypeChecksum;
+};
+
+/** Types handled by their own branch in validation, a registry type may not reuse their names */
+export const BASIC_DATA_TYPES = [
+  'String', 'Integer', 'Float', 'Email', 'Boolean', 'Date', 'UUID', 'PhoneNumber',
+  'Array', 'Object', 'Timestamp', 'Currency', 'Percentage', 'All', 'Null',
+];
+
+export const NORMALIZERS: Record<DataTypeNormalizer, (text: string) => string> = {
+  trim: text => text.trim(),
+  upper: text => text.trim().toUpperCase(),
+  lower: text => text.trim().toLowerCase(),
+  // Identifiers written in groups, "gb82 west-1234" -> "GB82WEST1234"
+  compact: text => text.replace(/[\s-]+/g, '').toUpperCase(),
+};
+
+export const NORMALIZER_OPTIONS: { value: DataTypeNormalizer; label: string }[] = [
+  { value: 'trim', label: 'Trim spaces' },
+  { value: 'upper', label: 'Uppercase' },
+  { value: 'lower', label: 'Lowercase' },
+  { value: 'compact', label: 'Remove spaces and hyphens, uppercase' },
+];
+
+export const CHECKSUM_OPTIONS: { value: DataTypeChecksum; label: string }[] = [
+  { value: 'mod97', label: 'Mod 97 (IBAN)' },
+  { value: 'luhn', label: 'Luhn (card numbers)' },
+  { value: 'isbn', label: 'ISBN-10 / ISBN-13' },
+];
+
+// Value of a string of digits and letters (A = 10 ... Z = 35) modulo 97, read in chunks to stay within integers
+function mod97(text: string): number {
+  const digits = text.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(String(remainder) + digits.slice(i, i + 7)) % 97;
+  }
+  return remainder;
+}
+
+export const CHECKSUMS: Record<DataTypeChecksum, (text: string) => boolean> = {
+  // ISO 13616 (IBAN): the country and check digits moved to the end must leave 1 modulo 97
+  mod97: text => /^[A-Z0-9]{5,}$/.test(text) && mod97(text.slice(4) + text.slice(0, 4)) === 1,
+  luhn: text => {
+    if (!/^\d{2,}$/.test(text)) return false;
+    let sum = 0;
+    [...text].reverse().forEach((digit, index) => {
+      let value = Number(digit);
+      if (index % 2 === 1) {
+        value *= 2;
+        if (value > 9) value -= 9;
+      }
+      sum += value;
+    });
+    return sum % 10 === 0;
+  },
+  // ISBN-10 (weights 10..1, X = 10, modulo 11) or ISBN-13 (weights 1 and 3, modulo 10)
+  isbn: text => {
+    if (/^\d{9}[\dX]$/.test(text)) {
+      const sum = [...text].reduce((acc, digit, index) => acc + (digit === 'X' ? 10 : Number(digit)) * (10 - index), 0);
+      return sum % 11 === 0;
+    }
+    if (/^\d{13}$/.test(text)) {
+      const sum = [...text].reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+      return sum % 10 === 0;
+    }
+    return false;
+  },
+};
+
+/** ISO 3166-1 alpha-2 country codes, also offered as phone countries */
+export const COUNTRY_CODES: string[] = (
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ ' +
+  'CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR ' +
+  'GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP ' +
+  'KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT ' +
+  'MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+  'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG ' +
+  'UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' ');
+const COUNTRY_CODE_SET = new Set(COUNTRY_CODES);
+
+const IPV4_PART = '(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+const IPV4 = new RegExp(`^${IPV4_PART}(\\.${IPV4_PART}){3}$`);
+
+// Eight groups of up to four hex digits, "::" standing for one or more zero groups and an IPv4 tail counting as two
+function isIPv6(text: string): boolean {
+  const halves = text.split('::');
+  if (halves.length > 2) return false;
+
+  const all = halves.flatMap(half => (half === '' ? [] : half.split(':')));
+  let count = all.length;
+  if (all.length > 0 && all[all.length - 1].includes('.')) {
+    if (!IPV4.test(all[all.length - 1])) return false;
+    all.pop();
+    count += 1;
+  }
+
+  if (!all.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return false;
+  return halves.length === 2 ? count < 8 : count === 8;
+}
+
+function isWebUrl(text: string): boolean {
+  if (/\s/.test(text)) return false;
+  try {
+    const url = new URL(text);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname !== '';
+  } catch {
+    return false;
+  }
+}
+
+// UK postcodes are written with a space before the last three characters, "sw1a1aa" -> "SW1A 1AA"
+function ukPostcode(text: string): string {
+  const compact = text.replace(/\s+/g, '').toUpperCase();
+  return compact.length > 3 ? `${compact.slice(0, -3)} ${compact.slice(-3)}` : compact;
+}
+
+export const BUILT_IN_DATA_TYPES: BuiltInDataType[] = [
+  {
+    name: 'IBAN',
+    description: 'International bank account number, checked with its mod-97 check digits',
+    normalizer: 'compact',
+    pattern: '^[A-Z]{2}\\d{2}[A-Z0-9]{11,30}$',
+    checksum: 'mod97',
+  },
+  {
+    name: 'CountryCode',
+    description: 'ISO 3166-1 alpha-2 country code, such as US or DE',
+    normalizer: 'upper',
+    test: text => COUNTRY_CODE_SET.has(text),
+  },
+  {
+    name: 'PostalCodeUS',
+    description: 'US ZIP code, 12345 or 12345-6789',
+    normalizer: 'trim',
+    pattern: '^\\d{5}(-\\d{4})?$',
+  },
+  {
+    name: 'PostalCodeUK',
+    description: 'UK postcode, such as SW1A 1AA',
+    normalize: ukPostcode,
+    pattern: '^([A-Z]{1,2}\\d[A-Z\\d]? \\d[A-Z]{2}|GIR 0AA)$',
+  },
+  {
+    name: 'URL',
+    description: 'Web address starting with http:// or https://',
+    normalizer: 'trim',
+    test: isWebUrl,
+  },
+  {
+    name: 'IPv4',
+    description: 'IPv4 address, such as 192.168.0.1',
+    normalizer: 'trim',
+    pattern: IPV4.source,
+  },
+  {
+    name: 'IPv6',
+    description: 'IPv6 address, such as 2001:db8::1',
+    normalizer: 'lower',
+    test: isIPv6,
+  },
+  {
+    name: 'ISBN',
+    description: 'ISBN-10 or ISBN-13 book number, checked with its check digit',
+    normalizer: 'compact',
+    checksum: 'isbn',
+  },
+];
+
+// A custom type's pattern must match the whole value, so "\d{4}" does not accept "12345",
+// and is held to the same limits as a column pattern
+function compileTypePattern(pattern: string | null | undefined): RegExp | null {
+  if (typeof pattern !== 'string' || pattern === '' || describePatternError(pattern)) return null;
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Built-in types followed by the user's, keyed by name
+ * @param customTypes - The user's own types
+ * @returns The registry; a custom type named like a built-in one is ignored
+ */
+export function buildDataTypeRegistry(customTypes: CustomDataType[] = []): Record<string, RegisteredDataType> {
+  const registry: Record<string, RegisteredDataType> = {};
+  BUILT_IN_DATA_TYPES.forEach(definition => {
+    registry[definition.name] = {
+      name: definition.name,
+      description: definition.description,
+      builtIn: true,
+      normalize: definition.normalize || NORMALIZERS[definition.normalizer || 'trim'],
+      pattern: definition.pattern ? new RegExp(definition.pattern) : null,
+      test: definition.test || null,
+      checksum: definition.checksum ? CHECKSUMS[definition.checksum] : null,
+      message: null,
+    };
+  });
+  customTypes.forEach(definition => {
+    if (registry[definition.name]) return;
+    registry[definition.name] = {
+      name: definition.name,
+      description: definition.description || null,
+      builtIn: false,
+      normalize: NORMALIZERS[definition.normalizer || 'trim'] || NORMALIZERS.trim,
+      pattern: compileTypePattern(definition.pattern),
+      test: null,
+      checksum: definition.checksum ? CHECKSUMS[definition.checksum] : null,
+      message: definition.message || null,
+    };
+  });
+  return registry;
+}
+
+/**
+ * Why a custom type cannot be saved
+ * @param definition - The type as edited
+ * @returns The reason, or null when the type is valid
+ */
+export function describeDataTypeError(definition: CustomDataType): string | null {
+  const name = definition.name.trim();
+  if (!/^[A-Za-z][A-Za-z0-9_]{0,63}$/.test(name)) {
+    return 'A type name starts with a letter and has only letters, digits and underscores.';
+  }
+  if (BASIC_DATA_TYPES.includes(name) || BUILT_IN_DATA_TYPES.some(type => type.name === name)) {
+    return `'${name}' is the name of a built-in data type.`;
+  }
+  if (!definition.pattern && !definition.checksum) {
+    return 'A type needs a pattern, a checksum or both.';
+  }
+  if (definition.pattern) {
+    const patternError = describePatternError(definition.pattern);
+    if (patternError) return `The pattern of '${name}' ${patternError}.`;
+    if (!compileTypePattern(definition.pattern)) return `The pattern of '${name}' is not a valid regular expression.`;
+  }
+  return null;
+}
+
+/**
+ * Canonical text of a value for a registry type
+ * @returns The normalised text, or null when the value is not text or a number
+ */
+export function normalizeDataTypeValue(value: unknown, type: RegisteredDataType): string | null {
+  if (value === null || value === undefined || typeof value === 'object') return null;
+  return type.normalize(String(value));
+}
+
+/**
+ * Checks a value against a registry type
+ * The format is checked before the check digits, so a mistyped value is not reported as a bad checksum.
+ * @param value - Value of the column
+ * @param type - Type of the column, from buildDataTypeRegistry
+ * @returns The INVALID_FORMAT issue, or null when the value fits the type
+ */
+export function checkDataType(value: unknown, type: RegisteredDataType): DataTypeIssue | null {
+  const text = normalizeDataTypeValue(value, type);
+  const found = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (text === null || (type.pattern && !type.pattern.test(text)) || (type.test && !type.test(text))) {
+    return { issueType: 'INVALID_FORMAT', issueDesc: `${type.message || `Invalid ${type.name} Format`} (Found: ${found})` };
+  }
+
+  if (type.checksum && !type.checksum(text)) {
+    return { issueType: 'INVALID_FORMAT', issueDesc: `${type.message || `Invalid ${type.name} Check Digits`} (Found: ${found})` };
+  }
+
+  return null;
+}
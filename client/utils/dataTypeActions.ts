@@ -0,0 +1,101 @@
+/**
+ * Data Type Actions
+ * Purpose: Handles the data types of the registry, built-in ones and the user's own
+ * Used in: Define data types (type list and custom types editor), File upload wizard
+ * Features:
+ * - Listing the built-in types and the user's types
+ * - Saving a type from a pattern, a checksum or both; projects using it are revalidated
+ * - Type deletion
+ * - Error handling
+ * - Authentication integration
+ */
+
+'use server'
+import { cookies } from "next/headers";
+import { axiosPrivate } from '@/services/axios';
+import { AxiosError } from 'axios';
+import { CustomDataType } from '@/utils/data-types';
+
+/**
+ * Retrieves the data types a column can have besides the basic ones
+ * @returns Promise resolving to the built-in types and the user's types
+ */
+export const GetDataTypes = async () => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try{
+        const {data} = await axiosPrivate.get(`/datatypes`,{
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`,
+            },
+        });
+
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
+
+/**
+ * Saves one of the user's data types
+ * A type saved under an existing name replaces it, and the projects with a column of that type are revalidated.
+ * @param dataType - Name, pattern, checksum, normaliser and issue message of the type
+ * @returns Promise resolving to the saved type
+ */
+export const SaveDataType = async (dataType:CustomDataType) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try{
+        const {data} = await axiosPrivate.post(`/datatypes`, dataType, {
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`,
+            },
+        });
+
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
+
+/**
+ * Deletes one of the user's data types
+ * @param typeId - ID of the type
+ * @returns Promise resolving to the deletion result
+ */
+export const DeleteDataType = async (typeId:string) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try{
+        const {data} = await axiosPrivate.delete(`/datatypes/${typeId}`,{
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`,
+            },
+        });
+
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
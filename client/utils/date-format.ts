@@ -0,0 +1,133 @@
+/**
+ * Date Format
+ * Purpose: Infers a date column's format (MM/DD, DD/MM or year first) from all of its values
+ * Used in: File parsers, Type inference, File upload wizard
+ * Features:
+ * - Reads dates with a four-digit year first or last and "-", "/" or "." separators
+ * - A first part above 12 can only be a day (DD/MM), a second part above 12 only a day (MM/DD)
+ * - Reports when no value settles the order, or when values point both ways
+ * - Same rules as the server's utils/dateFormat.js, so both sides agree
+ */
+
+import { DateFormatInference } from '@/utils/types';
+
+/**
+ * Parts of a date text, in the order they were written
+ */
+export type DateText = {
+  yearFirst: boolean;
+  separator: string;
+  parts: [number, number, number];
+};
+
+/**
+ * Evidence for each order and the separators used, over the dates of a column
+ */
+export type DateTally = {
+  yearFirst: number;
+  yearLast: number;
+  dayFirst: number;
+  monthFirst: number;
+  separators: Record<string, number>;
+};
+
+const YEAR_FIRST_DATE = /^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})$/;
+const YEAR_LAST_DATE = /^(\d{1,2})([-/.])(\d{1,2})\2(\d{4})$/;
+
+/**
+ * Splits a date written with a four-digit year first or last
+ * @param value - Cell value
+ * @returns The parts and separator, or null if the value is not a date text
+ */
+export function parseDateText(value: unknown): DateText | null {
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const match = text.match(YEAR_FIRST_DATE) || text.match(YEAR_LAST_DATE);
+  if (!match) return null;
+
+  return {
+    yearFirst: match[1].length === 4,
+    separator: match[2],
+    parts: [Number(match[1]), Number(match[3]), Number(match[4])],
+  };
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  return day <= daysInMonth[month - 1];
+}
+
+/**
+ * Whether a text is a calendar date
+ * With the year last, it has to be valid with the day first or with the month first.
+ */
+export function isDateText(value: unknown): boolean {
+  const date = parseDateText(value);
+  if (!date) return false;
+
+  const [a, b, c] = date.parts;
+  if (date.yearFirst) return isValidDay(a, b, c);
+  return isValidDay(c, a, b) || isValidDay(c, b, a);
+}
+
+export function createDateTally(): DateTally {
+  return { yearFirst: 0, yearLast: 0, dayFirst: 0, monthFirst: 0, separators: {} };
+}
+
+/**
+ * Counts one value of a column towards its date format
+ */
+export function tallyDate(tally: DateTally, value: unknown) {
+  const date = parseDateText(value);
+  if (!date) return;
+
+  tally.separators[date.separator] = (tally.separators[date.separator] || 0) + 1;
+  if (date.yearFirst) {
+    tally.yearFirst++;
+    return;
+  }
+
+  tally.yearLast++;
+  const [first, second] = date.parts;
+  if (first > 12 && second <= 12) tally.dayFirst++;
+  if (second > 12 && first <= 12) tally.monthFirst++;
+}
+
+/**
+ * Picks a column's format from its tally
+ * An unsettled column keeps MM/DD, the order the wizard used before this was inferred.
+ */
+export function dateFormatFromTally(tally: DateTally): DateFormatInference {
+  const separator = Object.keys(tally.separators)
+    .sort((a, b) => tally.separators[b] - tally.separators[a])[0] || '-';
+  const evidence = { dayFirst: tally.dayFirst, monthFirst: tally.monthFirst };
+
+  if (tally.yearFirst >= tally.yearLast) {
+    return { format: ['YYYY', 'MM', 'DD'].join(separator), separator, ambiguous: false, evidence };
+  }
+
+  const dayFirst = tally.dayFirst > tally.monthFirst;
+  return {
+    format: (dayFirst ? ['DD', 'MM', 'YYYY'] : ['MM', 'DD', 'YYYY']).join(separator),
+    separator,
+    ambiguous: (tally.dayFirst > 0) === (tally.monthFirst > 0),
+    evidence,
+  };
+}
+
+/**
+ * Infers the format of a list of date values
+ * @param values - Values of a date column
+ * @returns Format with its separator, and whether the day/month order stayed ambiguous
+ */
+export function inferDateFormat(values: unknown[]): DateFormatInference {
+  const tally = createDateTally();
+  values.forEach(value => tallyDate(tally, value));
+  return dateFormatFromTally(tally);
+}
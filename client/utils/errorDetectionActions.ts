@@ -4,6 +4,7 @@
  * Used in: Error detection, schema validation, issue analysis
  * Features:
  * - Schema retrieval
+ * - Schema history and rollback
  * - Issue detection
  * - Error handling
  * - Authentication integration
@@ -12,6 +13,7 @@
 'use server'
 import { cookies } from "next/headers";
 import { axiosPrivate } from '@/services/axios';
+import { AxiosError } from 'axios';
 
 /**
  * Retrieves schema for a specific file
@@ -39,6 +41,61 @@ export const GetSchema = async (fileId:string) => {
     }
 }
 
+/**
+ * Retrieves every saved schema of a file, oldest first
+ * @param fileId - ID of the file to get the schema history for
+ * @returns Promise resolving to the schema versions and the current version number
+ */
+export const GetSchemaVersions = async (fileId:string) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+    
+    try{
+        const {data} = await axiosPrivate.get(`/schemaversions?fileid=${fileId}`,{
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`, 
+            },
+        });
+        
+        return data;
+    }catch(error){
+        if(error){
+            return {
+                message: "Something went wrong. Please try again!",
+            };
+        }
+    }
+}
+
+/**
+ * Restores an earlier schema of a file; its issues are revalidated against it
+ * @param fileId - ID of the file
+ * @param version - Schema version number to restore
+ * @returns Promise resolving to the rollback report (new version number, row and issue counts)
+ */
+export const RollbackSchema = async (fileId:string, version:number) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+    
+    try{
+        const {data} = await axiosPrivate.put(`/schemaversions`, { fileId, version }, {
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`, 
+            },
+        });
+        
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
+
 /**
  * Retrieves issues for a specific file
  * @param fileId - ID of the file to get issues for
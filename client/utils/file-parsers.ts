@@ -3,132 +3,942 @@
  * Purpose: Provides utilities for parsing and analyzing uploaded files in the browser
  * Used in: File upload wizard, data preview, schema detection
  * Features:
- * - CSV file parsing
+ * - Streaming RFC 4180 CSV parsing (multiline quoted fields)
+ * - Delimiter and quote character sniffing
+ * - Character encoding detection (UTF-8, UTF-16, Windows-1252, Latin-1)
+ * - Excel workbook sheet listing, preview and row-by-row reading
+ * - Header row, skipped top/bottom rows and multi-row header detection
+ * - JSON / NDJSON parsing with nested object flattening
+ * - Locale-aware numbers ("1.234,56", "1 234,56")
  * - Data type detection
  * - Column type analysis
  * - Date format detection
  * - Null value handling
  */
 
+import { NumberFormat, parseLocaleNumber } from '@/utils/number-format';
+import { isDateText } from '@/utils/date-format';
+
 /**
  * Type definitions for parsed data
  */
 export type DataRow = Record<string, any>;
 export type ColumnTypes = Record<string, string>;
 
+/**
+ * CSV dialect settings shared with the server parser
+ * (stored in `files.parse_options.dialect` and read by ParseS3File)
+ */
+export type CSVDialect = {
+  delimiter: string;
+  quoteChar: string;
+};
+
+/**
+ * Table layout shared with the server parser (stored in `files.parse_options.layout`)
+ * `skipTop` rows above the header (title banners) and `skipBottom` rows at the end
+ * ("Total" footers) are dropped; `headerRows` rows are merged into one name per column.
+ * Blank lines are not counted.
+ */
+export type TableLayout = {
+  skipTop: number;
+  headerRows: number;
+  skipBottom: number;
+};
+
+/**
+ * Options for incremental CSV parsing
+ */
+export type CSVParseOptions = {
+  dialect?: CSVDialect;
+  encoding?: string;
+  layout?: TableLayout;
+  numberFormat?: NumberFormat;
+  chunkSize?: number;
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+};
+
+/**
+ * Summary of one worksheet, used by the wizard's sheet picker
+ */
+export type ExcelSheetSummary = {
+  name: string;
+  rowCount: number;
+  preview: DataRow[];
+  detectedLayout: TableLayout;
+};
+
+/**
+ * JSON layout: a single document (array or object) or one record per line
+ */
+export type JSONFormat = 'json' | 'ndjson';
+
+/**
+ * JSON parse settings shared with the server parser
+ * (stored in `files.parse_options.json` and read by ParseS3File)
+ * `flattenDepth` is the number of nested object levels turned into dotted
+ * columns; null flattens every level
+ */
+export type JSONParseOptions = {
+  format?: JSONFormat;
+  flattenDepth?: number | null;
+};
+
+/**
+ * Parse options stored with a project (`files.parse_options`), as the wizard sends them
+ * Every setting is optional; what is missing is detected the way the server detects it.
+ */
+export type StoredParseOptions = {
+  encoding?: string;
+  dialect?: CSVDialect;
+  sheets?: string[];
+  json?: JSONParseOptions;
+  layout?: TableLayout;
+  numberFormat?: NumberFormat;
+  /** Columns read under another name, `{ fileColumn: newName }` */
+  renameColumns?: Record<string, string>;
+};
+
+/**
+ * Text encodings the wizard can read, shared with the server
+ * (stored in `files.parse_options.encoding`)
+ */
+export const SUPPORTED_ENCODINGS = [
+  'utf-8',
+  'utf-16le',
+  'utf-16be',
+  'windows-1252',
+  'iso-8859-1',
+  'iso-8859-15',
+];
+
+export const DEFAULT_ENCODING = 'utf-8';
+
+export const DEFAULT_CSV_DIALECT: CSVDialect = { delimiter: ',', quoteChar: '"' };
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = { skipTop: 0, headerRows: 1, skipBottom: 0 };
+export const MAX_HEADER_ROWS = 5;
+
+export const CSV_DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+export const CSV_QUOTE_CANDIDATES = ['"', "'"];
+
+// Size of each slice read from the file and of the sample used for sniffing
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const SNIFF_SAMPLE_SIZE = 64 * 1024;
+const SNIFF_MAX_RECORDS = 50;
+// Records read from the start and bytes read from the end of a file to detect its layout
+const LAYOUT_HEAD_RECORDS = 30;
+const LAYOUT_TAIL_SIZE = 16 * 1024;
+const MAX_FOOTER_ROWS = 5;
+
+/**
+ * Incremental RFC 4180 parser
+ * Characters can be pushed in arbitrary chunks; quoted fields may contain
+ * delimiters, doubled quotes and line breaks, and a record is only emitted
+ * once its terminating line break has been seen.
+ */
+export class CSVStreamParser {
+  private dialect: CSVDialect;
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false;
+  private crPending = false;
+  private fieldStarted = false;
+
+  constructor(dialect: CSVDialect = DEFAULT_CSV_DIALECT) {
+    this.dialect = dialect;
+  }
+
+  /**
+   * Feeds a chunk of text into the parser
+   * @param chunk - Next piece of the CSV text
+   * @returns Records completed by this chunk
+   */
+  push(chunk: string): string[][] {
+    const { delimiter, quoteChar } = this.dialect;
+    const records: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // A CR is only a line break on its own or as part of CRLF
+      if (this.crPending) {
+        this.crPending = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === quoteChar) {
+            // Doubled quote inside a quoted field
+            this.field += quoteChar;
+            continue;
+          }
+          // The previous quote closed the field; fall through to handle this char
+          this.inQuotes = false;
+        } else if (char === quoteChar) {
+          this.quotePending = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === quoteChar && !this.fieldStarted) {
+        this.inQuotes = true;
+        this.fieldStarted = true;
+      } else if (char === delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.crPending = char === '\r';
+        const record = this.endRecord();
+        if (record) records.push(record);
+      } else {
+        this.field += char;
+        this.fieldStarted = true;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Signals the end of input and returns the last record, if any
+   * @returns Remaining records
+   */
+  flush(): string[][] {
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    const record = this.endRecord();
+    return record ? [record] : [];
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+  }
+
+  private endRecord(): string[] | null {
+    const isBlankLine = this.record.length === 0 && !this.fieldStarted && this.field === '';
+    if (isBlankLine) return null;
+
+    this.endField();
+    const record = this.record;
+    this.record = [];
+    return record;
+  }
+}
+
+/**
+ * Guesses the delimiter and quote character of a CSV sample
+ * Each candidate dialect is scored on how consistently it splits the sampled
+ * records into the same number of fields (more than one field is required).
+ * @param sample - Text from the start of the file
+ * @returns The most likely dialect, or the default comma dialect
+ */
+export function sniffCSVDialect(sample: string): CSVDialect {
+  const text = sample.replace(/^\uFEFF/, '');
+  // Drop a trailing line without a line break, it may have been cut off by the sample size
+  const lastBreak = Math.max(text.lastIndexOf('\n'), text.lastIndexOf('\r'));
+  const body = lastBreak > 0 ? text.slice(0, lastBreak) : text;
+
+  let best: { dialect: CSVDialect; score: number } | null = null;
+
+  for (const quoteChar of CSV_QUOTE_CANDIDATES) {
+    for (const delimiter of CSV_DELIMITER_CANDIDATES) {
+      const parser = new CSVStreamParser({ delimiter, quoteChar });
+      const records = [...parser.push(body), ...parser.flush()].slice(0, SNIFF_MAX_RECORDS);
+      if (records.length === 0) continue;
+
+      // Find the most common field count
+      const counts = new Map<number, number>();
+      records.forEach(record => counts.set(record.length, (counts.get(record.length) || 0) + 1));
+      const [modeWidth, modeCount] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+      if (modeWidth < 2) continue;
+
+      const consistency = modeCount / records.length;
+      const quotedFields = countQuotedFields(body, delimiter, quoteChar);
+      // Consistency dominates; width and quote usage break ties
+      const score = consistency * 1000 + Math.min(modeWidth, 100) + Math.min(quotedFields, 50) / 100;
+
+      if (!best || score > best.score) {
+        best = { dialect: { delimiter, quoteChar }, score };
+      }
+    }
+  }
+
+  return best ? best.dialect : DEFAULT_CSV_DIALECT;
+}
+
+/**
+ * Counts fields that open with the quote character right after a delimiter or line start
+ */
+function countQuotedFields(text: string, delimiter: string, quoteChar: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== quoteChar) continue;
+    const prev = i === 0 ? '\n' : text[i - 1];
+    if (prev === delimiter || prev === '\n' || prev === '\r') count++;
+  }
+  return count;
+}
+
+/**
+ * Strict UTF-8 check; a multi-byte sequence cut off at the end of the sample is accepted
+ */
+function isValidUTF8(bytes: Uint8Array): boolean {
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const length = byte < 0x80 ? 1
+      : byte >= 0xc2 && byte <= 0xdf ? 2
+      : byte >= 0xe0 && byte <= 0xef ? 3
+      : byte >= 0xf0 && byte <= 0xf4 ? 4
+      : 0;
+    if (!length) return false;
+
+    for (let j = 1; j < length && i + j < bytes.length; j++) {
+      if ((bytes[i + j] & 0xc0) !== 0x80) return false;
+    }
+    i += length;
+  }
+  return true;
+}
+
+/**
+ * Detects the encoding of raw bytes
+ * Checks the byte order mark, then the NUL pattern of UTF-16 text, then UTF-8
+ * validity; anything else is a single-byte Windows-1252 or Latin-1 file
+ * @param bytes - Start of the file
+ * @returns Detected encoding label
+ */
+export function sniffEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  // ASCII text stored as UTF-16 has a NUL in every other byte
+  let evenNulls = 0;
+  let oddNulls = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0) continue;
+    if (i % 2 === 0) evenNulls++;
+    else oddNulls++;
+  }
+  const pairs = bytes.length / 2;
+  if (pairs > 0 && oddNulls / pairs > 0.3 && evenNulls / pairs < 0.05) return 'utf-16le';
+  if (pairs > 0 && evenNulls / pairs > 0.3 && oddNulls / pairs < 0.05) return 'utf-16be';
+
+  if (isValidUTF8(bytes)) return 'utf-8';
+
+  // 0x80-0x9F are printable in Windows-1252 (€, curly quotes) but control characters in Latin-1
+  const hasWindowsRange = bytes.some(byte => byte >= 0x80 && byte <= 0x9f);
+  return hasWindowsRange ? 'windows-1252' : 'iso-8859-1';
+}
+
+/**
+ * Reads the start of a file and detects its character encoding
+ * @param file - The file to inspect
+ * @returns Promise resolving to the detected encoding label
+ */
+export async function detectEncoding(file: Blob): Promise<string> {
+  const buffer = await readBlobBuffer(file.slice(0, SNIFF_SAMPLE_SIZE));
+  return sniffEncoding(new Uint8Array(buffer));
+}
+
+/**
+ * Reads the start of a file and detects its CSV dialect
+ * @param file - The CSV file to inspect
+ * @param encoding - Character encoding of the file
+ * @returns Promise resolving to the detected dialect
+ */
+export async function detectCSVDialect(file: Blob, encoding = DEFAULT_ENCODING): Promise<CSVDialect> {
+  const sample = await readBlobText(file.slice(0, SNIFF_SAMPLE_SIZE), encoding);
+  return sniffCSVDialect(sample);
+}
+
+/**
+ * Reads the raw records of a CSV file in slices through CSVStreamParser
+ * @param file - The CSV file to read
+ * @param maxRecords - Number of records to read at most
+ * @param options - Dialect, encoding, slice size and progress callback
+ * @returns The records and whether they run to the end of the file
+ */
+async function readCSVRecords(
+  file: Blob,
+  maxRecords: number,
+  options: CSVParseOptions & { dialect: CSVDialect }
+): Promise<{ records: string[][]; reachedEnd: boolean }> {
+  const encoding = options.encoding || DEFAULT_ENCODING;
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const parser = new CSVStreamParser(options.dialect);
+  const decoder = new TextDecoder(encoding);
+  const records: string[][] = [];
+
+  const collect = (parsed: string[][]) => {
+    for (const record of parsed) {
+      if (records.length >= maxRecords) return;
+      records.push(record);
+    }
+  };
+
+  let offset = 0;
+  while (offset < file.size && records.length < maxRecords) {
+    const buffer = await readBlobBuffer(file.slice(offset, offset + chunkSize));
+    offset += chunkSize;
+
+    let text = decoder.decode(buffer, { stream: offset < file.size });
+    if (offset === chunkSize) text = text.replace(/^\uFEFF/, '');
+
+    collect(parser.push(text));
+    options.onProgress?.(Math.min(offset, file.size), file.size);
+  }
+
+  if (records.length >= maxRecords) {
+    return { records, reachedEnd: false };
+  }
+
+  collect(parser.flush());
+  return { records, reachedEnd: records.length < maxRecords };
+}
+
 /**
  * Parse a CSV file and return the data as an array of objects
+ * The file is read in slices and fed through CSVStreamParser, so only the
+ * bytes needed for `maxRows` are read and the browser can paint between slices.
+ * Without a layout the first record is the header.
  * @param file - The CSV file to parse
  * @param maxRows - Optional maximum number of rows to parse
+ * @param options - Optional dialect, encoding, layout, slice size and progress callback
  * @returns Promise resolving to an array of data rows
  */
-export async function parseCSVFile(file: File, maxRows?: number): Promise<DataRow[]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
-      try {
-        const csvText = event.target?.result as string;
-        if (!csvText) {
-          reject(new Error('Failed to read file'));
-          return;
-        }
-        
-        // Split the file into lines
-        const lines = csvText.split(/\r\n|\n/);
-        if (lines.length === 0) {
-          resolve([]);
-          return;
-        }
-        
-        // Parse the header row
-        const headers = parseCSVRow(lines[0]);
-        
-        // Parse data rows
-        const data: DataRow[] = [];
-        const rowCount = maxRows ? Math.min(lines.length, maxRows + 1) : lines.length;
-        
-        for (let i = 1; i < rowCount; i++) {
-          if (lines[i].trim() === '') continue;
-          
-          const row = parseCSVRow(lines[i]);
-          const dataObject: DataRow = {};
-          
-          for (let j = 0; j < headers.length; j++) {
-            dataObject[headers[j]] = convertToTypedValue(row[j]);
-          }
-          
-          data.push(dataObject);
+export async function parseCSVFile(file: Blob, maxRows?: number, options: CSVParseOptions = {}): Promise<DataRow[]> {
+  const encoding = options.encoding || DEFAULT_ENCODING;
+  const dialect = options.dialect || await detectCSVDialect(file, encoding);
+  const layout = options.layout || DEFAULT_TABLE_LAYOUT;
+  const limit = maxRows ?? Infinity;
+
+  // Enough records for the skipped rows, the header, the data rows and the footer
+  const needed = layout.skipTop + layout.headerRows + limit + layout.skipBottom;
+  const { records, reachedEnd } = await readCSVRecords(file, needed, { ...options, dialect, encoding });
+
+  if (isDefaultTableLayout(layout)) {
+    const [headers = [], ...data] = records;
+    return data.slice(0, limit).map(record => toDataRow(headers, record, options.numberFormat));
+  }
+
+  const { headers, data } = splitTableRecords(records, layout, reachedEnd);
+  return data.slice(0, limit).map(record => toDataRow(headers, record, options.numberFormat));
+}
+
+/**
+ * Streams every data row of a CSV file to a callback without keeping the rows in memory
+ * Rows are split the same way as parseCSVFile; the last `skipBottom` records are
+ * held back until the end of the file, so footer rows are never passed on.
+ * @param file - The CSV file to read
+ * @param onRow - Called with each data row, in file order
+ * @param options - Optional dialect, encoding, layout, slice size and progress callback
+ * @returns Promise resolving to the number of data rows
+ */
+export async function forEachCSVRow(
+  file: Blob,
+  onRow: (row: DataRow) => void,
+  options: CSVParseOptions = {}
+): Promise<number> {
+  const encoding = options.encoding || DEFAULT_ENCODING;
+  const dialect = options.dialect || await detectCSVDialect(file, encoding);
+  const layout = options.layout || DEFAULT_TABLE_LAYOUT;
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const parser = new CSVStreamParser(dialect);
+  const decoder = new TextDecoder(encoding);
+
+  let seen = 0;
+  let rowCount = 0;
+  const headerRecords: string[][] = [];
+  let headers: string[] | null = null;
+  const footerQueue: string[][] = [];
+
+  const handle = (records: string[][]) => {
+    for (const record of records) {
+      seen++;
+      if (seen <= layout.skipTop) continue;
+
+      if (!headers) {
+        headerRecords.push(record);
+        if (headerRecords.length === layout.headerRows) {
+          headers = isDefaultTableLayout(layout) ? headerRecords[0] : mergeHeaderRows(headerRecords);
         }
-        
-        resolve(data);
-      } catch (error) {
-        reject(error);
+        continue;
       }
+
+      footerQueue.push(record);
+      if (footerQueue.length > layout.skipBottom) {
+        onRow(toDataRow(headers, footerQueue.shift() as string[], options.numberFormat));
+        rowCount++;
+      }
+    }
+  };
+
+  let offset = 0;
+  while (offset < file.size) {
+    const buffer = await readBlobBuffer(file.slice(offset, offset + chunkSize));
+    offset += chunkSize;
+
+    let text = decoder.decode(buffer, { stream: offset < file.size });
+    if (offset === chunkSize) text = text.replace(/^\uFEFF/, '');
+
+    handle(parser.push(text));
+    options.onProgress?.(Math.min(offset, file.size), file.size);
+  }
+  handle(parser.flush());
+
+  return rowCount;
+}
+
+/**
+ * Whether a layout is the plain "first row is the header" layout
+ */
+export function isDefaultTableLayout(layout: TableLayout): boolean {
+  return layout.skipTop === 0 && layout.headerRows === 1 && layout.skipBottom === 0;
+}
+
+/**
+ * Merges the header rows of a table into one name per column
+ * A label spanning several columns (left-aligned, empty cells to its right) applies to
+ * every column under it, except in the last header row; labels are joined with a space.
+ * Empty names become "Column N" and repeated names get a _2, _3... suffix.
+ * @param headerRows - Header rows, top to bottom
+ * @returns Column names
+ */
+export function mergeHeaderRows(headerRows: unknown[][]): string[] {
+  const width = Math.max(0, ...headerRows.map(row => row.length));
+  const filledRows = headerRows.map((row, rowIndex) => {
+    const isLastRow = rowIndex === headerRows.length - 1;
+    let label = '';
+    return Array.from({ length: width }, (_, index) => {
+      const text = cellText(row[index]);
+      if (text !== '' || isLastRow) label = text;
+      return label;
+    });
+  });
+
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const parts: string[] = [];
+    filledRows.forEach(row => {
+      const part = row[index];
+      if (part !== '' && parts[parts.length - 1] !== part) parts.push(part);
+    });
+
+    const name = parts.join(' ') || `Column ${index + 1}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name}_${count}`;
+  });
+}
+
+/**
+ * Splits raw records into column names and data records following a layout
+ * @param records - Records as arrays of cells
+ * @param layout - Skipped rows and header rows
+ * @param reachedEnd - Whether the records run to the end of the file (the footer is only dropped then)
+ */
+export function splitTableRecords<T extends unknown[]>(records: T[], layout: TableLayout, reachedEnd: boolean) {
+  const body = records.slice(layout.skipTop);
+  const headers = mergeHeaderRows(body.slice(0, layout.headerRows));
+
+  let data = body.slice(layout.headerRows);
+  if (reachedEnd && layout.skipBottom > 0) {
+    data = data.slice(0, Math.max(data.length - layout.skipBottom, 0));
+  }
+
+  return { headers, data };
+}
+
+function cellText(cell: unknown): string {
+  return cell === null || cell === undefined ? '' : String(cell).trim();
+}
+
+function filledCells(row: unknown[]): number {
+  return row.filter(cell => cellText(cell) !== '').length;
+}
+
+/**
+ * A header row holds labels only: no empty row and no numbers or dates
+ */
+function isLabelRow(row: unknown[]): boolean {
+  const cells = row.map(cellText).filter(text => text !== '');
+  return cells.length > 0 && cells.every(text => !/^[-+(]?[\d$€£%.,:/\s)-]+$/.test(text));
+}
+
+/**
+ * Guesses the layout of a table from its first and last records
+ * The data width is the most common number of filled cells; the header is the first
+ * label row that fills (nearly) that width, with a label row of several cells right
+ * above it merged in as a group header. Trailing rows that are mostly empty or
+ * start with "Total" are treated as the footer.
+ * @param head - First records of the table
+ * @param tail - Last records of the table (the head when the whole table was read)
+ * @returns Detected layout, the default layout when nothing stands out
+ */
+export function detectTableLayout(head: unknown[][], tail: unknown[][] = head): TableLayout {
+  const widths = head.map(filledCells).filter(width => width >= 2);
+  if (widths.length === 0) return DEFAULT_TABLE_LAYOUT;
+
+  const counts = new Map<number, number>();
+  widths.forEach(width => counts.set(width, (counts.get(width) || 0) + 1));
+  const dataWidth = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+
+  const headerIndex = head.findIndex((row, index) =>
+    index < head.length - 1 && filledCells(row) >= Math.ceil(dataWidth * 0.8) && isLabelRow(row)
+  );
+  if (headerIndex === -1) return DEFAULT_TABLE_LAYOUT;
+
+  const groupRow = head[headerIndex - 1];
+  const hasGroupRow = headerIndex > 0 && filledCells(groupRow) >= 2 && isLabelRow(groupRow);
+  const skipTop = hasGroupRow ? headerIndex - 1 : headerIndex;
+  const headerRows = hasGroupRow ? 2 : 1;
+
+  const isFooterRow = (row: unknown[]) => {
+    const firstCell = row.map(cellText).find(text => text !== '') || '';
+    return filledCells(row) < Math.ceil(dataWidth / 2) || /^(grand\s+)?(sub)?totals?\b|^sum\b/i.test(firstCell);
+  };
+
+  // Keep at least one data row when the tail overlaps the head
+  const maxFooter = tail === head
+    ? Math.min(MAX_FOOTER_ROWS, head.length - skipTop - headerRows - 1)
+    : MAX_FOOTER_ROWS;
+
+  let skipBottom = 0;
+  while (skipBottom < maxFooter && isFooterRow(tail[tail.length - 1 - skipBottom])) {
+    skipBottom++;
+  }
+
+  return { skipTop, headerRows, skipBottom };
+}
+
+/**
+ * Detects the layout of a CSV file from its first records and its last bytes
+ * @param file - The CSV file
+ * @param dialect - Delimiter and quote character
+ * @param encoding - Character encoding
+ */
+export async function detectCSVLayout(file: Blob, dialect: CSVDialect, encoding = DEFAULT_ENCODING): Promise<TableLayout> {
+  const { records: head, reachedEnd } = await readCSVRecords(file, LAYOUT_HEAD_RECORDS, { dialect, encoding });
+  if (reachedEnd) return detectTableLayout(head);
+
+  // The first record of the tail may start in the middle of a line
+  const tailText = await readBlobText(file.slice(Math.max(file.size - LAYOUT_TAIL_SIZE, 0)), encoding);
+  const parser = new CSVStreamParser(dialect);
+  const tail = [...parser.push(tailText), ...parser.flush()].slice(1);
+
+  return detectTableLayout(head, tail);
+}
+
+/**
+ * Checks whether a file is an Excel workbook based on its extension
+ * @param file - The uploaded file
+ * @returns True for .xls and .xlsx files
+ */
+export function isExcelFile(file: File): boolean {
+  return /\.(xlsx|xls)$/i.test(file.name);
+}
+
+/**
+ * Splits the rows of a sheet into its headers and data rows
+ * Without a layout the first row is used as the header, as on the server.
+ */
+function splitSheetRows(rows: unknown[][], layout?: TableLayout): { headers: string[]; data: unknown[][] } {
+  return layout && !isDefaultTableLayout(layout)
+    ? splitTableRecords(rows, layout, true)
+    : { headers: (rows[0] || []).map(header => String(header ?? '')), data: rows.slice(1) };
+}
+
+function toSheetRow(headers: string[], row: unknown[], numberFormat?: NumberFormat): DataRow {
+  const dataObject: DataRow = {};
+  headers.forEach((header, index) => {
+    const value = row[index];
+    dataObject[header] = typeof value === 'string' ? convertToTypedValue(value, numberFormat) : value ?? null;
+  });
+  return dataObject;
+}
+
+/**
+ * Lists every sheet of an Excel workbook with its row count and first rows
+ * Without a layout the first row of each sheet is used as the header, as on the server.
+ * @param file - The Excel file to read
+ * @param previewRows - Number of data rows to keep per sheet
+ * @param layout - Optional skipped rows and header rows, applied to every sheet
+ * @param numberFormat - Optional separators for numbers stored as text
+ * @returns Promise resolving to one summary per sheet, in workbook order
+ */
+export async function parseExcelFile(
+  file: Blob,
+  previewRows = 10,
+  layout?: TableLayout,
+  numberFormat?: NumberFormat
+): Promise<ExcelSheetSummary[]> {
+  const XLSX = await import('xlsx');
+  const buffer = await readBlobBuffer(file);
+  const workbook = XLSX.read(buffer, { type: 'array' });
+
+  return workbook.SheetNames.map(name => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, blankrows: false });
+    const { headers, data } = splitSheetRows(rows, layout);
+
+    return {
+      name,
+      rowCount: data.length,
+      preview: data.slice(0, previewRows).map(row => toSheetRow(headers, row, numberFormat)),
+      detectedLayout: detectTableLayout(rows.slice(0, LAYOUT_HEAD_RECORDS), rows.length > LAYOUT_HEAD_RECORDS ? rows.slice(-MAX_FOOTER_ROWS - 1) : undefined),
     };
-    
-    reader.onerror = () => {
-      reject(new Error('Error reading file'));
-    };
-    
-    reader.readAsText(file);
   });
 }
 
 /**
- * Parse a single CSV row, handling quoted values with commas
- * @param row - The CSV row string to parse
- * @returns Array of parsed values
+ * Passes every data row of the chosen sheets of an Excel file to a callback
+ * Only the chosen sheets (the first one by default, as on the server) are read from the
+ * workbook, and each row is converted when it is passed on instead of being kept.
+ * @param file - The Excel file to read
+ * @param onRow - Called with each data row, sheet by sheet in workbook order
+ * @param options - Optional sheets, layout and number format
+ * @returns Promise resolving to the number of data rows
  */
-function parseCSVRow(row: string): string[] {
-  const result: string[] = [];
-  let insideQuotes = false;
-  let currentValue = '';
-  
-  for (let i = 0; i < row.length; i++) {
-    const char = row[i];
-    
-    if (char === '"') {
-      if (i + 1 < row.length && row[i + 1] === '"') {
-        // Escaped quote
-        currentValue += '"';
-        i++;
+export async function forEachExcelRow(
+  file: Blob,
+  onRow: (row: DataRow) => void,
+  options: { sheets?: string[]; layout?: TableLayout; numberFormat?: NumberFormat } = {}
+): Promise<number> {
+  const XLSX = await import('xlsx');
+  const buffer = await readBlobBuffer(file);
+  const sheets = options.sheets?.length ? options.sheets : 0;
+  const workbook = XLSX.read(buffer, { type: 'array', sheets });
+
+  let rowCount = 0;
+  workbook.SheetNames.filter(name => workbook.Sheets[name]).forEach(name => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, blankrows: false });
+    const { headers, data } = splitSheetRows(rows, options.layout);
+    data.forEach(row => onRow(toSheetRow(headers, row, options.numberFormat)));
+    rowCount += data.length;
+  });
+  return rowCount;
+}
+
+/**
+ * Checks whether a file is a JSON or NDJSON document by its extension
+ */
+export function isJSONFile(file: File): boolean {
+  return /\.(json|ndjson|jsonl)$/i.test(file.name);
+}
+
+/**
+ * Detects whether JSON text holds one document or one record per line
+ * A first line that parses on its own and is followed by more lines means NDJSON;
+ * pretty-printed JSON never parses on its first line alone
+ * @param sample - Start of the file
+ * @returns The detected format
+ */
+export function sniffJSONFormat(sample: string): JSONFormat {
+  const text = sample.replace(/^\uFEFF/, '').trim();
+  if (text.startsWith('[')) return 'json';
+
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) return 'json';
+
+  try {
+    JSON.parse(lines[0]);
+    return 'ndjson';
+  } catch {
+    return 'json';
+  }
+}
+
+/**
+ * Reads the start of a file and detects its JSON format
+ * @param file - The JSON file to inspect
+ * @param encoding - Character encoding of the file
+ * @returns Promise resolving to the detected format
+ */
+export async function detectJSONFormat(file: File, encoding = DEFAULT_ENCODING): Promise<JSONFormat> {
+  if (/\.(ndjson|jsonl)$/i.test(file.name)) return 'ndjson';
+
+  const sample = await readBlobText(file.slice(0, SNIFF_SAMPLE_SIZE), encoding);
+  return sniffJSONFormat(sample);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Flattens nested objects into dotted column names (address.city)
+ * Arrays, empty objects and objects deeper than `flattenDepth` are kept as values
+ * @param record - Parsed JSON record
+ * @param flattenDepth - Number of nested levels to flatten, null for all
+ * @returns Flat data row
+ */
+export function flattenRecord(record: unknown, flattenDepth: number | null = null): DataRow {
+  if (!isPlainObject(record)) {
+    return { value: record };
+  }
+
+  const row: DataRow = {};
+  const visit = (value: Record<string, unknown>, prefix: string, depth: number) => {
+    Object.entries(value).forEach(([key, child]) => {
+      const column = prefix ? `${prefix}.${key}` : key;
+      const canFlatten = flattenDepth === null || depth < flattenDepth;
+
+      if (isPlainObject(child) && Object.keys(child).length > 0 && canFlatten) {
+        visit(child, column, depth + 1);
       } else {
-        // Toggle insideQuotes flag
-        insideQuotes = !insideQuotes;
+        row[column] = child;
       }
-    } else if (char === ',' && !insideQuotes) {
-      // End of value
-      result.push(currentValue);
-      currentValue = '';
-    } else {
-      // Add character to current value
-      currentValue += char;
+    });
+  };
+
+  visit(record, '', 0);
+  return row;
+}
+
+/**
+ * Parse a JSON or NDJSON file into flat rows
+ * NDJSON is read in slices and stops once `maxRows` records are found; a JSON
+ * document has to be read whole. Every row gets every column (missing ones are null),
+ * in the order they first appear, matching the server parser.
+ * @param file - The JSON file to parse
+ * @param maxRows - Optional maximum number of rows to parse
+ * @param options - Format, flatten depth and encoding
+ * @returns Promise resolving to an array of data rows
+ */
+export async function parseJSONFile(
+  file: File,
+  maxRows?: number,
+  options: JSONParseOptions & { encoding?: string } = {}
+): Promise<DataRow[]> {
+  const encoding = options.encoding || DEFAULT_ENCODING;
+  const format = options.format || await detectJSONFormat(file, encoding);
+  const limit = maxRows ?? Infinity;
+  const records: unknown[] = [];
+
+  if (format === 'ndjson') {
+    const decoder = new TextDecoder(encoding);
+    let pending = '';
+    let lineNumber = 0;
+
+    const collect = (lines: string[]) => {
+      for (const line of lines) {
+        lineNumber++;
+        if (records.length >= limit) return;
+        if (line.trim() === '') continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          throw new Error(`Invalid JSON on line ${lineNumber}`);
+        }
+      }
+    };
+
+    let offset = 0;
+    while (offset < file.size && records.length < limit) {
+      const buffer = await readBlobBuffer(file.slice(offset, offset + DEFAULT_CHUNK_SIZE));
+      offset += DEFAULT_CHUNK_SIZE;
+
+      let text = decoder.decode(buffer, { stream: offset < file.size });
+      if (offset === DEFAULT_CHUNK_SIZE) text = text.replace(/^\uFEFF/, '');
+
+      const lines = (pending + text).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      collect(lines);
     }
+
+    if (records.length < limit) {
+      collect([pending]);
+    }
+  } else {
+    const text = (await readBlobText(file, encoding)).replace(/^\uFEFF/, '');
+    const document = JSON.parse(text);
+    records.push(...(Array.isArray(document) ? document : [document]).slice(0, limit));
   }
-  
-  // Add the last value
-  result.push(currentValue);
-  
-  return result;
+
+  const flattenDepth = options.flattenDepth === undefined ? null : options.flattenDepth;
+  const rows = records.map(record => flattenRecord(record, flattenDepth));
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+
+  return rows.map(row => {
+    const dataObject: DataRow = {};
+    columns.forEach(column => {
+      dataObject[column] = row[column] === undefined ? null : row[column];
+    });
+    return dataObject;
+  });
+}
+
+/**
+ * Maps a parsed record onto the header row, converting values to typed values
+ */
+function toDataRow(headers: string[], record: string[], numberFormat?: NumberFormat): DataRow {
+  const dataObject: DataRow = {};
+  for (let j = 0; j < headers.length; j++) {
+    dataObject[headers[j]] = convertToTypedValue(record[j], numberFormat);
+  }
+  return dataObject;
+}
+
+/**
+ * Reads a blob as an ArrayBuffer, falling back to FileReader where Blob#arrayBuffer is missing
+ */
+function readBlobBuffer(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer();
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error('Error reading file'));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Reads a blob as text in the given encoding (UTF-8 by default)
+ */
+async function readBlobText(blob: Blob, encoding = DEFAULT_ENCODING): Promise<string> {
+  const buffer = await readBlobBuffer(blob);
+  return new TextDecoder(encoding).decode(buffer);
 }
 
 /**
  * Convert string values to their appropriate types
  * @param value - The string value to convert
+ * @param numberFormat - Optional separators to read numbers with; currency and percentages stay text
  * @returns Converted value with appropriate type
  */
-function convertToTypedValue(value: string): any {
+function convertToTypedValue(value: string, numberFormat?: NumberFormat): any {
   if (value === undefined || value === null || value === '') {
     return null;
   }
+
+  // Digits with a leading zero ("02134", "0306406152") are codes and stay text, as on the server
+  if (/^[-+]?0\d/.test(value.trim())) {
+    return value;
+  }
   
   // Check for numeric values
-  if (/^-?\d+$/.test(value)) {
+  if (numberFormat) {
+    const parsed = parseLocaleNumber(value, numberFormat);
+    if (parsed?.kind === 'number') {
+      return parsed.value;
+    }
+  } else if (/^-?\d+$/.test(value)) {
     return parseInt(value, 10);
-  }
-  
-  if (/^-?\d+\.\d+$/.test(value)) {
+  } else if (/^-?\d+\.\d+$/.test(value)) {
     return parseFloat(value);
   }
   
@@ -137,29 +947,54 @@ function convertToTypedValue(value: string): any {
     return value.toLowerCase() === 'true';
   }
   
-  // Check for date values - enhanced date detection
-  // Common date formats: MM/DD/YYYY, DD/MM/YYYY, YYYY/MM/DD, MM-DD-YYYY, DD-MM-YYYY, YYYY-MM-DD
-  const dateRegexes = [
-    /^\d{1,2}\/\d{1,2}\/\d{4}$/, // MM/DD/YYYY or DD/MM/YYYY
-    /^\d{4}\/\d{1,2}\/\d{1,2}$/, // YYYY/MM/DD
-    /^\d{1,2}-\d{1,2}-\d{4}$/, // MM-DD-YYYY or DD-MM-YYYY
-    /^\d{4}-\d{1,2}-\d{1,2}$/, // YYYY-MM-DD
-    /^\d{1,2}\.\d{1,2}\.\d{4}$/, // MM.DD.YYYY or DD.MM.YYYY
-    /^\d{4}\.\d{1,2}\.\d{1,2}$/, // YYYY.MM.DD
-  ];
-  
-  // Check if the value matches any date format
-  const isDateFormat = dateRegexes.some(regex => regex.test(value));
-  if (isDateFormat) {
-    const dateValue = new Date(value);
-    if (!isNaN(dateValue.getTime())) {
-      return value; // Return original string format for dates
-    }
-  }
-  
+  // Dates keep their original text; the day/month order is settled per column (see date-format.ts)
   return value;
 }
 
+/**
+ * Reads the first rows of a file in any supported format
+ * The file is read with the given parse options, like ParseS3File reads it; encoding, CSV dialect
+ * and JSON format are detected when not set, Excel files are read from the chosen sheets
+ * (the first one by default) in order, and renamed columns come back under their new names.
+ * @param file - The CSV, Excel or JSON file to read
+ * @param maxRows - Number of data rows to read
+ * @param options - Optional parse options, e.g. the project's stored ones
+ * @returns Promise resolving to the first data rows
+ */
+export async function parseFileSample(file: File, maxRows: number, options: StoredParseOptions = {}): Promise<DataRow[]> {
+  return renameColumns(await readFileSample(file, maxRows, options), options.renameColumns);
+}
+
+async function readFileSample(file: File, maxRows: number, options: StoredParseOptions): Promise<DataRow[]> {
+  if (isExcelFile(file)) {
+    const sheets = await parseExcelFile(file, maxRows, options.layout, options.numberFormat);
+    const chosen = options.sheets?.length
+      ? options.sheets.map(name => sheets.find(sheet => sheet.name === name)).filter((sheet): sheet is ExcelSheetSummary => !!sheet)
+      : sheets.slice(0, 1);
+    return chosen.flatMap(sheet => sheet.preview).slice(0, maxRows);
+  }
+
+  const encoding = options.encoding || await detectEncoding(file);
+  if (isJSONFile(file)) {
+    return parseJSONFile(file, maxRows, {
+      format: options.json?.format || await detectJSONFormat(file, encoding),
+      flattenDepth: options.json?.flattenDepth ?? null,
+      encoding,
+    });
+  }
+  return parseCSVFile(file, maxRows, { encoding, dialect: options.dialect, layout: options.layout, numberFormat: options.numberFormat });
+}
+
+/**
+ * Reads columns under the names of a `renameColumns` parse option, keeping their order
+ */
+function renameColumns(rows: DataRow[], renames?: Record<string, string>): DataRow[] {
+  if (!renames || Object.keys(renames).length === 0) return rows;
+  return rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [Object.hasOwn(renames, column) ? renames[column] : column, value])
+  ));
+}
+
 /**
  * Detect the likely data type of a column based on values
  * @param data - Array of data rows to analyze
@@ -184,6 +1019,8 @@ export function detectColumnTypes(data: DataRow[]): ColumnTypes {
     let hasBooleans = false;
     let hasDates = false;
     let hasNull = false;
+    let hasArrays = false;
+    let hasObjects = false;
     let totalValues = 0;
     let nullCount = 0;
     
@@ -209,26 +1046,16 @@ export function detectColumnTypes(data: DataRow[]): ColumnTypes {
       } else if (type === 'string') {
         hasStrings = true;
         
-        // Enhanced date detection
-        const dateRegexes = [
-          /^\d{1,2}\/\d{1,2}\/\d{4}$/, // MM/DD/YYYY or DD/MM/YYYY
-          /^\d{4}\/\d{1,2}\/\d{1,2}$/, // YYYY/MM/DD
-          /^\d{1,2}-\d{1,2}-\d{4}$/, // MM-DD-YYYY or DD-MM-YYYY
-          /^\d{4}-\d{1,2}-\d{1,2}$/, // YYYY-MM-DD
-          /^\d{1,2}\.\d{1,2}\.\d{4}$/, // MM.DD.YYYY or DD.MM.YYYY
-          /^\d{4}\.\d{1,2}\.\d{1,2}$/, // YYYY.MM.DD
-        ];
-        
-        // Check if the value matches any date format
-        const isDateFormat = dateRegexes.some(regex => regex.test(value));
-        if (isDateFormat) {
-          const dateValue = new Date(value);
-          if (!isNaN(dateValue.getTime())) {
-            hasDates = true;
-          }
+        // Dates with the day or the month first ("13/01/2024" and "01/13/2024")
+        if (isDateText(value)) {
+          hasDates = true;
         }
       } else if (type === 'boolean') {
         hasBooleans = true;
+      } else if (Array.isArray(value)) {
+        hasArrays = true;
+      } else if (type === 'object') {
+        hasObjects = true;
       }
     }
     
@@ -236,6 +1063,10 @@ export function detectColumnTypes(data: DataRow[]): ColumnTypes {
     // If more than 50% of values are null, we keep the type as 'Unknown'
     if (nullCount / totalValues > 0.5) {
       columnTypes[colName] = 'String';
+    } else if (hasArrays || hasObjects) {
+      // Nested JSON values: only a column holding nothing else gets the nested type
+      const onlyNested = !hasNumbers && !hasStrings && !hasBooleans;
+      columnTypes[colName] = onlyNested && hasArrays !== hasObjects ? (hasArrays ? 'Array' : 'Object') : 'String';
     } else if (hasNumbers && !hasStrings && !hasBooleans) {
       columnTypes[colName] = hasIntegers ? 'Integer' : 'Float';
     } else if (hasBooleans && !hasNumbers && !hasStrings) {
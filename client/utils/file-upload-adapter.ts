@@ -12,7 +12,7 @@
 'use server';
 
 import { UploadFile, UpdateSchema } from '@/utils/fileActions';
-import { SchemaType } from '@/utils/types';
+import { SchemaType, BatchSummaryType, VersionReportType } from '@/utils/types';
 
 /**
  * Response type for file upload operations
@@ -26,6 +26,8 @@ export type UploadResponse = {
     timestamp?: string;
     timestamp_order?: number;
   } | null;
+  batch?: BatchSummaryType | null;
+  version?: VersionReportType | null;
   errors?: Record<string, string[]>;
 };
 
@@ -67,8 +67,8 @@ export const UploadFile = async (state: UploadResponse, formData: FormData): Pro
             .instanceof(Blob, { message: "File upload is required." })
             .refine((file) => file.size > 0, "File upload cannot be empty.")
             .refine(
-                (file) => ["text/csv", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "application/vnd.ms-excel"].includes(file.type),
-                "Only CSV or Excel files are allowed."
+                (file) => ["text/csv", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "application/vnd.ms-excel", "application/json", "application/x-ndjson"].includes(file.type),
+                "Only CSV, Excel or JSON files are allowed."
             ),            
         category: z.string()
             .nonempty("Category is required."),
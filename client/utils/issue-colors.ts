@@ -0,0 +1,27 @@
+/**
+ * Issue Colors
+ * Purpose: One color per issue type for the workstation's issue markers
+ * Used in: Workstation table cells, column issue list, issue tooltip, table header legend
+ */
+
+export const ISSUE_COLORS = {
+  INVALID_VALUE: '#FF5733',
+  TYPE_MISMATCH: '#FFC300',
+  NULL_VALUE: '#36A2EB',
+  DUPLICATE_VALUE: '#4CAF50',
+  INVALID_FORMAT: '#9C27B0',
+  INVALID_SEPARATOR: '#FF9800',
+  INVALID_DATE: '#E53935',
+  PATTERN_MISMATCH: '#00BCD4',
+  LENGTH_VIOLATION: '#E91E63',
+  INVALID_CATEGORY: '#8BC34A',
+  OUT_OF_RANGE: '#3F51B5',
+  RULE_VIOLATION: '#795548',
+  ORPHAN_REFERENCE: '#607D8B',
+  DUPLICATE_KEY: '#009688',
+  INVALID_PHONE_NUMBER: '#673AB7',
+  POSSIBLE_PHONE_NUMBER: '#CDDC39',
+  WRONG_REGION_PHONE_NUMBER: '#03A9F4',
+};
+
+export type IssueColorType = keyof typeof ISSUE_COLORS;
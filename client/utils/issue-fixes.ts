@@ -0,0 +1,122 @@
+/**
+ * Issue Fixes
+ * Purpose: Builds the actions that fix an issue, offered next to it in the workstation
+ * Used in: Workstation tooltip
+ * Features:
+ * - INVALID_CATEGORY: replaces the value with the closest allowed value (REPLACE_VALUE)
+ * - OUT_OF_RANGE: deletes the rows outside the column's range (DELETE_ROWS_WHERE_VALUE_NOT_IN_RANGE)
+ * - ORPHAN_REFERENCE: deletes the rows with missing references, or maps them to a default the user enters
+ * - DUPLICATE_KEY: keeps the first row of each composite key, or deletes every row sharing one (DELETE_DUPLICATE_ROWS, KEEP_ONLY_UNIQUE_ROWS)
+ * - Actions carry a title and response, so they read like the AI's in the actions list
+ */
+
+import { error } from '@/utils/types';
+
+export type IssueFixAction = {
+  type: string;
+  title: string;
+  response: string;
+  [key: string]: unknown;
+};
+
+export type IssueFix = {
+  /** Button label */
+  label: string;
+} & (
+  | { action: IssueFixAction }
+  /** Fixes that need a value ask for it first, e.g. the default of missing references */
+  | { prompt: string; actionFor: (answer: string) => IssueFixAction }
+);
+
+function describeRange(min: unknown, max: unknown): string {
+  if (min !== undefined && max !== undefined) return `${min} to ${max}`;
+  if (min !== undefined) return `at least ${min}`;
+  return `at most ${max}`;
+}
+
+/**
+ * The fixes of an issue
+ * @param issue - Issue reported by validation
+ * @returns Label and action of each fix, empty when the issue has none
+ */
+export function suggestedFixes(issue: error): IssueFix[] {
+  if (issue.issueType === 'INVALID_CATEGORY' && issue.suggestion && issue.value !== undefined) {
+    return [{
+      label: `Use '${issue.suggestion}'`,
+      action: {
+        type: 'REPLACE_VALUE',
+        column: issue.column,
+        oldValue: issue.value,
+        newValue: issue.suggestion,
+        title: `Replace '${issue.value}' with '${issue.suggestion}' in ${issue.column}`,
+        response: `Every '${issue.value}' in ${issue.column} was replaced with the allowed value '${issue.suggestion}'.`,
+      },
+    }];
+  }
+
+  if (issue.issueType === 'OUT_OF_RANGE' && (issue.min !== undefined || issue.max !== undefined)) {
+    const range = describeRange(issue.min, issue.max);
+    return [{
+      label: 'Delete rows out of range',
+      action: {
+        type: 'DELETE_ROWS_WHERE_VALUE_NOT_IN_RANGE',
+        column: issue.column,
+        ...(issue.min !== undefined ? { minValue: issue.min } : {}),
+        ...(issue.max !== undefined ? { maxValue: issue.max } : {}),
+        title: `Delete rows where ${issue.column} is out of range (${range})`,
+        response: `Rows with a ${issue.column} outside the range (${range}) were deleted.`,
+      },
+    }];
+  }
+
+  if (issue.issueType === 'ORPHAN_REFERENCE') {
+    return [
+      {
+        label: 'Delete rows with missing references',
+        action: {
+          type: 'DELETE_ROWS_WITH_ORPHAN_REFERENCES',
+          column: issue.column,
+          title: `Delete rows where ${issue.column} is missing from the referenced project`,
+          response: `Rows with a ${issue.column} that does not exist in the referenced project were deleted.`,
+        },
+      },
+      {
+        label: 'Map to a default',
+        prompt: `Value to use for every ${issue.column} missing from the referenced project`,
+        actionFor: (answer) => ({
+          type: 'REPLACE_ORPHAN_REFERENCES',
+          column: issue.column,
+          newValue: answer,
+          title: `Replace missing references in ${issue.column} with '${answer}'`,
+          response: `Every ${issue.column} that does not exist in the referenced project was replaced with '${answer}'.`,
+        }),
+      },
+    ];
+  }
+
+  if (issue.issueType === 'DUPLICATE_KEY' && issue.columns) {
+    const key = issue.columns.join(', ');
+    return [
+      {
+        label: 'Keep the first row',
+        action: {
+          type: 'DELETE_DUPLICATE_ROWS',
+          columns: issue.columns,
+          title: `Delete duplicate rows of the key (${key})`,
+          response: `Only the first row of each (${key}) was kept.`,
+        },
+      },
+      {
+        label: 'Delete all copies',
+        action: {
+          type: 'KEEP_ONLY_UNIQUE_ROWS',
+          columns: issue.columns,
+          title: `Delete every row sharing its (${key}) with another`,
+          response: `Rows whose (${key}) is shared with another row were deleted.`,
+        },
+      },
+    ];
+  }
+
+  return [];
+}
@@ -0,0 +1,151 @@
+/**
+ * Number Format
+ * Purpose: Reads numbers written with locale separators, currency symbols and percent signs
+ * Used in: File parsers, File upload wizard, Column data type definition
+ * Features:
+ * - Decimal and thousands separators per locale ("1.234,56", "1 234,56", "1'234.56")
+ * - Currency symbols and codes before or after the amount ("€12", "12 EUR")
+ * - Percentages ("12%") and accounting negatives ("(45)")
+ * - Same rules as the server's utils/numberFormat.js, so preview and validation agree
+ */
+
+/**
+ * Number format of a project (parse options) or a column (schema)
+ */
+export type NumberFormat = {
+  locale?: string;
+  decimalSeparator: string;
+  thousandsSeparator: string;
+  currencySymbols: string[];
+};
+
+export type ParsedNumber = {
+  value: number;
+  kind: 'number' | 'currency' | 'percentage';
+};
+
+/**
+ * Decimal and thousands separators of the locales offered in the wizard
+ */
+export const NUMBER_LOCALES: Record<string, { decimalSeparator: string; thousandsSeparator: string }> = {
+  'en-US': { decimalSeparator: '.', thousandsSeparator: ',' },
+  'de-DE': { decimalSeparator: ',', thousandsSeparator: '.' },
+  'fr-FR': { decimalSeparator: ',', thousandsSeparator: ' ' },
+  'de-CH': { decimalSeparator: '.', thousandsSeparator: "'" },
+};
+
+/**
+ * Locale choices with an example of how they write numbers
+ */
+export const NUMBER_LOCALE_OPTIONS = [
+  { value: 'en-US', label: '1,234.56' },
+  { value: 'de-DE', label: '1.234,56' },
+  { value: 'fr-FR', label: '1 234,56' },
+  { value: 'de-CH', label: "1'234.56" },
+];
+
+export const DEFAULT_CURRENCY_SYMBOLS = ['$', '€', '£', '¥', '₹', 'CHF', 'USD', 'EUR', 'GBP'];
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = {
+  locale: 'en-US',
+  ...NUMBER_LOCALES['en-US'],
+  currencySymbols: DEFAULT_CURRENCY_SYMBOLS,
+};
+
+// Spaces used for grouping in French and other locales (regular, no-break, narrow no-break)
+const SPACE_PATTERN = '[ \\u00a0\\u202f]';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the number format of a locale
+ * @param locale - One of the NUMBER_LOCALES keys
+ */
+export function numberFormatForLocale(locale: string): NumberFormat {
+  return { locale, ...(NUMBER_LOCALES[locale] || NUMBER_LOCALES['en-US']), currencySymbols: DEFAULT_CURRENCY_SYMBOLS };
+}
+
+const digitPatterns = new Map<string, RegExp>();
+
+function digitPattern({ decimalSeparator, thousandsSeparator }: NumberFormat): RegExp {
+  const key = decimalSeparator + thousandsSeparator;
+  let pattern = digitPatterns.get(key);
+  if (!pattern) {
+    const decimal = escapeRegExp(decimalSeparator);
+    const grouped = thousandsSeparator === ''
+      ? ''
+      : `|\\d{1,3}(?:${thousandsSeparator === ' ' ? SPACE_PATTERN : escapeRegExp(thousandsSeparator)}\\d{3})+`;
+    pattern = new RegExp(`^(\\d+${grouped})(?:${decimal}(\\d+))?$`);
+    digitPatterns.set(key, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Strips a leading or trailing currency symbol, longest symbols first ("USD" before "$")
+ */
+function stripCurrency(text: string, symbols: string[]): string | null {
+  const sorted = [...symbols].sort((a, b) => b.length - a.length);
+  for (const symbol of sorted) {
+    if (text.startsWith(symbol)) return text.slice(symbol.length).trim();
+    if (text.endsWith(symbol)) return text.slice(0, -symbol.length).trim();
+  }
+  return null;
+}
+
+/**
+ * Reads a formatted number such as "1.234,56", "€12", "(45)" or "12 %"
+ * Negatives are written "-12", "12-" or "(12)".
+ * @param value - Cell value
+ * @param format - Separators and currency symbols to read with
+ * @returns The number and whether it was a plain number, an amount or a percentage; null if it is not a number
+ */
+export function parseLocaleNumber(value: unknown, format: NumberFormat = DEFAULT_NUMBER_FORMAT): ParsedNumber | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { value, kind: 'number' } : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  let text = value.trim();
+  let negative = false;
+  let kind: ParsedNumber['kind'] = 'number';
+
+  const readSign = () => {
+    const accounting = text.match(/^\((.*)\)$/);
+    if (accounting) {
+      text = accounting[1].trim();
+      negative = !negative;
+    } else if (/^[-−]/.test(text)) {
+      text = text.slice(1).trim();
+      negative = !negative;
+    } else if (/[-−]$/.test(text)) {
+      text = text.slice(0, -1).trim();
+      negative = !negative;
+    }
+  };
+
+  readSign();
+
+  if (text.endsWith('%')) {
+    text = text.slice(0, -1).trim();
+    kind = 'percentage';
+  } else {
+    const withoutCurrency = stripCurrency(text, format.currencySymbols || DEFAULT_CURRENCY_SYMBOLS);
+    if (withoutCurrency !== null) {
+      text = withoutCurrency;
+      kind = 'currency';
+      // "$-12" and "€(12)" put the sign after the symbol
+      readSign();
+    }
+  }
+
+  const match = text.match(digitPattern(format));
+  if (!match) return null;
+
+  const integerPart = match[1].replace(/[^\d]/g, '');
+  const number = Number(match[2] ? `${integerPart}.${match[2]}` : integerPart);
+
+  return { value: negative && number !== 0 ? -number : number, kind };
+}
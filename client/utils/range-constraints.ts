@@ -0,0 +1,65 @@
+/**
+ * Range Constraints
+ * Purpose: Checks that a column's minimum and maximum suit its type
+ * Used in: Column data type definition, schema import / export
+ * Features:
+ * - Numeric bounds for Integer, Float, Currency, Percentage and Timestamp columns
+ * - YYYY-MM-DD bounds for Date columns
+ * - Same rules as the server's utils/rangeConstraints.js, so the schema editor and validation agree
+ */
+
+import { schemaTypeDefinition } from '@/utils/types';
+
+export type RangeConstraints = Pick<schemaTypeDefinition, 'min' | 'max'>;
+
+export type RangeKind = 'number' | 'date';
+
+const NUMERIC_RANGE_TYPES = ['Integer', 'Float', 'Currency', 'Percentage', 'Timestamp'];
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * The kind of bounds a column type takes
+ * @returns "number", "date", or null for the types a range does not apply to
+ */
+export function rangeKind(dataType: string): RangeKind | null {
+  if (NUMERIC_RANGE_TYPES.includes(dataType)) return 'number';
+  if (dataType === 'Date') return 'date';
+  return null;
+}
+
+function isBound(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+/**
+ * A bound as a comparable number (YYYYMMDD for dates)
+ * @returns The key, or null when the bound does not suit the kind
+ */
+function boundKey(bound: unknown, kind: RangeKind): number | null {
+  if (kind === 'number') return typeof bound === 'number' && Number.isFinite(bound) ? bound : null;
+
+  const match = typeof bound === 'string' ? bound.match(ISO_DATE) : null;
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? year * 10000 + month * 100 + day : null;
+}
+
+/**
+ * Why a column's range cannot be enforced
+ * Columns of other types ignore their range, so it is only checked for the types it applies to.
+ * @returns The reason, or null when the range is valid
+ */
+export function describeRangeError(range: RangeConstraints, dataType: string): string | null {
+  const kind = rangeKind(dataType);
+  if (!kind) return null;
+
+  const bounds = (['min', 'max'] as const).filter(key => isBound(range[key]));
+  if (bounds.some(key => boundKey(range[key], kind) === null)) {
+    return kind === 'date' ? 'The range must use YYYY-MM-DD dates' : 'The range must use numbers';
+  }
+  if (bounds.length === 2 && (boundKey(range.min, kind) as number) > (boundKey(range.max, kind) as number)) {
+    return 'The minimum is above the maximum';
+  }
+  return null;
+}
@@ -0,0 +1,34 @@
+/**
+ * Row IDs
+ * Purpose: Names the workstation's rows by the ID they keep through every action
+ * Used in: Workstation table, row and column issue lists, issue tooltip
+ * Features:
+ * - A row's ID is its 1-based row in the source, from the originalRowIndex the server gives it at ingest
+ * - Issues, the selected row and REPLACE_ROW refer to this ID, so they follow the row when it is sorted or others are deleted
+ * - Labels show the row's current position and, when it moved, its row in the source
+ */
+
+import { RecordType } from '@/utils/types';
+
+// Set on every record by the server; not one of the file's columns
+export const ROW_ID_COLUMN = 'originalRowIndex';
+
+/**
+ * The stable ID of a record; records without an ingest index fall back to their position
+ */
+export const rowIdOf = (record: RecordType, index: number): number => {
+  const originalRowIndex = record[ROW_ID_COLUMN];
+  return typeof originalRowIndex === 'number' && Number.isInteger(originalRowIndex) ? originalRowIndex + 1 : index + 1;
+};
+
+/**
+ * The file's columns of a record, without its ID
+ */
+export const dataColumnsOf = (record: RecordType | undefined): string[] =>
+  Object.keys(record || {}).filter(column => column !== ROW_ID_COLUMN);
+
+/**
+ * "Row 3", or "Row 3 (source row 7)" once the actions moved the row
+ */
+export const rowLabel = (rowId: number, position?: number): string =>
+  position === undefined || position === rowId ? `Row ${position ?? rowId}` : `Row ${position} (source row ${rowId})`;
@@ -0,0 +1,74 @@
+/**
+ * Rule Actions
+ * Purpose: Handles the cross-column validation rules of a project
+ * Used in: Validation rules editor (error detection page)
+ * Features:
+ * - Rule listing with the project's columns
+ * - Saving the rules, after which every row is revalidated
+ * - Error handling
+ * - Authentication integration
+ */
+
+'use server'
+import { cookies } from "next/headers";
+import { axiosPrivate } from '@/services/axios';
+import { AxiosError } from 'axios';
+import { ValidationRule } from '@/utils/validation-rules';
+
+/**
+ * Retrieves the validation rules of a project
+ * @param fileId - ID of the project
+ * @returns Promise resolving to the rules and the columns they can use
+ */
+export const GetRules = async (fileId:string) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try{
+        const {data} = await axiosPrivate.get(`/rules?fileId=${fileId}`,{
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`,
+            },
+        });
+
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
+
+/**
+ * Replaces the validation rules of a project
+ * Rule violations are recorded as RULE_VIOLATION issues once the rows are revalidated.
+ * @param fileId - ID of the project
+ * @param rules - Every rule of the project
+ * @returns Promise resolving to the saved rules and the number of rows with issues
+ */
+export const SaveRules = async (fileId:string, rules:ValidationRule[]) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try{
+        const {data} = await axiosPrivate.put(`/rules`, { fileId, rules }, {
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`,
+            },
+        });
+
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
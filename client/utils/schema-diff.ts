@@ -0,0 +1,62 @@
+/**
+ * Schema Diff
+ * Purpose: Compares two saved schemas of a project column by column
+ * Used in: Schema definition table (schema history)
+ * Features:
+ * - Added, removed and changed columns
+ * - The settings that changed on each column, with their old and new values
+ * - Ignores the type inference stored with a column, which is not edited by users
+ */
+
+import { SchemaDefinition, schemaTypeDefinition } from '@/utils/types';
+
+export type SchemaFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type SchemaColumnDiff = {
+  column: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  fields: SchemaFieldChange[];
+};
+
+// Stored with the column but not part of what the user defines
+const IGNORED_FIELDS = ['inference'];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function changedFields(before: schemaTypeDefinition, after: schemaTypeDefinition): SchemaFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => !sameValue(before[field as keyof schemaTypeDefinition], after[field as keyof schemaTypeDefinition]))
+    .map(field => ({
+      field,
+      before: before[field as keyof schemaTypeDefinition] ?? null,
+      after: after[field as keyof schemaTypeDefinition] ?? null,
+    }));
+}
+
+/**
+ * Compares two schemas column by column
+ * Columns keep the order of the newer schema, removed columns follow.
+ * @param before - Older schema definition
+ * @param after - Newer schema definition
+ * @returns One entry per column with the settings that changed
+ */
+export function diffSchemas(before: SchemaDefinition, after: SchemaDefinition): SchemaColumnDiff[] {
+  const columns = [...Object.keys(after), ...Object.keys(before).filter(column => !(column in after))]
+    .filter(column => column !== 'originalRowIndex');
+
+  return columns.map(column => {
+    if (!(column in before)) return { column, change: 'added', fields: [] };
+    if (!(column in after)) return { column, change: 'removed', fields: [] };
+
+    const fields = changedFields(before[column], after[column]);
+    return { column, change: fields.length > 0 ? 'changed' : 'unchanged', fields };
+  });
+}
@@ -0,0 +1,232 @@
+/**
+ * Schema Drift
+ * Purpose: Compares a file about to be added to a project with the project's saved schema
+ * Used in: Append batch and new version uploads (error detection page)
+ * Features:
+ * - Added and removed columns, and renamed ones matched by name similarity ("cust_id" and "customer_id")
+ * - Type changes, e.g. an Integer column now holding text
+ * - Null-rate changes against the rate the schema was inferred from
+ * - Proposes the schema edits that accept the new data, and reads renamed columns under their schema names
+ *   (the `renameColumns` parse option), so saved actions and validation see the names they expect
+ */
+
+import { DataRow, StoredParseOptions } from '@/utils/file-parsers';
+import { ColumnInference, inferColumnTypes, inferRequired, REQUIRED_NULL_RATE } from '@/utils/type-inference';
+import { matchTemplateColumns } from '@/utils/schema-templates';
+import { SchemaDefinition, schemaTypeDefinition } from '@/utils/types';
+
+export type ColumnRename = {
+  /** Column of the schema */
+  from: string;
+  /** Column of the file */
+  to: string;
+  score: number;
+};
+
+export type ColumnTypeChange = {
+  column: string;
+  before: string;
+  after: string;
+};
+
+export type NullRateChange = {
+  column: string;
+  /** Share of empty values the schema was inferred from, null when it was not stored */
+  before: number | null;
+  after: number;
+};
+
+export type SchemaDriftEdit = {
+  /** The drift the edit answers */
+  kind: 'added' | 'removed' | 'type' | 'nullRate';
+  column: string;
+  description: string;
+  changes: Partial<schemaTypeDefinition>;
+};
+
+export type SchemaDriftReport = {
+  addedColumns: string[];
+  removedColumns: string[];
+  renamedColumns: ColumnRename[];
+  typeChanges: ColumnTypeChange[];
+  nullRateChanges: NullRateChange[];
+  schemaEdits: SchemaDriftEdit[];
+};
+
+/** Rows read from the file to compare it with the schema */
+export const DRIFT_SAMPLE_ROWS = 1000;
+/** Smallest change of a column's share of empty values that is reported */
+export const NULL_RATE_DRIFT = 0.1;
+// Renames are looser than template matches, a supplier may shorten or reword a name
+const RENAME_THRESHOLD = 0.6;
+
+// Added to every schema at upload, they are not part of a file's layout
+const UPLOAD_METADATA_COLUMNS = ['timestamp', 'upload_date', 'upload_time', 'timestamp_order', 'originalRowIndex'];
+
+function nullRate({ nonNull, nullCount }: { nonNull: number; nullCount: number }): number | null {
+  return nonNull + nullCount > 0 ? nullCount / (nonNull + nullCount) : null;
+}
+
+// Whole numbers still fit a Float column, and "All" columns take anything
+function fitsType(schemaType: string, inferredType: string): boolean {
+  return schemaType === inferredType || schemaType === 'All' || (schemaType === 'Float' && inferredType === 'Integer');
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+// Definition of a column the schema does not have yet, built the way the server builds a generated schema
+function newColumnDefinition(column: string, inference: ColumnInference): schemaTypeDefinition {
+  return {
+    dataType: inference.dataType,
+    unique: false,
+    required: inferRequired(inference),
+    numericSign: null,
+    precision: null,
+    format: inference.dataType === 'Date' ? inference.dateFormat?.format || null : null,
+    separator: inference.dataType === 'Date' ? inference.dateFormat?.separator || null : null,
+    desc: `Represents ${column}`,
+    inference: {
+      dataType: inference.dataType,
+      confidence: inference.confidence,
+      nonNull: inference.nonNull,
+      nullCount: inference.nullCount,
+      counterexamples: inference.counterexamples,
+    },
+  };
+}
+
+/**
+ * Compares the rows of a new file with a project's schema
+ * Renamed columns are compared under their schema name, so a rename that also changed type reports both.
+ * @param schema - Saved schema definition of the project
+ * @param rows - Rows read from the new file
+ * @returns The drift found, with the schema edits that address it
+ */
+export function detectSchemaDrift(schema: SchemaDefinition, rows: DataRow[]): SchemaDriftReport {
+  const inference = inferColumnTypes(rows);
+  const fileColumns = Object.keys(inference).filter(column => !UPLOAD_METADATA_COLUMNS.includes(column));
+  const schemaColumns = Object.keys(schema).filter(column => !UPLOAD_METADATA_COLUMNS.includes(column));
+
+  const newColumns = fileColumns.filter(column => !schemaColumns.includes(column));
+  const missingColumns = schemaColumns.filter(column => !fileColumns.includes(column));
+  const missingSchema = Object.fromEntries(missingColumns.map(column => [column, schema[column]]));
+  const { matches } = matchTemplateColumns(newColumns, missingSchema, RENAME_THRESHOLD);
+
+  const renamedColumns = matches.map(match => ({ from: match.templateColumn, to: match.column, score: match.score }));
+  const addedColumns = newColumns.filter(column => !renamedColumns.some(rename => rename.to === column));
+  const removedColumns = missingColumns.filter(column => !renamedColumns.some(rename => rename.from === column));
+
+  const typeChanges: ColumnTypeChange[] = [];
+  const nullRateChanges: NullRateChange[] = [];
+  const schemaEdits: SchemaDriftEdit[] = [];
+
+  // Columns of the schema with the file column now holding them
+  const compared = [
+    ...schemaColumns.filter(column => fileColumns.includes(column)).map(column => [column, column]),
+    ...renamedColumns.map(rename => [rename.from, rename.to]),
+  ];
+
+  compared.forEach(([column, fileColumn]) => {
+    const definition = schema[column];
+    const columnInference = inference[fileColumn];
+    if (columnInference.nonNull > 0 && !fitsType(definition.dataType, columnInference.dataType)) {
+      typeChanges.push({ column, before: definition.dataType, after: columnInference.dataType });
+      const dateFormat = columnInference.dataType === 'Date' ? columnInference.dateFormat : undefined;
+      schemaEdits.push({
+        kind: 'type',
+        column,
+        description: `Change ${column} from ${definition.dataType} to ${columnInference.dataType}`,
+        changes: {
+          dataType: columnInference.dataType,
+          ...(dateFormat ? { format: dateFormat.format, separator: dateFormat.separator } : {}),
+        },
+      });
+    }
+
+    const before = definition.inference ? nullRate(definition.inference) : null;
+    const after = nullRate(columnInference) ?? 0;
+    const required = definition.required !== false;
+    if ((before !== null && Math.abs(after - before) >= NULL_RATE_DRIFT) || (required && after > REQUIRED_NULL_RATE)) {
+      nullRateChanges.push({ column, before, after });
+    }
+    if (required && after > REQUIRED_NULL_RATE) {
+      schemaEdits.push({
+        kind: 'nullRate',
+        column,
+        description: `Make ${column} optional, ${formatRate(after)} of its values are empty`,
+        changes: { required: false },
+      });
+    }
+  });
+
+  // A column the file no longer has would be empty in every row
+  removedColumns.filter(column => schema[column].required !== false).forEach(column => {
+    schemaEdits.push({
+      kind: 'removed',
+      column,
+      description: `Make ${column} optional, the file does not have it`,
+      changes: { required: false },
+    });
+  });
+
+  addedColumns.forEach(column => {
+    schemaEdits.push({
+      kind: 'added',
+      column,
+      description: `Add ${column} as ${inference[column].dataType}`,
+      changes: newColumnDefinition(column, inference[column]),
+    });
+  });
+
+  return { addedColumns, removedColumns, renamedColumns, typeChanges, nullRateChanges, schemaEdits };
+}
+
+/**
+ * Parse options a file added to a project is read with
+ * A file in the project's format is read with the project's parse options, as the server does when it is uploaded
+ * without options of its own; any other file is read with detected settings.
+ * @param fileName - Name of the file about to be added
+ * @param projectFileType - File type of the project's source file (files.file_type)
+ * @param projectOptions - Parse options of the project (files.parse_options)
+ */
+export function sampleParseOptions(fileName: string, projectFileType: string | null, projectOptions: StoredParseOptions | null): StoredParseOptions {
+  const fileType = fileName.split('.').pop()?.toLowerCase() || '';
+  return fileType === projectFileType ? projectOptions || {} : {};
+}
+
+/**
+ * Parse options that read renamed columns under their schema names
+ * The file is parsed with them, so the rows reach validation and the saved actions already renamed.
+ * @param options - Parse options the file is read with
+ * @param renames - Renamed columns to map back
+ */
+export function withColumnRenames(options: StoredParseOptions, renames: ColumnRename[]): StoredParseOptions {
+  if (renames.length === 0) return options;
+  return {
+    ...options,
+    renameColumns: { ...options.renameColumns, ...Object.fromEntries(renames.map(rename => [rename.to, rename.from])) },
+  };
+}
+
+/**
+ * Whether a drift report found anything
+ */
+export function hasSchemaDrift(report: SchemaDriftReport): boolean {
+  return report.addedColumns.length > 0 || report.removedColumns.length > 0 || report.renamedColumns.length > 0
+    || report.typeChanges.length > 0 || report.nullRateChanges.length > 0;
+}
+
+/**
+ * Applies the chosen schema edits of a drift report
+ * @param schema - Saved schema definition of the project
+ * @param edits - Edits to apply, in order
+ * @returns The edited schema definition
+ */
+export function applySchemaEdits(schema: SchemaDefinition, edits: SchemaDriftEdit[]): SchemaDefinition {
+  return edits.reduce<SchemaDefinition>((edited, edit) => ({
+    ...edited,
+    [edit.column]: { ...edited[edit.column], ...edit.changes } as schemaTypeDefinition,
+  }), schema);
+}
@@ -0,0 +1,680 @@
+/**
+ * Schema Standards
+ * Purpose: Converts a project's schema to and from JSON Schema and Frictionless Table Schema
+ * Used in: Define data types, Schema definition table (import / export)
+ * Features:
+ * - Export of every column's type, sign, range, precision, date format, pattern, lengths, allowed values, uniqueness, requirement and description
+ * - Import of JSON Schema (a row object, or an array of rows) and Frictionless tableschema.json
+ * - A warning for each setting or constraint that the other format cannot hold, e.g. references to other projects
+ */
+
+import { NumberFormatSetting, SchemaDefinition, schemaTypeDefinition } from '@/utils/types';
+import { NUMBER_LOCALES } from '@/utils/number-format';
+import { describeAllowedValuesError } from '@/utils/allowed-values';
+import { describeRangeError, rangeKind } from '@/utils/range-constraints';
+
+export type SchemaStandard = 'json-schema' | 'table-schema';
+
+/**
+ * A setting or constraint that was dropped or changed in a conversion
+ * `column` is null for settings of the whole schema.
+ */
+export type SchemaConversionWarning = {
+  column: string | null;
+  message: string;
+};
+
+export type SchemaExport = {
+  document: Record<string, unknown>;
+  warnings: SchemaConversionWarning[];
+};
+
+export type SchemaImport = {
+  schema: SchemaDefinition;
+  warnings: SchemaConversionWarning[];
+};
+
+type JSONObject = Record<string, unknown>;
+
+// Parsed documents are untrusted: objects, names and texts are checked before they are read
+function isJSONObject(value: unknown): value is JSONObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function textOf(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Added to every schema at upload, they are not columns of the file
+const UPLOAD_METADATA_COLUMNS = ['timestamp', 'upload_date', 'upload_time', 'timestamp_order', 'originalRowIndex'];
+
+// Read without a warning, they only describe the column
+const ANNOTATION_KEYWORDS = ['title', 'description', '$comment', 'examples', 'default', 'rdfType', 'example'];
+
+// Date tokens of a column's format and their strftime directives (Frictionless date formats)
+const DATE_TOKENS: [string, string][] = [
+  ['YYYY', '%Y'],
+  ['MM', '%m'],
+  ['DD', '%d'],
+  ['HH', '%H'],
+  ['mm', '%M'],
+  ['ss', '%S'],
+];
+
+const ISO_DATE_FORMAT = 'YYYY-MM-DD';
+
+// Same keywords in the column schema, JSON Schema and Table Schema constraints
+const TEXT_CONSTRAINTS = ['pattern', 'minLength', 'maxLength'] as const;
+
+function emptyColumn(dataType: string): schemaTypeDefinition {
+  return { dataType, unique: false, required: false, numericSign: null, precision: null, format: null, separator: null, desc: null };
+}
+
+function schemaColumns(schema: SchemaDefinition): [string, schemaTypeDefinition][] {
+  return Object.entries(schema).filter(([column]) => !UPLOAD_METADATA_COLUMNS.includes(column));
+}
+
+// Columns saved before the flag existed are required
+function isRequired(definition: schemaTypeDefinition): boolean {
+  return definition.required !== false;
+}
+
+function isNumeric(dataType: string): boolean {
+  return dataType === 'Integer' || dataType === 'Float';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pattern of the dates written in a column's format, with one- or two-digit days and months as the validator accepts
+ */
+function datePattern(format: string): string {
+  const parts = format.split(/(YYYY|MM|DD)/).filter(Boolean);
+  return `^${parts.map(part => (part === 'YYYY' ? '\\d{4}' : part === 'MM' || part === 'DD' ? '\\d{1,2}' : escapeRegExp(part))).join('')}$`;
+}
+
+function toStrftime(format: string): string {
+  return DATE_TOKENS.reduce((result, [token, directive]) => result.split(token).join(directive), format);
+}
+
+function fromStrftime(pattern: string): string | null {
+  const format = DATE_TOKENS.reduce((result, [token, directive]) => result.split(directive).join(token), pattern);
+  return format.includes('%') ? null : format;
+}
+
+function dateSeparator(format: string): string | null {
+  return format.match(/[-/.]/)?.[0] ?? null;
+}
+
+/**
+ * Decimal places allowed by a JSON Schema multipleOf (0.01 allows 2), or null for other steps
+ */
+function precisionFromStep(step: unknown): number | null {
+  if (typeof step !== 'number' || step <= 0 || step > 1) return null;
+  const places = Math.round(-Math.log10(step));
+  return Math.abs(step - 10 ** -places) < 1e-12 ? places : null;
+}
+
+function separatorsOf(numberFormat: NumberFormatSetting): { decimalSeparator: string; thousandsSeparator: string } {
+  const locale = NUMBER_LOCALES[numberFormat.locale || 'en-US'] || NUMBER_LOCALES['en-US'];
+  return {
+    decimalSeparator: numberFormat.decimalSeparator ?? locale.decimalSeparator,
+    thousandsSeparator: numberFormat.thousandsSeparator ?? locale.thousandsSeparator,
+  };
+}
+
+function numberFormatFromSeparators(decimalSeparator: string, thousandsSeparator: string): NumberFormatSetting {
+  const locale = Object.keys(NUMBER_LOCALES).find(key =>
+    NUMBER_LOCALES[key].decimalSeparator === decimalSeparator && NUMBER_LOCALES[key].thousandsSeparator === thousandsSeparator);
+  return locale ? { locale } : { decimalSeparator, thousandsSeparator };
+}
+
+/**
+ * Writes a column's pattern and lengths onto a JSON Schema property or Table Schema constraints
+ * Both standards apply them to text only, so they are dropped from columns of other types.
+ */
+function exportTextConstraints(column: string, definition: schemaTypeDefinition, target: JSONObject, isText: boolean, warnings: SchemaConversionWarning[]) {
+  TEXT_CONSTRAINTS.forEach(key => {
+    const value = definition[key];
+    if (value === null || value === undefined || value === '') return;
+
+    if (!isText) {
+      warnings.push({ column, message: `"${key}" only applies to text columns in this format and was dropped` });
+    } else if (key in target) {
+      warnings.push({ column, message: `"${key}" was dropped, the date format is written as the pattern` });
+    } else {
+      target[key] = value;
+    }
+  });
+}
+
+/**
+ * Reads a pattern and lengths from a JSON Schema property or Table Schema constraints into a column
+ * @returns The keywords read
+ */
+function importTextConstraints(source: JSONObject, definition: schemaTypeDefinition): string[] {
+  return TEXT_CONSTRAINTS.filter(key => {
+    const value = source[key];
+    if (key === 'pattern' ? typeof value !== 'string' : !Number.isInteger(value)) return false;
+    Object.assign(definition, { [key]: value });
+    return true;
+  });
+}
+
+function isBound(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+/**
+ * Writes a column's range as "minimum" and "maximum" on a JSON Schema property or Table Schema constraints
+ * A positive or negative sign is a bound of 0, merged with the range.
+ * @param datesAllowed - Whether the format has date bounds (Table Schema)
+ */
+function exportRange(column: string, definition: schemaTypeDefinition, target: JSONObject, datesAllowed: boolean, warnings: SchemaConversionWarning[]) {
+  if (isNumeric(definition.dataType)) {
+    const lower = [definition.min, definition.numericSign === 'Positive' ? 0 : null].filter((bound): bound is number => typeof bound === 'number');
+    const upper = [definition.max, definition.numericSign === 'Negative' ? 0 : null].filter((bound): bound is number => typeof bound === 'number');
+    if (lower.length > 0) target.minimum = Math.max(...lower);
+    if (upper.length > 0) target.maximum = Math.min(...upper);
+    return;
+  }
+
+  const kind = rangeKind(definition.dataType);
+  if (!kind || (!isBound(definition.min) && !isBound(definition.max))) return;
+
+  if (kind === 'date' && datesAllowed) {
+    if (isBound(definition.min)) target.minimum = definition.min;
+    if (isBound(definition.max)) target.maximum = definition.max;
+  } else {
+    warnings.push({ column, message: `This format has no range for ${definition.dataType} columns, the minimum and maximum were dropped` });
+  }
+}
+
+/**
+ * Reads "minimum" and "maximum" from a JSON Schema property or Table Schema constraints into a column
+ * A bound of 0 on a number column is read as its sign.
+ * @returns The keywords read
+ */
+function importRange(source: JSONObject, definition: schemaTypeDefinition): string[] {
+  const kind = rangeKind(definition.dataType);
+  if (!kind) return [];
+
+  return ([['minimum', 'min', 'Positive'], ['maximum', 'max', 'Negative']] as const).filter(([key, field, sign]) => {
+    const value = source[key];
+    if ((typeof value !== 'number' && typeof value !== 'string') || !isBound(value)) return false;
+    if (describeRangeError({ [field]: value }, definition.dataType)) return false;
+
+    if (value === 0 && isNumeric(definition.dataType)) definition.numericSign = sign;
+    else definition[field] = value;
+    return true;
+  }).map(([key]) => key);
+}
+
+/**
+ * References point at a column of another project of this app, which neither format can name
+ */
+function exportReference(column: string, definition: schemaTypeDefinition, warnings: SchemaConversionWarning[]) {
+  if (definition.reference) {
+    warnings.push({ column, message: `The reference to ${definition.reference.column} of another project cannot be exported and was dropped` });
+  }
+}
+
+/**
+ * Neither format has a country for phone numbers written without a +country code
+ */
+function exportPhoneCountry(column: string, definition: schemaTypeDefinition, warnings: SchemaConversionWarning[]) {
+  if (definition.phoneCountry) {
+    warnings.push({ column, message: `The phone country ${definition.phoneCountry} cannot be exported and was dropped` });
+  }
+}
+
+/**
+ * Writes a column's allowed values as the "enum" of a JSON Schema property or Table Schema constraints
+ * They are kept as text, so they are dropped from columns of other types.
+ */
+function exportAllowedValues(column: string, definition: schemaTypeDefinition, target: JSONObject, isText: boolean, warnings: SchemaConversionWarning[]) {
+  if (!definition.allowedValues?.length) return;
+
+  if (isText) {
+    target.enum = [...definition.allowedValues];
+  } else {
+    warnings.push({ column, message: '"enum" only applies to text columns in this format, the allowed values were dropped' });
+  }
+}
+
+/**
+ * Reads the "enum" of a JSON Schema property or Table Schema constraints as a column's allowed values
+ * @returns Whether the enum was read
+ */
+function importAllowedValues(source: JSONObject, definition: schemaTypeDefinition): boolean {
+  if (!Array.isArray(source.enum) || source.enum.some((value: unknown) => value === null || typeof value === 'object')) return false;
+
+  const allowedValues = source.enum.map(String);
+  if (describeAllowedValuesError(allowedValues)) return false;
+  definition.allowedValues = allowedValues;
+  return true;
+}
+
+/**
+ * Reports the keywords of a column that no conversion step read
+ */
+function reportUnread(column: string, definition: JSONObject, read: string[], warnings: SchemaConversionWarning[]) {
+  Object.keys(definition)
+    .filter(key => !read.includes(key) && !ANNOTATION_KEYWORDS.includes(key))
+    .forEach(key => warnings.push({ column, message: `"${key}" cannot be converted and was dropped` }));
+}
+
+/**
+ * Writes a schema as a JSON Schema for one row of the file
+ * @param schema - Project schema
+ * @param title - Title of the JSON Schema, usually the project name
+ * @returns JSON Schema document and the settings it cannot hold
+ */
+export function exportJSONSchema(schema: SchemaDefinition, title?: string): SchemaExport {
+  const warnings: SchemaConversionWarning[] = [];
+  const properties: JSONObject = {};
+  const required = schemaColumns(schema).filter(([, definition]) => isRequired(definition)).map(([column]) => column);
+
+  schemaColumns(schema).forEach(([column, definition]) => {
+    const property: JSONObject = {};
+
+    switch (definition.dataType) {
+      case 'Integer':
+        property.type = 'integer';
+        break;
+      case 'Float':
+        property.type = 'number';
+        break;
+      case 'Boolean':
+        property.type = 'boolean';
+        break;
+      case 'Array':
+        property.type = 'array';
+        break;
+      case 'Object':
+        property.type = 'object';
+        break;
+      case 'Email':
+        Object.assign(property, { type: 'string', format: 'email' });
+        break;
+      case 'UUID':
+        Object.assign(property, { type: 'string', format: 'uuid' });
+        break;
+      case 'URL':
+        Object.assign(property, { type: 'string', format: 'uri' });
+        break;
+      case 'IPv4':
+        Object.assign(property, { type: 'string', format: 'ipv4' });
+        break;
+      case 'IPv6':
+        Object.assign(property, { type: 'string', format: 'ipv6' });
+        break;
+      case 'DateTime':
+        Object.assign(property, { type: 'string', format: 'date-time' });
+        if (definition.format) {
+          warnings.push({ column, message: `JSON Schema date-times follow RFC 3339, the format ${definition.format} was dropped` });
+        }
+        break;
+      case 'Date':
+        if (!definition.format || definition.format === ISO_DATE_FORMAT) {
+          Object.assign(property, { type: 'string', format: 'date' });
+        } else {
+          Object.assign(property, { type: 'string', pattern: datePattern(definition.format) });
+          warnings.push({ column, message: `JSON Schema dates are ${ISO_DATE_FORMAT}, the format ${definition.format} was written as a pattern and imports back as a text column with that pattern` });
+        }
+        break;
+      default:
+        property.type = 'string';
+    }
+
+    exportRange(column, definition, property, false, warnings);
+    if (isNumeric(definition.dataType)) {
+      if (definition.dataType === 'Float' && definition.precision !== null && definition.precision !== undefined) {
+        property.multipleOf = Number((10 ** -definition.precision).toFixed(definition.precision));
+      }
+      if (definition.numberFormat) {
+        warnings.push({ column, message: 'JSON Schema numbers have no separators, the number format was dropped' });
+      }
+    }
+
+    exportTextConstraints(column, definition, property, property.type === 'string', warnings);
+    exportAllowedValues(column, definition, property, property.type === 'string', warnings);
+    exportReference(column, definition, warnings);
+    exportPhoneCountry(column, definition, warnings);
+    if (definition.unique) {
+      warnings.push({ column, message: 'JSON Schema cannot require unique values in a column, uniqueness was dropped' });
+    }
+    if (definition.desc) property.description = definition.desc;
+
+    properties[column] = property;
+  });
+
+  return {
+    document: {
+      $schema: JSON_SCHEMA_DIALECT,
+      ...(title ? { title } : {}),
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Writes a schema as a Frictionless Table Schema
+ * @param schema - Project schema
+ * @returns Table Schema document and the settings it cannot hold
+ */
+export function exportTableSchema(schema: SchemaDefinition): SchemaExport {
+  const warnings: SchemaConversionWarning[] = [];
+
+  const fields = schemaColumns(schema).map(([column, definition]) => {
+    const field: JSONObject = { name: column };
+    const constraints: JSONObject = {};
+
+    switch (definition.dataType) {
+      case 'Integer':
+        field.type = 'integer';
+        break;
+      case 'Float':
+        field.type = 'number';
+        break;
+      case 'Boolean':
+        field.type = 'boolean';
+        break;
+      case 'Array':
+        field.type = 'array';
+        break;
+      case 'Object':
+        field.type = 'object';
+        break;
+      case 'Email':
+        Object.assign(field, { type: 'string', format: 'email' });
+        break;
+      case 'UUID':
+        Object.assign(field, { type: 'string', format: 'uuid' });
+        break;
+      case 'URL':
+        Object.assign(field, { type: 'string', format: 'uri' });
+        break;
+      case 'Date':
+        field.type = 'date';
+        if (definition.format && definition.format !== ISO_DATE_FORMAT) field.format = toStrftime(definition.format);
+        break;
+      case 'DateTime':
+        field.type = 'datetime';
+        if (definition.format) field.format = toStrftime(definition.format);
+        break;
+      default:
+        field.type = 'string';
+    }
+
+    exportRange(column, definition, constraints, true, warnings);
+    if (isNumeric(definition.dataType)) {
+      if (definition.dataType === 'Float' && definition.precision !== null && definition.precision !== undefined) {
+        warnings.push({ column, message: `Table Schema has no decimal places constraint, the precision of ${definition.precision} was dropped` });
+      }
+      if (definition.numberFormat) {
+        const { decimalSeparator, thousandsSeparator } = separatorsOf(definition.numberFormat);
+        if (definition.dataType === 'Float') field.decimalChar = decimalSeparator;
+        field.groupChar = thousandsSeparator;
+      }
+    }
+
+    exportTextConstraints(column, definition, constraints, field.type === 'string', warnings);
+    exportAllowedValues(column, definition, constraints, field.type === 'string', warnings);
+    exportReference(column, definition, warnings);
+    exportPhoneCountry(column, definition, warnings);
+    if (definition.unique) constraints.unique = true;
+    if (isRequired(definition)) constraints.required = true;
+    if (definition.desc) field.description = definition.desc;
+    if (Object.keys(constraints).length > 0) field.constraints = constraints;
+
+    return field;
+  });
+
+  return { document: { fields }, warnings };
+}
+
+/**
+ * Reads a JSON Schema for one row of the file, or for the array of rows
+ * @param document - Parsed JSON Schema
+ * @returns Project schema and the keywords it cannot hold
+ */
+export function importJSONSchema(document: JSONObject): SchemaImport {
+  const warnings: SchemaConversionWarning[] = [];
+  const items = document.items;
+  const row = document.type === 'array' && isJSONObject(items) && items.properties ? items : document;
+  const properties = row.properties;
+
+  if (!isJSONObject(properties)) {
+    throw new Error('The JSON Schema does not describe the columns of a row (no "properties")');
+  }
+  const required = Array.isArray(row.required) ? row.required.filter((entry): entry is string => typeof entry === 'string') : [];
+
+  const schema: SchemaDefinition = {};
+  Object.entries(properties).forEach(([column, value]) => {
+    const property = isJSONObject(value) ? value : {};
+    const read = ['type'];
+    const types = (Array.isArray(property.type) ? property.type : [property.type]).filter((entry): entry is string => typeof entry === 'string');
+    const type = types.find(entry => entry !== 'null') || 'string';
+    if (types.filter(entry => entry !== 'null').length > 1) {
+      warnings.push({ column, message: `Only one type is kept, ${type} was used from ${types.join(' | ')}` });
+    }
+
+    const definition = emptyColumn('String');
+    // Required columns are listed in "required" and do not take null
+    definition.required = required.includes(column) && !types.includes('null');
+    switch (type) {
+      case 'integer':
+        definition.dataType = 'Integer';
+        break;
+      case 'number':
+        definition.dataType = 'Float';
+        break;
+      case 'boolean':
+        definition.dataType = 'Boolean';
+        break;
+      case 'array':
+        definition.dataType = 'Array';
+        break;
+      case 'object':
+        definition.dataType = 'Object';
+        break;
+      case 'string':
+        break;
+      default:
+        warnings.push({ column, message: `Type "${type}" is not supported, the column was read as String` });
+    }
+
+    if (type === 'string' && property.format) {
+      read.push('format');
+      if (property.format === 'email') definition.dataType = 'Email';
+      else if (property.format === 'uuid') definition.dataType = 'UUID';
+      else if (property.format === 'uri') definition.dataType = 'URL';
+      else if (property.format === 'ipv4') definition.dataType = 'IPv4';
+      else if (property.format === 'ipv6') definition.dataType = 'IPv6';
+      else if (property.format === 'date') Object.assign(definition, { dataType: 'Date', format: ISO_DATE_FORMAT, separator: '-' });
+      else if (property.format === 'date-time') definition.dataType = 'DateTime';
+      else warnings.push({ column, message: `Format "${property.format}" is not supported, the column was read as String` });
+    }
+
+    read.push(...importRange(property, definition));
+    if (isNumeric(definition.dataType)) {
+      if (definition.dataType === 'Float' && precisionFromStep(property.multipleOf) !== null) {
+        definition.precision = precisionFromStep(property.multipleOf);
+        read.push('multipleOf');
+      }
+    }
+
+    if (type === 'string') read.push(...importTextConstraints(property, definition));
+    if (importAllowedValues(property, definition)) read.push('enum');
+
+    definition.desc = textOf(property.description) || textOf(property.title);
+    reportUnread(column, property, read, warnings);
+    schema[column] = definition;
+  });
+
+  return { schema, warnings };
+}
+
+/**
+ * Reads a Frictionless Table Schema
+ * @param document - Parsed tableschema.json
+ * @returns Project schema and the properties and constraints it cannot hold
+ */
+export function importTableSchema(document: JSONObject): SchemaImport {
+  const warnings: SchemaConversionWarning[] = [];
+
+  if (!Array.isArray(document.fields)) {
+    throw new Error('The Table Schema has no "fields"');
+  }
+  ['primaryKey', 'foreignKeys', 'missingValues'].filter(key => key in document).forEach(key => {
+    warnings.push({ column: null, message: `"${key}" cannot be converted and was dropped` });
+  });
+
+  const schema: SchemaDefinition = {};
+  document.fields.filter(isJSONObject).forEach(field => {
+    const column = String(field.name);
+    const read = ['name', 'type', 'constraints'];
+    const definition = emptyColumn('String');
+
+    switch (field.type || 'string') {
+      case 'integer':
+        definition.dataType = 'Integer';
+        break;
+      case 'number':
+        definition.dataType = 'Float';
+        break;
+      case 'boolean':
+        definition.dataType = 'Boolean';
+        break;
+      case 'array':
+        definition.dataType = 'Array';
+        break;
+      case 'object':
+        definition.dataType = 'Object';
+        break;
+      case 'date':
+        Object.assign(definition, { dataType: 'Date', format: ISO_DATE_FORMAT, separator: '-' });
+        break;
+      case 'datetime':
+        definition.dataType = 'DateTime';
+        break;
+      case 'string':
+        break;
+      default:
+        warnings.push({ column, message: `Type "${field.type}" is not supported, the column was read as String` });
+    }
+
+    if (field.format && field.format !== 'default') {
+      read.push('format');
+      if (field.type === 'string' && field.format === 'email') definition.dataType = 'Email';
+      else if (field.type === 'string' && field.format === 'uuid') definition.dataType = 'UUID';
+      else if (field.type === 'string' && field.format === 'uri') definition.dataType = 'URL';
+      else if ((field.type === 'date' || field.type === 'datetime') && fromStrftime(String(field.format))) {
+        definition.format = fromStrftime(String(field.format));
+        definition.separator = dateSeparator(definition.format as string);
+      } else {
+        warnings.push({ column, message: `Format "${field.format}" is not supported and was dropped` });
+      }
+    } else if (field.format) {
+      read.push('format');
+    }
+
+    if (isNumeric(definition.dataType) && (field.decimalChar || field.groupChar)) {
+      read.push('decimalChar', 'groupChar');
+      const decimalChar = textOf(field.decimalChar) || '.';
+      definition.numberFormat = numberFormatFromSeparators(decimalChar, textOf(field.groupChar) ?? (decimalChar === ',' ? '.' : ','));
+    }
+    if (isNumeric(definition.dataType)) read.push('bareNumber');
+
+    const constraints: JSONObject = isJSONObject(field.constraints) ? { ...field.constraints } : {};
+    if (constraints.unique === true) {
+      definition.unique = true;
+      delete constraints.unique;
+    }
+    if (typeof constraints.required === 'boolean') {
+      definition.required = constraints.required;
+      delete constraints.required;
+    }
+    importRange(constraints, definition).forEach(key => delete constraints[key]);
+    if ((field.type || 'string') === 'string') {
+      importTextConstraints(constraints, definition).forEach(key => delete constraints[key]);
+    }
+    if (importAllowedValues(constraints, definition)) delete constraints.enum;
+    Object.keys(constraints).forEach(key => {
+      warnings.push({ column, message: `Constraint "${key}" cannot be converted and was dropped` });
+    });
+
+    definition.desc = textOf(field.description) || textOf(field.title);
+    reportUnread(column, field, read, warnings);
+    schema[column] = definition;
+  });
+
+  return { schema, warnings };
+}
+
+/**
+ * Tells which standard a parsed schema document is written in
+ * @returns The standard, or null when it is neither
+ */
+export function detectSchemaStandard(document: unknown): SchemaStandard | null {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) return null;
+  const object = document as JSONObject;
+  if (Array.isArray(object.fields)) return 'table-schema';
+  if (object.properties || (isJSONObject(object.items) && object.items.properties) || object.$schema) return 'json-schema';
+  return null;
+}
+
+/**
+ * Reads a JSON Schema or Table Schema document into a project schema
+ * @param document - Parsed schema document
+ * @returns Project schema, the standard read and the conversion warnings
+ */
+export function importSchemaDocument(document: unknown): SchemaImport & { standard: SchemaStandard } {
+  const standard = detectSchemaStandard(document);
+  if (!standard) {
+    throw new Error('The file is neither a JSON Schema nor a Frictionless Table Schema');
+  }
+
+  const result = standard === 'table-schema'
+    ? importTableSchema(document as JSONObject)
+    : importJSONSchema(document as JSONObject);
+  return { ...result, standard };
+}
+
+/**
+ * Applies an imported schema to a project's columns
+ * Columns of the project take the imported settings by name and keep their type inference;
+ * columns only in the project keep their settings, columns only in the import are skipped.
+ * @param current - Project schema
+ * @param imported - Schema read from the document
+ * @returns The merged schema and the warnings about columns on either side
+ */
+export function mergeImportedSchema(current: SchemaDefinition, imported: SchemaDefinition): SchemaImport {
+  const warnings: SchemaConversionWarning[] = [];
+  const schema: SchemaDefinition = {};
+
+  Object.entries(current).forEach(([column, definition]) => {
+    if (!(column in imported) || UPLOAD_METADATA_COLUMNS.includes(column)) {
+      schema[column] = definition;
+      if (!UPLOAD_METADATA_COLUMNS.includes(column)) {
+        warnings.push({ column, message: 'Not in the imported schema, its settings were kept' });
+      }
+      return;
+    }
+    schema[column] = { ...imported[column], ...(definition.inference ? { inference: definition.inference } : {}) };
+  });
+
+  Object.keys(imported).filter(column => !(column in current)).forEach(column => {
+    warnings.push({ column, message: 'Not a column of this project, skipped' });
+  });
+
+  return { schema, warnings };
+}
@@ -0,0 +1,120 @@
+/**
+ * Schema Templates
+ * Purpose: Matches the columns of a new upload to the columns of a saved schema template
+ * Used in: File upload wizard (schema step)
+ * Features:
+ * - Exact matches on normalised names ("Customer ID", "customer_id" and "customerId" are the same column)
+ * - Fuzzy matches on similar names ("Order Dt" and "Order Date"), each template column used once
+ * - Lists the file columns left unmatched and the template columns nothing matched
+ */
+
+import { SchemaDefinition } from '@/utils/types';
+
+export type TemplateColumnMatch = {
+  column: string;
+  templateColumn: string;
+  score: number;
+  exact: boolean;
+};
+
+export type TemplateMatchResult = {
+  matches: TemplateColumnMatch[];
+  unmatchedColumns: string[];
+  unusedTemplateColumns: string[];
+};
+
+// Lowest similarity accepted as a fuzzy match
+export const FUZZY_MATCH_THRESHOLD = 0.75;
+
+// Added to every schema at upload, they are not part of a file's layout
+const UPLOAD_METADATA_COLUMNS = ['timestamp', 'upload_date', 'upload_time', 'timestamp_order', 'originalRowIndex'];
+
+/**
+ * Reduces a column name to lowercase letters and digits
+ */
+export function normalizeColumnName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two column names, from 0 (nothing in common) to 1 (same normalised name)
+ * A name contained in the other ("Email" in "Email Address") counts as close as a one-letter typo.
+ */
+export function columnNameSimilarity(a: string, b: string): number {
+  const first = normalizeColumnName(a);
+  const second = normalizeColumnName(b);
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+
+  const longest = Math.max(first.length, second.length);
+  const similarity = 1 - editDistance(first, second) / longest;
+  const contained = first.includes(second) || second.includes(first);
+  return contained ? Math.max(similarity, 1 - 1 / Math.min(first.length, second.length)) : similarity;
+}
+
+/**
+ * Matches the columns of a file to the columns of a template
+ * Normalised names are matched first; the remaining columns take the most similar
+ * remaining template column above the threshold, best pairs first.
+ * @param columns - Column names of the uploaded file
+ * @param template - Schema definition saved in the template
+ * @param threshold - Lowest similarity accepted for a fuzzy match
+ * @returns Matches in file column order, with the columns on either side left over
+ */
+export function matchTemplateColumns(
+  columns: string[],
+  template: SchemaDefinition,
+  threshold: number = FUZZY_MATCH_THRESHOLD
+): TemplateMatchResult {
+  const templateColumns = Object.keys(template).filter(column => !UPLOAD_METADATA_COLUMNS.includes(column));
+  const matched = new Map<string, TemplateColumnMatch>();
+  const used = new Set<string>();
+
+  columns.forEach(column => {
+    const templateColumn = templateColumns.find(candidate =>
+      !used.has(candidate) && normalizeColumnName(candidate) === normalizeColumnName(column));
+    if (!templateColumn) return;
+
+    matched.set(column, { column, templateColumn, score: 1, exact: true });
+    used.add(templateColumn);
+  });
+
+  const candidates = columns
+    .filter(column => !matched.has(column))
+    .flatMap(column => templateColumns
+      .filter(templateColumn => !used.has(templateColumn))
+      .map(templateColumn => ({ column, templateColumn, score: columnNameSimilarity(column, templateColumn), exact: false })))
+    .filter(candidate => candidate.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+
+  candidates.forEach(candidate => {
+    if (matched.has(candidate.column) || used.has(candidate.templateColumn)) return;
+    matched.set(candidate.column, { ...candidate, score: Number(candidate.score.toFixed(2)) });
+    used.add(candidate.templateColumn);
+  });
+
+  return {
+    matches: columns.filter(column => matched.has(column)).map(column => matched.get(column)!),
+    unmatchedColumns: columns.filter(column => !matched.has(column)),
+    unusedTemplateColumns: templateColumns.filter(column => !used.has(column)),
+  };
+}
@@ -7,9 +7,13 @@
  * - Data type mapping
  * - Metadata handling
  * - Numeric sign and precision mapping
+ * - Keeps the whole-file type inference shown next to each column
+ * - Reads a saved column definition back into wizard format (schema templates)
  */
 
-import { schemaTypeDefinition } from '@/utils/types';
+import { NumberFormatSetting, schemaTypeDefinition, TypeInferenceType } from '@/utils/types';
+import { ColumnInference } from '@/utils/type-inference';
+import { BUILT_IN_DATA_TYPES } from '@/utils/data-types';
 
 /**
  * Interface for column schema in wizard format
@@ -20,9 +24,18 @@ type ColumnSchema = {
   numericSign?: string;
   precision?: string;
   uniqueness?: string;
+  requirement?: string;
   dateFormat?: string;
   dateSeparator?: string;
   description?: string;
+  numberFormat?: NumberFormatSetting | null;
+  pattern?: string | null;
+  minLength?: number | null;
+  maxLength?: number | null;
+  allowedValues?: string[] | null;
+  min?: number | string | null;
+  max?: number | string | null;
+  inference?: ColumnInference;
 };
 
 /**
@@ -98,17 +111,54 @@ export function transformColumnsToSchema(columns: ColumnSchema[] | null | undefi
     schema[column.name] = {
       dataType: mapDataType(column.dataType || 'String'),
       unique: column.uniqueness === "Unique",
+      ...(column.requirement ? { required: column.requirement === "Required" } : {}),
       numericSign: mapNumericSign(column.numericSign),
       precision: mapPrecision(column.precision),
       format: column.dateFormat || null,
       separator: column.dateSeparator || null,
-      desc: column.description || null
+      desc: column.description || null,
+      ...(column.numberFormat ? { numberFormat: column.numberFormat } : {}),
+      ...(column.pattern ? { pattern: column.pattern } : {}),
+      ...(column.minLength != null ? { minLength: column.minLength } : {}),
+      ...(column.maxLength != null ? { maxLength: column.maxLength } : {}),
+      ...(column.allowedValues?.length ? { allowedValues: column.allowedValues } : {}),
+      ...(column.min != null ? { min: column.min } : {}),
+      ...(column.max != null ? { max: column.max } : {}),
+      ...(column.inference ? { inference: toStoredInference(column.inference) } : {})
     };
   });
   
   return schema;
 }
 
+/**
+ * Reads a saved column definition back into the settings the wizard edits
+ * The column name and the inference of the file being uploaded are kept by the caller.
+ * @param definition - Column definition in backend format
+ * @returns Data type, sign, precision, uniqueness, requirement, date format, description, number format, text constraints, allowed values and range in wizard format
+ */
+export function transformSchemaToColumnSettings(definition: schemaTypeDefinition): Omit<ColumnSchema, 'name' | 'inference'> {
+  return {
+    dataType: definition.dataType || 'String',
+    numericSign: definition.numericSign === 'Positive' ? 'Positive Only' :
+                 definition.numericSign === 'Negative' ? 'Negative Only' : undefined,
+    precision: definition.precision === null || definition.precision === undefined ? undefined :
+               `${definition.precision} ${definition.precision === 1 ? 'Decimal' : 'Decimals'}`,
+    uniqueness: definition.unique ? 'Unique' : undefined,
+    requirement: definition.required === false ? 'Optional' : 'Required',
+    dateFormat: definition.format || undefined,
+    dateSeparator: definition.separator || undefined,
+    description: definition.desc || undefined,
+    numberFormat: definition.numberFormat || null,
+    pattern: definition.pattern || null,
+    minLength: definition.minLength ?? null,
+    maxLength: definition.maxLength ?? null,
+    allowedValues: definition.allowedValues?.length ? definition.allowedValues : null,
+    min: definition.min ?? null,
+    max: definition.max ?? null,
+  };
+}
+
 /**
  * Maps data types from wizard format to backend format
  * @param type - Data type in wizard format
@@ -120,13 +170,33 @@ function mapDataType(type: string) {
     "Integer": "Integer",
     "Float": "Float",
     "Boolean": "Boolean",
+    "Email": "Email",
+    "UUID": "UUID",
     "Date": "Date",
     "DateTime": "DateTime",
     "Time": "String" // Map Time to String since we don't have a specific Time type
   };
+  if (BUILT_IN_DATA_TYPES.some(dataType => dataType.name === type)) return type; // Registry types keep their name
   return typeMap[type] || "String"; // Default to String if unknown type
 }
 
+/**
+ * Keeps the parts of an inference result that are stored with the schema, as the server does
+ * @param inference - Inferred type of a column
+ * @returns Inferred type, confidence, counts, counterexamples, date format and the alternative type
+ */
+function toStoredInference(inference: ColumnInference): TypeInferenceType {
+  return {
+    dataType: inference.dataType,
+    confidence: inference.confidence,
+    nonNull: inference.nonNull,
+    nullCount: inference.nullCount,
+    counterexamples: inference.counterexamples,
+    ...(inference.dateFormat ? { dateFormat: inference.dateFormat } : {}),
+    ...(inference.alternative ? { alternative: inference.alternative } : {})
+  };
+}
+
 /**
  * Maps numeric sign from wizard format to backend format
  * @param sign - Numeric sign in wizard format
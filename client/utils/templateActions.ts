@@ -0,0 +1,103 @@
+/**
+ * Template Actions
+ * Purpose: Handles the schema templates a user saved to reuse on later uploads
+ * Used in: Define data types (saving), File upload wizard (applying)
+ * Features:
+ * - Template listing
+ * - Saving a project's schema as a named template
+ * - Template deletion
+ * - Error handling
+ * - Authentication integration
+ */
+
+'use server'
+import { cookies } from "next/headers";
+import { axiosPrivate } from '@/services/axios';
+import { AxiosError } from 'axios';
+import { SchemaDefinition } from '@/utils/types';
+
+/**
+ * Retrieves the schema templates of the current user
+ * @returns Promise resolving to the templates, most recently saved first
+ */
+export const GetTemplates = async () => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try{
+        const {data} = await axiosPrivate.get(`/templates`,{
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`,
+            },
+        });
+
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
+
+/**
+ * Saves a project's schema as a named template
+ * A template saved under an existing name replaces it.
+ * @param name - Template name
+ * @param fileId - ID of the project the schema belongs to
+ * @param schemaDefinition - Schema to save, the project's saved schema when omitted
+ * @returns Promise resolving to the saved template
+ */
+export const SaveTemplate = async (name:string, fileId:string, schemaDefinition?:SchemaDefinition) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try{
+        const {data} = await axiosPrivate.post(`/templates`, { name, fileId, schema_definition: schemaDefinition }, {
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`,
+            },
+        });
+
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
+
+/**
+ * Deletes a schema template
+ * @param templateId - ID of the template
+ * @returns Promise resolving to the deletion result
+ */
+export const DeleteTemplate = async (templateId:string) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+
+    try{
+        const {data} = await axiosPrivate.delete(`/templates/${templateId}`,{
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`,
+            },
+        });
+
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * Text Constraints
+ * Purpose: Checks values against a column's pattern and length constraints
+ * Used in: Column data type definition (live test of the constraints)
+ * Features:
+ * - Patterns are JavaScript regular expressions without slashes or flags, of at most 200 characters
+ *   and without a repeated group that repeats itself such as (a+)+, which can take too long to check
+ * - Lengths count characters, so "Gérard" is 6 long
+ * - Same rules as the server's utils/textConstraints.js, so the live test and validation agree
+ */
+
+import { schemaTypeDefinition } from '@/utils/types';
+
+export type TextConstraints = Pick<schemaTypeDefinition, 'pattern' | 'minLength' | 'maxLength'>;
+
+export type TextConstraintIssue = {
+  issueType: 'PATTERN_MISMATCH' | 'LENGTH_VIOLATION';
+  issueDesc: string;
+};
+
+export const MAX_PATTERN_LENGTH = 200;
+
+/** A quantifier at the start of the text: *, +, ? or {n}, {n,}, {n,m} */
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+const REPEATING_QUANTIFIER = /^(?:[*+]|\{\d+(?:,\d*)?\})/;
+
+/**
+ * Whether a group holding a quantifier is itself repeated, e.g. (a+)+, (\d*-?)* or ((ab)+c){2,}
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  // One entry per open group: whether it holds a quantifier
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      if (char === ']') inClass = false;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the ?:, ?=, ?!, ?<=, ?<! or ?<name> of a special group, which is not a quantifier
+      const special = pattern.slice(i + 1).match(/^\?(?:[:=!]|<[=!]|<[^>]*>)/);
+      if (special) i += special[0].length;
+    } else if (char === ')') {
+      const holdsQuantifier = groups.pop();
+      const rest = pattern.slice(i + 1);
+      if (holdsQuantifier && REPEATING_QUANTIFIER.test(rest)) return true;
+      if (groups.length > 0 && (holdsQuantifier || QUANTIFIER.test(rest))) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && QUANTIFIER.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Why a pattern cannot be used, as the end of a sentence starting with "The pattern"
+ * @returns The reason, or null when the pattern can be used
+ */
+export function describePatternError(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `is longer than ${MAX_PATTERN_LENGTH} characters`;
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'is not a valid regular expression';
+  }
+  if (hasNestedQuantifier(pattern)) return 'repeats a group that repeats itself, e.g. (a+)+, which can take too long to check';
+  return null;
+}
+
+/**
+ * Compiles a column's pattern
+ * @returns The regular expression, or null when there is no pattern or it cannot be used
+ */
+export function compilePattern(pattern: string | null | undefined): RegExp | null {
+  if (typeof pattern !== 'string' || pattern === '' || describePatternError(pattern)) return null;
+  return new RegExp(pattern);
+}
+
+function isLength(value: number | null | undefined): boolean {
+  return value === null || value === undefined || (Number.isInteger(value) && value >= 0);
+}
+
+/**
+ * Why a column's constraints cannot be enforced
+ * @returns The reason, or null when the constraints are valid
+ */
+export function describeTextConstraintError(constraints: TextConstraints): string | null {
+  const patternError = constraints.pattern ? describePatternError(constraints.pattern) : null;
+  if (patternError) return `The pattern ${patternError}`;
+  if (!isLength(constraints.minLength) || !isLength(constraints.maxLength)) return 'Lengths must be whole numbers of 0 or more';
+  if (constraints.minLength != null && constraints.maxLength != null && constraints.minLength > constraints.maxLength) {
+    return 'The minimum length is above the maximum length';
+  }
+  return null;
+}
+
+function describeLength({ minLength, maxLength }: TextConstraints): string {
+  if (minLength != null && maxLength != null) return `${minLength}-${maxLength} characters`;
+  if (minLength != null) return `at least ${minLength} characters`;
+  return `at most ${maxLength} characters`;
+}
+
+/**
+ * Checks one value against a column's pattern and lengths
+ * @param value - Cell value
+ * @param constraints - Pattern, minimum and maximum length of the column
+ * @returns PATTERN_MISMATCH and LENGTH_VIOLATION issues, as validation would report them
+ */
+export function checkTextConstraints(value: unknown, constraints: TextConstraints): TextConstraintIssue[] {
+  if (value === null || value === undefined || typeof value === 'object') return [];
+
+  const text = String(value);
+  const issues: TextConstraintIssue[] = [];
+  const pattern = compilePattern(constraints.pattern);
+
+  if (pattern && !pattern.test(text)) {
+    issues.push({
+      issueType: 'PATTERN_MISMATCH',
+      issueDesc: `Value Does Not Match Pattern (Expected: ${constraints.pattern}, Found: '${text}')`,
+    });
+  }
+
+  const length = [...text].length;
+  if ((constraints.minLength != null && length < constraints.minLength) || (constraints.maxLength != null && length > constraints.maxLength)) {
+    issues.push({
+      issueType: 'LENGTH_VIOLATION',
+      issueDesc: `Invalid Length (Expected: ${describeLength(constraints)}, Found: ${length})`,
+    });
+  }
+
+  return issues;
+}
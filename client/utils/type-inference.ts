@@ -0,0 +1,241 @@
+/**
+ * Type Inference
+ * Purpose: Infers column types from every row of a file, with a confidence score and counterexamples
+ * Used in: File upload wizard (through the type inference worker), schema display
+ * Features:
+ * - Counts how many values of each column fit each candidate type
+ * - Chooses the type fitting the most values, the more specific one on a tie
+ * - Falls back to String when no type fits 95% of the values, naming the closest type
+ * - Keeps the first values that did not fit the chosen type
+ * - Settles the date format of date columns (MM/DD or DD/MM) from all of their values
+ * - Seeds the allowed values of text columns holding a few repeated values (categories)
+ * - Same rules as the server's utils/typeInference.js, so both sides agree (checked by type-inference-parity.test.ts)
+ */
+
+import { DataRow } from '@/utils/file-parsers';
+import { createDateTally, dateFormatFromTally, isDateText, tallyDate } from '@/utils/date-format';
+import { DateFormatInference } from '@/utils/types';
+import { MAX_CATEGORY_VALUES, seedAllowedValues } from '@/utils/allowed-values';
+
+/**
+ * A value that did not fit the inferred type, with its 1-based data row number
+ */
+export type InferenceCounterexample = {
+  row: number;
+  value: unknown;
+};
+
+/**
+ * Inferred type of one column
+ */
+export type ColumnInference = {
+  dataType: string;
+  /** Share of the non-empty values that fit the type (for String, how far the closest type is) */
+  confidence: number;
+  nonNull: number;
+  nullCount: number;
+  counterexamples: InferenceCounterexample[];
+  /** First value of the inferred type */
+  sample?: unknown;
+  /** Range and most decimal places of a numeric column */
+  numbers?: { min: number; max: number; maxDecimals: number };
+  /** Format and separator of a date column */
+  dateFormat?: DateFormatInference;
+  /** Type most values of a String column fit */
+  alternative?: { dataType: string; share: number };
+  /** Allowed values to seed a String column holding a few repeated values with */
+  categories?: string[];
+};
+
+export const INFERENCE_THRESHOLD = 0.95;
+const ALTERNATIVE_THRESHOLD = 0.5;
+/** Columns empty in at most this share of the rows start out required, emptier ones optional (e.g. middle_name) */
+export const REQUIRED_NULL_RATE = 0.05;
+const MAX_COUNTEREXAMPLES = 5;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+/** Digits with a leading zero ("02134", "0306406152") are codes the parsers keep as text */
+const LEADING_ZERO_PATTERN = /^[-+]?0\d/;
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+/**
+ * Text holding a number, leaving out codes with a leading zero so postal codes and ISBNs are not proposed as numbers
+ */
+function isNumberText(value: unknown, pattern: RegExp): value is string {
+  return isText(value) && pattern.test(value.trim()) && !LEADING_ZERO_PATTERN.test(value.trim());
+}
+
+/**
+ * Candidate types, most specific first; a value can fit several of them (an Integer is also a Float)
+ */
+const TYPE_CHECKS: [string, (value: unknown) => boolean][] = [
+  ['Array', value => Array.isArray(value)],
+  ['Object', value => value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)],
+  ['Boolean', value => typeof value === 'boolean' || (isText(value) && /^(true|false)$/i.test(value.trim()))],
+  ['Integer', value => Number.isInteger(value) || isNumberText(value, /^-?\d+$/)],
+  ['Float', value => (typeof value === 'number' && Number.isFinite(value)) || isNumberText(value, NUMBER_PATTERN)],
+  ['UUID', value => isText(value) && UUID_PATTERN.test(value.trim())],
+  ['Email', value => isText(value) && EMAIL_PATTERN.test(value.trim())],
+  ['Date', value => value instanceof Date || isDateText(value)],
+];
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (isText(value) && value.trim() === '');
+}
+
+function decimalPlaces(value: number): number {
+  return String(value).split('.')[1]?.length || 0;
+}
+
+function roundShare(share: number): number {
+  return Math.round(share * 1000) / 1000;
+}
+
+/**
+ * Counts for one column
+ */
+class ColumnCounter {
+  nonNull = 0;
+  nullCount = 0;
+  private matches = TYPE_CHECKS.map(() => 0);
+  private misses: InferenceCounterexample[][] = TYPE_CHECKS.map(() => []);
+  private samples: unknown[] = TYPE_CHECKS.map(() => undefined);
+  private numbers = { min: Infinity, max: -Infinity, maxDecimals: 0 };
+  private dates = createDateTally();
+  /** Text values and how often each was seen, dropped once the column has too many to be a category */
+  private distinct: Map<string, number> | null = new Map();
+
+  add(value: unknown, row: number) {
+    if (isEmpty(value)) {
+      this.nullCount++;
+      return;
+    }
+
+    this.nonNull++;
+    TYPE_CHECKS.forEach(([, check], index) => {
+      if (check(value)) {
+        this.matches[index]++;
+        if (this.samples[index] === undefined) this.samples[index] = value;
+      } else if (this.misses[index].length < MAX_COUNTEREXAMPLES) {
+        this.misses[index].push({ row, value });
+      }
+    });
+
+    tallyDate(this.dates, value);
+
+    if (this.distinct && isText(value)) {
+      this.distinct.set(value, (this.distinct.get(value) || 0) + 1);
+      if (this.distinct.size > MAX_CATEGORY_VALUES) this.distinct = null;
+    }
+
+    const number = typeof value === 'number' ? value : isNumberText(value, NUMBER_PATTERN) ? Number(value) : NaN;
+    if (Number.isFinite(number)) {
+      this.numbers.min = Math.min(this.numbers.min, number);
+      this.numbers.max = Math.max(this.numbers.max, number);
+      this.numbers.maxDecimals = Math.max(this.numbers.maxDecimals, decimalPlaces(number));
+    }
+  }
+
+  result(): ColumnInference {
+    const result: ColumnInference = {
+      dataType: 'String',
+      confidence: 0,
+      nonNull: this.nonNull,
+      nullCount: this.nullCount,
+      counterexamples: [],
+    };
+
+    if (this.nonNull === 0) return result;
+
+    let best = 0;
+    this.matches.forEach((count, index) => {
+      if (count > this.matches[best]) best = index;
+    });
+    const share = this.matches[best] / this.nonNull;
+    const [dataType] = TYPE_CHECKS[best];
+
+    if (share >= INFERENCE_THRESHOLD) {
+      result.dataType = dataType;
+      result.confidence = roundShare(share);
+      result.counterexamples = this.misses[best];
+      result.sample = this.samples[best];
+      if (dataType === 'Integer' || dataType === 'Float') {
+        result.numbers = { ...this.numbers };
+      }
+      if (dataType === 'Date') {
+        result.dateFormat = dateFormatFromTally(this.dates);
+      }
+      return result;
+    }
+
+    // Text: the confidence drops as another type comes close, the counterexamples show what broke it
+    result.confidence = roundShare(1 - share);
+    if (share >= ALTERNATIVE_THRESHOLD) {
+      result.alternative = { dataType, share: roundShare(share) };
+      result.counterexamples = this.misses[best];
+    }
+    // Few values repeated across the rows make a category, e.g. a Status column
+    if (this.distinct && this.distinct.size > 0 && this.nonNull >= this.distinct.size * 2) {
+      result.categories = seedAllowedValues(this.distinct);
+    }
+    return result;
+  }
+}
+
+/**
+ * Infers column types from rows fed one at a time
+ * Memory use does not grow with the number of rows, so a whole file can be streamed through it.
+ */
+export class TypeInferrer {
+  private columns = new Map<string, ColumnCounter>();
+  private rowCount = 0;
+
+  /**
+   * Counts the values of the next row
+   * @param row - Parsed data row
+   */
+  addRow(row: DataRow) {
+    Object.keys(row).forEach(name => {
+      if (name === 'originalRowIndex' || this.columns.has(name)) return;
+      // Rows before the column first appeared did not have a value for it
+      const column = new ColumnCounter();
+      column.nullCount = this.rowCount;
+      this.columns.set(name, column);
+    });
+
+    this.rowCount++;
+    this.columns.forEach((column, name) => column.add(row[name], this.rowCount));
+  }
+
+  /**
+   * @returns The inferred type of every column seen so far, in order of appearance
+   */
+  result(): Record<string, ColumnInference> {
+    return Object.fromEntries([...this.columns].map(([name, column]) => [name, column.result()]));
+  }
+}
+
+/**
+ * Whether a column should start out required, from the share of its rows that are empty
+ * @param inference - Inferred type of the column
+ * @returns True when the column is rarely empty
+ */
+export function inferRequired({ nonNull, nullCount }: Pick<ColumnInference, 'nonNull' | 'nullCount'>): boolean {
+  return nonNull > 0 && nullCount / (nonNull + nullCount) <= REQUIRED_NULL_RATE;
+}
+
+/**
+ * Infers the type of every column of the given rows
+ * @param rows - Parsed data rows
+ * @returns Column names mapped to their inferred type, confidence and counterexamples
+ */
+export function inferColumnTypes(rows: DataRow[]): Record<string, ColumnInference> {
+  const inferrer = new TypeInferrer();
+  rows.forEach(row => inferrer.addRow(row));
+  return inferrer.result();
+}
@@ -0,0 +1,75 @@
+/**
+ * Type Inference Worker
+ * Purpose: Reads a whole file and infers its column types off the main thread
+ * Used in: File upload wizard
+ * Features:
+ * - CSV files are streamed row by row, so large files are never held in memory
+ * - Excel workbooks are read for the selected sheets only, converting one row at a time
+ * - JSON / NDJSON files are flattened with the chosen depth
+ * - Posts back the inferred type, confidence and counterexamples of every column
+ */
+
+import {
+  forEachCSVRow,
+  forEachExcelRow,
+  parseJSONFile,
+  CSVDialect,
+  JSONParseOptions,
+  TableLayout,
+} from '@/utils/file-parsers';
+import { NumberFormat } from '@/utils/number-format';
+import { TypeInferrer, ColumnInference } from '@/utils/type-inference';
+
+/**
+ * File to infer, with the parse settings chosen in the wizard
+ */
+export type TypeInferenceRequest = {
+  file: File;
+  kind: 'csv' | 'excel' | 'json';
+  encoding?: string;
+  dialect?: CSVDialect;
+  layout?: TableLayout;
+  sheets?: string[];
+  json?: JSONParseOptions;
+  numberFormat?: NumberFormat;
+};
+
+export type TypeInferenceResponse =
+  | { inference: Record<string, ColumnInference>; rowCount: number }
+  | { error: string };
+
+const ctx = self as unknown as Worker;
+
+async function inferFile(request: TypeInferenceRequest): Promise<TypeInferenceResponse> {
+  const inferrer = new TypeInferrer();
+  let rowCount = 0;
+
+  if (request.kind === 'csv') {
+    rowCount = await forEachCSVRow(request.file, row => inferrer.addRow(row), {
+      dialect: request.dialect,
+      encoding: request.encoding,
+      layout: request.layout,
+      numberFormat: request.numberFormat,
+    });
+  } else if (request.kind === 'excel') {
+    rowCount = await forEachExcelRow(request.file, row => inferrer.addRow(row), {
+      sheets: request.sheets,
+      layout: request.layout,
+      numberFormat: request.numberFormat,
+    });
+  } else {
+    const rows = await parseJSONFile(request.file, undefined, { ...request.json, encoding: request.encoding });
+    rows.forEach(row => inferrer.addRow(row));
+    rowCount = rows.length;
+  }
+
+  return { inference: inferrer.result(), rowCount };
+}
+
+ctx.onmessage = async (event: MessageEvent<TypeInferenceRequest>) => {
+  try {
+    ctx.postMessage(await inferFile(event.data));
+  } catch (error) {
+    ctx.postMessage({ error: error instanceof Error ? error.message : 'Could not infer the column types' });
+  }
+};
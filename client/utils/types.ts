@@ -9,6 +9,8 @@
  * - Action and record type definitions
  */
 
+import { ValidationRule } from '@/utils/validation-rules';
+
 /**
  * Project type definition
  * Represents a data cleaning project
@@ -136,14 +138,28 @@ export interface error {
   column: string;
   issueType: string;
   issueDesc: string;
+  /** Value found, kept by INVALID_CATEGORY so its fix can replace it */
+  value?: unknown;
+  /** Closest allowed value of an INVALID_CATEGORY issue */
+  suggestion?: string | null;
+  /** Bounds of the column an OUT_OF_RANGE value is outside of */
+  min?: number | string;
+  max?: number | string;
+  /** Name of the rule a RULE_VIOLATION breaks and every column it uses (`column` is the first) */
+  rule?: string;
+  columns?: string[];
+  /** IDs of the rows a DUPLICATE_KEY issue shares its composite key with (`columns` are the key's columns) */
+  duplicateRows?: number[];
 }
 
 /**
  * Issue type definition
  * Represents issues in a specific row
+ * `row` is the row's stable ID (its 1-based row in the source), `position` its current 1-based position
  */
 export interface Issue {
   row: number;
+  position?: number;
   errors: error[];
 }
 
@@ -165,6 +181,43 @@ export interface Schema {
   [key: string]: string; 
 }
 
+/**
+ * Date format inferred from every value of a date column
+ * `ambiguous` is set when no day was above 12, or when values pointed to both orders
+ */
+export interface DateFormatInference {
+  format: string;
+  separator: string;
+  ambiguous: boolean;
+  evidence: { dayFirst: number; monthFirst: number };
+}
+
+/**
+ * How a column's type was inferred from every row of the uploaded file
+ * `confidence` is the share of non-empty values fitting the type; `counterexamples`
+ * are values that did not fit it (or, for text columns, did not fit `alternative`)
+ */
+export interface TypeInferenceType {
+  dataType: string;
+  confidence: number;
+  nonNull: number;
+  nullCount: number;
+  counterexamples: { row: number; value: unknown }[];
+  dateFormat?: DateFormatInference;
+  alternative?: { dataType: string; share: number };
+}
+
+/**
+ * Column number format
+ * Overrides the project's number format for one column; a locale alone fills in its separators
+ */
+export interface NumberFormatSetting {
+  locale?: string;
+  decimalSeparator?: string;
+  thousandsSeparator?: string;
+  currencySymbols?: string[];
+}
+
 /**
  * Schema type definition
  * Represents detailed schema information for a column
@@ -172,11 +225,35 @@ export interface Schema {
 export interface schemaTypeDefinition {
   dataType: string;
   unique: boolean;
+  /** Only required columns report empty values; columns saved without the flag are required */
+  required?: boolean;
   numericSign: string | null;
   precision: number | null;
   format: string | null;
   separator: string | null;
   desc: string | null;
+  inference?: TypeInferenceType;
+  numberFormat?: NumberFormatSetting | null;
+  pattern?: string | null;
+  minLength?: number | null;
+  maxLength?: number | null;
+  allowedValues?: string[] | null;
+  /** Numbers for numeric columns, YYYY-MM-DD dates for Date columns */
+  min?: number | string | null;
+  max?: number | string | null;
+  /** Column of another project every value must exist in */
+  reference?: SchemaReference | null;
+  /** ISO 3166 country of the phone numbers of a PhoneNumber column written without a +country code */
+  phoneCountry?: string | null;
+}
+
+/**
+ * Schema reference
+ * Points a column at a column of another project of the user, e.g. orders.customer_id at customers.customer_id
+ */
+export interface SchemaReference {
+  fileId: string;
+  column: string;
 }
 
 /**
@@ -197,6 +274,10 @@ export interface SchemaType {
   file_id: string;
   schema_definition: SchemaDefinition;
   awareness: string;
+  /** Composite unique keys, e.g. [["store_id", "date"]] */
+  unique_keys?: string[][] | null;
+  /** Country of the project's phone numbers written without a +country code, columns may set their own */
+  phone_country?: string | null;
   created_at?: string;
   updated_at?: string;
   timestamp?: string;
@@ -214,4 +295,109 @@ export interface computeDataType {
   highImpactCount: number,
   totalPercentage: number,
   totalDistinctColumns: number,
-}
\ No newline at end of file
+}
+/**
+ * Upload session
+ * Represents a chunked upload in progress, as returned when it is started or resumed
+ */
+export interface UploadSessionType {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+}
+
+/**
+ * Upload progress
+ * Reported after every chunk of a chunked upload
+ */
+export interface UploadProgressType {
+  uploadedBytes: number;
+  totalBytes: number;
+  percent: number;
+}
+
+/**
+ * Result of appending a batch of rows to an existing project
+ */
+export interface BatchSummaryType {
+  batch_id: string;
+  rowsAdded: number;
+  totalRows: number;
+  issuesAdded: number;
+  ignoredColumns: string[];
+}
+
+/**
+ * Saved action that refers to columns the active version of the file does not have
+ */
+export interface ActionWarningType {
+  action_id: string;
+  title: string;
+  type: string;
+  missingColumns: string[];
+}
+
+/**
+ * Uploaded version of a project's source file
+ */
+export interface FileVersionType {
+  version_id: string;
+  version_number: number;
+  original_name: string;
+  file_type: string;
+  file_size: number;
+  uploaded_at: string;
+}
+
+/**
+ * Result of switching a project to another version of its source file
+ */
+export interface VersionReportType {
+  currentVersion: number;
+  rowCount: number;
+  issueCount: number;
+  addedColumns: string[];
+  removedColumns: string[];
+  actionWarnings: ActionWarningType[];
+}
+
+/**
+ * Saved schema of a project, with its rules, composite keys and phone country, and the user who saved it
+ * `source` tells whether it was generated on upload, edited, saved with new validation rules, or restored from `restored_from`
+ */
+export interface SchemaVersionType {
+  schema_version_id: string;
+  version_number: number;
+  schema_definition: SchemaDefinition;
+  awareness: string | null;
+  validation_rules: ValidationRule[] | null;
+  unique_keys: string[][] | null;
+  phone_country: string | null;
+  source: 'generated' | 'edit' | 'rules' | 'rollback';
+  restored_from: number | null;
+  created_at: string;
+  author: { userId: string; name: string | null };
+}
+
+/**
+ * Result of restoring an earlier schema
+ */
+export interface SchemaRollbackReportType {
+  schemaVersion: number;
+  restoredFrom: number;
+  rowCount: number;
+  issueCount: number;
+}
+
+/**
+ * Named schema saved by a user to apply to later uploads with the same layout
+ */
+export interface SchemaTemplateType {
+  template_id: string;
+  name: string;
+  schema_definition: SchemaDefinition;
+  source_file_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
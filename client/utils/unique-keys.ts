@@ -0,0 +1,36 @@
+/**
+ * Unique Keys
+ * Purpose: Checks the composite unique keys of a project, e.g. (store_id, date)
+ * Used in: Unique keys editor (schema editor)
+ * Features:
+ * - A key combines two or more columns; no two rows may share all of their values
+ * - Errors name the key and the problem, so the editor can show them before saving
+ * - Same rules as the server's utils/uniqueKeys.js, so the editor and the save agree
+ */
+
+/**
+ * Why a project's unique keys cannot be enforced
+ * @param uniqueKeys - Column lists of the keys
+ * @param columnNames - Columns of the project
+ * @returns The reason, or null when every key is valid
+ */
+export function describeUniqueKeysError(uniqueKeys: string[][], columnNames: string[]): string | null {
+  const seen = new Set<string>();
+  for (const columns of uniqueKeys) {
+    if (columns.length < 2) {
+      return 'A unique key needs at least two columns, mark a single column as unique instead.';
+    }
+
+    const unknown = columns.find(column => !columnNames.includes(column));
+    if (unknown !== undefined) return `'${unknown}' is not a column of this project.`;
+
+    if (new Set(columns).size !== columns.length) {
+      return `The unique key (${columns.join(', ')}) lists a column more than once.`;
+    }
+
+    const signature = [...columns].sort().join('\u0000');
+    if (seen.has(signature)) return `The unique key (${columns.join(', ')}) is listed more than once.`;
+    seen.add(signature);
+  }
+  return null;
+}
@@ -0,0 +1,178 @@
+/**
+ * Upload Actions Module
+ * 
+ * Purpose: 
+ * Server actions for the chunked upload protocol. The browser slices the file and
+ * sends each chunk through these actions, which add the access token and forward
+ * the bytes to the API.
+ * 
+ * Used in:
+ * - utils/chunked-upload.ts
+ * 
+ * Features:
+ * - Start or resume an upload session
+ * - Send a chunk with its SHA-256 checksum
+ * - Complete (reassemble) or cancel an upload
+ * - Add the uploaded file to an existing project as a batch of rows or a new version
+ */
+
+'use server';
+import { axiosPrivate } from '@/services/axios';
+import { cookies } from "next/headers";
+import { AxiosError } from 'axios';
+import { SchemaType, UploadSessionType, BatchSummaryType, VersionReportType } from './types';
+
+/**
+ * Response type for upload session requests
+ * 
+ * @property {UploadSessionType|null} session - Session details when the request succeeded
+ * @property {string} error - Error message when it failed
+ * @property {boolean} retryable - Whether sending the same request again may succeed
+ */
+type UploadSessionResponse = {
+    session?: UploadSessionType | null;
+    error?: string;
+    retryable?: boolean;
+};
+
+/**
+ * Response type for chunk and completion requests
+ */
+type UploadStepResponse = {
+    message?: string;
+    fileSchemaDefinition?: SchemaType | null;
+    batch?: BatchSummaryType | null;
+    version?: VersionReportType | null;
+    error?: string;
+    retryable?: boolean;
+};
+
+/**
+ * Gets the authentication header from the access token cookie
+ */
+const authHeader = async () => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+    return { Authorization: `Bearer ${accessTokenCookie}` };
+};
+
+/**
+ * Converts a failed request into an error message
+ * Network errors and server errors can be retried; validation errors cannot,
+ * except a checksum mismatch, which means the chunk was damaged in transit
+ */
+const toUploadError = (error: unknown) => {
+    if (error instanceof AxiosError) {
+        const { response } = error;
+        if (!response) {
+            return { error: "No response received from the server.", retryable: true };
+        }
+
+        const message: string = response.data?.message || "Something went wrong. Please try again!";
+        const retryable = response.status >= 500 || /checksum/i.test(message);
+        return { error: message, retryable };
+    }
+
+    return { error: "Something went wrong. Please try again!", retryable: false };
+};
+
+/**
+ * Starts a chunked upload, or resumes the unfinished upload of the same file
+ * 
+ * @param details - File name, size, fingerprint, content type and project details;
+ * targetFileId adds the file to that project instead of creating a new one, as a batch
+ * of rows or, with targetMode "version", as a new version of its source file
+ * @returns Promise resolving to the session with the chunks already received
+ */
+export const StartChunkedUpload = async (details: {
+    fileName: string;
+    fileSize: number;
+    fingerprint: string;
+    contentType: string;
+    category: string;
+    description: string;
+    parseOptions?: Record<string, unknown>;
+    targetFileId?: string;
+    targetMode?: 'batch' | 'version';
+}): Promise<UploadSessionResponse> => {
+    try {
+        const { data } = await axiosPrivate.post("/upload/sessions", details, {
+            headers: await authHeader(),
+        });
+
+        return {
+            session: {
+                uploadId: data.uploadId,
+                chunkSize: data.chunkSize,
+                totalChunks: data.totalChunks,
+                receivedChunks: data.receivedChunks || [],
+            },
+        };
+    } catch (error: unknown) {
+        return toUploadError(error);
+    }
+};
+
+/**
+ * Sends one chunk of an upload
+ * 
+ * @param formData - Form data with uploadId, index, checksum and the chunk blob
+ * @returns Promise resolving to an empty response, or an error
+ */
+export const UploadChunk = async (formData: FormData): Promise<UploadStepResponse> => {
+    const uploadId = formData.get('uploadId') as string;
+    const index = formData.get('index') as string;
+    const checksum = formData.get('checksum') as string;
+    const chunk = formData.get('chunk') as Blob;
+
+    try {
+        const body = Buffer.from(await chunk.arrayBuffer());
+        const { data } = await axiosPrivate.put(`/upload/sessions/${uploadId}/chunks/${index}`, body, {
+            headers: {
+                ...(await authHeader()),
+                "Content-Type": "application/octet-stream",
+                "X-Chunk-Checksum": checksum,
+            },
+        });
+
+        return { message: data.message };
+    } catch (error: unknown) {
+        return toUploadError(error);
+    }
+};
+
+/**
+ * Reassembles the uploaded chunks and registers the file
+ * 
+ * @param uploadId - ID of the upload session
+ * @returns Promise resolving to the generated schema, like a regular upload,
+ * or to the batch / version report when the file was added to a project
+ */
+export const CompleteChunkedUpload = async (uploadId: string): Promise<UploadStepResponse> => {
+    try {
+        const { data } = await axiosPrivate.post(`/upload/sessions/${uploadId}/complete`, {}, {
+            headers: await authHeader(),
+        });
+
+        return { message: data.message, fileSchemaDefinition: data.fileSchemaDefinition, batch: data.batch, version: data.version };
+    } catch (error: unknown) {
+        return toUploadError(error);
+    }
+};
+
+/**
+ * Cancels an upload and discards the chunks stored so far
+ * 
+ * @param uploadId - ID of the upload session
+ */
+export const CancelChunkedUpload = async (uploadId: string): Promise<UploadStepResponse> => {
+    try {
+        const { data } = await axiosPrivate.delete(`/upload/sessions/${uploadId}`, {
+            headers: await authHeader(),
+        });
+
+        return { message: data.message };
+    } catch (error: unknown) {
+        return toUploadError(error);
+    }
+};
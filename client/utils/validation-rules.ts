@@ -0,0 +1,324 @@
+/**
+ * Validation Rules
+ * Purpose: Parses the cross-column rules of a project, e.g. `end_date >= start_date`
+ * Used in: Validation rules editor (error detection page)
+ * Features:
+ * - Columns by name (`Unit Price` in backticks), numbers, 'text', true, false, null
+ * - + - * / %, == != < <= > >=, and or not, `x in (a, b)`, `rule when condition`, `x is required`
+ * - Functions: is_empty, len, abs, round, lower, upper, trim, date('YYYY-MM-DD')
+ * - Errors name the problem and its position, and the columns a rule uses are listed
+ * - Same language as the server's utils/validationRules.js, so the rule editor and validation agree
+ */
+
+export type ValidationRule = {
+  name: string;
+  expression: string;
+};
+
+type Token = {
+  kind: 'literal' | 'name' | 'column' | 'operator';
+  value: string | number | boolean | null;
+  position: number;
+};
+
+export type RuleNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'column'; name: string }
+  | { type: 'arithmetic' | 'compare' | 'logical'; op: string; left: RuleNode; right: RuleNode }
+  | { type: 'not'; operand: RuleNode }
+  | { type: 'in'; value: RuleNode; list: RuleNode[] }
+  | { type: 'when'; rule: RuleNode; condition: RuleNode }
+  | { type: 'call'; name: string; args: RuleNode[] };
+
+const KEYWORDS: Record<string, string | boolean | null> = { and: '&&', or: '||', not: '!', true: true, false: false, null: null };
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ','];
+const COMPARISONS = ['==', '!=', '<', '<=', '>', '>='];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Functions with their number of arguments [min, max] */
+export const RULE_FUNCTIONS: Record<string, [number, number]> = {
+  is_empty: [1, 1],
+  len: [1, 1],
+  abs: [1, 1],
+  round: [1, 2],
+  lower: [1, 1],
+  upper: [1, 1],
+  trim: [1, 1],
+  date: [1, 1],
+};
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^\d+(\.\d+)?/);
+    const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+
+    if (number) {
+      tokens.push({ kind: 'literal', value: Number(number[0]), position });
+      position += number[0].length;
+    } else if (word) {
+      const name = word[0];
+      const keyword = name.toLowerCase();
+      if (keyword in KEYWORDS && typeof KEYWORDS[keyword] === 'string') tokens.push({ kind: 'operator', value: KEYWORDS[keyword], position });
+      else if (keyword in KEYWORDS) tokens.push({ kind: 'literal', value: KEYWORDS[keyword], position });
+      else if (['when', 'in', 'is'].includes(keyword)) tokens.push({ kind: 'operator', value: keyword, position });
+      else tokens.push({ kind: 'name', value: name, position });
+      position += name.length;
+    } else if (rest[0] === '`') {
+      const end = rest.indexOf('`', 1);
+      if (end === -1) throw new Error(`Unclosed column name at position ${position + 1}`);
+      tokens.push({ kind: 'column', value: rest.slice(1, end), position });
+      position += end + 1;
+    } else if (rest[0] === "'" || rest[0] === '"') {
+      let text = '';
+      let index = 1;
+      while (index < rest.length && rest[index] !== rest[0]) {
+        if (rest[index] === '\\' && index + 1 < rest.length) index++;
+        text += rest[index];
+        index++;
+      }
+      if (index >= rest.length) throw new Error(`Unclosed text at position ${position + 1}`);
+      tokens.push({ kind: 'literal', value: text, position });
+      position += index + 1;
+    } else if (operator) {
+      tokens.push({ kind: 'operator', value: operator, position });
+      position += operator.length;
+    } else {
+      throw new Error(`Unexpected '${rest[0]}' at position ${position + 1}`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, lowest precedence first:
+ * when, or, and, not, comparison, + -, * / %, unary minus
+ */
+function parse(expression: string): RuleNode {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const isOperator = (...values: string[]) => peek()?.kind === 'operator' && values.includes(peek()!.value as string);
+  const describeToken = (token?: Token) => token
+    ? `'${expression.slice(token.position).split(/\s/)[0] || token.value}' at position ${token.position + 1}`
+    : 'the end of the rule';
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new Error(`Expected '${value}' but found ${describeToken(peek())}`);
+    index++;
+  };
+
+  const parseWhen = (): RuleNode => {
+    const node = parseOr();
+    if (!isOperator('when')) return node;
+    index++;
+    return { type: 'when', rule: node, condition: parseOr() };
+  };
+
+  const parseOr = (): RuleNode => {
+    let node = parseAnd();
+    while (isOperator('||')) {
+      index++;
+      node = { type: 'logical', op: '||', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): RuleNode => {
+    let node = parseNot();
+    while (isOperator('&&')) {
+      index++;
+      node = { type: 'logical', op: '&&', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): RuleNode => {
+    if (isOperator('!')) {
+      index++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): RuleNode => {
+    const left = parseAdditive();
+    if (isOperator(...COMPARISONS)) {
+      const op = tokens[index++].value as string;
+      return { type: 'compare', op, left, right: parseAdditive() };
+    }
+    if (isOperator('in')) {
+      index++;
+      expect('(');
+      const list = [parseAdditive()];
+      while (isOperator(',')) {
+        index++;
+        list.push(parseAdditive());
+      }
+      expect(')');
+      return { type: 'in', value: left, list };
+    }
+    if (isOperator('is')) {
+      index++;
+      const negated = isOperator('!');
+      if (negated) index++;
+      const next = peek();
+      const word = next?.kind === 'name' ? String(next.value).toLowerCase() : null;
+      if (word !== 'required' && word !== 'empty') throw new Error(`Expected 'required' or 'empty' but found ${describeToken(next)}`);
+      index++;
+      const empty: RuleNode = { type: 'call', name: 'is_empty', args: [left] };
+      return (word === 'required') !== negated ? { type: 'not', operand: empty } : empty;
+    }
+    return left;
+  };
+
+  const parseAdditive = (): RuleNode => {
+    let node = parseMultiplicative();
+    while (isOperator('+', '-')) {
+      const op = tokens[index++].value as string;
+      node = { type: 'arithmetic', op, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+
+  const parseMultiplicative = (): RuleNode => {
+    let node = parseUnary();
+    while (isOperator('*', '/', '%')) {
+      const op = tokens[index++].value as string;
+      node = { type: 'arithmetic', op, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): RuleNode => {
+    if (isOperator('-')) {
+      index++;
+      return { type: 'arithmetic', op: '-', left: { type: 'literal', value: 0 }, right: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): RuleNode => {
+    const token = peek();
+    if (!token) throw new Error('The rule ends too early');
+
+    if (token.kind === 'literal') {
+      index++;
+      return { type: 'literal', value: token.value };
+    }
+    if (token.kind === 'column') {
+      index++;
+      return { type: 'column', name: String(token.value) };
+    }
+    if (token.kind === 'name') {
+      index++;
+      if (!isOperator('(')) return { type: 'column', name: String(token.value) };
+
+      const name = String(token.value).toLowerCase();
+      if (!RULE_FUNCTIONS[name]) throw new Error(`Unknown function '${token.value}' at position ${token.position + 1}`);
+      index++;
+      const args: RuleNode[] = [];
+      if (!isOperator(')')) {
+        args.push(parseWhen());
+        while (isOperator(',')) {
+          index++;
+          args.push(parseWhen());
+        }
+      }
+      expect(')');
+      const [min, max] = RULE_FUNCTIONS[name];
+      if (args.length < min || args.length > max) {
+        throw new Error(`${name}() takes ${min === max ? min : `${min} or ${max}`} argument${max > 1 ? 's' : ''}`);
+      }
+      const [first] = args;
+      if (name === 'date' && (first.type !== 'literal' || typeof first.value !== 'string' || !ISO_DATE.test(first.value))) {
+        throw new Error('date() takes a YYYY-MM-DD date in quotes');
+      }
+      return { type: 'call', name, args };
+    }
+    if (isOperator('(')) {
+      index++;
+      const node = parseWhen();
+      expect(')');
+      return node;
+    }
+    throw new Error(`Unexpected ${describeToken(token)}`);
+  };
+
+  if (tokens.length === 0) throw new Error('The rule is empty');
+  const tree = parseWhen();
+  if (index < tokens.length) throw new Error(`Unexpected ${describeToken(peek())}`);
+  return tree;
+}
+
+/** Nodes that give true or false, the only ones a rule can be made of */
+function isCondition(node: RuleNode): boolean {
+  return ['when', 'logical', 'not', 'compare', 'in'].includes(node.type)
+    || (node.type === 'call' && node.name === 'is_empty')
+    || (node.type === 'literal' && typeof node.value === 'boolean');
+}
+
+function collectColumns(node: RuleNode, columns: string[] = []): string[] {
+  switch (node.type) {
+    case 'column':
+      if (!columns.includes(node.name)) columns.push(node.name);
+      break;
+    case 'arithmetic':
+    case 'compare':
+    case 'logical':
+      collectColumns(node.left, columns);
+      collectColumns(node.right, columns);
+      break;
+    case 'not':
+      collectColumns(node.operand, columns);
+      break;
+    case 'in':
+      [node.value, ...node.list].forEach(child => collectColumns(child, columns));
+      break;
+    case 'when':
+      collectColumns(node.rule, columns);
+      collectColumns(node.condition, columns);
+      break;
+    case 'call':
+      node.args.forEach(child => collectColumns(child, columns));
+      break;
+  }
+  return columns;
+}
+
+/**
+ * Parses a rule's expression
+ * @returns The parsed rule and the columns it uses, in order of appearance
+ * @throws Error naming the problem and its position
+ */
+export function compileRule(expression: string): { tree: RuleNode; columns: string[] } {
+  const tree = parse(expression);
+  if (!isCondition(tree)) throw new Error('A rule has to be a condition, such as a comparison');
+  return { tree, columns: collectColumns(tree) };
+}
+
+/**
+ * Why a rule cannot be used with a project's columns
+ * @returns The reason, or null when the rule is valid
+ */
+export function describeRuleError(rule: ValidationRule, columnNames: string[]): string | null {
+  if (!rule.name.trim()) return 'Every rule needs a name';
+  try {
+    const { columns } = compileRule(rule.expression);
+    const unknown = columns.find(column => !columnNames.includes(column));
+    return unknown ? `'${unknown}' is not a column of this project` : null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
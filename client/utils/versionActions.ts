@@ -0,0 +1,70 @@
+/**
+ * Version Actions
+ * Purpose: Handles the versions of a project's source file
+ * Used in: Error detection page (version selector)
+ * Features:
+ * - Version listing
+ * - Switching the active version (issues are revalidated, schema and actions are kept)
+ * - Error handling
+ * - Authentication integration
+ */
+
+'use server'
+import { cookies } from "next/headers";
+import { axiosPrivate } from '@/services/axios';
+import { AxiosError } from 'axios';
+
+/**
+ * Retrieves the uploaded versions of a project's source file
+ * @param fileId - ID of the project
+ * @returns Promise resolving to the versions and the active version number
+ */
+export const GetVersions = async (fileId:string) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+    
+    try{
+        const {data} = await axiosPrivate.get(`/versions?fileid=${fileId}`,{
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`, 
+            },
+        });
+        
+        return data;
+    }catch(error){
+        if(error){
+            return {
+                message: "Something went wrong. Please try again!",
+            };
+        }
+    }
+}
+
+/**
+ * Switches a project to another version of its source file
+ * @param fileId - ID of the project
+ * @param version - Version number to activate
+ * @returns Promise resolving to the version report (column changes and affected actions)
+ */
+export const SetVersion = async (fileId:string, version:number) => {
+    const cookieStore = await cookies();
+    const accessTokenCookie = cookieStore.get("accessToken")?.value;
+    
+    try{
+        const {data} = await axiosPrivate.put(`/versions`, { fileId, version }, {
+            headers: {
+                Authorization: `Bearer ${accessTokenCookie}`, 
+            },
+        });
+        
+        return data;
+    }catch(error){
+        if (error instanceof AxiosError && error.response?.data?.message) {
+            return { status: false, message: error.response.data.message };
+        }
+        return {
+            status: false,
+            message: "Something went wrong. Please try again!",
+        };
+    }
+}
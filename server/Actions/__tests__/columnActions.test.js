@@ -0,0 +1,38 @@
+// Tests for the column actions
+import { convertTextEncoding } from "../columnActions.js";
+
+describe("column actions", () => {
+    describe("convertTextEncoding", () => {
+        it("repairs text that was read with the wrong encoding", () => {
+            const rows = [{ city: "CafÃ©" }, { city: "MÃ¼nchen" }, { city: 12 }];
+
+            expect(convertTextEncoding(rows, { column: "city", encoding: "UTF-8" })).toEqual([
+                { city: "Café" }, { city: "München" }, { city: 12 }
+            ]);
+        });
+
+        it("transliterates to ASCII", () => {
+            const rows = [{ name: "Café Zoë" }, { name: "Ångström №5" }];
+
+            expect(convertTextEncoding(rows, { column: "name", encoding: "ASCII" })).toEqual([
+                { name: "Cafe Zoe" }, { name: "Angstrom No5" }
+            ]);
+        });
+
+        it("leaves values that cannot be repaired without loss unchanged", () => {
+            // Already correct text, and text with characters Windows-1252 does not have
+            const rows = [{ city: "Café" }, { city: "Ωmega" }, { city: "東京" }];
+
+            expect(convertTextEncoding(rows, { column: "city", encoding: "UTF-8" })).toEqual([
+                { city: "Café" }, { city: "Ωmega" }, { city: "東京" }
+            ]);
+        });
+
+        it("leaves the data unchanged for an unknown encoding", () => {
+            const rows = [{ city: "CafÃ©" }];
+
+            expect(convertTextEncoding(rows, { column: "city", encoding: "KLINGON" })).toBe(rows);
+            expect(rows[0].city).toBe("CafÃ©");
+        });
+    });
+});
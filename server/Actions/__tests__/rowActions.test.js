@@ -0,0 +1,25 @@
+// Tests for the row actions
+import { manipulateData } from "../../utils/manipulateData.js";
+import { replaceRow } from "../rowActions.js";
+
+describe("row actions", () => {
+    const records = [
+        { name: "b", age: 2, originalRowIndex: 0 },
+        { name: "c", age: 3, originalRowIndex: 1 },
+        { name: "a", age: 1, originalRowIndex: 2 }
+    ];
+
+    it("replaces the row with the given ID, wherever earlier actions moved it", () => {
+        const modified = manipulateData(records.map(record => ({ ...record })), [
+            { type: "SORT_ROWS_ASCENDING", column: "name" },
+            { type: "REPLACE_ROW", rowId: 3, newValues: { name: "z", age: 9, originalRowIndex: 0 } }
+        ], [], {});
+
+        expect(modified[0]).toEqual({ name: "z", age: 9, originalRowIndex: 2 });
+        expect(modified.filter(record => record.name === "b")).toHaveLength(1);
+    });
+
+    it("reads the row number of actions saved before rows had IDs", () => {
+        expect(replaceRow(records, { rowNumber: 2, newValues: { age: 30 } })[1]).toEqual({ name: "c", age: 30, originalRowIndex: 1 });
+    });
+});
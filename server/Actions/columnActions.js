@@ -1,3 +1,5 @@
+import { isOrphanReference } from "../utils/referenceIntegrity.js";
+
 export const deleteColumn = (modifiedData, action) => {
     modifiedData = modifiedData.map(record => {
         delete record[action.column];
@@ -29,6 +31,20 @@ export const replaceValue = (modifiedData, action) => {
     return modifiedData;
 }
                     
+// Fix for ORPHAN_REFERENCE: maps the values missing from the referenced column to a default (`newValue`).
+// `reference` is the column's loaded reference; without one nothing is replaced.
+export const replaceOrphanReferences = (modifiedData, action, reference) => {
+    if (!reference) return modifiedData;
+
+    modifiedData.forEach(record => {
+        if (isOrphanReference(record[action.column], reference)) {
+            record[action.column] = action.newValue;
+        }
+    });
+
+    return modifiedData;
+}
+
 export const replaceNegativeValues = (modifiedData, action) => {
     modifiedData = modifiedData.map(record => {
         const currentValue = Number(record[action.column])
@@ -424,21 +440,36 @@ export const tokenizeText = (modifiedData, action) => {
 
 import iconv from 'iconv-lite';
 
+// Repairs text that was decoded with the wrong encoding (mojibake such as "CafÃ©"):
+// each value is turned back into the bytes it was read from using `fromEncoding`,
+// then decoded with the real `encoding`. Converting to ASCII transliterates instead
+// ("Café" -> "Cafe"). Values that cannot be repaired without loss are left unchanged.
 export function convertTextEncoding(modifiedData, action) {
-  const { column, encoding } = action;
+  const { column, encoding = 'UTF-8' } = action;
+  const toASCII = encoding.toUpperCase() === 'ASCII';
+  const fromEncoding = action.fromEncoding || (encoding.toUpperCase() === 'UTF-8' ? 'WINDOWS-1252' : 'UTF-8');
+
+  if (!column || (!toASCII && (!iconv.encodingExists(encoding) || !iconv.encodingExists(fromEncoding)))) {
+    return modifiedData;
+  }
 
   return modifiedData.map(row => {
     const value = row[column];
 
-    if (typeof value === 'string') {
-      try {
-        const buffer = iconv.encode(value, encoding);
-        const converted = iconv.decode(buffer, encoding);
-        return { ...row, [column]: converted };
-      } catch (error) {
-        console.error(`Encoding conversion error for "${value}":`, error.message);
-        return row;
-      }
+    if (typeof value !== 'string') return row;
+
+    if (toASCII) {
+      row[column] = value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x00-\x7F]/g, '');
+      return row;
+    }
+
+    const bytes = iconv.encode(value, fromEncoding);
+    // Characters missing from fromEncoding mean the value was not misread as it
+    if (iconv.decode(bytes, fromEncoding) !== value) return row;
+
+    const converted = iconv.decode(bytes, encoding);
+    if (!converted.includes('\uFFFD')) {
+      row[column] = converted;
     }
 
     return row;
@@ -503,3 +534,74 @@ export const deleteRowsWithNulls = (modifiedData, action) => {
 
     return modifiedData;
 };
+
+import { normalizeNumberFormat, parseLocaleNumber, resolveNumberFormat } from '../utils/numberFormat.js';
+
+// Turns formatted numbers ("1.234,56", "€12", "(45)", "12%") into plain numbers.
+// The separators come from the action (a locale or decimal/thousands separators),
+// otherwise from the column's number format in the schema or the project's. Currency symbols are
+// dropped and percentages keep their number ("12%" -> 12); values that are not numbers stay unchanged.
+export const normalizeNumbers = (modifiedData, action, columnSchema, projectFormat) => {
+    const { column, locale, decimalSeparator, thousandsSeparator } = action;
+
+    if (!column) return modifiedData;
+
+    const actionFormat = locale || decimalSeparator || thousandsSeparator !== undefined
+        ? normalizeNumberFormat({ locale, decimalSeparator, thousandsSeparator })
+        : null;
+    const numberFormat = actionFormat || resolveNumberFormat(columnSchema, projectFormat);
+
+    return modifiedData.map(row => {
+        const parsed = parseLocaleNumber(row[column], numberFormat);
+
+        if (parsed) {
+            row[column] = parsed.value;
+        }
+
+        return row;
+    });
+};
+
+import { buildDataTypeRegistry, checkDataType, normalizeDataTypeValue } from '../utils/dataTypes.js';
+
+// Rewrites the values of a column of a registry type (IBAN, UK postcode, a user's type) in their canonical form,
+// "gb82 west 1234 5698 7654 32" -> "GB82WEST12345698765432". Values that do not fit the type stay unchanged,
+// so their INVALID_FORMAT issue keeps showing the value as it was.
+export const normalizeDataType = (modifiedData, action, columnSchema, customTypes) => {
+    const { column } = action;
+    const type = buildDataTypeRegistry(customTypes)[columnSchema?.dataType];
+
+    if (!column || !type) return modifiedData;
+
+    return modifiedData.map(row => {
+        const value = row[column];
+
+        if (value !== null && value !== undefined && !checkDataType(value, type)) {
+            row[column] = normalizeDataTypeValue(value, type);
+        }
+
+        return row;
+    });
+};
+
+import { formatPhoneNumber, resolvePhoneCountry } from '../utils/phoneNumbers.js';
+
+// Rewrites the phone numbers of a column in E.164 ("+4930123456", the default), international or national format.
+// Numbers without a +country code are read with the action's country, else the column's or the project's.
+// Values that are not valid phone numbers stay unchanged, so their issues keep showing the value as it was.
+export const normalizePhone = (modifiedData, action, columnSchema, projectCountry) => {
+    const { column, format } = action;
+    const country = action.country || resolvePhoneCountry(columnSchema, projectCountry);
+
+    if (!column) return modifiedData;
+
+    return modifiedData.map(row => {
+        const formatted = formatPhoneNumber(row[column], country, format);
+
+        if (formatted !== null) {
+            row[column] = formatted;
+        }
+
+        return row;
+    });
+};
@@ -1,13 +1,14 @@
 import { calculateAverage, calculateMean, calculateMedian, calculateMode, getRandomValue } from "../Actions/compute.js";
 import {BadRequestError} from "../errors/index.js";
+import { rowIdOf } from "../utils/rowIds.js";
 
 export const removeRowsWithIssues = (modifiedData, issuesMap, action) => {
-    modifiedData = modifiedData.filter((_, index) => {
-        const originalRowIndex = index + 1; 
-        if (!issuesMap[originalRowIndex]) return true;
+    modifiedData = modifiedData.filter((record, index) => {
+        const rowId = rowIdOf(record, index);
+        if (!issuesMap[rowId]) return true;
 
         if (action.issueType) {
-            return !issuesMap[originalRowIndex].includes(action.issueType); 
+            return !issuesMap[rowId].includes(action.issueType); 
         } else {
             return false; 
         }
@@ -17,14 +18,14 @@ export const removeRowsWithIssues = (modifiedData, issuesMap, action) => {
 }
 
 export const removeRowsWithAnyIssue = (modifiedData, issuesMap) => {
-    modifiedData = modifiedData.filter((_, index) => !issuesMap[index + 1]);
+    modifiedData = modifiedData.filter((record, index) => !issuesMap[rowIdOf(record, index)]);
 
     return modifiedData;
 }
 
 export const removeRowsWithSpecificIssue = (modifiedData, issuesMap, action) => {
-    modifiedData = modifiedData.filter((_, index) => {
-        const rowIssues = issuesMap[index + 1] || [];
+    modifiedData = modifiedData.filter((record, index) => {
+        const rowIssues = issuesMap[rowIdOf(record, index)] || [];
         return !rowIssues.some(err => err.issueType === action.issueType);
     });
 
@@ -32,8 +33,8 @@ export const removeRowsWithSpecificIssue = (modifiedData, issuesMap, action) =>
 }
 
 export const removeRowsWithColumnIssues = (modifiedData, issuesMap, action) => {
-    modifiedData = modifiedData.filter((_, index) => {
-        const rowIssues = issuesMap[index + 1] || [];
+    modifiedData = modifiedData.filter((record, index) => {
+        const rowIssues = issuesMap[rowIdOf(record, index)] || [];
         return !rowIssues.some(err => err.column === action.column);
     });
 
@@ -41,9 +42,8 @@ export const removeRowsWithColumnIssues = (modifiedData, issuesMap, action) => {
 }
 
 export const removeRowsWithSpecificColumnIssue = (modifiedData, issuesMap, action) => {
-    modifiedData = modifiedData.filter((_, index) => {
-        const originalRowIndex = index + 1;
-        const rowIssues = issuesMap[originalRowIndex] || [];
+    modifiedData = modifiedData.filter((record, index) => {
+        const rowIssues = issuesMap[rowIdOf(record, index)] || [];
 
         // Filter out rows that have the specified issue type in the 'SignupDate' column
         return !rowIssues.some(err => 
@@ -56,8 +56,7 @@ export const removeRowsWithSpecificColumnIssue = (modifiedData, issuesMap, actio
 
 export const replaceIssueWithValue = (modifiedData, issuesMap , action) => {
     modifiedData = modifiedData.map((record, index) => {
-        const originalRowIndex = index + 1;
-        const rowIssues = issuesMap[originalRowIndex] || [];
+        const rowIssues = issuesMap[rowIdOf(record, index)] || [];
 
         // Check if the issue exists in the specified column and matches the target value
         const hasTargetIssue = rowIssues.some(err =>
@@ -135,8 +134,7 @@ export const fillWithUpperOrLowerRow = (modifiedData, issuesMap ,action) => {
     console.log("action In function", action);
     
     modifiedData = modifiedData.map((record, index, arr) => {
-        const originalRowIndex = index + 1;
-        const rowIssues = issuesMap[originalRowIndex] || [];
+        const rowIssues = issuesMap[rowIdOf(record, index)] || [];
 
         const hasTargetIssue = rowIssues.some(err => err.column === action.column && err.issueType === action.issueType);
 
@@ -163,10 +161,8 @@ export const fillWithUpperOrLowerRow = (modifiedData, issuesMap ,action) => {
 }
 
 export const fillWithRandom = (modifiedData, issuesMap , action) => {
-    modifiedData = modifiedData.map((record) => {
-        
-        const originalRowIndex = record.originalRowIndex + 1;
-        const rowIssues = issuesMap[originalRowIndex] || [];
+    modifiedData = modifiedData.map((record, index) => {
+        const rowIssues = issuesMap[rowIdOf(record, index)] || [];
 
         const hasTargetIssue = rowIssues.some(err => err.column === action.column && err.issueType === action.issueType);
 
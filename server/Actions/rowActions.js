@@ -1,8 +1,24 @@
+import { checkRange, rangeBounds, rangeKind } from "../utils/rangeConstraints.js";
+import { isOrphanReference } from "../utils/referenceIntegrity.js";
+import { compositeKeyValue, hasCompleteKey } from "../utils/uniqueKeys.js";
+import { ROW_ID_COLUMN, rowIdOf, rowValues } from "../utils/rowIds.js";
+
+// What the dedupe actions compare rows by: the values of `action.columns` for composite keys, otherwise `action.column`.
+// Rows with an empty key column are never duplicates of a composite key.
+const dedupeKey = (record, action) => {
+    if (!Array.isArray(action.columns)) return record[action.column];
+    return hasCompleteKey(record, action.columns) ? compositeKeyValue(record, action.columns) : null;
+};
+
+// Replaces the values of the row with the ID `action.rowId`, wherever earlier actions moved it. Actions saved
+// before rows had IDs name the row by `rowNumber`, which was read from the same stored issues.
 export const replaceRow = (modifiedData, action) => {
+    const rowId = Number(action.rowId ?? action.rowNumber);
     modifiedData = modifiedData.map((record, index) => {
-        const originalRowIndex = index + 1;
-        if (originalRowIndex === action.rowNumber) {  
-            return { ...record, ...action.newValues };
+        if (rowIdOf(record, index) === rowId) {
+            // The ID itself is never replaced
+            const { [ROW_ID_COLUMN]: _, ...newValues } = action.newValues || {};
+            return { ...record, ...newValues };
         }
         return record;
     });
@@ -13,7 +29,8 @@ export const replaceRow = (modifiedData, action) => {
 export const deleteDuplicateRow = (modifiedData, action) => {
     const seen = new Set();
     modifiedData = modifiedData.filter(record => {
-        const key = record[action.column];
+        const key = dedupeKey(record, action);
+        if (key === null && Array.isArray(action.columns)) return true;
         if (seen.has(key)) return false;
         seen.add(key);
         return true;
@@ -25,9 +42,13 @@ export const deleteDuplicateRow = (modifiedData, action) => {
 export const keepOnlyUniqueRows = (modifiedData, action) => {
     const countMap = {};
     modifiedData.forEach(record => {
-        countMap[record[action.column]] = (countMap[record[action.column]] || 0) + 1;
+        const key = dedupeKey(record, action);
+        countMap[key] = (countMap[key] || 0) + 1;
+    });
+    modifiedData = modifiedData.filter(record => {
+        const key = dedupeKey(record, action);
+        return (key === null && Array.isArray(action.columns)) || countMap[key] === 1;
     });
-    modifiedData = modifiedData.filter(record => countMap[record[action.column]] === 1);
 
     return modifiedData;
 }
@@ -58,11 +79,26 @@ export const deleteRowsWithNegativeValues = (modifiedData) => {
     return modifiedData;
 }
 
-export const deleteRowsWhereValueNotInRange = (modifiedData, action) => {
-    modifiedData = modifiedData.filter(record =>
-        Number(record[action.column]) >= action.minValue &&
-        Number(record[action.column]) <= action.maxValue
-    );
+// Values are read like the range check reads the column (dates, "1.234,56"), so this is the fix for OUT_OF_RANGE.
+// Either bound can be left out; rows whose value cannot be read are kept, other issues cover them.
+export const deleteRowsWhereValueNotInRange = (modifiedData, action, columnSchema, projectFormat) => {
+    const dataType = rangeKind(columnSchema?.dataType) ? columnSchema.dataType : "Float";
+    const schema = { ...columnSchema, dataType, min: action.minValue, max: action.maxValue };
+    const bounds = rangeBounds(schema);
+
+    if (!bounds) return modifiedData;
+
+    modifiedData = modifiedData.filter(record => !checkRange(record[action.column], schema, projectFormat, bounds));
+
+    return modifiedData;
+}
+
+// Fix for ORPHAN_REFERENCE: drops the rows whose value is missing from the referenced column.
+// `reference` is the column's loaded reference; without one nothing is deleted.
+export const deleteRowsWithOrphanReferences = (modifiedData, action, reference) => {
+    if (!reference) return modifiedData;
+
+    modifiedData = modifiedData.filter(record => !isOrphanReference(record[action.column], reference));
 
     return modifiedData;
 }
@@ -74,13 +110,13 @@ export const limitRows = (modifiedData, action) => {
 }
 
 export const removeEmptyRows = (modifiedData) => {
-    modifiedData = modifiedData.filter(record => Object.values(record).some(value => value !== "" && value !== null));
+    modifiedData = modifiedData.filter(record => rowValues(record).some(value => value !== "" && value !== null));
 
     return modifiedData;
 }
     
 export const removeRowsWithNulls = (modifiedData) => {
-    modifiedData = modifiedData.filter(record => !Object.values(record).includes(null));
+    modifiedData = modifiedData.filter(record => !rowValues(record).includes(null));
 
     return modifiedData;
 }
\ No newline at end of file
@@ -5,6 +5,20 @@ export const database = async (pool) => {
     console.log("Users table created");
 }
 
+// ADD A COLUMN TO A TABLE CREATED BEFORE THE COLUMN EXISTED
+// (CREATE TABLE IF NOT EXISTS leaves existing tables untouched)
+export const addColumnIfMissing = async (pool, table, column, definition) => {
+    const [rows] = await pool.query(
+        `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+        WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+        [table, column]
+    );
+
+    if (rows.length === 0) {
+        await pool.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+};
+
 // USERS TABLE
 export const userTable = async (pool) => {
     const sql = `
@@ -37,6 +51,8 @@ export const filesTable = async (pool) => {
         progress VARCHAR(255) DEFAULT (0),
         previous_response JSON DEFAULT NULL,
         file_schema JSON DEFAULT NULL,
+        parse_options JSON DEFAULT NULL,
+        current_version INT NOT NULL DEFAULT 1,
         file_key VARCHAR(255) NOT NULL UNIQUE,
         file_type VARCHAR(50) NOT NULL,
         file_size BIGINT NOT NULL,
@@ -47,6 +63,8 @@ export const filesTable = async (pool) => {
     `;
 
     await pool.query(sql);
+    await addColumnIfMissing(pool, "files", "parse_options", "JSON DEFAULT NULL");
+    await addColumnIfMissing(pool, "files", "current_version", "INT NOT NULL DEFAULT 1");
     console.log("Files table created");
 };
 
@@ -113,8 +131,191 @@ export const schemaTable = async (pool) => {
     )`;
 
     await pool.query(sql);
+    // Cross-column validation rules of the project, [{ name, expression }]
+    await addColumnIfMissing(pool, "FileSchemas", "validation_rules", "JSON DEFAULT NULL");
+    // Composite unique keys of the project, [["store_id", "date"]]
+    await addColumnIfMissing(pool, "FileSchemas", "unique_keys", "JSON DEFAULT NULL");
+    // Country of the phone numbers written without a +country code, columns may set their own
+    await addColumnIfMissing(pool, "FileSchemas", "phone_country", "CHAR(2) DEFAULT NULL");
     console.log("schema table created");
 };
 
 
 
+
+
+// UPLOAD SESSIONS TABLE (chunked uploads in progress)
+export const uploadSessionsTable = async (pool) => {
+    const sql = `
+        CREATE TABLE IF NOT EXISTS upload_sessions (
+            upload_id CHAR(36) NOT NULL DEFAULT (UUID()),
+            user_id CHAR(36) NOT NULL,
+            fingerprint VARCHAR(512) NOT NULL,
+            s3_upload_id VARCHAR(1024) NOT NULL,
+            file_key VARCHAR(255) NOT NULL UNIQUE,
+            original_name VARCHAR(255) NOT NULL,
+            file_type VARCHAR(50) NOT NULL,
+            file_size BIGINT NOT NULL,
+            chunk_size INT NOT NULL,
+            total_chunks INT NOT NULL,
+            category VARCHAR(255) NOT NULL,
+            description VARCHAR(255) NOT NULL,
+            parse_options JSON DEFAULT NULL,
+            target_file_id CHAR(36) DEFAULT NULL,
+            target_mode VARCHAR(20) DEFAULT NULL,
+            status VARCHAR(20) NOT NULL DEFAULT 'uploading',
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            PRIMARY KEY (upload_id),
+            FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+        );`;
+
+    await pool.query(sql);
+    await addColumnIfMissing(pool, "upload_sessions", "target_file_id", "CHAR(36) DEFAULT NULL");
+    await addColumnIfMissing(pool, "upload_sessions", "target_mode", "VARCHAR(20) DEFAULT NULL");
+    console.log("upload sessions table created");
+};
+
+
+// UPLOAD CHUNKS TABLE (one row per chunk received, with its checksum and S3 part tag)
+export const uploadChunksTable = async (pool) => {
+    const sql = `
+        CREATE TABLE IF NOT EXISTS upload_chunks (
+            upload_id CHAR(36) NOT NULL,
+            chunk_index INT NOT NULL,
+            checksum CHAR(64) NOT NULL,
+            size INT NOT NULL,
+            etag VARCHAR(255) NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (upload_id, chunk_index),
+            FOREIGN KEY (upload_id) REFERENCES upload_sessions(upload_id) ON DELETE CASCADE
+        );`;
+
+    await pool.query(sql);
+    console.log("upload chunks table created");
+};
+
+
+// FILE BATCHES TABLE (rows appended to an existing project, stored as separate objects)
+export const fileBatchesTable = async (pool) => {
+    const sql = `
+        CREATE TABLE IF NOT EXISTS file_batches (
+            batch_id CHAR(36) NOT NULL DEFAULT (UUID()),
+            file_id CHAR(36) NOT NULL,
+            user_id CHAR(36) NOT NULL,
+            original_name VARCHAR(255) NOT NULL,
+            file_key VARCHAR(255) NOT NULL UNIQUE,
+            file_type VARCHAR(50) NOT NULL,
+            file_size BIGINT NOT NULL,
+            version_number INT NOT NULL DEFAULT 1,
+            parse_options JSON DEFAULT NULL,
+            row_offset INT NOT NULL,
+            row_count INT NOT NULL,
+            uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (batch_id),
+            FOREIGN KEY (file_id) REFERENCES files(file_id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+        );`;
+
+    await pool.query(sql);
+    await addColumnIfMissing(pool, "file_batches", "version_number", "INT NOT NULL DEFAULT 1");
+    console.log("file batches table created");
+};
+
+
+// FILE VERSIONS TABLE (every source file uploaded for a project; files.current_version is the active one)
+export const fileVersionsTable = async (pool) => {
+    const sql = `
+        CREATE TABLE IF NOT EXISTS file_versions (
+            version_id CHAR(36) NOT NULL DEFAULT (UUID()),
+            file_id CHAR(36) NOT NULL,
+            user_id CHAR(36) NOT NULL,
+            version_number INT NOT NULL,
+            original_name VARCHAR(255) NOT NULL,
+            file_key VARCHAR(255) NOT NULL,
+            file_type VARCHAR(50) NOT NULL,
+            file_size BIGINT NOT NULL,
+            parse_options JSON DEFAULT NULL,
+            uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (version_id),
+            UNIQUE KEY file_version (file_id, version_number),
+            FOREIGN KEY (file_id) REFERENCES files(file_id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+        );`;
+
+    await pool.query(sql);
+    console.log("file versions table created");
+};
+
+
+// SCHEMA VERSIONS TABLE (every saved schema of a project with its author; FileSchemas holds the current one)
+export const schemaVersionsTable = async (pool) => {
+    const sql = `
+        CREATE TABLE IF NOT EXISTS schema_versions (
+            schema_version_id CHAR(36) NOT NULL DEFAULT (UUID()),
+            file_id CHAR(36) NOT NULL,
+            user_id CHAR(36) NOT NULL,
+            version_number INT NOT NULL,
+            schema_definition JSON NOT NULL,
+            awareness VARCHAR(255) DEFAULT NULL,
+            source VARCHAR(20) NOT NULL DEFAULT 'edit',
+            restored_from INT DEFAULT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (schema_version_id),
+            UNIQUE KEY file_schema_version (file_id, version_number),
+            FOREIGN KEY (file_id) REFERENCES files(file_id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+        );`;
+
+    await pool.query(sql);
+    // The project's rules, composite keys and phone country saved with the definition, restored with it
+    await addColumnIfMissing(pool, "schema_versions", "validation_rules", "JSON DEFAULT NULL");
+    await addColumnIfMissing(pool, "schema_versions", "unique_keys", "JSON DEFAULT NULL");
+    await addColumnIfMissing(pool, "schema_versions", "phone_country", "CHAR(2) DEFAULT NULL");
+    console.log("schema versions table created");
+};
+
+
+// SCHEMA TEMPLATES TABLE (named schemas a user saved to apply to later uploads with the same layout)
+export const schemaTemplatesTable = async (pool) => {
+    const sql = `
+        CREATE TABLE IF NOT EXISTS schema_templates (
+            template_id CHAR(36) NOT NULL DEFAULT (UUID()),
+            user_id CHAR(36) NOT NULL,
+            name VARCHAR(255) NOT NULL,
+            schema_definition JSON NOT NULL,
+            source_file_id CHAR(36) DEFAULT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            PRIMARY KEY (template_id),
+            UNIQUE KEY user_template_name (user_id, name),
+            FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+        );`;
+
+    await pool.query(sql);
+    console.log("schema templates table created");
+};
+
+
+// CUSTOM DATA TYPES TABLE (column types a user defined from a pattern or a checksum, next to the built-in ones)
+export const customDataTypesTable = async (pool) => {
+    const sql = `
+        CREATE TABLE IF NOT EXISTS custom_data_types (
+            type_id CHAR(36) NOT NULL DEFAULT (UUID()),
+            user_id CHAR(36) NOT NULL,
+            name VARCHAR(64) NOT NULL,
+            description VARCHAR(255) DEFAULT NULL,
+            pattern TEXT DEFAULT NULL,
+            checksum VARCHAR(16) DEFAULT NULL,
+            normalizer VARCHAR(16) NOT NULL DEFAULT 'trim',
+            message VARCHAR(255) DEFAULT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            PRIMARY KEY (type_id),
+            UNIQUE KEY user_type_name (user_id, name),
+            FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+        );`;
+
+    await pool.query(sql);
+    console.log("custom data types table created");
+};
@@ -1,6 +1,6 @@
 import mysql from 'mysql2/promise';
 import dotenv from 'dotenv';
-import { userTable, filesTable, actionsTable, issuesTable, schemaTable } from './creation.js';
+import { userTable, filesTable, actionsTable, issuesTable, schemaTable, uploadSessionsTable, uploadChunksTable, fileBatchesTable, fileVersionsTable, schemaVersionsTable, schemaTemplatesTable, customDataTypesTable } from './creation.js';
 
 dotenv.config();
 
@@ -29,6 +29,13 @@ export const Db_connection = async () => {
         await actionsTable(pool);
         await issuesTable(pool);
         await schemaTable(pool);
+        await uploadSessionsTable(pool);
+        await uploadChunksTable(pool);
+        await fileBatchesTable(pool);
+        await fileVersionsTable(pool);
+        await schemaVersionsTable(pool);
+        await schemaTemplatesTable(pool);
+        await customDataTypesTable(pool);
         
         connection.release();
     } catch (err) {
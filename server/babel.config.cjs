@@ -0,0 +1,4 @@
+// Jest runs the ES modules of the server through Babel
+module.exports = {
+    presets: [["@babel/preset-env", { targets: { node: "current" } }]]
+};
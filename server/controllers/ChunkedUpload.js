@@ -0,0 +1,329 @@
+import { v4 as uuidv4 } from "uuid";
+import { BadRequestError, UnauthenticatedError, NotFoundError } from '../errors/index.js';
+import { queryDb } from "../DB_methods/query.js";
+import { getAllowedFileType } from "../utils/uploadToS3.js";
+import { readParseOptions } from "../utils/parseOptions.js";
+import { registerUploadedFile } from "../utils/registerUploadedFile.js";
+import { appendBatchToFile } from "../utils/projectRecords.js";
+import { addFileVersion } from "../utils/fileVersions.js";
+import {
+    UPLOAD_CHUNK_SIZE,
+    MAX_CHUNKED_FILE_SIZE,
+    getTotalChunks,
+    verifyChunkChecksum,
+    startMultipartUpload,
+    uploadChunkPart,
+    completeMultipartUpload,
+    abortMultipartUpload
+} from "../utils/multipartUpload.js";
+import { deleteFileFromS3 } from "../utils/deleteFromS3.js";
+
+// What an upload into an existing project does: add rows, or replace the source file
+const TARGET_MODES = ["batch", "version"];
+
+// Loads an upload session of the current user that is still receiving chunks
+const findUploadSession = async (uploadId, userId) => {
+    const sessions = await queryDb(
+        `SELECT * FROM upload_sessions WHERE upload_id = ? AND user_id = ?`,
+        [uploadId, userId]
+    );
+
+    if (sessions.length === 0) {
+        throw new NotFoundError("Upload session not found.");
+    }
+
+    if (sessions[0].status !== "uploading") {
+        throw new BadRequestError("This upload is already completed.");
+    }
+
+    return sessions[0];
+};
+
+// Loads a project of the current user that a batch is appended to
+const findTargetFile = async (fileId, userId) => {
+    const files = await queryDb(
+        `SELECT * FROM files WHERE file_id = ? AND user_id = ?`,
+        [fileId, userId]
+    );
+
+    if (files.length === 0) {
+        throw new NotFoundError("No file found for the given user and file ID.");
+    }
+
+    return files[0];
+};
+
+const getReceivedChunks = async (uploadId) => {
+    const chunks = await queryDb(
+        `SELECT chunk_index, checksum, etag FROM upload_chunks WHERE upload_id = ? ORDER BY chunk_index`,
+        [uploadId]
+    );
+    return chunks;
+};
+
+// Starts a chunked upload, or resumes the unfinished upload of the same file.
+// With a targetFileId the file is appended to that project as a new batch of rows
+// (targetMode "batch", the default) or becomes its new source version (targetMode "version").
+export const StartUpload = async (req, res) => {
+    const { userId } = req.user;
+    const { fileName, fileSize, fingerprint, contentType, targetFileId } = req.body;
+    const targetMode = targetFileId ? (req.body.targetMode || "batch") : null;
+    let { category, description } = req.body;
+    let parseOptions = readParseOptions(req.body.parseOptions);
+
+    if (!userId) {
+        throw new UnauthenticatedError("User not authenticated.");
+    }
+
+    if (targetMode && !TARGET_MODES.includes(targetMode)) {
+        throw new BadRequestError(`Unsupported target mode: ${targetMode}.`);
+    }
+
+    if (targetFileId) {
+        const targetFile = await findTargetFile(targetFileId, userId);
+
+        // A batch in the project's format is read the same way as the first upload
+        if (Object.keys(parseOptions).length === 0 && getAllowedFileType(fileName) === targetFile.file_type) {
+            parseOptions = targetFile.parse_options || {};
+        }
+        category = category || targetMode;
+        description = description || targetMode;
+    }
+
+    if (!fileName || !fingerprint || !category || !description) {
+        throw new BadRequestError("Please provide all required information.");
+    }
+
+    const size = Number(fileSize);
+    if (!Number.isInteger(size) || size <= 0) {
+        throw new BadRequestError("File upload cannot be empty.");
+    }
+
+    if (size > MAX_CHUNKED_FILE_SIZE) {
+        throw new BadRequestError("File size exceeds the limit (500MB max).");
+    }
+
+    const fileType = getAllowedFileType(fileName);
+
+    // Resume: the same user uploading the same file (name, size and modification time)
+    const existingSessions = await queryDb(
+        `SELECT * FROM upload_sessions WHERE user_id = ? AND fingerprint = ? AND status = 'uploading' AND target_file_id <=> ? AND target_mode <=> ? ORDER BY created_at DESC`,
+        [userId, fingerprint, targetFileId || null, targetMode]
+    );
+
+    if (existingSessions.length > 0) {
+        const session = existingSessions[0];
+
+        // Project details may have been edited before retrying
+        await queryDb(
+            `UPDATE upload_sessions SET category = ?, description = ?, parse_options = ? WHERE upload_id = ?`,
+            [category, description, JSON.stringify(parseOptions), session.upload_id]
+        );
+
+        const receivedChunks = await getReceivedChunks(session.upload_id);
+
+        return res.status(200).json({
+            status: true,
+            message: "Upload resumed",
+            uploadId: session.upload_id,
+            chunkSize: session.chunk_size,
+            totalChunks: session.total_chunks,
+            receivedChunks: receivedChunks.map(chunk => chunk.chunk_index)
+        });
+    }
+
+    const uploadId = uuidv4();
+    const fileKey = `${fileType}/${uuidv4()}-${fileName}`;
+    const totalChunks = getTotalChunks(size);
+    const s3UploadId = await startMultipartUpload(fileKey, contentType);
+
+    await queryDb(
+        `INSERT INTO upload_sessions
+        (upload_id, user_id, fingerprint, s3_upload_id, file_key, original_name, file_type, file_size, chunk_size, total_chunks, category, description, parse_options, target_file_id, target_mode)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [uploadId, userId, fingerprint, s3UploadId, fileKey, fileName, fileType, size, UPLOAD_CHUNK_SIZE, totalChunks, category, description, JSON.stringify(parseOptions), targetFileId || null, targetMode]
+    );
+
+    return res.status(201).json({
+        status: true,
+        message: "Upload started",
+        uploadId,
+        chunkSize: UPLOAD_CHUNK_SIZE,
+        totalChunks,
+        receivedChunks: []
+    });
+};
+
+// Stores one chunk after checking its SHA-256 checksum (sent in the X-Chunk-Checksum header)
+export const UploadChunk = async (req, res) => {
+    const { userId } = req.user;
+    const { uploadId, index } = req.params;
+    const checksum = req.headers["x-chunk-checksum"];
+
+    const session = await findUploadSession(uploadId, userId);
+
+    const chunkIndex = Number(index);
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= session.total_chunks) {
+        throw new BadRequestError("Invalid chunk index.");
+    }
+
+    const body = req.body;
+    if (!Buffer.isBuffer(body) || body.length === 0) {
+        throw new BadRequestError("Chunk data is missing.");
+    }
+
+    const isLastChunk = chunkIndex === session.total_chunks - 1;
+    const expectedSize = isLastChunk
+        ? session.file_size - session.chunk_size * (session.total_chunks - 1)
+        : session.chunk_size;
+
+    if (body.length !== Number(expectedSize)) {
+        throw new BadRequestError(`Chunk ${chunkIndex} should be ${expectedSize} bytes, received ${body.length}.`);
+    }
+
+    const digest = verifyChunkChecksum(body, checksum);
+
+    const etag = await uploadChunkPart({
+        fileKey: session.file_key,
+        s3UploadId: session.s3_upload_id,
+        chunkIndex,
+        body
+    });
+
+    // A resent chunk replaces the earlier copy
+    await queryDb(
+        `REPLACE INTO upload_chunks (upload_id, chunk_index, checksum, size, etag) VALUES (?, ?, ?, ?, ?)`,
+        [uploadId, chunkIndex, digest, body.length, etag]
+    );
+
+    return res.status(200).json({
+        status: true,
+        message: "Chunk received",
+        chunkIndex
+    });
+};
+
+// Lists the chunks already received, so an interrupted upload can continue where it stopped
+export const GetUploadStatus = async (req, res) => {
+    const { userId } = req.user;
+    const { uploadId } = req.params;
+
+    const session = await findUploadSession(uploadId, userId);
+    const receivedChunks = await getReceivedChunks(uploadId);
+
+    return res.status(200).json({
+        status: true,
+        uploadId,
+        chunkSize: session.chunk_size,
+        totalChunks: session.total_chunks,
+        receivedChunks: receivedChunks.map(chunk => chunk.chunk_index)
+    });
+};
+
+// Reassembles the chunks in S3 and registers the file like a regular upload,
+// or adds it to the target project as a new batch or a new version
+export const CompleteUpload = async (req, res) => {
+    const { userId } = req.user;
+    const { uploadId } = req.params;
+
+    const session = await findUploadSession(uploadId, userId);
+    const receivedChunks = await getReceivedChunks(uploadId);
+
+    if (receivedChunks.length !== session.total_chunks) {
+        const received = new Set(receivedChunks.map(chunk => chunk.chunk_index));
+        const missing = [];
+        for (let i = 0; i < session.total_chunks && missing.length < 10; i++) {
+            if (!received.has(i)) missing.push(i);
+        }
+        throw new BadRequestError(`Upload is incomplete, missing chunks: ${missing.join(", ")}.`);
+    }
+
+    await completeMultipartUpload({
+        fileKey: session.file_key,
+        s3UploadId: session.s3_upload_id,
+        chunks: receivedChunks
+    });
+
+    if (session.target_file_id) {
+        let response;
+        try {
+            const targetFile = await findTargetFile(session.target_file_id, userId);
+            const uploaded = {
+                userId,
+                file: targetFile,
+                fileKey: session.file_key,
+                originalName: session.original_name,
+                fileType: session.file_type,
+                fileSize: session.file_size,
+                parseOptions: session.parse_options || {}
+            };
+
+            if (session.target_mode === "version") {
+                const version = await addFileVersion(uploaded);
+                response = { status: true, message: `Version ${version.currentVersion} uploaded`, version };
+            } else {
+                const batch = await appendBatchToFile(uploaded);
+                response = { status: true, message: `${batch.rowsAdded} rows appended`, batch };
+            }
+        } catch (error) {
+            // A batch or version that could not be added is not kept: its object is removed with the session
+            await deleteFileFromS3(session.file_key).catch(() => {});
+            await queryDb(`DELETE FROM upload_sessions WHERE upload_id = ?`, [uploadId]);
+            throw error;
+        }
+
+        await queryDb(`DELETE FROM upload_sessions WHERE upload_id = ?`, [uploadId]);
+        return res.status(201).json(response);
+    }
+
+    let fileSchemaDefinition;
+    try {
+        fileSchemaDefinition = await registerUploadedFile({
+            userId,
+            fileKey: session.file_key,
+            originalName: session.original_name,
+            fileType: session.file_type,
+            fileSize: session.file_size,
+            category: session.category,
+            description: session.description,
+            parseOptions: session.parse_options || {}
+        });
+    } catch (error) {
+        // A file that could not be registered is not kept: its rows and object are removed with the session
+        await queryDb(`DELETE FROM files WHERE file_key = ? AND user_id = ?`, [session.file_key, userId]);
+        await deleteFileFromS3(session.file_key).catch(() => {});
+        await queryDb(`DELETE FROM upload_sessions WHERE upload_id = ?`, [uploadId]);
+        throw error;
+    }
+
+    // The session is only removed once the file is registered
+    await queryDb(`DELETE FROM upload_sessions WHERE upload_id = ?`, [uploadId]);
+
+    return res
+            .status(201)
+            .json({
+                status: true,
+                message: "Uploaded successfully",
+                fileSchemaDefinition
+            });
+};
+
+// Cancels an upload and discards the chunks stored so far
+export const CancelUpload = async (req, res) => {
+    const { userId } = req.user;
+    const { uploadId } = req.params;
+
+    const session = await findUploadSession(uploadId, userId);
+
+    await abortMultipartUpload({
+        fileKey: session.file_key,
+        s3UploadId: session.s3_upload_id
+    });
+
+    await queryDb(`DELETE FROM upload_sessions WHERE upload_id = ?`, [uploadId]);
+
+    return res.status(200).json({
+        status: true,
+        message: "Upload cancelled"
+    });
+};
@@ -1,6 +1,6 @@
 import { queryDb } from "../DB_methods/query.js";
 import { manipulateData } from "../utils/manipulateData.js";
-import { ParseS3File } from "../utils/ParseS3File.js";
+import { loadCustomDataTypes, loadProjectRecords, loadReferenceValues, requireRows } from "../utils/projectRecords.js";
 import { 
     frequency_penalty, 
     max_completion_tokens, 
@@ -20,16 +20,25 @@ import {
 import openai from "../config/openaiConfig.js";
 import {BadRequestError, NotFoundError} from "../errors/index.js";
 import { validateParsedData } from "../utils/validateParsedData.js";
+import { activateFileVersion } from "../utils/fileVersions.js";
+import { findActionColumnMismatches } from "../utils/actionColumns.js";
 
 export const CleanData = async (req, res) => {
     const { userId } = req.user;
-    const { fileId, chat } = req.body;
+    const { fileId, chat, version } = req.body;
     
     // Fetch files from the database
-    const userFiles = await queryDb(
-        `SELECT file_id, file_key, original_name, category, description, progress, previous_response, file_schema FROM files WHERE file_id = ? AND user_id = ?`,
+    const fetchFile = () => queryDb(
+        `SELECT file_id, user_id, file_key, file_type, file_size, original_name, category, description, progress, previous_response, file_schema, parse_options, current_version FROM files WHERE file_id = ? AND user_id = ?`,
         [fileId,userId]
     );
+    let userFiles = await fetchFile();
+
+    // Replaying the actions against another version of the source file switches the project to it
+    if (version && userFiles.length > 0 && Number(version) !== userFiles[0].current_version) {
+        await activateFileVersion({ userId, file: userFiles[0], versionNumber: version });
+        userFiles = await fetchFile();
+    }
 
     // Fetch issues from the database
     const fileIssues = await queryDb(
@@ -39,7 +48,7 @@ export const CleanData = async (req, res) => {
     
     // Fetch schema from the database
     const fetchSchema = await queryDb(
-        `SELECT schema_definition FROM FileSchemas WHERE file_id = ? AND user_id = ?`,
+        `SELECT schema_definition, validation_rules, unique_keys, phone_country FROM FileSchemas WHERE file_id = ? AND user_id = ?`,
         [fileId,userId]
     );
 
@@ -47,34 +56,26 @@ export const CleanData = async (req, res) => {
         throw new NotFoundError("No file found for the given user and file ID.");
     }
 
-    const fileKey = userFiles[0].file_key;
-
-    const parsedData = await ParseS3File({ fileKey })
-
-    if (!parsedData || Object.keys(parsedData).length === 0) {
-        throw new BadRequestError("Parsed data is invalid or empty");
-    }
-
-    let records;
+    // The first upload followed by every appended batch
+    let records = requireRows(await loadProjectRecords(userFiles[0]));
     let issues;
     let aiResponse;
     let aiSummary;
-    if (typeof parsedData === "object" && !Array.isArray(parsedData)) {
-        // Excel case: Extract the first sheet
-        const sheetName = Object.keys(parsedData)[0]; 
-        records = parsedData[sheetName];
-    } else {
-        // CSV/JSON case: Use parsedData directly
-        records = parsedData;
-    }
 
-    if (!Array.isArray(records) || records.length === 0) {
-        throw new BadRequestError("No valid data found" );
-    }
+    // Project number format, validation rules, unique keys, phone country, the values of referenced columns and the user's
+    // data types, shared by validation and the actions
+    const validationOptions = {
+        numberFormat: userFiles[0].parse_options?.numberFormat,
+        rules: fetchSchema[0].validation_rules,
+        uniqueKeys: fetchSchema[0].unique_keys,
+        phoneCountry: fetchSchema[0].phone_country,
+        references: await loadReferenceValues(userId, fetchSchema[0].schema_definition),
+        customTypes: await loadCustomDataTypes(userId)
+    };
 
     // Construct schema dynamically from the first record
     if (!fileIssues || fileIssues.length === 0) {
-        const issues = validateParsedData(records,fetchSchema[0].schema_definition)
+        issues = validateParsedData(records,fetchSchema[0].schema_definition,validationOptions)
         const insertValues = issues.map(issue => [
             fileId, 
             userId, 
@@ -284,9 +285,15 @@ export const CleanData = async (req, res) => {
         [fileId,userId]
     );
 
+        // Saved actions that refer to columns this version of the file does not have
+        const actionWarnings = findActionColumnMismatches(
+            fileActions,
+            Object.keys(records[0]).filter(column => column !== "originalRowIndex")
+        );
+
         const actions = fileActions.map(action => action.action_details);
-            records = manipulateData(records, actions, issues,fetchSchema[0].schema_definition);
-            issues = validateParsedData(records,fetchSchema[0].schema_definition);
+            records = manipulateData(records, actions, issues,fetchSchema[0].schema_definition,validationOptions);
+            issues = validateParsedData(records,fetchSchema[0].schema_definition,validationOptions);
             console.log("Third Issues ",issues.errors);
 
     return res.status(200).json({ 
@@ -296,7 +303,9 @@ export const CleanData = async (req, res) => {
         schema:fetchSchema[0].schema_definition,
         records,
         issues:issues,
-        actions:fileActions
+        actions:fileActions,
+        currentVersion: userFiles[0].current_version,
+        actionWarnings
     });
 }
 
@@ -326,6 +335,44 @@ export const FetchActions = async(req, res) => {
 }
 
 
+// Saves an action picked in the workstation (e.g. the suggested fix of an issue) without going through the AI.
+// It is replayed with the others on the next clean data request.
+export const AddAction = async(req, res) => {
+    const { userId } = req.user;
+    const { fileId, action } = req.body;
+
+    if (!fileId || !action || typeof action.type !== "string" || !action.title) {
+        throw new BadRequestError("File ID and an action with a type and a title are required");
+    }
+
+    const userFiles = await queryDb(
+        `SELECT file_id FROM files WHERE file_id = ? AND user_id = ?`,
+        [fileId, userId]
+    );
+
+    if (userFiles.length === 0) {
+        throw new NotFoundError("No file found for the given user and file ID.");
+    }
+
+    const existingAction = await queryDb(
+        `SELECT action_id FROM actions WHERE file_id = ? AND user_id = ? AND JSON_CONTAINS(action_details, ?)`,
+        [fileId, userId, JSON.stringify(action)]
+    );
+
+    if (existingAction.length === 0) {
+        const response = action.response || action.title;
+        await queryDb(
+            `INSERT INTO actions (file_id, user_id, title, response, summary, chat, action_type, action_details) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [fileId, userId, action.title, response, response, action.title, action.type, JSON.stringify({ ...action, response })]
+        );
+    }
+
+    return res.status(200).json({
+        status: true,
+        message: "Action saved successfully"
+    });
+}
+
 export const DeleteActions = async(req, res) => {
     const { userId } = req.user;
     const { fileId, actionId } = req.query;
@@ -0,0 +1,116 @@
+import { queryDb } from "../DB_methods/query.js";
+import { BadRequestError, NotFoundError } from "../errors/index.js";
+import { BUILT_IN_DATA_TYPES, describeDataTypeError } from "../utils/dataTypes.js";
+import { loadCustomDataTypes, loadProjectRecords, replaceFileIssues } from "../utils/projectRecords.js";
+
+const CUSTOM_TYPE_FIELDS = `type_id, name, description, pattern, checksum, normalizer, message, created_at, updated_at`;
+
+// Revalidates the user's projects with a column of the given type, so their issues follow the type's new rules
+const revalidateProjectsUsing = async (userId, typeName) => {
+    const schemas = await queryDb(
+        `SELECT s.file_id, s.schema_definition, s.validation_rules, s.unique_keys, s.phone_country, f.file_key, f.parse_options, f.current_version
+        FROM FileSchemas s JOIN files f ON f.file_id = s.file_id
+        WHERE s.user_id = ?`,
+        [userId]
+    );
+    const customTypes = await loadCustomDataTypes(userId);
+
+    for (const schema of schemas) {
+        const usesType = Object.values(schema.schema_definition || {}).some(definition => definition?.dataType === typeName);
+        if (!usesType) continue;
+
+        const records = await loadProjectRecords(schema);
+        await replaceFileIssues({
+            userId,
+            fileId: schema.file_id,
+            records,
+            schema: schema.schema_definition,
+            numberFormat: schema.parse_options?.numberFormat,
+            rules: schema.validation_rules || [],
+            uniqueKeys: schema.unique_keys || [],
+            phoneCountry: schema.phone_country || null,
+            customTypes
+        });
+    }
+};
+
+// Lists the built-in data types and the user's own, for the schema editor's type list
+export const GetDataTypes = async (req, res) => {
+    const { userId } = req.user;
+
+    const customTypes = await queryDb(
+        `SELECT ${CUSTOM_TYPE_FIELDS} FROM custom_data_types WHERE user_id = ? ORDER BY name ASC`,
+        [userId]
+    );
+
+    return res.status(200).json({
+        status: true,
+        builtInTypes: BUILT_IN_DATA_TYPES.map(({ name, description }) => ({ name, description })),
+        customTypes
+    });
+};
+
+// Saves one of the user's data types from a pattern, a checksum or both. Saving under an existing name
+// replaces that type, and the projects with a column of it are revalidated.
+export const SaveDataType = async (req, res) => {
+    const { userId } = req.user;
+    const { name, description, pattern, checksum, normalizer, message } = req.body;
+
+    const definition = {
+        name: typeof name === "string" ? name.trim() : name,
+        description: description?.trim() || null,
+        pattern: pattern || null,
+        checksum: checksum || null,
+        normalizer: normalizer || "trim",
+        message: message?.trim() || null
+    };
+
+    const typeError = describeDataTypeError(definition);
+    if (typeError) {
+        throw new BadRequestError(typeError);
+    }
+
+    await queryDb(
+        `INSERT INTO custom_data_types (user_id, name, description, pattern, checksum, normalizer, message)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE description = VALUES(description), pattern = VALUES(pattern), checksum = VALUES(checksum),
+            normalizer = VALUES(normalizer), message = VALUES(message)`,
+        [userId, definition.name, definition.description, definition.pattern, definition.checksum, definition.normalizer, definition.message]
+    );
+
+    await revalidateProjectsUsing(userId, definition.name);
+
+    const saved = await queryDb(
+        `SELECT ${CUSTOM_TYPE_FIELDS} FROM custom_data_types WHERE user_id = ? AND name = ?`,
+        [userId, definition.name]
+    );
+
+    return res.status(200).json({
+        status: true,
+        message: `Data type "${definition.name}" saved`,
+        dataType: saved[0]
+    });
+};
+
+// Deletes one of the user's data types; columns of that type are no longer checked against it
+export const DeleteDataType = async (req, res) => {
+    const { userId } = req.user;
+    const { id } = req.params;
+
+    const types = await queryDb(
+        `SELECT name FROM custom_data_types WHERE type_id = ? AND user_id = ?`,
+        [id, userId]
+    );
+
+    if (types.length === 0) {
+        throw new NotFoundError("No data type found for the given user and type ID.");
+    }
+
+    await queryDb(`DELETE FROM custom_data_types WHERE type_id = ? AND user_id = ?`, [id, userId]);
+    await revalidateProjectsUsing(userId, types[0].name);
+
+    return res.status(200).json({
+        status: true,
+        message: "Data type deleted"
+    });
+};
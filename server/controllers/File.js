@@ -3,13 +3,21 @@ import { BadRequestError, UnauthenticatedError, NotFoundError } from '../errors/
 import { queryDb } from "../DB_methods/query.js";
 import { generatePresignedUrl } from "../utils/generatePreSignedUrl.js";
 import { deleteFileFromS3 } from "../utils/deleteFromS3.js";
-import { ParseS3File } from "../utils/ParseS3File.js";
-import { generateSchemaDefinition } from "../utils/generateSchemaDefinition.js";
-import { validateParsedData } from "../utils/validateParsedData.js";
-
-export const UploadFile = async(req,res,next) => {
+import { loadProjectRecords, getFileBatches, replaceFileIssues, requireRows } from "../utils/projectRecords.js";
+import { readParseOptions } from "../utils/parseOptions.js";
+import { registerUploadedFile } from "../utils/registerUploadedFile.js";
+import { ensureFirstSchemaVersion, recordSchemaVersion, getSchemaVersions as getSchemaHistory, rollbackSchemaVersion } from "../utils/schemaVersions.js";
+import { describeTextConstraintError } from "../utils/textConstraints.js";
+import { describeAllowedValuesError } from "../utils/allowedValues.js";
+import { describeRangeError } from "../utils/rangeConstraints.js";
+import { describeReferenceError } from "../utils/referenceIntegrity.js";
+import { describeUniqueKeysError } from "../utils/uniqueKeys.js";
+import { describePhoneCountryError } from "../utils/phoneNumbers.js";
+
+export const UploadFile = async(req,res) => {
     const { userId } = req.user;
     const { category, description } = req.body;
+    const parseOptions = readParseOptions(req.body.parseOptions);
 
     if (!userId) {
         throw new UnauthenticatedError("User not authenticated.");
@@ -26,68 +34,24 @@ export const UploadFile = async(req,res,next) => {
         fileType, 
         fileSize } = await uploadFileToS3(req,'file');
 
-    // INSERT USER INTO DATABASE
-    const newFile = await queryDb(
-        `INSERT INTO files (user_id, original_name, category, description, file_key, file_type, file_size)
-        VALUES (?, ?, ?, ?, ?, ?, ?)`,
-        [userId, originalName, category, description, fileKey, fileType, fileSize]
-    );
-    
-    if (newFile.affectedRows) {
-
-       // Fetch files from the database
-        const userFiles = await queryDb(
-            `SELECT file_id FROM files WHERE file_key = ? AND user_id = ?`,
-            [fileKey,userId]
-        );
-
-        if (userFiles.length === 0) {
-            throw new NotFoundError("No file found for the given user and file ID.");
-        }
-    
-        const parsedData = await ParseS3File({fileKey, numOfRows:1})
-        
-        if (!parsedData || Object.keys(parsedData).length === 0) {
-            throw new BadRequestError("Parsed data is invalid or empty");
-        }
-
-        let optimizedParsedData;
-    
-        if (typeof parsedData === "object" && !Array.isArray(parsedData)) {
-            // Excel case: Extract the first sheet
-            const sheetName = Object.keys(parsedData)[0]; 
-            optimizedParsedData = parsedData[sheetName];
-        } else {
-            // CSV/JSON case: Use parsedData directly
-            optimizedParsedData = parsedData;
-        }
-
-        const schemaDefinition = generateSchemaDefinition(optimizedParsedData);
-        
-        if ((schemaDefinition && Object.keys(schemaDefinition).length > 0)) {
-            await queryDb(
-                `INSERT INTO FileSchemas (file_id, user_id, schema_definition) VALUES (?, ?, ?)`,
-                [userFiles[0].file_id, userId, JSON.stringify(schemaDefinition)]
-            );
-
-        }
-
-        const fileSchemaDefinition = {
-            file_id: userFiles[0].file_id,
-            schema_definition: schemaDefinition
-        }
-
+    const fileSchemaDefinition = await registerUploadedFile({
+        userId,
+        fileKey,
+        originalName,
+        fileType,
+        fileSize,
+        category,
+        description,
+        parseOptions
+    });
 
-        return res
-                .status(201)
-                .json({ 
-                    status: true, 
-                    message: "Uploaded successfully", 
-                    fileSchemaDefinition
-                });
-    } else {
-        return next(new Error("Failed to register user."));
-    } 
+    return res
+            .status(201)
+            .json({ 
+                status: true, 
+                message: "Uploaded successfully", 
+                fileSchemaDefinition
+            });
 }
 
 export const getSchema = async(req, res) => {
@@ -111,25 +75,82 @@ export const getSchema = async(req, res) => {
         });
     }
 
+    // Batches and versions in the project's format are read with its parse options, so the drift review reads them the same way
+    const projectFiles = await queryDb(
+        `SELECT file_type, parse_options FROM files WHERE file_id = ? AND user_id = ?`,
+        [fileid,userId]
+    );
+
     return res.status(200).json({
         status:true, 
-        result:fetchSchema
+        result:fetchSchema,
+        fileType: projectFiles[0]?.file_type || null,
+        parseOptions: projectFiles[0]?.parse_options || {}
     })
 
 }
 
 export const editSchema = async(req, res) => {
-    const {file_id, schema_definition, awareness} = req.body;
+    const {file_id, schema_definition, awareness, unique_keys, phone_country} = req.body;
     const { userId } = req.user;
 
     if(!file_id && !schema_definition && !userId){
         throw new BadRequestError("Please provide all required information.");
     }
 
+    // Constraints that cannot be enforced are rejected rather than skipped during validation
+    Object.entries(schema_definition || {}).forEach(([column, definition]) => {
+        const constraintError = describeTextConstraintError(column, definition || {})
+            || describeAllowedValuesError(column, definition || {})
+            || describeRangeError(column, definition || {})
+            || describeReferenceError(column, definition || {})
+            || describePhoneCountryError(definition?.phoneCountry, column);
+        if (constraintError) {
+            throw new BadRequestError(constraintError);
+        }
+    });
+
+    // Composite keys may only combine columns of the schema; clients that do not send them keep the saved ones
+    const uniqueKeysError = describeUniqueKeysError(
+        unique_keys,
+        Object.keys(schema_definition || {}).filter(column => column !== "originalRowIndex")
+    );
+    if (uniqueKeysError) {
+        throw new BadRequestError(uniqueKeysError);
+    }
+
+    // Clients that do not send the project's phone country keep the saved one, an empty one clears it
+    const phoneCountryError = describePhoneCountryError(phone_country);
+    if (phoneCountryError) {
+        throw new BadRequestError(phoneCountryError);
+    }
+
+    // A reference must point at a column of one of the user's projects
+    for (const [column, definition] of Object.entries(schema_definition || {})) {
+        const reference = definition?.reference;
+        if (!reference) continue;
+
+        const referenced = await queryDb(
+            `SELECT schema_definition FROM FileSchemas WHERE file_id = ? AND user_id = ?`,
+            [reference.fileId, userId]
+        );
+        if (referenced.length === 0) {
+            throw new BadRequestError(`Column '${column}' references a project that does not exist.`);
+        }
+        if (!(reference.column in (referenced[0].schema_definition || {}))) {
+            throw new BadRequestError(`Column '${column}' references '${reference.column}', which is not a column of that project.`);
+        }
+    }
+
+    // Keep the definition about to be replaced for projects saved before schema history
+    await ensureFirstSchemaVersion(file_id);
+
     // INSERT USER INTO DATABASE
     const updateSchema = await queryDb(
-        `UPDATE FileSchemas SET  schema_definition = ?, awareness = ? WHERE file_id = ? AND user_id = ?`,
-        [JSON.stringify(schema_definition), awareness, file_id, userId]
+        `UPDATE FileSchemas SET  schema_definition = ?, awareness = ?, unique_keys = COALESCE(?, unique_keys),
+            phone_country = IF(?, ?, phone_country) WHERE file_id = ? AND user_id = ?`,
+        [JSON.stringify(schema_definition), awareness, unique_keys ? JSON.stringify(unique_keys) : null,
+            phone_country !== undefined, phone_country || null, file_id, userId]
     );
 
     
@@ -138,46 +159,33 @@ export const editSchema = async(req, res) => {
     }
     
     if(updateSchema.changedRows > 0){
+        const schemaVersion = await recordSchemaVersion({
+            fileId: file_id,
+            userId,
+            source: "edit"
+        });
+
         const userFiles = await queryDb(
-            `SELECT file_id, file_key, original_name, category, description, progress, previous_response, file_schema FROM files WHERE file_id = ? AND user_id = ?`,
+            `SELECT file_id, file_key, original_name, category, description, progress, previous_response, file_schema, parse_options, current_version FROM files WHERE file_id = ? AND user_id = ?`,
             [file_id,userId]
         );
 
-        const fileKey = userFiles[0].file_key;
-
-        const parsedData = await ParseS3File({fileKey, numOfRows:1})
+        // Every row, appended batches included, is revalidated so the issues follow the new schema
+        const records = await loadProjectRecords(userFiles[0]);
         
-        if (!parsedData || Object.keys(parsedData).length === 0) {
+        if (!records || Object.keys(records).length === 0) {
             throw new BadRequestError("Parsed data is invalid or empty");
         }
 
-        let optimizedParsedData;
-    
-        if (typeof parsedData === "object" && !Array.isArray(parsedData)) {
-            // Excel case: Extract the first sheet
-            const sheetName = Object.keys(parsedData)[0]; 
-            optimizedParsedData = parsedData[sheetName];
-        } else {
-            // CSV/JSON case: Use parsedData directly
-            optimizedParsedData = parsedData;
-        }
-
-        const issues = validateParsedData(optimizedParsedData,schema_definition)
-        const insertValues = issues.map(issue => [
-            file_id, 
-            userId, 
-            issue.row, 
-            JSON.stringify(issue.errors)
-        ]);
-
-        if (insertValues.length > 0) {
-            await queryDb(
-                `INSERT INTO issues (file_id, user_id, row_index, errors) VALUES ?`,
-                [insertValues]
-            );
-        }
+        await replaceFileIssues({
+            userId,
+            fileId: file_id,
+            records,
+            schema: schema_definition,
+            numberFormat: userFiles[0].parse_options?.numberFormat
+        });
         
-        return res.status(200).json({status:true, message:"Schema Updated Successfully"})
+        return res.status(200).json({status:true, message:"Schema Updated Successfully", schemaVersion})
     }else{
         return res.status(200).json({status:false, message:"No change you have made."})
     }
@@ -185,6 +193,60 @@ export const editSchema = async(req, res) => {
 
 }
 
+// Lists every saved schema of a project, with its author and time
+export const getSchemaVersions = async (req, res) => {
+    const { fileid } = req.query;
+    const { userId } = req.user;
+
+    if (!fileid) {
+        throw new BadRequestError("Please provide all required information.");
+    }
+
+    const userFiles = await queryDb(
+        `SELECT file_id FROM files WHERE file_id = ? AND user_id = ?`,
+        [fileid, userId]
+    );
+
+    if (userFiles.length === 0) {
+        throw new NotFoundError("No file found for the given user and file ID.");
+    }
+
+    const versions = await getSchemaHistory(fileid);
+
+    return res.status(200).json({
+        status: true,
+        currentVersion: versions.length > 0 ? versions[versions.length - 1].version_number : null,
+        versions
+    });
+}
+
+// Restores an earlier schema and revalidates the project against it
+export const rollbackSchema = async (req, res) => {
+    const { fileId, version } = req.body;
+    const { userId } = req.user;
+
+    if (!fileId || !version) {
+        throw new BadRequestError("Please provide all required information.");
+    }
+
+    const userFiles = await queryDb(
+        `SELECT * FROM files WHERE file_id = ? AND user_id = ?`,
+        [fileId, userId]
+    );
+
+    if (userFiles.length === 0) {
+        throw new NotFoundError("No file found for the given user and file ID.");
+    }
+
+    const report = await rollbackSchemaVersion({ userId, file: userFiles[0], versionNumber: version });
+
+    return res.status(200).json({
+        status: true,
+        message: `Restored schema version ${report.restoredFrom}`,
+        ...report
+    });
+}
+
 export const getUserFiles = async (req, res) => {
     const { userId } = req.user;
 
@@ -237,7 +299,14 @@ export const deleteFile = async (req, res) => {
         throw new UnauthenticatedError("Unauthorized");
     }
 
-    await deleteFileFromS3(file[0].file_key);
+    // Every version of the source file and every appended batch
+    const versions = await queryDb(`SELECT file_key FROM file_versions WHERE file_id = ?`, [id]);
+    const batches = await getFileBatches(id);
+    const fileKeys = new Set([file[0].file_key, ...versions.map(v => v.file_key), ...batches.map(b => b.file_key)]);
+
+    for (const fileKey of fileKeys) {
+        await deleteFileFromS3(fileKey);
+    }
 
     await queryDb(`DELETE FROM files WHERE file_id = ?`, [id]);
 
@@ -260,7 +329,7 @@ export const getIssue = async(req, res) => {
 
     // Fetch files from the database
     const userFiles = await queryDb(
-        `SELECT file_id, file_key, original_name, category, description, progress, previous_response, file_schema FROM files WHERE file_id = ? AND user_id = ?`,
+        `SELECT file_id, file_key, original_name, category, description, progress, previous_response, file_schema, parse_options, current_version FROM files WHERE file_id = ? AND user_id = ?`,
         [fileid,userId]
     );
 
@@ -276,24 +345,8 @@ export const getIssue = async(req, res) => {
         throw new NotFoundError("No file found for the given user and file ID.");
     }
 
-    const fileKey = userFiles[0].file_key;
-
-    const parsedData = await ParseS3File({ fileKey })
-
-    if (!parsedData || Object.keys(parsedData).length === 0) {
-        throw new BadRequestError("Parsed data is invalid or empty");
-    }
-
-    let records;
-
-    if (typeof parsedData === "object" && !Array.isArray(parsedData)) {
-        // Excel case: Extract the first sheet
-        const sheetName = Object.keys(parsedData)[0]; 
-        records = parsedData[sheetName];
-    } else {
-        // CSV/JSON case: Use parsedData directly
-        records = parsedData;
-    }
+    // The first upload followed by every appended batch
+    const records = requireRows(await loadProjectRecords(userFiles[0]));
 
     const distinctRowIndexes = new Set(fileIssues.map(issue => issue.row_index)).size;
     const qualityScore = ((1 - (distinctRowIndexes / records.length)) * 100).toFixed(2);
@@ -313,16 +366,18 @@ export const getIssue = async(req, res) => {
         return acc;
     }, {});
 
-    // Group issues by column
+    // Group issues by column, a rule violation counts for every column of the rule
     const columnWiseIssues = fileIssues.reduce((acc, issue) => {
         issue.errors.forEach(error => {
-            if (!acc[error.column]) {
-                acc[error.column] = [];
-            }
-            acc[error.column].push({
-                row_index: issue.row_index,
-                issueDesc: error.issueDesc,
-                issueType: error.issueType
+            (error.columns || [error.column]).forEach(column => {
+                if (!acc[column]) {
+                    acc[column] = [];
+                }
+                acc[column].push({
+                    row_index: issue.row_index,
+                    issueDesc: error.issueDesc,
+                    issueType: error.issueType
+                });
             });
         });
         return acc;
@@ -349,7 +404,17 @@ export const getIssue = async(req, res) => {
         "INVALID_FORMAT": "Medium",
         "INVALID_SEPARATOR": "Low",
         "INVALID_VALUE": "Medium",
-        "DUPLICATE_VALUE": "Medium"
+        "DUPLICATE_VALUE": "Medium",
+        "DUPLICATE_KEY": "Medium",
+        "INVALID_PHONE_NUMBER": "Medium",
+        "POSSIBLE_PHONE_NUMBER": "Low",
+        "WRONG_REGION_PHONE_NUMBER": "Low",
+        "PATTERN_MISMATCH": "Medium",
+        "LENGTH_VIOLATION": "Low",
+        "INVALID_CATEGORY": "Medium",
+        "OUT_OF_RANGE": "Medium",
+        "RULE_VIOLATION": "Medium",
+        "ORPHAN_REFERENCE": "High"
     };
 
     // Prepare data for issue type count chart with affected columns
@@ -0,0 +1,109 @@
+import { queryDb } from "../DB_methods/query.js";
+import { BadRequestError, NotFoundError } from "../errors/index.js";
+import { loadProjectRecords, replaceFileIssues } from "../utils/projectRecords.js";
+import { ensureFirstSchemaVersion, recordSchemaVersion } from "../utils/schemaVersions.js";
+import { describeRuleError } from "../utils/validationRules.js";
+
+const dataColumns = (schemaDefinition) => Object.keys(schemaDefinition || {}).filter(column => column !== "originalRowIndex");
+
+const fetchProjectSchema = async (fileId, userId) => {
+    const schemas = await queryDb(
+        `SELECT schema_definition, validation_rules FROM FileSchemas WHERE file_id = ? AND user_id = ?`,
+        [fileId, userId]
+    );
+
+    if (schemas.length === 0) {
+        throw new NotFoundError("No schema found for the given user and file ID.");
+    }
+
+    return schemas[0];
+};
+
+// Lists the cross-column validation rules of a project with the columns they can use
+export const GetRules = async (req, res) => {
+    const { userId } = req.user;
+    const { fileId } = req.query;
+
+    if (!fileId) {
+        throw new BadRequestError("Please provide all required information.");
+    }
+
+    const schema = await fetchProjectSchema(fileId, userId);
+
+    return res.status(200).json({
+        status: true,
+        rules: schema.validation_rules || [],
+        columns: dataColumns(schema.schema_definition)
+    });
+};
+
+// Replaces the validation rules of a project and revalidates its rows against them.
+// Every rule needs a unique name and may only use the project's columns.
+export const SaveRules = async (req, res) => {
+    const { userId } = req.user;
+    const { fileId, rules } = req.body;
+
+    if (!fileId || !Array.isArray(rules)) {
+        throw new BadRequestError("Please provide all required information.");
+    }
+
+    const schema = await fetchProjectSchema(fileId, userId);
+    const columnNames = dataColumns(schema.schema_definition);
+
+    const savedRules = rules.map(rule => ({
+        name: typeof rule?.name === "string" ? rule.name.trim() : "",
+        expression: typeof rule?.expression === "string" ? rule.expression.trim() : ""
+    }));
+
+    // Rules that cannot be evaluated are rejected rather than skipped during validation
+    savedRules.forEach((rule, index) => {
+        const ruleError = describeRuleError(rule, columnNames);
+        if (ruleError) {
+            throw new BadRequestError(ruleError);
+        }
+        if (savedRules.findIndex(other => other.name.toLowerCase() === rule.name.toLowerCase()) !== index) {
+            throw new BadRequestError(`There is more than one rule named '${rule.name}'.`);
+        }
+    });
+
+    // Keep the rules about to be replaced for projects saved before schema history
+    await ensureFirstSchemaVersion(fileId);
+
+    const updateRules = await queryDb(
+        `UPDATE FileSchemas SET validation_rules = ? WHERE file_id = ? AND user_id = ?`,
+        [JSON.stringify(savedRules), fileId, userId]
+    );
+
+    // Saved rules are part of the schema's history, so they can be compared and rolled back like an edit
+    const schemaVersion = updateRules.changedRows > 0
+        ? await recordSchemaVersion({ fileId, userId, source: "rules" })
+        : null;
+
+    const userFiles = await queryDb(
+        `SELECT file_id, file_key, parse_options, current_version FROM files WHERE file_id = ? AND user_id = ?`,
+        [fileId, userId]
+    );
+
+    if (userFiles.length === 0) {
+        throw new NotFoundError("No file found for the given user and file ID.");
+    }
+
+    // Every row, appended batches included, is revalidated so the issues follow the new rules
+    const records = await loadProjectRecords(userFiles[0]);
+    const issues = await replaceFileIssues({
+        userId,
+        fileId,
+        records,
+        schema: schema.schema_definition,
+        numberFormat: userFiles[0].parse_options?.numberFormat,
+        rules: savedRules
+    });
+
+    return res.status(200).json({
+        status: true,
+        message: "Validation rules saved",
+        rules: savedRules,
+        schemaVersion,
+        issueCount: issues.length
+    });
+};
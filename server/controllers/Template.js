@@ -0,0 +1,100 @@
+import { queryDb } from "../DB_methods/query.js";
+import { BadRequestError, NotFoundError } from "../errors/index.js";
+
+// Settings that belong to one file's data rather than to its layout, left out of templates
+const UNSHARED_FIELDS = ["inference"];
+
+// Keeps the user-defined settings of every column of a schema
+const toTemplateSchema = (schemaDefinition) => Object.fromEntries(
+    Object.entries(schemaDefinition || {})
+        .filter(([column]) => column !== "originalRowIndex")
+        .map(([column, definition]) => [
+            column,
+            Object.fromEntries(Object.entries(definition || {}).filter(([field]) => !UNSHARED_FIELDS.includes(field)))
+        ])
+);
+
+// Lists the user's saved schema templates, most recently saved first
+export const GetTemplates = async (req, res) => {
+    const { userId } = req.user;
+
+    const templates = await queryDb(
+        `SELECT template_id, name, schema_definition, source_file_id, created_at, updated_at
+        FROM schema_templates WHERE user_id = ? ORDER BY updated_at DESC`,
+        [userId]
+    );
+
+    return res.status(200).json({
+        status: true,
+        templates
+    });
+};
+
+// Saves a schema as a named template: the one given, or else the project's current schema (fileId).
+// Saving under an existing name replaces that template.
+export const SaveTemplate = async (req, res) => {
+    const { userId } = req.user;
+    const { name, fileId, schema_definition } = req.body;
+
+    if (!name?.trim() || (!fileId && !schema_definition)) {
+        throw new BadRequestError("Please provide all required information.");
+    }
+
+    let schemaDefinition = schema_definition;
+    if (!schemaDefinition) {
+        const schemas = await queryDb(
+            `SELECT schema_definition FROM FileSchemas WHERE file_id = ? AND user_id = ?`,
+            [fileId, userId]
+        );
+
+        if (schemas.length === 0) {
+            throw new NotFoundError("No schema found for the given user and file ID.");
+        }
+
+        schemaDefinition = schemas[0].schema_definition;
+    }
+
+    const templateSchema = toTemplateSchema(schemaDefinition);
+    if (Object.keys(templateSchema).length === 0) {
+        throw new BadRequestError("The schema has no columns to save.");
+    }
+
+    await queryDb(
+        `INSERT INTO schema_templates (user_id, name, schema_definition, source_file_id)
+        VALUES (?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE schema_definition = VALUES(schema_definition), source_file_id = VALUES(source_file_id)`,
+        [userId, name.trim(), JSON.stringify(templateSchema), fileId || null]
+    );
+
+    const saved = await queryDb(
+        `SELECT template_id, name, schema_definition, source_file_id, created_at, updated_at
+        FROM schema_templates WHERE user_id = ? AND name = ?`,
+        [userId, name.trim()]
+    );
+
+    return res.status(200).json({
+        status: true,
+        message: `Template "${name.trim()}" saved`,
+        template: saved[0]
+    });
+};
+
+// Deletes one of the user's templates
+export const DeleteTemplate = async (req, res) => {
+    const { userId } = req.user;
+    const { id } = req.params;
+
+    const result = await queryDb(
+        `DELETE FROM schema_templates WHERE template_id = ? AND user_id = ?`,
+        [id, userId]
+    );
+
+    if (result.affectedRows === 0) {
+        throw new NotFoundError("No template found for the given user and template ID.");
+    }
+
+    return res.status(200).json({
+        status: true,
+        message: "Template deleted"
+    });
+};
@@ -0,0 +1,54 @@
+import { queryDb } from "../DB_methods/query.js";
+import { BadRequestError, NotFoundError } from "../errors/index.js";
+import { getFileVersions, activateFileVersion } from "../utils/fileVersions.js";
+
+const findUserFile = async (fileId, userId) => {
+    const userFiles = await queryDb(
+        `SELECT * FROM files WHERE file_id = ? AND user_id = ?`,
+        [fileId, userId]
+    );
+
+    if (userFiles.length === 0) {
+        throw new NotFoundError("No file found for the given user and file ID.");
+    }
+
+    return userFiles[0];
+};
+
+// Lists the uploaded versions of a project's source file
+export const GetVersions = async (req, res) => {
+    const { userId } = req.user;
+    const { fileid } = req.query;
+
+    if (!fileid) {
+        throw new BadRequestError("Please provide all required information.");
+    }
+
+    const file = await findUserFile(fileid, userId);
+    const versions = await getFileVersions(file);
+
+    return res.status(200).json({
+        status: true,
+        currentVersion: file.current_version,
+        versions: versions.map(({ file_key, parse_options, ...version }) => version)
+    });
+};
+
+// Switches the project to another version; the saved schema and actions are kept
+export const SetVersion = async (req, res) => {
+    const { userId } = req.user;
+    const { fileId, version } = req.body;
+
+    if (!fileId || !version) {
+        throw new BadRequestError("Please provide all required information.");
+    }
+
+    const file = await findUserFile(fileId, userId);
+    const report = await activateFileVersion({ userId, file, versionNumber: version });
+
+    return res.status(200).json({
+        status: true,
+        message: `Switched to version ${report.currentVersion}`,
+        ...report
+    });
+};
@@ -0,0 +1,183 @@
+// Tests for the chunked upload controller
+import { queryDb } from "../../DB_methods/query.js";
+import { registerUploadedFile } from "../../utils/registerUploadedFile.js";
+import { deleteFileFromS3 } from "../../utils/deleteFromS3.js";
+import { appendBatchToFile } from "../../utils/projectRecords.js";
+import { completeMultipartUpload, startMultipartUpload } from "../../utils/multipartUpload.js";
+import { CompleteUpload, StartUpload } from "../ChunkedUpload.js";
+
+jest.mock("../../config/s3.js", () => ({ __esModule: true, default: { send: jest.fn() } }));
+jest.mock("../../DB_methods/query.js", () => ({ queryDb: jest.fn() }));
+jest.mock("../../utils/registerUploadedFile.js", () => ({ registerUploadedFile: jest.fn() }));
+jest.mock("../../utils/projectRecords.js", () => ({ appendBatchToFile: jest.fn() }));
+jest.mock("../../utils/fileVersions.js", () => ({ addFileVersion: jest.fn() }));
+jest.mock("../../utils/deleteFromS3.js", () => ({ deleteFileFromS3: jest.fn() }));
+jest.mock("../../utils/multipartUpload.js", () => ({
+    ...jest.requireActual("../../utils/multipartUpload.js"),
+    startMultipartUpload: jest.fn(),
+    uploadChunkPart: jest.fn(),
+    completeMultipartUpload: jest.fn(),
+    abortMultipartUpload: jest.fn()
+}));
+
+const mockResponse = () => {
+    const res = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    return res;
+};
+
+const session = {
+    upload_id: "upload-1",
+    user_id: "user-1",
+    status: "uploading",
+    s3_upload_id: "s3-upload",
+    file_key: "csv/key-data.csv",
+    original_name: "data.csv",
+    file_type: "csv",
+    file_size: 10,
+    chunk_size: 5,
+    total_chunks: 2,
+    category: "Sales",
+    description: "Q1",
+    parse_options: {},
+    target_file_id: null,
+    target_mode: null
+};
+
+// Answers the session queries; every statement is recorded in `statements`
+const mockSession = (chunks) => {
+    const statements = [];
+    queryDb.mockImplementation(async (sql) => {
+        statements.push(sql.trim());
+        if (sql.includes("SELECT * FROM upload_sessions")) return [session];
+        if (sql.includes("FROM upload_chunks")) return chunks;
+        return [];
+    });
+    return statements;
+};
+
+const bothChunks = [{ chunk_index: 0, etag: "e1" }, { chunk_index: 1, etag: "e2" }];
+
+describe("StartUpload", () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it("refuses files larger than ParseS3File can read", async () => {
+        const req = {
+            user: { userId: "user-1" },
+            body: { fileName: "data.csv", fileSize: 600 * 1024 * 1024, fingerprint: "f", category: "Sales", description: "Q1" }
+        };
+
+        await expect(StartUpload(req, mockResponse())).rejects.toThrow("File size exceeds the limit (500MB max).");
+        expect(startMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it("starts a multipart upload split into 5MB chunks", async () => {
+        queryDb.mockResolvedValue([]);
+        startMultipartUpload.mockResolvedValue("s3-upload");
+        const res = mockResponse();
+
+        await StartUpload({
+            user: { userId: "user-1" },
+            body: { fileName: "data.csv", fileSize: 11 * 1024 * 1024, fingerprint: "f", category: "Sales", description: "Q1" }
+        }, res);
+
+        expect(res.status).toHaveBeenCalledWith(201);
+        expect(res.json.mock.calls[0][0]).toMatchObject({ status: true, totalChunks: 3, receivedChunks: [] });
+    });
+});
+
+describe("CompleteUpload", () => {
+    const req = { user: { userId: "user-1" }, params: { uploadId: "upload-1" } };
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        deleteFileFromS3.mockResolvedValue();
+    });
+
+    it("names the missing chunks of an incomplete upload", async () => {
+        mockSession([{ chunk_index: 1, etag: "e2" }]);
+
+        await expect(CompleteUpload(req, mockResponse())).rejects.toThrow("Upload is incomplete, missing chunks: 0.");
+        expect(completeMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it("removes the session only once the file is registered", async () => {
+        const statements = mockSession(bothChunks);
+        registerUploadedFile.mockImplementation(async () => {
+            expect(statements.some(sql => sql.includes("DELETE FROM upload_sessions"))).toBe(false);
+            return { id: { dataType: "Integer" } };
+        });
+        const res = mockResponse();
+
+        await CompleteUpload(req, res);
+
+        expect(res.status).toHaveBeenCalledWith(201);
+        expect(statements[statements.length - 1]).toContain("DELETE FROM upload_sessions");
+        expect(statements.some(sql => sql.includes("UPDATE upload_sessions"))).toBe(false);
+    });
+
+    it("removes the file, its object and the session when registering it fails", async () => {
+        const statements = mockSession(bothChunks);
+        registerUploadedFile.mockRejectedValue(new Error("Parsed data is invalid or empty"));
+
+        await expect(CompleteUpload(req, mockResponse())).rejects.toThrow("Parsed data is invalid or empty");
+
+        expect(statements).toEqual(expect.arrayContaining([
+            expect.stringContaining("DELETE FROM files"),
+            expect.stringContaining("DELETE FROM upload_sessions")
+        ]));
+        expect(deleteFileFromS3).toHaveBeenCalledWith(session.file_key);
+    });
+
+    describe("into an existing project", () => {
+        const batchSession = { ...session, target_file_id: "file-1", target_mode: "batch" };
+        const project = { file_id: "file-1", user_id: "user-1", file_key: "csv/source.csv" };
+
+        const mockBatchSession = (files) => {
+            const statements = [];
+            queryDb.mockImplementation(async (sql) => {
+                statements.push(sql.trim());
+                if (sql.includes("SELECT * FROM upload_sessions")) return [batchSession];
+                if (sql.includes("FROM upload_chunks")) return bothChunks;
+                if (sql.includes("SELECT * FROM files")) return files;
+                return [];
+            });
+            return statements;
+        };
+
+        it("removes the session once the batch is appended and keeps its object", async () => {
+            const statements = mockBatchSession([project]);
+            appendBatchToFile.mockResolvedValue({ batch_id: "batch-1", rowsAdded: 2 });
+            const res = mockResponse();
+
+            await CompleteUpload(req, res);
+
+            expect(res.status).toHaveBeenCalledWith(201);
+            expect(res.json.mock.calls[0][0]).toMatchObject({ message: "2 rows appended" });
+            expect(statements[statements.length - 1]).toContain("DELETE FROM upload_sessions");
+            expect(deleteFileFromS3).not.toHaveBeenCalled();
+        });
+
+        it("removes the object and the session when the batch cannot be appended", async () => {
+            const statements = mockBatchSession([project]);
+            appendBatchToFile.mockRejectedValue(new Error("Connection lost"));
+
+            await expect(CompleteUpload(req, mockResponse())).rejects.toThrow("Connection lost");
+
+            expect(deleteFileFromS3).toHaveBeenCalledWith(session.file_key);
+            expect(statements[statements.length - 1]).toContain("DELETE FROM upload_sessions");
+        });
+
+        it("removes the object and the session when the project is gone", async () => {
+            mockBatchSession([]);
+
+            await expect(CompleteUpload(req, mockResponse())).rejects.toThrow("No file found");
+
+            expect(appendBatchToFile).not.toHaveBeenCalled();
+            expect(deleteFileFromS3).toHaveBeenCalledWith(session.file_key);
+        });
+    });
+});
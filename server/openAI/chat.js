@@ -20,15 +20,17 @@ export const messages = async (userInput, schema, issues) => {
   - REMOVE_ROWS_WITH_ISSUES: { type: "REMOVE_ROWS_WITH_ISSUES", issueType: "<IssueType>" }
   - REPLACE_NEGATIVE_VALUES: { type: "REPLACE_NEGATIVE_VALUES", column: "<ColumnName>", newValue: <NewValue> }
   - REPLACE_VALUE: { type: "REPLACE_VALUE", column: "<ColumnName>", oldValue: "<OldValue>", newValue: "<NewValue>" }
-  - REPLACE_ROW: { type: "REPLACE_ROW", rowNumber: <RowNumber>, newValues: { <ColumnName>: <Value> } }
+  - REPLACE_ROW: { type: "REPLACE_ROW", rowId: <RowId>, newValues: { <ColumnName>: <Value> } } (rowId is the "row" of the row's issues; it stays with the row when rows are sorted or deleted)
   - REPLACE_COLUMN_VALUES: { type: "REPLACE_COLUMN_VALUES", column: "<ColumnName>", newValue: "<NewValue>" }
   - DELETE_ROWS_WHERE_VALUE_EQUALS: { type: "DELETE_ROWS_WHERE_VALUE_EQUALS", column: "<ColumnName>", value: <Value> }
   - DELETE_ROWS_WHERE_VALUE_LESS_THAN: { type: "DELETE_ROWS_WHERE_VALUE_LESS_THAN", column: "<ColumnName>", value: <Value> }
   - DELETE_ROWS_WHERE_VALUE_GREATER_THAN: { type: "DELETE_ROWS_WHERE_VALUE_GREATER_THAN", column: "<ColumnName>", value: <Value> }
   - DELETE_ROWS_WITH_NEGATIVE_VALUES: { type: "DELETE_ROWS_WITH_NEGATIVE_VALUES" }
   - DELETE_ROWS_WHERE_VALUE_NOT_IN_RANGE: { type: "DELETE_ROWS_WHERE_VALUE_NOT_IN_RANGE", column: "<ColumnName>", minValue: <MinValue>, maxValue: <MaxValue> }
-  - DELETE_DUPLICATE_ROWS: { type: "DELETE_DUPLICATE_ROWS", column: "<ColumnName>" }
-  - KEEP_ONLY_UNIQUE_ROWS: { type: "KEEP_ONLY_UNIQUE_ROWS", column: "<ColumnName>" }
+  - DELETE_ROWS_WITH_ORPHAN_REFERENCES: { type: "DELETE_ROWS_WITH_ORPHAN_REFERENCES", column: "<ColumnName>" }
+  - REPLACE_ORPHAN_REFERENCES: { type: "REPLACE_ORPHAN_REFERENCES", column: "<ColumnName>", newValue: "<DefaultValue>" }
+  - DELETE_DUPLICATE_ROWS: { type: "DELETE_DUPLICATE_ROWS", column: "<ColumnName>" }, or { type: "DELETE_DUPLICATE_ROWS", columns: ["<ColumnName>", "<ColumnName>"] } for a composite key
+  - KEEP_ONLY_UNIQUE_ROWS: { type: "KEEP_ONLY_UNIQUE_ROWS", column: "<ColumnName>" }, or { type: "KEEP_ONLY_UNIQUE_ROWS", columns: ["<ColumnName>", "<ColumnName>"] } for a composite key
   - SORT_ROWS_ASCENDING: { type: "SORT_ROWS_ASCENDING", column: "<ColumnName>" }
   - SORT_ROWS_DESCENDING: { type: "SORT_ROWS_DESCENDING", column: "<ColumnName>" }
   - LIMIT_ROWS: { type: "LIMIT_ROWS", count: <Count> }
@@ -65,7 +67,18 @@ export const messages = async (userInput, schema, issues) => {
   - EXTRACT_KEYWORDS: { type: "EXTRACT_KEYWORDS", column:"<ColumnName>", extractWord:"<ExtractWord>"} }
   - GENERATE_UNIQUE_ID: { type: "GENERATE_UNIQUE_ID", columnName:"<ColumnName>", idType:"<IDType>"} }
   - TOKENIZE_TEXT: { type: "TOKENIZE_TEXT", column:"<ColumnName>""} }
-  - CONVERT_TEXT_ENCODING: { type: "CONVERT_TEXT_ENCODING", column:"<ColumnName>", encoding: "<TargetEncoding>" }
+  - CONVERT_TEXT_ENCODING: { type: "CONVERT_TEXT_ENCODING", column:"<ColumnName>", fromEncoding: "<EncodingTheTextWasWronglyReadAs>", encoding: "<TargetEncoding>" }
+
+  CONVERT_TEXT_ENCODING repairs garbled text (e.g. "CafÃ©" instead of "Café"). fromEncoding is the encoding the text was wrongly read as (usually "WINDOWS-1252"), encoding is the real encoding (usually "UTF-8"). Use encoding "ASCII" to strip accents.
+  - NORMALIZE_NUMBERS: { type: "NORMALIZE_NUMBERS", column:"<ColumnName>", locale: "<NumberLocale>" }
+
+  NORMALIZE_NUMBERS turns formatted numbers such as "1.234,56", "€12", "(45)" or "12%" into plain numbers. locale is "en-US" for 1,234.56, "de-DE" for 1.234,56, "fr-FR" for 1 234,56 and "de-CH" for 1'234.56; leave it out to use the column's number format from the schema.
+  - NORMALIZE_DATA_TYPE: { type: "NORMALIZE_DATA_TYPE", column:"<ColumnName>" }
+
+  NORMALIZE_DATA_TYPE rewrites the values of a column whose schema type is a registry type (IBAN, CountryCode, PostalCodeUS, PostalCodeUK, URL, IPv4, IPv6, ISBN or one of the user's own types) in their canonical form, e.g. "gb82 west 1234 5698 7654 32" becomes "GB82WEST12345698765432" and "sw1a1aa" becomes "SW1A 1AA". Values that are not valid for the type are left unchanged.
+  - NORMALIZE_PHONE: { type: "NORMALIZE_PHONE", column:"<ColumnName>", format:"<PhoneFormat>", country:"<CountryCode>" }
+
+  NORMALIZE_PHONE rewrites the phone numbers of a column. format is "E.164" for +4930123456 (the default), "INTERNATIONAL" for +49 30 123456 or "NATIONAL" for 030 123456. country is the ISO 3166 code (e.g. "US", "DE") of the numbers written without a +country code; leave it out to use the column's or the project's phone country. Numbers that are not valid are left unchanged.
   - REMOVE_SPECIAL_CHARACTERS: { type: "REMOVE_SPECIAL_CHARACTERS", column:"<ColumnName>", character:"<SpecialCharacter>", title:"<Title>", response:"<Response>" }
 
   - REMOVE_ALL_SPECIAL_CHARACTERS: { type: "REMOVE_ALL_SPECIAL_CHARACTERS", column:"<ColumnName>", title:"<Title>", response:"<Response>" }
@@ -84,7 +97,7 @@ export const messages = async (userInput, schema, issues) => {
   - summary: Do not include this in each action. The summary must be provided **once**, separated from the list of actions. It should describe the overall effect of the actions generated in response to the user input. The summary should not be tied to a single action, but to the totality of changes the user asked for. Ensure it is present once and only once at the end of the entire response object.
   - If user uses greetings or something like starting communications, suggest the user that what he will do with the data and what you can do for him without creating any type.
   - for number never include quotes for value
-  - don't omit issueType, newValue, oldValue, rowNumber, newValues, value, minValue, maxValue, count, findText, replaceText, newFormat, transform, dataType, extractWord, columnName, idType, encoding, character in the response unless it is not applicable for the action.
+  - don't omit issueType, newValue, oldValue, rowId, newValues, value, minValue, maxValue, count, findText, replaceText, newFormat, transform, dataType, extractWord, columnName, idType, encoding, fromEncoding, character in the response unless it is not applicable for the action.
   - issueType is must for the action of REMOVE_ROWS_WITH_ISSUES, REPLACE_ISSUE_WITH_VALUE, FILL_WITH_AVERAGE, FILL_WITH_MEAN, FILL_WITH_MODE, FILL_WITH_MEDIAN, FILL_WITH_UPPER_ROW, FILL_WITH_LOWER_ROW, FILL_WITH_RANDOM.
 
 
@@ -102,7 +115,7 @@ export const messages = async (userInput, schema, issues) => {
     11. When the user specifies the decimal places, use this value in the response (e.g., by: 2 for "round to 2 decimal places").
 
     List of acceptable issue types:
-  - "NULL_VALUE", "DUPLICATE_VALUE", "TYPE_MISMATCH", "INVALID_VALUE", "INVALID_FORMAT", "INVALID_SEPARATOR", "INVALID_DATE".
+  - "NULL_VALUE", "DUPLICATE_VALUE", "TYPE_MISMATCH", "INVALID_VALUE", "INVALID_FORMAT", "INVALID_SEPARATOR", "INVALID_DATE", "PATTERN_MISMATCH", "LENGTH_VIOLATION", "INVALID_CATEGORY", "OUT_OF_RANGE", "RULE_VIOLATION", "ORPHAN_REFERENCE", "DUPLICATE_KEY", "INVALID_PHONE_NUMBER", "POSSIBLE_PHONE_NUMBER", "WRONG_REGION_PHONE_NUMBER".
 
   The output **must** match the schema keys exactly (case-sensitive). If a column doesn't exist in the schema, ignore the request.
   `;
@@ -155,6 +168,8 @@ export const response_format = {
                   "DELETE_ROWS_WHERE_VALUE_GREATER_THAN",
                   "DELETE_ROWS_WITH_NEGATIVE_VALUES",
                   "DELETE_ROWS_WHERE_VALUE_NOT_IN_RANGE",
+                  "DELETE_ROWS_WITH_ORPHAN_REFERENCES",
+                  "REPLACE_ORPHAN_REFERENCES",
                   "DELETE_DUPLICATE_ROWS",
                   "DELETE_ROWS_WITH_NULLS",
                   "KEEP_ONLY_UNIQUE_ROWS",
@@ -195,16 +210,20 @@ export const response_format = {
                   "GENERATE_UNIQUE_ID",
                   "TOKENIZE_TEXT",
                   "CONVERT_TEXT_ENCODING",
+                  "NORMALIZE_NUMBERS",
+                  "NORMALIZE_DATA_TYPE",
+                  "NORMALIZE_PHONE",
                   "REMOVE_SPECIAL_CHARACTERS",
                   "REMOVE_ALL_SPECIAL_CHARACTERS"
                 ] 
               },
               column: { type: "string", nullable: true },
+              columns: { type: "array", items: { type: "string" }, nullable: true },
               defaultValue: { type: ["string", "number"], nullable: true },
-              issueType: { type: "string", nullable: true, enum: ["NULL_VALUE", "DUPLICATE_VALUE", "TYPE_MISMATCH", "INVALID_VALUE", "INVALID_FORMAT", "INVALID_SEPARATOR", "INVALID_DATE"] },
+              issueType: { type: "string", nullable: true, enum: ["NULL_VALUE", "DUPLICATE_VALUE", "TYPE_MISMATCH", "INVALID_VALUE", "INVALID_FORMAT", "INVALID_SEPARATOR", "INVALID_DATE", "PATTERN_MISMATCH", "LENGTH_VIOLATION", "INVALID_CATEGORY", "OUT_OF_RANGE", "RULE_VIOLATION", "ORPHAN_REFERENCE", "DUPLICATE_KEY", "INVALID_PHONE_NUMBER", "POSSIBLE_PHONE_NUMBER", "WRONG_REGION_PHONE_NUMBER"] },
               newValue: { type: ["string", "number"], nullable: true },
               oldValue: { type: ["string", "number"], nullable: true },
-              rowNumber: { type: "number", nullable: true },
+              rowId: { type: "number", nullable: true },
               newValues: { type: "object", additionalProperties: true, nullable: true },
               value: { type: ["string", "number"], nullable: true },
               minValue: { type: "number", nullable: true },
@@ -220,7 +239,11 @@ export const response_format = {
               extractWord: {type: "string"},
               columnName: {type: "string"},
               idType: {type: "string", enum:["UUID", "AUTOINCREMENT"]},
-              encoding: {type: "string", enum:["UTF-8", "ASCII", "ISO-8859-1"]},
+              encoding: {type: "string", enum:["UTF-8", "ASCII", "ISO-8859-1", "WINDOWS-1252", "UTF-16LE"]},
+              fromEncoding: {type: "string", enum:["UTF-8", "ISO-8859-1", "WINDOWS-1252", "UTF-16LE"]},
+              locale: {type: "string", enum:["en-US", "de-DE", "fr-FR", "de-CH"]},
+              format: {type: "string", enum:["E.164", "INTERNATIONAL", "NATIONAL"]},
+              country: {type: "string"},
               character: {type: "string", enum:["@", "#", "$", "%", "^", "&", "*", "(", ")", "-", "_", "+", "=", "{", "}", "[", "]", "|", ";", ":", "'", "\"", "<", ">", ",", ".", "?", "/", "`", "~"]},
               // targetColumn: { type: "array", items: { type: "string" }, nullable: true },
               // update: { type: "string", nullable: true },
@@ -3,8 +3,13 @@ import express from 'express';
 const routes = express.Router();
 
 // File Controllers
-import { UploadFile, getUserFiles, deleteFile, getSchema, editSchema, getIssue } from '../controllers/File.js';
-import { CleanData, FetchActions, DeleteActions, DeleteAllActions } from '../controllers/CleanData.js';
+import { UploadFile, getUserFiles, deleteFile, getSchema, editSchema, getSchemaVersions, rollbackSchema, getIssue } from '../controllers/File.js';
+import { CleanData, FetchActions, AddAction, DeleteActions, DeleteAllActions } from '../controllers/CleanData.js';
+import { StartUpload, UploadChunk, GetUploadStatus, CompleteUpload, CancelUpload } from '../controllers/ChunkedUpload.js';
+import { GetVersions, SetVersion } from '../controllers/Version.js';
+import { GetTemplates, SaveTemplate, DeleteTemplate } from '../controllers/Template.js';
+import { GetRules, SaveRules } from '../controllers/Rule.js';
+import { GetDataTypes, SaveDataType, DeleteDataType } from '../controllers/DataType.js';
 
 
 // File routes
@@ -12,13 +17,34 @@ routes.route('/upload').post(UploadFile);
 routes.route('/projects').get(getUserFiles);
 routes.route('/delete/:id').delete(deleteFile);
 routes.route('/cleandata').post(CleanData);
-routes.route('/actions').get(FetchActions);
+routes.route('/actions').get(FetchActions).post(AddAction);
 routes.route('/deleteaction').delete(DeleteActions);
 routes.route('/deleteallaction').delete(DeleteAllActions);
 
+// Chunked uploads (chunks are sent as raw bytes, slightly above the 5MB chunk size)
+routes.route('/upload/sessions').post(StartUpload);
+routes.route('/upload/sessions/:uploadId').get(GetUploadStatus).delete(CancelUpload);
+routes.route('/upload/sessions/:uploadId/chunks/:index').put(express.raw({ type: 'application/octet-stream', limit: '6mb' }), UploadChunk);
+routes.route('/upload/sessions/:uploadId/complete').post(CompleteUpload);
+
+// Versions of a project's source file
+routes.route('/versions').get(GetVersions).put(SetVersion);
+
 // Schema
 routes.route('/getschema').get(getSchema);
 routes.route('/editschema').put(editSchema);
+routes.route('/schemaversions').get(getSchemaVersions).put(rollbackSchema);
+
+// Schema templates (saved schemas applied to later uploads)
+routes.route('/templates').get(GetTemplates).post(SaveTemplate);
+routes.route('/templates/:id').delete(DeleteTemplate);
+
+// Cross-column validation rules of a project
+routes.route('/rules').get(GetRules).put(SaveRules);
+
+// Data types of the registry: built-in ones and the user's own
+routes.route('/datatypes').get(GetDataTypes).post(SaveDataType);
+routes.route('/datatypes/:id').delete(DeleteDataType);
 
 // Issues
 routes.route('/getissue').get(getIssue);
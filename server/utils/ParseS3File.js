@@ -4,8 +4,13 @@ import csv from "csv-parser";
 import * as XLSX from "xlsx";
 import { BadRequestError } from "../errors/index.js";
 import { Readable } from "stream";
+import { SNIFF_SAMPLE_SIZE, normalizeCSVDialect, sniffCSVDialect } from "./csvDialect.js";
+import { NDJSON_EXTENSIONS, flattenRecords, parseNDJSON, sniffJSONFormat } from "./jsonRecords.js";
+import { decodeBuffer, normalizeEncoding, sniffEncoding } from "./textEncoding.js";
+import { readTableLayout, splitTableRecords } from "./tableLayout.js";
+import { normalizeNumberFormat, parseLocaleNumber } from "./numberFormat.js";
 
-export const ParseS3File = async ({ fileKey, numOfRows = Infinity }) => {
+export const ParseS3File = async ({ fileKey, numOfRows = Infinity, parseOptions = {} }) => {
   if (!fileKey) {
     throw new BadRequestError("File key is required.");
   }
@@ -35,27 +40,54 @@ export const ParseS3File = async ({ fileKey, numOfRows = Infinity }) => {
 
     const fileExt = fileKey.split(".").pop().toLowerCase();
 
+    // Text files are decoded with the encoding chosen in the upload wizard, otherwise it is detected
+    const readText = () => decodeBuffer(fileBuffer, normalizeEncoding(parseOptions?.encoding) || sniffEncoding(fileBuffer));
+
+    // Decimal and thousands separators set for the project, if any
+    const numberFormat = normalizeNumberFormat(parseOptions?.numberFormat);
+
     // Parse based on file type
     let parsedData;
     if (fileExt === "csv") {
-      parsedData = await parseCSV(fileBuffer, numOfRows);
+      const text = readText();
+      // Use the dialect chosen in the upload wizard, otherwise detect it the same way the wizard does
+      const dialect = normalizeCSVDialect(parseOptions?.dialect) || sniffCSVDialect(text.slice(0, SNIFF_SAMPLE_SIZE));
+      // Header row, skipped rows and footer as set in the upload wizard
+      const layout = readTableLayout(parseOptions);
+      parsedData = layout
+        ? await parseCSVWithLayout(text, numOfRows, dialect, layout, numberFormat)
+        : await parseCSV(text, numOfRows, dialect, numberFormat);
     } else if (["xls", "xlsx"].includes(fileExt)) {
-      parsedData = parseExcel(fileBuffer, numOfRows);
-    } else if (fileExt === "json") {
-      parsedData = JSON.parse(fileBuffer.toString("utf-8"));
+      parsedData = parseExcel(fileBuffer, numOfRows, parseOptions?.sheets, readTableLayout(parseOptions), numberFormat);
+    } else if (["json", ...NDJSON_EXTENSIONS].includes(fileExt)) {
+      const text = readText();
+      parsedData = parseJSON(text, numOfRows, fileExt, parseOptions?.json);
     } else {
-      parsedData = fileBuffer.toString("utf-8");
+      parsedData = readText();
     }
 
-    return parsedData;
+    return Array.isArray(parsedData) ? renameColumns(parsedData, parseOptions?.renameColumns) : parsedData;
   } catch (error) {
     console.error("Failed to read or parse the file from S3:", error);
+    if (error instanceof BadRequestError) throw error;
     throw new BadRequestError("Failed to read or parse the file.");
   }
 };
 
-// Helper function to convert numeric strings to numbers and replace empty strings with null
-const convertNumbers = (obj) => {
+// Reads columns under the names set in parseOptions.renameColumns ({ fileColumn: newName }), keeping their order
+const renameColumns = (rows, renames) => {
+  if (!renames || Object.keys(renames).length === 0) return rows;
+  return rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [Object.hasOwn(renames, column) ? renames[column] : column, value])
+  ));
+};
+
+// Helper function to convert numeric strings to numbers and replace empty strings with null.
+// With a project number format, formatted numbers such as "1.234,56" or "(45)" are converted too;
+// currency and percentage values stay text for Currency and Percentage columns.
+// Digits with a leading zero ("02134", "0306406152") are codes rather than amounts and stay text too,
+// so postal codes and ISBNs keep their zeros; Integer and Float columns still read them as numbers.
+const convertNumbers = (obj, numberFormat = null) => {
   return Object.fromEntries(
     Object.entries(obj).map(([key, value]) => {
       if (typeof value === "string") {
@@ -65,10 +97,17 @@ const convertNumbers = (obj) => {
         if (trimmedValue === "") {
           return [key, null];
         }
+
+        if (/^[-+]?0\d/.test(trimmedValue)) {
+          return [key, value];
+        }
         
         // Convert numeric strings to numbers
-        if (trimmedValue.match(/^-?\d+(\.\d+)?$/)) {
-          return [key, Number(trimmedValue)];
+        const parsed = numberFormat
+          ? parseLocaleNumber(trimmedValue, numberFormat)
+          : trimmedValue.match(/^-?\d+(\.\d+)?$/) && { value: Number(trimmedValue), kind: "number" };
+        if (parsed && parsed.kind === "number") {
+          return [key, parsed.value];
         }
       }
       return [key, value];
@@ -77,18 +116,22 @@ const convertNumbers = (obj) => {
 };
 
 
-const parseCSV = (fileBuffer, numOfRows) => {
+const parseCSV = (text, numOfRows, dialect, numberFormat) => {
   return new Promise((resolve, reject) => {
     const results = [];
-    const stream = Readable.from(fileBuffer.toString("utf-8"));
+    const stream = Readable.from(text);
     let rowCount = 0;
     
     // Instead of processing the entire file, we limit row count
     stream
-      .pipe(csv())
+      .pipe(csv({
+        separator: dialect.delimiter,
+        quote: dialect.quoteChar,
+        escape: dialect.quoteChar,
+      }))
       .on("data", (data) => {
         if (rowCount < numOfRows) {
-          const rowWithIndex = { ...convertNumbers(data), originalRowIndex: rowCount };
+          const rowWithIndex = { ...convertNumbers(data, numberFormat), originalRowIndex: rowCount };
           results.push(rowWithIndex);
           // results.push(convertNumbers(data));
           rowCount++;
@@ -102,24 +145,98 @@ const parseCSV = (fileBuffer, numOfRows) => {
   });
 };
 
-const parseExcel = (fileBuffer, numOfRows) => {
+// Reads the records as plain cell arrays so the layout decides which rows are the header.
+// Enough records are read to cover the skipped rows, the header, `numOfRows` and the footer;
+// the footer is only dropped when the end of the file was reached.
+const parseCSVWithLayout = (text, numOfRows, dialect, layout, numberFormat) => {
+  return new Promise((resolve, reject) => {
+    const records = [];
+    const stream = Readable.from(text);
+    const needed = layout.skipTop + layout.headerRows + numOfRows + layout.skipBottom;
+    let finished = false;
+
+    const finish = (reachedEnd) => {
+      if (finished) return;
+      finished = true;
+      const { headers, data } = splitTableRecords(records, layout, reachedEnd);
+      resolve(data.slice(0, numOfRows).map((record, index) => {
+        const row = convertNumbers(headers.reduce((acc, header, column) => {
+          acc[header] = record[column] ?? null;
+          return acc;
+        }, {}), numberFormat);
+        return { ...row, originalRowIndex: index };
+      }));
+    };
+
+    stream
+      .pipe(csv({
+        headers: false,
+        separator: dialect.delimiter,
+        quote: dialect.quoteChar,
+        escape: dialect.quoteChar,
+      }))
+      .on("data", (data) => {
+        // Blank lines come through as empty objects
+        const record = Object.values(data);
+        if (record.length === 0) return;
+
+        if (records.length < needed) {
+          records.push(record);
+        } else {
+          stream.destroy();
+          finish(false);
+        }
+      })
+      .on("end", () => finish(true))
+      .on("error", (err) => reject(err));
+  });
+};
+
+// Reads a JSON array (or single object) or NDJSON document and flattens nested objects
+// into dotted columns, as configured in the upload wizard (every level by default)
+const parseJSON = (text, numOfRows, fileExt, jsonOptions = {}) => {
+  const format = jsonOptions?.format
+    || (NDJSON_EXTENSIONS.includes(fileExt) ? "ndjson" : sniffJSONFormat(text.slice(0, SNIFF_SAMPLE_SIZE)));
+
+  let records;
+  if (format === "ndjson") {
+    records = parseNDJSON(text, numOfRows);
+  } else {
+    const document = JSON.parse(text);
+    records = (Array.isArray(document) ? document : [document]).slice(0, numOfRows);
+  }
+
+  const flattenDepth = jsonOptions?.flattenDepth === undefined ? null : jsonOptions.flattenDepth;
+  return flattenRecords(records, flattenDepth).map((row, index) => ({ ...row, originalRowIndex: index }));
+};
+
+// Reads the sheets picked in the upload wizard (the first sheet by default) and
+// combines their rows in the given order, each sheet using its own header row.
+// The layout from the wizard (skipped rows, header rows, footer) applies to every sheet.
+const parseExcel = (fileBuffer, numOfRows, selectedSheets, layout, numberFormat) => {
   const workbook = XLSX.read(fileBuffer, { type: "buffer" });
-  const sheetNames = workbook.SheetNames;
+  const sheetNames = selectedSheets?.length ? selectedSheets : workbook.SheetNames.slice(0, 1);
 
-  return sheetNames.reduce((sheets, sheetName) => {
-    let sheetData = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1 });
+  const missingSheet = sheetNames.find(sheetName => !workbook.Sheets[sheetName]);
+  if (missingSheet) {
+    throw new BadRequestError(`Sheet "${missingSheet}" was not found in the workbook.`);
+  }
 
-    let parsedData = [];
-    let rowCount = 0;
-    
-    const headers = sheetData[0]; // first row as header
+  let parsedData = [];
+  let rowCount = 0;
 
-    for (let i = 1; i < sheetData.length; i++) {
-      if (numOfRows !== Infinity && rowCount >= numOfRows) break;
+  for (const sheetName of sheetNames) {
+    const sheetData = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, blankrows: false });
+    const { headers, data } = layout
+      ? splitTableRecords(sheetData, layout, true)
+      : { headers: sheetData[0] || [], data: sheetData.slice(1) }; // first row as header
 
-      const row = convertNumbers(sheetData[i]);
+    for (let i = 0; i < data.length; i++) {
+      if (numOfRows !== Infinity && rowCount >= numOfRows) return parsedData;
+
+      const row = convertNumbers(data[i], numberFormat);
       const rowWithHeaders = headers.reduce((acc, header, index) => {
-        acc[header] = row[index];
+        acc[header] = row[index] ?? null;
         return acc;
       }, {});
 
@@ -127,11 +244,9 @@ const parseExcel = (fileBuffer, numOfRows) => {
       parsedData.push(rowWithHeaders);
       rowCount++;
     }
+  }
 
-    sheets[sheetName] = parsedData;
-
-    return sheets;
-  }, {});
+  return parsedData;
 };
 
 
@@ -0,0 +1,56 @@
+// Tests for parsing stored files into rows
+import { Readable } from "stream";
+import s3 from "../../config/s3.js";
+import { ParseS3File } from "../ParseS3File.js";
+import { validateParsedData } from "../validateParsedData.js";
+
+jest.mock("../../config/s3.js", () => ({ __esModule: true, default: { send: jest.fn() } }));
+
+const mockFile = (text) => {
+    s3.send.mockResolvedValue({ ContentLength: text.length, Body: Readable.from([Buffer.from(text)]) });
+};
+
+describe("ParseS3File", () => {
+    it("converts numbers but keeps codes with a leading zero as written", async () => {
+        mockFile("zip,isbn,qty,price\n02134,0306406152,7,0.5\n10001,0-8044-2957-X,12,3\n");
+
+        const rows = await ParseS3File({ fileKey: "csv/books.csv" });
+
+        expect(rows).toEqual([
+            { zip: "02134", isbn: "0306406152", qty: 7, price: 0.5, originalRowIndex: 0 },
+            { zip: 10001, isbn: "0-8044-2957-X", qty: 12, price: 3, originalRowIndex: 1 }
+        ]);
+    });
+
+    it("keeps codes with a leading zero as written with a project number format", async () => {
+        mockFile("zip;qty;price\n02134;1.200;0,5\n");
+
+        const rows = await ParseS3File({
+            fileKey: "csv/books.csv",
+            parseOptions: { dialect: { delimiter: ";", quoteChar: "\"" }, numberFormat: { locale: "de-DE" } }
+        });
+
+        expect(rows).toEqual([{ zip: "02134", qty: 1200, price: 0.5, originalRowIndex: 0 }]);
+    });
+
+    it("lets postal codes and ISBNs with a leading zero pass validation", async () => {
+        mockFile("zip,isbn,qty\n02134,0306406152,007\n");
+
+        const rows = await ParseS3File({ fileKey: "csv/books.csv" });
+        const issues = validateParsedData(rows, {
+            zip: { dataType: "PostalCodeUS" },
+            isbn: { dataType: "ISBN" },
+            qty: { dataType: "Integer" }
+        });
+
+        expect(issues).toEqual([]);
+    });
+
+    it("reads renamed columns under the names set in the parse options", async () => {
+        mockFile("customer_id,qty\n7,1\n");
+
+        const rows = await ParseS3File({ fileKey: "csv/orders.csv", parseOptions: { renameColumns: { customer_id: "cust_id" } } });
+
+        expect(rows).toEqual([{ cust_id: 7, qty: 1, originalRowIndex: 0 }]);
+    });
+});
@@ -0,0 +1,46 @@
+// Tests for the allowed values of category columns
+import { inferColumnTypes } from "../typeInference.js";
+import { checkAllowedValue, closestAllowedValue, describeAllowedValuesError, seedAllowedValues } from "../allowedValues.js";
+
+describe("allowed values", () => {
+    const allowed = ["Active", "Inactive", "Pending"];
+    const schema = { dataType: "String", allowedValues: allowed };
+
+    it("suggests the closest allowed value", () => {
+        expect(closestAllowedValue("actve", allowed)).toBe("Active");
+        expect(closestAllowedValue(" PENDING ", allowed)).toBe("Pending");
+        expect(closestAllowedValue("in_active", allowed)).toBe("Inactive");
+        expect(closestAllowedValue("Closed", allowed)).toBeNull();
+    });
+
+    it("reports values outside the list with the suggestion", () => {
+        expect(checkAllowedValue("Active", schema)).toBeNull();
+        expect(checkAllowedValue(null, schema)).toBeNull();
+        expect(checkAllowedValue("x", { dataType: "String" })).toBeNull();
+        expect(checkAllowedValue("inactiv", schema)).toEqual({
+            issueType: "INVALID_CATEGORY",
+            issueDesc: "Value Not Allowed (Found: 'inactiv', Did You Mean: 'Inactive')",
+            value: "inactiv",
+            suggestion: "Inactive"
+        });
+        expect(checkAllowedValue("Closed", schema)).toMatchObject({
+            issueDesc: "Value Not Allowed (Expected one of: Active, Inactive, Pending, Found: 'Closed')",
+            suggestion: null
+        });
+    });
+
+    it("seeds the list from repeated values, leaving out one-off typos", () => {
+        expect(seedAllowedValues(new Map([["Active", 5], ["Pending", 3], ["actve", 1], ["Closed", 1]]))).toEqual(["Active", "Closed", "Pending"]);
+
+        const rows = Array.from({ length: 12 }, (_, index) => ({ status: allowed[index % 3], name: `Customer ${index}` }));
+        const inference = inferColumnTypes([...rows, { status: "actve", name: "Customer 12" }]);
+        expect(inference.status.categories).toEqual(allowed);
+        expect(inference.name.categories).toBeUndefined();
+    });
+
+    it("accepts only a list of non-empty text when the schema is saved", () => {
+        expect(describeAllowedValuesError("status", schema)).toBeNull();
+        expect(describeAllowedValuesError("status", { allowedValues: [] })).toMatch(/at least one value/);
+        expect(describeAllowedValuesError("status", { allowedValues: ["Active", ""] })).toMatch(/non-empty text/);
+    });
+});
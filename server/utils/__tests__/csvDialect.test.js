@@ -0,0 +1,30 @@
+// Tests for CSV dialect detection, with the cases of the client's sniffCSVDialect tests
+import { normalizeCSVDialect, sniffCSVDialect } from "../csvDialect.js";
+
+describe("CSV dialect", () => {
+    it("detects semicolon, tab and pipe delimiters", () => {
+        expect(sniffCSVDialect("name;price\nA;1,50\nB;2,75\n").delimiter).toBe(";");
+        expect(sniffCSVDialect("name\tprice\nA\t1.50\nB\t2.75\n").delimiter).toBe("\t");
+        expect(sniffCSVDialect("name|price\nA|1.50\nB|2.75\n").delimiter).toBe("|");
+    });
+
+    it("detects single-quoted fields", () => {
+        const dialect = sniffCSVDialect("'name','city'\n'Smith, J','Paris'\n'Doe, A','Rome'\n");
+
+        expect(dialect).toEqual({ delimiter: ",", quoteChar: "'" });
+    });
+
+    it("falls back to the comma dialect for single-column text", () => {
+        expect(sniffCSVDialect("name\nA\nB\n")).toEqual({ delimiter: ",", quoteChar: "\"" });
+    });
+
+    it("ignores a last line cut off by the sample size", () => {
+        expect(sniffCSVDialect("id;note\n1;\"a, b\"\n2;c\n3;\"unfinished, ").delimiter).toBe(";");
+    });
+
+    it("accepts only the supported delimiters and quotes from the client", () => {
+        expect(normalizeCSVDialect({ delimiter: ";", quoteChar: "'" })).toEqual({ delimiter: ";", quoteChar: "'" });
+        expect(normalizeCSVDialect({ delimiter: ":", quoteChar: "\"" })).toBeNull();
+        expect(normalizeCSVDialect("comma")).toBeNull();
+    });
+});
@@ -0,0 +1,51 @@
+// Tests for the registry of domain data types
+import { buildDataTypeRegistry, checkDataType, describeDataTypeError, normalizeDataTypeValue } from "../dataTypes.js";
+
+describe("data types", () => {
+    const registry = buildDataTypeRegistry();
+
+    it("checks the format before the check digits", () => {
+        expect(checkDataType("GB82 WEST 1234 5698 7654 32", registry.IBAN)).toBeNull();
+        expect(checkDataType("GB82WEST12345698765433", registry.IBAN).issueDesc).toMatch(/Check Digits/);
+        expect(checkDataType("GB82", registry.IBAN).issueDesc).toMatch(/Invalid IBAN Format/);
+    });
+
+    it("accepts ISBN-10 and ISBN-13 numbers with a valid check digit", () => {
+        expect(checkDataType("978-0-306-40615-7", registry.ISBN)).toBeNull();
+        expect(checkDataType("0-8044-2957-X", registry.ISBN)).toBeNull();
+        expect(checkDataType("978-0-306-40615-8", registry.ISBN)).toMatchObject({ issueType: "INVALID_FORMAT" });
+    });
+
+    it("normalises values before checking them", () => {
+        expect(normalizeDataTypeValue(" sw1a1aa ", registry.PostalCodeUK)).toBe("SW1A 1AA");
+        expect(checkDataType("sw1a1aa", registry.PostalCodeUK)).toBeNull();
+        expect(checkDataType("12345-6789", registry.PostalCodeUS)).toBeNull();
+        expect(checkDataType("1234", registry.PostalCodeUS)).toMatchObject({ issueType: "INVALID_FORMAT" });
+    });
+
+    it("adds the user's types next to the built-in ones, which keep their names", () => {
+        const withCustom = buildDataTypeRegistry([
+            { name: "SKU", pattern: "[A-Z]{3}-\\d{4}", normalizer: "upper" },
+            { name: "IBAN", pattern: "\\d+" }
+        ]);
+
+        expect(checkDataType("abc-1234", withCustom.SKU)).toBeNull();
+        expect(checkDataType("abc-12345", withCustom.SKU)).toMatchObject({ issueType: "INVALID_FORMAT" });
+        expect(withCustom.IBAN.builtIn).toBe(true);
+    });
+
+    it("explains custom types that cannot be saved", () => {
+        expect(describeDataTypeError({ name: "SKU", pattern: "[A-Z]{3}" })).toBeNull();
+        expect(describeDataTypeError({ name: "Email", pattern: "x" })).toMatch(/built-in data type/);
+        expect(describeDataTypeError({ name: "SKU" })).toMatch(/needs a pattern, a checksum or both/);
+        expect(describeDataTypeError({ name: "SKU", pattern: "(" })).toMatch(/not a valid regular expression/);
+        expect(describeDataTypeError({ name: "SKU", checksum: "crc" })).toMatch(/Unknown checksum/);
+    });
+
+    it("holds custom patterns to the limits of column patterns", () => {
+        expect(describeDataTypeError({ name: "Code", pattern: "(\\d+-?)+" })).toMatch(/repeats a group/);
+        expect(describeDataTypeError({ name: "Code", pattern: "a".repeat(201) })).toMatch(/longer than 200 characters/);
+        expect(buildDataTypeRegistry([{ name: "Code", pattern: "(a+)+" }]).Code.pattern).toBeNull();
+        expect(describeDataTypeError({ name: "Code", pattern: "(?:\\d{3}-)?\\d{4}" })).toBeNull();
+    });
+});
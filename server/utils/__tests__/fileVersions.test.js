@@ -0,0 +1,103 @@
+// Tests for the versions of a project's source file
+import { queryDb } from "../../DB_methods/query.js";
+import { BadRequestError, NotFoundError } from "../../errors/index.js";
+import { deleteFileFromS3 } from "../deleteFromS3.js";
+import { loadProjectRecords, replaceFileIssues } from "../projectRecords.js";
+import { activateFileVersion, addFileVersion, getFileVersions } from "../fileVersions.js";
+
+jest.mock("../../DB_methods/query.js", () => ({ queryDb: jest.fn() }));
+jest.mock("../deleteFromS3.js", () => ({ deleteFileFromS3: jest.fn() }));
+jest.mock("../projectRecords.js", () => ({ loadProjectRecords: jest.fn(), replaceFileIssues: jest.fn() }));
+
+const file = {
+    file_id: "file-1",
+    user_id: "user-1",
+    original_name: "orders.csv",
+    file_key: "csv/v1.csv",
+    file_type: "csv",
+    file_size: 100,
+    parse_options: { encoding: "utf-8" },
+    current_version: 1
+};
+const schema = { sku: { dataType: "String" }, qty: { dataType: "Integer" } };
+
+// Answers the project's queries from its versions, schema and actions
+const mockProject = ({ versions, actions = [] }) => {
+    queryDb.mockImplementation(async (sql, params) => {
+        if (sql.includes("FROM file_versions")) return versions;
+        if (sql.includes("INSERT INTO file_versions")) {
+            versions.push({ version_number: params[2], file_key: params[4], file_type: params[5], file_size: params[6], parse_options: JSON.parse(params[7]) });
+        }
+        if (sql.includes("FROM FileSchemas")) return [{ schema_definition: schema }];
+        if (sql.includes("FROM actions")) return actions;
+        return [];
+    });
+};
+
+const updatesOfFiles = () => queryDb.mock.calls.filter(([sql]) => sql.startsWith("UPDATE files"));
+
+describe("file versions", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        deleteFileFromS3.mockResolvedValue();
+        replaceFileIssues.mockResolvedValue([{ row: 1 }]);
+    });
+
+    it("makes the current file version 1 of a project uploaded before versioning", async () => {
+        queryDb.mockResolvedValue([]);
+
+        await getFileVersions(file);
+
+        const insert = queryDb.mock.calls.find(([sql]) => sql.includes("INSERT INTO file_versions"));
+        expect(insert[1]).toEqual(["file-1", "user-1", "orders.csv", "csv/v1.csv", "csv", 100, JSON.stringify({ encoding: "utf-8" })]);
+    });
+
+    it("switches the project to a version and reports changed columns and stale actions", async () => {
+        mockProject({
+            versions: [
+                { version_number: 1, file_key: "csv/v1.csv", file_type: "csv", file_size: 100, parse_options: {} },
+                { version_number: 2, file_key: "csv/v2.csv", file_type: "csv", file_size: 120, parse_options: {} }
+            ],
+            actions: [{ action_id: "a-1", title: "Fill qty", action_details: { type: "FILL_MISSING", column: "qty" } }]
+        });
+        loadProjectRecords.mockResolvedValue([{ sku: "A-1", price: 2, originalRowIndex: 0 }]);
+
+        const result = await activateFileVersion({ userId: "user-1", file, versionNumber: 2 });
+
+        expect(updatesOfFiles()[0][1]).toEqual(["csv/v2.csv", "csv", 120, "{}", 2, "file-1"]);
+        expect(result).toEqual({
+            currentVersion: 2,
+            rowCount: 1,
+            issueCount: 1,
+            addedColumns: ["price"],
+            removedColumns: ["qty"],
+            actionWarnings: [{ action_id: "a-1", title: "Fill qty", type: "FILL_MISSING", missingColumns: ["qty"] }]
+        });
+    });
+
+    it("refuses versions that do not exist or have no rows", async () => {
+        mockProject({ versions: [{ version_number: 1, file_key: "csv/v1.csv", file_type: "csv", file_size: 100, parse_options: {} }] });
+        loadProjectRecords.mockResolvedValue([]);
+
+        await expect(activateFileVersion({ userId: "user-1", file, versionNumber: 3 })).rejects.toBeInstanceOf(NotFoundError);
+        await expect(activateFileVersion({ userId: "user-1", file, versionNumber: 1 })).rejects.toBeInstanceOf(BadRequestError);
+        expect(updatesOfFiles()).toHaveLength(0);
+    });
+
+    it("drops a new version that cannot be read and goes back to the version the project was on", async () => {
+        mockProject({ versions: [{ version_number: 1, file_key: "csv/v1.csv", file_type: "csv", file_size: 100, parse_options: {} }] });
+        loadProjectRecords.mockResolvedValue([{ sku: "A-1", qty: 1, originalRowIndex: 0 }]);
+        replaceFileIssues.mockRejectedValue(new Error("issues could not be stored"));
+
+        await expect(addFileVersion({
+            userId: "user-1", file, fileKey: "csv/v2.csv", originalName: "orders-2.csv", fileType: "csv", fileSize: 120, parseOptions: {}
+        })).rejects.toThrow("issues could not be stored");
+
+        expect(queryDb).toHaveBeenCalledWith(expect.stringContaining("DELETE FROM file_versions"), ["file-1", 2]);
+        expect(updatesOfFiles().map(([, params]) => params)).toEqual([
+            ["csv/v2.csv", "csv", 120, "{}", 2, "file-1"],
+            ["csv/v1.csv", "csv", 100, JSON.stringify({ encoding: "utf-8" }), 1, "file-1"]
+        ]);
+        expect(deleteFileFromS3).toHaveBeenCalledWith("csv/v2.csv");
+    });
+});
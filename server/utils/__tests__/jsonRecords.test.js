@@ -0,0 +1,51 @@
+// Tests for JSON and NDJSON records, with the cases of the client's sniffJSONFormat and flattenRecord tests
+import { flattenRecord, flattenRecords, normalizeJSONOptions, parseNDJSON, sniffJSONFormat } from "../jsonRecords.js";
+
+describe("JSON records", () => {
+    const record = { id: 1, address: { city: "Oslo", geo: { lat: 59.9 } }, tags: ["a", "b"] };
+
+    it("detects one record per line as NDJSON", () => {
+        expect(sniffJSONFormat("{\"id\":1}\n{\"id\":2}\n")).toBe("ndjson");
+    });
+
+    it("treats arrays and pretty-printed objects as JSON documents", () => {
+        expect(sniffJSONFormat("[{\"id\":1},\n{\"id\":2}]")).toBe("json");
+        expect(sniffJSONFormat("{\n  \"id\": 1\n}")).toBe("json");
+    });
+
+    it("reads one record per non-empty line and names the line it cannot read", () => {
+        expect(parseNDJSON("{\"id\":1}\r\n\n{\"id\":2}\n{\"id\":3}\n", 2)).toEqual([{ id: 1 }, { id: 2 }]);
+        expect(() => parseNDJSON("{\"id\":1}\n{\"id\":\n")).toThrow("Invalid JSON on line 2.");
+    });
+
+    it("flattens every nested level into dotted columns and keeps arrays", () => {
+        expect(flattenRecord(record)).toEqual({
+            id: 1,
+            "address.city": "Oslo",
+            "address.geo.lat": 59.9,
+            tags: ["a", "b"]
+        });
+    });
+
+    it("keeps objects below the flatten depth as values", () => {
+        expect(flattenRecord(record, 1)).toEqual({
+            id: 1,
+            "address.city": "Oslo",
+            "address.geo": { lat: 59.9 },
+            tags: ["a", "b"]
+        });
+    });
+
+    it("gives every record the columns of all records", () => {
+        expect(flattenRecords([{ id: 1 }, { id: 2, address: { city: "Oslo" } }])).toEqual([
+            { id: 1, "address.city": null },
+            { id: 2, "address.city": "Oslo" }
+        ]);
+    });
+
+    it("accepts only a known format and a whole flatten depth from the client", () => {
+        expect(normalizeJSONOptions({ format: "ndjson", flattenDepth: 0 })).toEqual({ format: "ndjson", flattenDepth: 0 });
+        expect(normalizeJSONOptions({ flattenDepth: null })).toEqual({ flattenDepth: null });
+        expect(normalizeJSONOptions({ format: "xml", flattenDepth: -1 })).toBeNull();
+    });
+});
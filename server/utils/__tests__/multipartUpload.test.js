@@ -0,0 +1,62 @@
+// Tests for storing chunked uploads as S3 multipart uploads
+import crypto from "crypto";
+import s3 from "../../config/s3.js";
+import {
+    MAX_CHUNKED_FILE_SIZE,
+    UPLOAD_CHUNK_SIZE,
+    completeMultipartUpload,
+    getTotalChunks,
+    uploadChunkPart,
+    verifyChunkChecksum
+} from "../multipartUpload.js";
+
+jest.mock("../../config/s3.js", () => ({ __esModule: true, default: { send: jest.fn() } }));
+
+describe("multipart upload", () => {
+    beforeEach(() => {
+        s3.send.mockReset();
+    });
+
+    it("accepts only files ParseS3File can read into one string", () => {
+        expect(MAX_CHUNKED_FILE_SIZE).toBeLessThan(512 * 1024 * 1024);
+        expect(getTotalChunks(MAX_CHUNKED_FILE_SIZE)).toBe(100);
+        expect(getTotalChunks(UPLOAD_CHUNK_SIZE + 1)).toBe(2);
+        expect(getTotalChunks(1)).toBe(1);
+    });
+
+    it("checks a chunk against the checksum computed by the browser", () => {
+        const body = Buffer.from("id,name\n1,a\n");
+        const checksum = crypto.createHash("sha256").update(body).digest("hex");
+
+        expect(verifyChunkChecksum(body, checksum.toUpperCase())).toBe(checksum);
+        expect(() => verifyChunkChecksum(body, "0".repeat(64))).toThrow(/checksum does not match/);
+        expect(() => verifyChunkChecksum(body, undefined)).toThrow(/checksum does not match/);
+    });
+
+    it("stores chunk n as part n + 1 and assembles the parts in order", async () => {
+        s3.send.mockResolvedValueOnce({ ETag: "\"etag-3\"" }).mockResolvedValueOnce({});
+
+        const etag = await uploadChunkPart({ fileKey: "csv/a.csv", s3UploadId: "s3-upload", chunkIndex: 2, body: Buffer.from("abc") });
+        await completeMultipartUpload({
+            fileKey: "csv/a.csv",
+            s3UploadId: "s3-upload",
+            chunks: [{ chunk_index: 0, etag: "e1" }, { chunk_index: 1, etag: "e2" }]
+        });
+
+        expect(etag).toBe("\"etag-3\"");
+        expect(s3.send.mock.calls[0][0].input).toMatchObject({ PartNumber: 3, ContentLength: 3, UploadId: "s3-upload" });
+        expect(s3.send.mock.calls[1][0].input.MultipartUpload.Parts).toEqual([
+            { PartNumber: 1, ETag: "e1" },
+            { PartNumber: 2, ETag: "e2" }
+        ]);
+    });
+
+    it("reports a failed S3 request as a bad request", async () => {
+        s3.send.mockRejectedValueOnce(new Error("network"));
+        jest.spyOn(console, "error").mockImplementation(() => {});
+
+        await expect(uploadChunkPart({ fileKey: "csv/a.csv", s3UploadId: "s3-upload", chunkIndex: 0, body: Buffer.from("a") }))
+            .rejects.toThrow("Chunk upload to S3 failed.");
+        console.error.mockRestore();
+    });
+});
@@ -0,0 +1,38 @@
+// Tests for locale-aware number parsing, with the cases of the client's parseLocaleNumber tests
+import { DEFAULT_NUMBER_FORMAT, normalizeNumberFormat, parseLocaleNumber, resolveNumberFormat } from "../numberFormat.js";
+
+describe("number format", () => {
+    const forLocale = (locale) => normalizeNumberFormat({ locale });
+
+    it("reads the separators of the chosen locale", () => {
+        expect(parseLocaleNumber("1.234,56", forLocale("de-DE"))).toEqual({ value: 1234.56, kind: "number" });
+        expect(parseLocaleNumber("1\u00a0234,5", forLocale("fr-FR"))).toEqual({ value: 1234.5, kind: "number" });
+        expect(parseLocaleNumber("1'234.56", forLocale("de-CH"))).toEqual({ value: 1234.56, kind: "number" });
+        expect(parseLocaleNumber("1,234.56")).toEqual({ value: 1234.56, kind: "number" });
+    });
+
+    it("reads currency amounts, percentages and negatives", () => {
+        expect(parseLocaleNumber("€1.234,50", forLocale("de-DE"))).toEqual({ value: 1234.5, kind: "currency" });
+        expect(parseLocaleNumber("12 EUR")).toEqual({ value: 12, kind: "currency" });
+        expect(parseLocaleNumber("$-12")).toEqual({ value: -12, kind: "currency" });
+        expect(parseLocaleNumber("12,5 %", forLocale("de-DE"))).toEqual({ value: 12.5, kind: "percentage" });
+        expect(parseLocaleNumber("(45)")).toEqual({ value: -45, kind: "number" });
+        expect(parseLocaleNumber("45-")).toEqual({ value: -45, kind: "number" });
+    });
+
+    it("rejects text that is not a number in the format", () => {
+        expect(parseLocaleNumber("1,234.56", forLocale("de-DE"))).toBeNull();
+        expect(parseLocaleNumber("12,34,567")).toBeNull();
+        expect(parseLocaleNumber("12abc")).toBeNull();
+        expect(parseLocaleNumber("")).toBeNull();
+    });
+
+    it("reads a column with its own format, else the project's", () => {
+        expect(normalizeNumberFormat({ decimalSeparator: "," })).toMatchObject({ decimalSeparator: ",", thousandsSeparator: "." });
+        expect(normalizeNumberFormat({ locale: "xx-XX" })).toBeNull();
+        expect(normalizeNumberFormat({ decimalSeparator: ",", thousandsSeparator: "," })).toBeNull();
+        expect(resolveNumberFormat({ numberFormat: { locale: "de-CH" } }, { locale: "de-DE" })).toMatchObject({ locale: "de-CH" });
+        expect(resolveNumberFormat({}, { locale: "de-DE" })).toMatchObject({ locale: "de-DE" });
+        expect(resolveNumberFormat({}, null)).toBe(DEFAULT_NUMBER_FORMAT);
+    });
+});
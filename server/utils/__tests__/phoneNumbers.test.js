@@ -0,0 +1,28 @@
+// Tests for phone number validation and formatting
+import { checkPhoneNumber, describePhoneCountryError, formatPhoneNumber, resolvePhoneCountry } from "../phoneNumbers.js";
+
+describe("phone numbers", () => {
+    it("reads numbers without a +country code with the column's or the project's country", () => {
+        expect(resolvePhoneCountry({ phoneCountry: "DE" }, "US")).toBe("DE");
+        expect(resolvePhoneCountry({}, "US")).toBe("US");
+        expect(checkPhoneNumber("030 12345678", "DE")).toBeNull();
+        expect(checkPhoneNumber("030 12345678", null)).toMatchObject({ issueType: "INVALID_PHONE_NUMBER" });
+    });
+
+    it("tells unreadable numbers from numbers of another country", () => {
+        expect(checkPhoneNumber("12", "DE")).toMatchObject({ issueType: "INVALID_PHONE_NUMBER" });
+        expect(checkPhoneNumber("+1 213 373 4253", "DE")).toMatchObject({ issueType: "WRONG_REGION_PHONE_NUMBER" });
+        expect(checkPhoneNumber("+1 213 373 4253", "US")).toBeNull();
+    });
+
+    it("writes valid numbers in the requested format", () => {
+        expect(formatPhoneNumber("030 12345678", "DE")).toBe("+493012345678");
+        expect(formatPhoneNumber("030 12345678", "DE", "INTERNATIONAL")).toBe("+49 30 12345678");
+        expect(formatPhoneNumber("12", "DE")).toBeNull();
+    });
+
+    it("explains unknown countries", () => {
+        expect(describePhoneCountryError("DE")).toBeNull();
+        expect(describePhoneCountryError("XX", "phone")).toMatch(/Column 'phone' has an unknown phone country/);
+    });
+});
@@ -0,0 +1,106 @@
+// Tests for appending batches of rows to a project
+import { queryDb } from "../../DB_methods/query.js";
+import { ParseS3File } from "../ParseS3File.js";
+import { deleteFileFromS3 } from "../deleteFromS3.js";
+import { appendBatchToFile, requireRows } from "../projectRecords.js";
+
+jest.mock("../../DB_methods/query.js", () => ({ queryDb: jest.fn() }));
+jest.mock("../ParseS3File.js", () => ({ ParseS3File: jest.fn() }));
+jest.mock("../deleteFromS3.js", () => ({ deleteFileFromS3: jest.fn() }));
+
+const file = { file_id: "file-1", file_key: "csv/source.csv", parse_options: {}, current_version: 1 };
+const schema = {
+    sku: { dataType: "String", unique: true },
+    qty: { dataType: "Integer", unique: false }
+};
+
+// Answers the project's queries from its saved schema; returns the rows written to `issues`
+const mockProject = () => {
+    const storedIssues = [];
+    queryDb.mockImplementation(async (sql, params) => {
+        if (sql.includes("FROM FileSchemas")) {
+            return [{ schema_definition: schema, validation_rules: null, unique_keys: null, phone_country: null }];
+        }
+        if (sql.includes("INSERT INTO issues")) storedIssues.push(...params[0]);
+        return [];
+    });
+    return storedIssues;
+};
+
+const batch = (fileKey) => ({
+    userId: "user-1",
+    file,
+    fileKey,
+    originalName: "batch.csv",
+    fileType: "csv",
+    fileSize: 100,
+    parseOptions: {}
+});
+
+describe("appendBatchToFile", () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+        deleteFileFromS3.mockResolvedValue();
+    });
+
+    it("stores only the issues of the new rows, which continue the project's row IDs", async () => {
+        const storedIssues = mockProject();
+        ParseS3File.mockImplementation(async ({ fileKey }) => (fileKey === file.file_key
+            ? [
+                { sku: "A", qty: "x", originalRowIndex: 0 },
+                { sku: "B", qty: 2, originalRowIndex: 1 }
+            ]
+            : [
+                { sku: "B", qty: 1, extra: "ignored", originalRowIndex: 0 },
+                { sku: "C", qty: 3, extra: "ignored", originalRowIndex: 1 }
+            ]));
+
+        const summary = await appendBatchToFile(batch("csv/batch.csv"));
+
+        expect(summary).toMatchObject({ rowsAdded: 2, totalRows: 4, issuesAdded: 1, ignoredColumns: ["extra"] });
+        // The existing row 1 with a bad quantity is left alone, the batch's duplicate SKU is row 3
+        expect(storedIssues).toHaveLength(1);
+        expect(storedIssues[0][2]).toBe(3);
+        expect(JSON.parse(storedIssues[0][3])).toEqual([expect.objectContaining({ column: "sku", issueType: "DUPLICATE_VALUE" })]);
+
+        const insertBatch = queryDb.mock.calls.find(([sql]) => sql.includes("INSERT INTO file_batches"));
+        expect(insertBatch[1].slice(-2)).toEqual([2, 2]);
+    });
+
+    it("rejects a batch missing the project's columns and removes it from the bucket", async () => {
+        mockProject();
+        ParseS3File.mockImplementation(async ({ fileKey }) => (fileKey === file.file_key
+            ? [{ sku: "A", qty: 1, originalRowIndex: 0 }]
+            : [{ sku: "B", originalRowIndex: 0 }]));
+
+        await expect(appendBatchToFile(batch("csv/batch.csv"))).rejects.toThrow("The batch is missing the project's columns: qty.");
+        expect(deleteFileFromS3).toHaveBeenCalledWith("csv/batch.csv");
+        expect(queryDb.mock.calls.some(([sql]) => sql.includes("INSERT"))).toBe(false);
+    });
+
+    it("drops the batch again when its issues cannot be stored", async () => {
+        mockProject();
+        const answer = queryDb.getMockImplementation();
+        queryDb.mockImplementation(async (sql, params) => {
+            if (sql.includes("INSERT INTO issues")) throw new Error("Connection lost");
+            return answer(sql, params);
+        });
+        ParseS3File.mockImplementation(async ({ fileKey }) => (fileKey === file.file_key
+            ? [{ sku: "A", qty: 1, originalRowIndex: 0 }]
+            : [{ sku: "A", qty: 2, originalRowIndex: 0 }]));
+
+        await expect(appendBatchToFile(batch("csv/batch.csv"))).rejects.toThrow("Connection lost");
+
+        const insertBatch = queryDb.mock.calls.find(([sql]) => sql.includes("INSERT INTO file_batches"));
+        const deleteBatch = queryDb.mock.calls.find(([sql]) => sql.includes("DELETE FROM file_batches"));
+        expect(deleteBatch[1]).toEqual([insertBatch[1][0]]);
+    });
+});
+
+describe("requireRows", () => {
+    it("only lets a list of rows through", () => {
+        expect(requireRows([{ a: 1 }])).toEqual([{ a: 1 }]);
+        expect(() => requireRows([])).toThrow("Parsed data is invalid or empty");
+        expect(() => requireRows("a,b")).toThrow("Parsed data is invalid or empty");
+    });
+});
@@ -0,0 +1,44 @@
+// Tests for column ranges
+import { checkRange, describeRangeError, rangeBounds } from "../rangeConstraints.js";
+
+describe("ranges", () => {
+    it("flags bounds that do not suit the column type", () => {
+        expect(describeRangeError("age", { dataType: "Integer", min: 0, max: 120 })).toBeNull();
+        expect(describeRangeError("price", { dataType: "Float", min: 10, max: 1 })).toMatch(/minimum is above its maximum/);
+        expect(describeRangeError("joined", { dataType: "Date", min: "2024-02-30" })).toMatch(/YYYY-MM-DD/);
+        expect(describeRangeError("joined", { dataType: "Date", min: "2024-02-29" })).toBeNull();
+        expect(describeRangeError("joined", { dataType: "Date", min: 5 })).not.toBeNull();
+        expect(describeRangeError("name", { dataType: "String", min: "x" })).toBeNull();
+    });
+
+    it("reports numbers outside the range with its bounds, read in the column's number format", () => {
+        const age = { dataType: "Integer", min: 0, max: 120 };
+        expect(checkRange(42, age)).toBeNull();
+        expect(checkRange(130, age)).toEqual({
+            issueType: "OUT_OF_RANGE",
+            issueDesc: "Value Out Of Range (Expected: 0 to 120, Found: 130)",
+            min: 0,
+            max: 120
+        });
+
+        const price = { dataType: "Currency", max: 1000 };
+        expect(checkRange("1.234,50 €", price, { locale: "de-DE" })).toMatchObject({ issueDesc: "Value Out Of Range (Expected: at most 1000, Found: 1.234,50 €)" });
+        expect(checkRange("999,99 €", price, { locale: "de-DE" })).toBeNull();
+    });
+
+    it("reads dates in the column's order", () => {
+        const joined = { dataType: "Date", format: "DD/MM/YYYY", min: "2024-01-01" };
+        expect(checkRange("02/01/2024", joined)).toBeNull();
+        expect(checkRange("31/12/2023", joined)).toMatchObject({ issueType: "OUT_OF_RANGE", min: "2024-01-01" });
+        // 1 February read day first, 2 January read month first
+        expect(checkRange("01/02/2024", { ...joined, min: "2024-01-15" })).toBeNull();
+        expect(checkRange("01/02/2024", { ...joined, format: "MM/DD/YYYY", min: "2024-01-15" })).toMatchObject({ issueType: "OUT_OF_RANGE" });
+    });
+
+    it("leaves values it cannot read and columns without a usable range to the other checks", () => {
+        expect(checkRange("n/a", { dataType: "Integer", min: 0 })).toBeNull();
+        expect(rangeBounds({ dataType: "Integer" })).toBeNull();
+        expect(rangeBounds({ dataType: "Integer", min: 10, max: 1 })).toBeNull();
+        expect(rangeBounds({ dataType: "String", min: 1 })).toBeNull();
+    });
+});
@@ -0,0 +1,32 @@
+// Tests for references to a column of another project
+import { buildReferenceValues, checkReference, describeReferenceError, isOrphanReference } from "../referenceIntegrity.js";
+
+describe("reference integrity", () => {
+    const customers = [{ customer_id: 42 }, { customer_id: " C-7 " }, { customer_id: "" }, { customer_id: null }];
+    const reference = { values: buildReferenceValues(customers, "customer_id"), projectName: "Customers", column: "customer_id" };
+
+    it("matches values on their text and ignores empty values", () => {
+        expect([...reference.values]).toEqual(["42", "C-7"]);
+        expect(isOrphanReference("42", reference)).toBe(false);
+        expect(isOrphanReference("C-7", reference)).toBe(false);
+        expect(isOrphanReference(" ", reference)).toBe(false);
+        expect(isOrphanReference("43", reference)).toBe(true);
+        expect(isOrphanReference("43", null)).toBe(false);
+    });
+
+    it("reports values missing from the referenced column", () => {
+        expect(checkReference(42, reference)).toBeNull();
+        expect(checkReference("C-8", reference)).toEqual({
+            issueType: "ORPHAN_REFERENCE",
+            issueDesc: "Missing Reference (Value: 'C-8' not found in customer_id of Customers)",
+            value: "C-8"
+        });
+    });
+
+    it("needs a project and a column when the schema is saved", () => {
+        expect(describeReferenceError("customer_id", {})).toBeNull();
+        expect(describeReferenceError("customer_id", { reference: { fileId: "file-2", column: "customer_id" } })).toBeNull();
+        expect(describeReferenceError("customer_id", { reference: { fileId: "file-2" } })).toMatch(/name a project and one of its columns/);
+        expect(describeReferenceError("customer_id", { reference: "file-2" })).not.toBeNull();
+    });
+});
@@ -0,0 +1,13 @@
+// Tests for the stable row IDs
+import { rowIdOf, rowValues } from "../rowIds.js";
+
+describe("row IDs", () => {
+    it("names a row by its row in the source, or its position without one", () => {
+        expect(rowIdOf({ name: "a", originalRowIndex: 6 }, 0)).toBe(7);
+        expect(rowIdOf({ name: "a" }, 2)).toBe(3);
+    });
+
+    it("leaves the ID out of the row's values", () => {
+        expect(rowValues({ name: "a", age: 3, originalRowIndex: 6 })).toEqual(["a", 3]);
+    });
+});
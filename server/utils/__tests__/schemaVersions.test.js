@@ -0,0 +1,86 @@
+// Tests for the saved schemas of a project
+import { queryDb } from "../../DB_methods/query.js";
+import { BadRequestError, NotFoundError } from "../../errors/index.js";
+import { loadProjectRecords, replaceFileIssues } from "../projectRecords.js";
+import { getSchemaVersions, recordSchemaVersion, rollbackSchemaVersion } from "../schemaVersions.js";
+
+jest.mock("../../DB_methods/query.js", () => ({ queryDb: jest.fn() }));
+jest.mock("../projectRecords.js", () => ({ loadProjectRecords: jest.fn(), replaceFileIssues: jest.fn() }));
+
+const file = { file_id: "file-1", parse_options: { numberFormat: { locale: "de-DE" } } };
+const rules = [{ name: "qty-positive", columns: ["qty"] }];
+
+const version = (versionNumber, schemaDefinition, extra = {}) => ({
+    schema_version_id: `v-${versionNumber}`,
+    version_number: versionNumber,
+    schema_definition: schemaDefinition,
+    awareness: null,
+    validation_rules: null,
+    unique_keys: null,
+    phone_country: null,
+    source: "edit",
+    restored_from: null,
+    created_at: "2024-01-01",
+    user_id: "user-1",
+    first_name: "Ada",
+    last_name: "Lovelace",
+    ...extra
+});
+
+// Answers the project's queries from its saved versions
+const mockVersions = (versions) => {
+    queryDb.mockImplementation(async (sql) => {
+        if (sql.includes("LIMIT 1")) return versions.slice(0, 1);
+        if (sql.includes("MAX(version_number)")) return [{ version_number: versions.length }];
+        if (sql.includes("FROM schema_versions v")) return versions;
+        return [];
+    });
+};
+
+describe("schema versions", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        replaceFileIssues.mockResolvedValue([{ row: 1 }, { row: 2 }]);
+    });
+
+    it("keeps the schema of a project saved before schema history as version 1", async () => {
+        queryDb.mockImplementation(async (sql) => (sql.includes("FROM FileSchemas WHERE") ? [{ user_id: "owner" }] : []));
+
+        await getSchemaVersions("file-1");
+
+        const insert = queryDb.mock.calls.find(([sql]) => sql.includes("INSERT INTO schema_versions"));
+        expect(insert[1]).toEqual(["owner", 1, "generated", null, "file-1"]);
+    });
+
+    it("numbers every save after the latest version and names its author", async () => {
+        mockVersions([version(1, { sku: {} }), version(2, { sku: {}, qty: {} }, { first_name: null, last_name: null })]);
+
+        expect(await recordSchemaVersion({ fileId: "file-1", userId: "user-2", source: "rules" })).toBe(3);
+        expect((await getSchemaVersions("file-1")).map(v => v.author)).toEqual([
+            { userId: "user-1", name: "Ada Lovelace" },
+            { userId: "user-1", name: null }
+        ]);
+    });
+
+    it("restores an earlier schema with its rules and revalidates every row", async () => {
+        mockVersions([version(1, { sku: {} }, { validation_rules: rules, phone_country: "DE" }), version(2, { sku: {}, qty: {} })]);
+        loadProjectRecords.mockResolvedValue([{ sku: "A" }, { sku: "B" }]);
+
+        const result = await rollbackSchemaVersion({ userId: "user-1", file, versionNumber: 1 });
+
+        const update = queryDb.mock.calls.find(([sql]) => sql.startsWith("UPDATE FileSchemas"));
+        expect(update[1]).toEqual([JSON.stringify({ sku: {} }), null, JSON.stringify(rules), null, "DE", "file-1", "user-1"]);
+        expect(replaceFileIssues).toHaveBeenCalledWith(expect.objectContaining({
+            schema: { sku: {} }, rules, uniqueKeys: [], phoneCountry: "DE", numberFormat: { locale: "de-DE" }
+        }));
+        expect(result).toEqual({ schemaVersion: 3, restoredFrom: 1, rowCount: 2, issueCount: 2 });
+    });
+
+    it("refuses to restore a missing or the current version", async () => {
+        mockVersions([version(1, { sku: {} }), version(2, { sku: {}, qty: {} })]);
+
+        await expect(rollbackSchemaVersion({ userId: "user-1", file, versionNumber: 5 })).rejects.toBeInstanceOf(NotFoundError);
+        await expect(rollbackSchemaVersion({ userId: "user-1", file, versionNumber: 2 })).rejects.toBeInstanceOf(BadRequestError);
+        expect(queryDb).not.toHaveBeenCalledWith(expect.stringContaining("UPDATE FileSchemas"), expect.anything());
+    });
+});
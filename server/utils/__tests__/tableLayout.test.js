@@ -0,0 +1,37 @@
+// Tests for the table layout of CSV and Excel files, with the cases of the client's table layout tests
+import { mergeHeaderRows, normalizeTableLayout, readTableLayout, splitTableRecords } from "../tableLayout.js";
+
+describe("table layout", () => {
+    const report = [
+        ["Sales report 2024", "", "", "", ""],
+        ["", "Q1", "", "Q2", ""],
+        ["Region", "Sales", "Units", "Sales", "Units"],
+        ["North", "10", "1", "20", "2"],
+        ["South", "30", "3", "40", "4"],
+        ["East", "50", "5", "60", "6"],
+        ["Total", "90", "9", "120", "12"]
+    ];
+
+    it("merges group labels into the columns under them and names empty or repeated headers", () => {
+        expect(mergeHeaderRows([["", "Q1", "", "Q2", ""], ["Region", "Sales", "Units", "Sales", "Units"]]))
+            .toEqual(["Region", "Q1 Sales", "Q1 Units", "Q2 Sales", "Q2 Units"]);
+        expect(mergeHeaderRows([["id", "", "id"]])).toEqual(["id", "Column 2", "id_2"]);
+    });
+
+    it("drops the footer only when the records reach the end of the file", () => {
+        const layout = { skipTop: 1, headerRows: 2, skipBottom: 1 };
+
+        expect(splitTableRecords(report, layout, true).headers).toEqual(["Region", "Q1 Sales", "Q1 Units", "Q2 Sales", "Q2 Units"]);
+        expect(splitTableRecords(report, layout, true).data.map(row => row[0])).toEqual(["North", "South", "East"]);
+        expect(splitTableRecords(report, layout, false).data.map(row => row[0])).toEqual(["North", "South", "East", "Total"]);
+    });
+
+    it("accepts only whole counts from the client and stores no default layout", () => {
+        expect(normalizeTableLayout({ skipTop: 1, headerRows: 2 })).toEqual({ skipTop: 1, headerRows: 2, skipBottom: 0 });
+        expect(normalizeTableLayout({ headerRows: 0 })).toBeNull();
+        expect(normalizeTableLayout({ headerRows: 6 })).toBeNull();
+        expect(normalizeTableLayout({ skipTop: 1.5 })).toBeNull();
+        expect(readTableLayout({ layout: { skipTop: 0, headerRows: 1, skipBottom: 0 } })).toBeNull();
+        expect(readTableLayout({ layout: { skipTop: 1, headerRows: 2, skipBottom: 1 } })).toEqual({ skipTop: 1, headerRows: 2, skipBottom: 1 });
+    });
+});
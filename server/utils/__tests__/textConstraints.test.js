@@ -0,0 +1,33 @@
+// Tests for column patterns and length limits
+import { checkTextConstraints, compilePattern, describeTextConstraintError, hasNestedQuantifier } from "../textConstraints.js";
+
+describe("text constraints", () => {
+    it("reports values that do not match the pattern or the lengths", () => {
+        const sku = { pattern: "^[A-Z]{3}-\\d{4}$" };
+        expect(checkTextConstraints("ABC-1234", sku)).toEqual([]);
+        expect(checkTextConstraints("abc-12", sku)).toEqual([{ issueType: "PATTERN_MISMATCH", issueDesc: expect.any(String) }]);
+        expect(checkTextConstraints("Gérard", { maxLength: 6 })).toEqual([]);
+    });
+
+    it("rejects patterns that repeat a group that repeats itself", () => {
+        for (const pattern of ["(a+)+$", "((ab)+c)+", "(\\d*-?)*", "^(\\w+\\s?)*$", "(a+){3}"]) {
+            expect(hasNestedQuantifier(pattern)).toBe(true);
+            expect(compilePattern(pattern)).toBeNull();
+            expect(describeTextConstraintError("code", { pattern })).toMatch(/repeats a group/);
+        }
+    });
+
+    it("keeps patterns whose groups repeat only once", () => {
+        for (const pattern of ["^[A-Z]{3}-\\d{4}$", "(\\d+)?", "(?:ab)+", "(a|b)*", "[(a+)]+", "\\(a+\\)+", "(?<year>\\d{4})-\\d{2}", "(a){2,}"]) {
+            expect(hasNestedQuantifier(pattern)).toBe(false);
+            expect(describeTextConstraintError("code", { pattern })).toBeNull();
+        }
+    });
+
+    it("rejects long and invalid patterns when the schema is saved", () => {
+        expect(describeTextConstraintError("code", { pattern: "a".repeat(201) })).toMatch(/longer than 200 characters/);
+        expect(compilePattern("a".repeat(201))).toBeNull();
+        expect(describeTextConstraintError("code", { pattern: "([" })).toMatch(/not a valid regular expression/);
+        expect(describeTextConstraintError("code", { minLength: 5, maxLength: 2 })).not.toBeNull();
+    });
+});
@@ -0,0 +1,31 @@
+// Tests for character encoding detection, with the cases of the client's sniffEncoding tests
+import { decodeBuffer, normalizeEncoding, sniffEncoding } from "../textEncoding.js";
+
+describe("text encoding", () => {
+    it("reads byte order marks", () => {
+        expect(sniffEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toBe("utf-8");
+        expect(sniffEncoding(Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toBe("utf-16le");
+    });
+
+    it("recognises UTF-16 without a byte order mark", () => {
+        const bytes = Buffer.from([0x61, 0x00, 0x2c, 0x00, 0x62, 0x00, 0x0a, 0x00]);
+        expect(sniffEncoding(bytes)).toBe("utf-16le");
+    });
+
+    it("tells valid UTF-8 from single-byte Windows and Latin-1 text", () => {
+        // "José" in UTF-8, Latin-1, and "José €" in Windows-1252
+        expect(sniffEncoding(Buffer.from([0x4a, 0x6f, 0x73, 0xc3, 0xa9, 0x0a]))).toBe("utf-8");
+        expect(sniffEncoding(Buffer.from([0x4a, 0x6f, 0x73, 0xe9, 0x0a]))).toBe("iso-8859-1");
+        expect(sniffEncoding(Buffer.from([0x4a, 0x6f, 0x73, 0xe9, 0x20, 0x80, 0x0a]))).toBe("windows-1252");
+    });
+
+    it("decodes with the detected encoding and drops the byte order mark", () => {
+        expect(decodeBuffer(Buffer.from([0x4a, 0x6f, 0x73, 0xe9, 0x20, 0x80]), "windows-1252")).toBe("José €");
+        expect(decodeBuffer(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toBe("a");
+    });
+
+    it("accepts only the supported encodings from the client", () => {
+        expect(normalizeEncoding(" Windows-1252 ")).toBe("windows-1252");
+        expect(normalizeEncoding("shift_jis")).toBeNull();
+    });
+});
@@ -0,0 +1,28 @@
+// Tests for composite unique keys
+import { checkUniqueKeys, describeUniqueKeysError } from "../uniqueKeys.js";
+
+describe("unique keys", () => {
+    it("explains keys that cannot be enforced", () => {
+        const columns = ["store_id", "date", "sku"];
+        expect(describeUniqueKeysError([["store_id", "date"]], columns)).toBeNull();
+        expect(describeUniqueKeysError([["store_id"]], columns)).toMatch(/at least two columns/);
+        expect(describeUniqueKeysError([["store_id", "day"]], columns)).toMatch(/'day' is not a column/);
+        expect(describeUniqueKeysError([["store_id", "date"], ["date", "store_id"]], columns)).toMatch(/listed more than once/);
+    });
+
+    it("reports every row sharing a key and links the rows by ID", () => {
+        const records = [
+            { store_id: 1, date: "2024-01-01", originalRowIndex: 0 },
+            { store_id: 1, date: "2024-01-02", originalRowIndex: 1 },
+            { store_id: 1, date: "2024-01-01", originalRowIndex: 4 },
+            { store_id: 1, date: null, originalRowIndex: 5 },
+            { store_id: 1, date: null, originalRowIndex: 6 }
+        ];
+
+        const issues = checkUniqueKeys(records, [["store_id", "date"]]);
+
+        expect([...issues.keys()]).toEqual([0, 2]);
+        expect(issues.get(0)[0]).toMatchObject({ issueType: "DUPLICATE_KEY", columns: ["store_id", "date"], duplicateRows: [5] });
+        expect(issues.get(2)[0].duplicateRows).toEqual([1]);
+    });
+});
@@ -0,0 +1,55 @@
+// Tests for validating parsed rows against a project's schema
+import { validateParsedData } from "../validateParsedData.js";
+
+describe("validateParsedData", () => {
+    const schema = {
+        id: { dataType: "Integer", unique: true, numericSign: "Positive", precision: null, format: null, separator: null },
+        email: { dataType: "Email", unique: false, required: false, numericSign: null, precision: null, format: null, separator: null },
+        joined: { dataType: "Date", unique: false, numericSign: null, precision: null, format: "YYYY-MM-DD", separator: "-" }
+    };
+
+    const issueTypes = (issue) => issue.errors.map(error => `${error.column}:${error.issueType}`);
+
+    it("reports each row's errors by its ID and its current position", () => {
+        const issues = validateParsedData([
+            { id: 1, email: "a@example.com", joined: "2024-01-31", originalRowIndex: 4 },
+            { id: 1, email: "not-an-email", joined: "2024-31-01", originalRowIndex: 5 },
+            { id: -2, email: null, joined: null, originalRowIndex: 6 }
+        ], schema);
+
+        expect(issues.map(issue => [issue.row, issue.position])).toEqual([[6, 2], [7, 3]]);
+        expect(issueTypes(issues[0])).toEqual(["id:DUPLICATE_VALUE", "email:INVALID_FORMAT", "joined:INVALID_DATE"]);
+        // Optional columns may be empty, required ones may not
+        expect(issueTypes(issues[1])).toEqual(["id:INVALID_VALUE", "joined:NULL_VALUE"]);
+    });
+
+    it("reads numbers kept as text with the project's number format", () => {
+        const issues = validateParsedData(
+            [{ id: "1.234", email: null, joined: "2024-01-31" }, { id: "12,5", email: null, joined: "2024-01-31" }],
+            schema,
+            { numberFormat: { locale: "de-DE", decimalSeparator: ",", thousandsSeparator: "." } }
+        );
+
+        expect(issues.map(issue => issue.row)).toEqual([2]);
+        expect(issueTypes(issues[0])).toEqual(["id:TYPE_MISMATCH"]);
+    });
+
+    it("adds the project's rules, composite keys and registry types", () => {
+        const issues = validateParsedData([
+            { store: "1", day: "2024-01-01", opened: 9, closed: 17, zip: "12345" },
+            { store: "1", day: "2024-01-01", opened: 18, closed: 17, zip: "1234" }
+        ], {
+            store: { dataType: "String" },
+            day: { dataType: "String" },
+            opened: { dataType: "Integer" },
+            closed: { dataType: "Integer" },
+            zip: { dataType: "PostalCodeUS" }
+        }, {
+            rules: [{ name: "hours", expression: "`closed` > `opened`" }],
+            uniqueKeys: [["store", "day"]]
+        });
+
+        expect(issueTypes(issues[0])).toEqual(["store:DUPLICATE_KEY"]);
+        expect(issueTypes(issues[1])).toEqual(["zip:INVALID_FORMAT", "closed:RULE_VIOLATION", "store:DUPLICATE_KEY"]);
+    });
+});
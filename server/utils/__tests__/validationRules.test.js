@@ -0,0 +1,38 @@
+// Tests for the cross-column validation rules
+import { checkRules, compileRules, describeRuleError } from "../validationRules.js";
+
+describe("validation rules", () => {
+    const columns = ["start_date", "end_date", "price", "discount", "status"];
+    const schema = {
+        start_date: { dataType: "Date", format: "YYYY-MM-DD", separator: "-" },
+        end_date: { dataType: "Date", format: "YYYY-MM-DD", separator: "-" },
+        price: { dataType: "Float" },
+        discount: { dataType: "Float" },
+        status: { dataType: "String" }
+    };
+
+    it("explains rules that cannot be used", () => {
+        expect(describeRuleError({ name: "dates", expression: "`end_date` >= `start_date`" }, columns)).toBeNull();
+        expect(describeRuleError({ name: "", expression: "`price` > 0" }, columns)).toMatch(/needs a name/);
+        expect(describeRuleError({ name: "total", expression: "`total` > 0" }, columns)).toMatch(/'total', which is not a column/);
+        expect(describeRuleError({ name: "sum", expression: "`price` + 1" }, columns)).toMatch(/has to be a condition/);
+    });
+
+    it("reports the rules a row breaks with every column they use", () => {
+        const rules = compileRules([
+            { name: "dates", expression: "`end_date` >= `start_date`" },
+            { name: "discount", expression: "`discount` <= `price` when `status` == 'sale'" }
+        ]);
+
+        expect(checkRules({ start_date: "2024-01-10", end_date: "2024-01-12", price: 10, discount: 20, status: "full" }, rules, schema)).toEqual([]);
+
+        const issues = checkRules({ start_date: "2024-02-01", end_date: "2024-01-12", price: 10, discount: 20, status: "sale" }, rules, schema);
+        expect(issues.map(issue => issue.rule)).toEqual(["dates", "discount"]);
+        expect(issues[0]).toMatchObject({ issueType: "RULE_VIOLATION", column: "end_date", columns: ["end_date", "start_date"] });
+    });
+
+    it("skips saved rules that no longer compile", () => {
+        expect(compileRules([{ name: "broken", expression: "`price` >" }, { name: "positive", expression: "`price` > 0" }]).map(rule => rule.name))
+            .toEqual(["positive"]);
+    });
+});
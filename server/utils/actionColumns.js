@@ -0,0 +1,48 @@
+// Columns referenced by saved cleaning actions, used to warn when a new version of the
+// source file no longer has the columns the action history was written against.
+
+const asList = (value) => {
+    if (Array.isArray(value)) return value;
+    return typeof value === "string" && value !== "" ? [value] : [];
+};
+
+// Columns an action reads, and columns it creates for the actions after it
+const readColumns = (action) => [
+    ...asList(action.column),
+    ...asList(action.columns),
+    ...asList(action.from),
+    ...asList(action.targetColumn),
+];
+
+const createdColumns = (action) => [
+    ...asList(action.to),
+    ...asList(action.update),
+    ...(action.type === "GENERATE_UNIQUE_ID" ? asList(action.columnName) : []),
+];
+
+// Replays the column changes of `actions` (oldest first) over `columns` and lists every
+// action that refers to a column the data does not have at that point
+export const findActionColumnMismatches = (actions, columns) => {
+    const available = new Set(columns);
+    const mismatches = [];
+
+    actions.forEach(action => {
+        const details = action.action_details || action;
+        const missingColumns = readColumns(details).filter(column => !available.has(column));
+
+        if (missingColumns.length > 0) {
+            mismatches.push({
+                action_id: action.action_id,
+                title: action.title || details.title,
+                type: details.type,
+                missingColumns
+            });
+        }
+
+        if (details.type === "RENAME_COLUMN") available.delete(details.from);
+        if (details.type === "DELETE_COLUMN") asList(details.column).forEach(column => available.delete(column));
+        createdColumns(details).forEach(column => available.add(column));
+    });
+
+    return mismatches;
+};
@@ -0,0 +1,88 @@
+// Allowed values of a category column (schema `allowedValues`), e.g. Status is one of Active, Inactive, Pending.
+// A value outside the list is an INVALID_CATEGORY issue naming the closest allowed value, so "actve" suggests "Active".
+// Same rules as the client's utils/allowed-values.ts, so the schema editor and validation agree.
+
+// Columns with more distinct values than this are not seeded with a list at upload
+export const MAX_CATEGORY_VALUES = 20;
+// How alike a value has to be to an allowed value before that value is suggested
+const SUGGESTION_THRESHOLD = 0.6;
+
+// Case, surrounding spaces and separators do not matter when looking for the closest value
+const normalize = (value) => String(value).trim().toLowerCase().replace(/[\s_-]+/g, " ");
+
+const editDistance = (a, b) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// 1 for values that only differ in case or separators, down to 0 for nothing in common
+export const valueSimilarity = (a, b) => {
+    const left = normalize(a);
+    const right = normalize(b);
+    if (left === right) return 1;
+    return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+};
+
+// The allowed value most like `value`, or null when none is alike enough
+export const closestAllowedValue = (value, allowedValues) => {
+    let best = null;
+    let bestScore = SUGGESTION_THRESHOLD;
+    allowedValues.forEach(allowed => {
+        const score = valueSimilarity(value, allowed);
+        if (score >= bestScore && (best === null || score > bestScore)) {
+            best = allowed;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+// Why a column's allowed values cannot be enforced, or null when they are valid
+export const describeAllowedValuesError = (column, schema) => {
+    const { allowedValues } = schema;
+    if (allowedValues === null || allowedValues === undefined) return null;
+    if (!Array.isArray(allowedValues) || allowedValues.length === 0) {
+        return `Column '${column}' allowed values must be a list of at least one value.`;
+    }
+    if (allowedValues.some(value => typeof value !== "string" || value === "")) {
+        return `Column '${column}' allowed values must be non-empty text.`;
+    }
+    return null;
+};
+
+// Allowed values seeded from a column's distinct values and how often each was seen.
+// A value seen once that is close to a more common value is left out, so typos show up as issues.
+export const seedAllowedValues = (counts) => {
+    const common = [...counts].filter(([, count]) => count > 1).map(([value]) => value);
+    return [...counts]
+        .filter(([value, count]) => count > 1 || closestAllowedValue(value, common) === null)
+        .map(([value]) => value)
+        .sort((a, b) => a.localeCompare(b));
+};
+
+// INVALID_CATEGORY issue of one value, or null when it is allowed.
+// `allowed` is the column's allowed values as a set, built once per validation run.
+// The issue keeps the value and the suggestion, so the fix can replace one with the other.
+export const checkAllowedValue = (value, schema, allowed = new Set(schema.allowedValues || [])) => {
+    if (allowed.size === 0 || value === null || value === undefined || typeof value === "object") return null;
+
+    const text = String(value);
+    if (allowed.has(text)) return null;
+
+    const suggestion = closestAllowedValue(text, allowed);
+    return {
+        issueType: "INVALID_CATEGORY",
+        issueDesc: suggestion
+            ? `Value Not Allowed (Found: '${text}', Did You Mean: '${suggestion}')`
+            : `Value Not Allowed (Expected one of: ${[...allowed].join(", ")}, Found: '${text}')`,
+        value,
+        suggestion
+    };
+};
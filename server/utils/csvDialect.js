@@ -0,0 +1,122 @@
+// CSV dialect detection, kept in line with sniffCSVDialect in client/utils/file-parsers.ts
+// so the wizard preview and the stored data are split the same way.
+
+export const DEFAULT_CSV_DIALECT = { delimiter: ",", quoteChar: "\"" };
+
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"];
+const QUOTE_CANDIDATES = ["\"", "'"];
+
+export const SNIFF_SAMPLE_SIZE = 64 * 1024;
+const SNIFF_MAX_RECORDS = 50;
+
+// Split text into records following RFC 4180 (quoted fields may hold delimiters and line breaks)
+const splitRecords = (text, { delimiter, quoteChar }, maxRecords) => {
+    const records = [];
+    let record = [];
+    let field = "";
+    let inQuotes = false;
+    let fieldStarted = false;
+
+    const endField = () => {
+        record.push(field);
+        field = "";
+        fieldStarted = false;
+    };
+
+    for (let i = 0; i < text.length && records.length < maxRecords; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === quoteChar) {
+                if (text[i + 1] === quoteChar) {
+                    field += quoteChar;
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === quoteChar && !fieldStarted) {
+            inQuotes = true;
+            fieldStarted = true;
+        } else if (char === delimiter) {
+            endField();
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            if (record.length > 0 || fieldStarted || field !== "") {
+                endField();
+                records.push(record);
+                record = [];
+            }
+        } else {
+            field += char;
+            fieldStarted = true;
+        }
+    }
+
+    if (records.length < maxRecords && (record.length > 0 || fieldStarted || field !== "")) {
+        endField();
+        records.push(record);
+    }
+
+    return records;
+};
+
+const countQuotedFields = (text, delimiter, quoteChar) => {
+    let count = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] !== quoteChar) continue;
+        const prev = i === 0 ? "\n" : text[i - 1];
+        if (prev === delimiter || prev === "\n" || prev === "\r") count++;
+    }
+    return count;
+};
+
+// Pick the delimiter/quote pair that splits the sample into the most consistent number of fields
+export const sniffCSVDialect = (sample) => {
+    const text = sample.replace(/^\uFEFF/, "");
+
+    // Drop a trailing line without a line break, it may have been cut off by the sample size
+    const lastBreak = Math.max(text.lastIndexOf("\n"), text.lastIndexOf("\r"));
+    const body = lastBreak > 0 ? text.slice(0, lastBreak) : text;
+
+    let best = null;
+
+    for (const quoteChar of QUOTE_CANDIDATES) {
+        for (const delimiter of DELIMITER_CANDIDATES) {
+            const records = splitRecords(body, { delimiter, quoteChar }, SNIFF_MAX_RECORDS);
+            if (records.length === 0) continue;
+
+            const counts = new Map();
+            records.forEach(record => counts.set(record.length, (counts.get(record.length) || 0) + 1));
+            const [modeWidth, modeCount] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+            if (modeWidth < 2) continue;
+
+            const consistency = modeCount / records.length;
+            const quotedFields = countQuotedFields(body, delimiter, quoteChar);
+            const score = consistency * 1000 + Math.min(modeWidth, 100) + Math.min(quotedFields, 50) / 100;
+
+            if (!best || score > best.score) {
+                best = { dialect: { delimiter, quoteChar }, score };
+            }
+        }
+    }
+
+    return best ? best.dialect : DEFAULT_CSV_DIALECT;
+};
+
+// Accept a dialect sent by the client only if it uses one of the supported characters
+export const normalizeCSVDialect = (dialect) => {
+    if (!dialect || typeof dialect !== "object") return null;
+
+    const { delimiter, quoteChar } = dialect;
+    if (!DELIMITER_CANDIDATES.includes(delimiter) || !QUOTE_CANDIDATES.includes(quoteChar)) {
+        return null;
+    }
+
+    return { delimiter, quoteChar };
+};
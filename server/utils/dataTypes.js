@@ -0,0 +1,256 @@
+// Registry of the domain data types a column can have besides the basic ones (String, Integer, Date, ...).
+// A type is a normaliser, a format (pattern and/or test) and an optional checksum; validation checks the
+// normalised text, and NORMALIZE_DATA_TYPE rewrites values to it. Users add their own types (custom_data_types)
+// from a pattern, a checksum and a normaliser; the built-in types below use the same pieces.
+// Same rules as the client's utils/data-types.ts, so the live test in the schema editor and validation agree.
+
+import { describePatternError } from "./textConstraints.js";
+
+// Types handled by their own branch in validateParsedData, a registry type may not reuse their names
+export const BASIC_DATA_TYPES = [
+    "String", "Integer", "Float", "Email", "Boolean", "Date", "UUID", "PhoneNumber",
+    "Array", "Object", "Timestamp", "Currency", "Percentage", "All", "Null"
+];
+
+// Rewrites a value's text before it is checked
+export const NORMALIZERS = {
+    trim: (text) => text.trim(),
+    upper: (text) => text.trim().toUpperCase(),
+    lower: (text) => text.trim().toLowerCase(),
+    // Identifiers written in groups, "gb82 west-1234" -> "GB82WEST1234"
+    compact: (text) => text.replace(/[\s-]+/g, "").toUpperCase()
+};
+
+// Value of a string of digits and letters (A = 10 ... Z = 35) modulo 97, read in chunks to stay within integers
+const mod97 = (text) => {
+    const digits = text.replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+    let remainder = 0;
+    for (let i = 0; i < digits.length; i += 7) {
+        remainder = Number(String(remainder) + digits.slice(i, i + 7)) % 97;
+    }
+    return remainder;
+};
+
+// Check digits of a normalised value; each returns false for text it cannot read
+export const CHECKSUMS = {
+    // ISO 13616 (IBAN): the country and check digits moved to the end must leave 1 modulo 97
+    mod97: (text) => /^[A-Z0-9]{5,}$/.test(text) && mod97(text.slice(4) + text.slice(0, 4)) === 1,
+    // Card numbers and many national IDs
+    luhn: (text) => {
+        if (!/^\d{2,}$/.test(text)) return false;
+        let sum = 0;
+        [...text].reverse().forEach((digit, index) => {
+            let value = Number(digit);
+            if (index % 2 === 1) {
+                value *= 2;
+                if (value > 9) value -= 9;
+            }
+            sum += value;
+        });
+        return sum % 10 === 0;
+    },
+    // ISBN-10 (weights 10..1, X = 10, modulo 11) or ISBN-13 (weights 1 and 3, modulo 10)
+    isbn: (text) => {
+        if (/^\d{9}[\dX]$/.test(text)) {
+            const sum = [...text].reduce((acc, digit, index) => acc + (digit === "X" ? 10 : Number(digit)) * (10 - index), 0);
+            return sum % 11 === 0;
+        }
+        if (/^\d{13}$/.test(text)) {
+            const sum = [...text].reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+            return sum % 10 === 0;
+        }
+        return false;
+    }
+};
+
+// ISO 3166-1 alpha-2
+const COUNTRY_CODES = new Set((
+    "AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ " +
+    "CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR " +
+    "GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP " +
+    "KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT " +
+    "MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW " +
+    "SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG " +
+    "UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW"
+).split(" "));
+
+const IPV4_PART = "(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const IPV4 = new RegExp(`^${IPV4_PART}(\\.${IPV4_PART}){3}$`);
+
+// Eight groups of up to four hex digits, "::" standing for one or more zero groups and an IPv4 tail counting as two
+const isIPv6 = (text) => {
+    const halves = text.split("::");
+    if (halves.length > 2) return false;
+
+    const groups = halves.map(half => (half === "" ? [] : half.split(":")));
+    const all = groups.flat();
+    let count = all.length;
+    if (all.length > 0 && all[all.length - 1].includes(".")) {
+        if (!IPV4.test(all[all.length - 1])) return false;
+        all.pop();
+        count += 1;
+    }
+
+    if (!all.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return false;
+    return halves.length === 2 ? count < 8 : count === 8;
+};
+
+const isWebUrl = (text) => {
+    if (/\s/.test(text)) return false;
+    try {
+        const url = new URL(text);
+        return (url.protocol === "http:" || url.protocol === "https:") && url.hostname !== "";
+    } catch {
+        return false;
+    }
+};
+
+// UK postcodes are written with a space before the last three characters, "sw1a1aa" -> "SW1A 1AA"
+const ukPostcode = (text) => {
+    const compact = text.replace(/\s+/g, "").toUpperCase();
+    return compact.length > 3 ? `${compact.slice(0, -3)} ${compact.slice(-3)}` : compact;
+};
+
+export const BUILT_IN_DATA_TYPES = [
+    {
+        name: "IBAN",
+        description: "International bank account number, checked with its mod-97 check digits",
+        normalizer: "compact",
+        pattern: "^[A-Z]{2}\\d{2}[A-Z0-9]{11,30}$",
+        checksum: "mod97"
+    },
+    {
+        name: "CountryCode",
+        description: "ISO 3166-1 alpha-2 country code, such as US or DE",
+        normalizer: "upper",
+        test: (text) => COUNTRY_CODES.has(text)
+    },
+    {
+        name: "PostalCodeUS",
+        description: "US ZIP code, 12345 or 12345-6789",
+        normalizer: "trim",
+        pattern: "^\\d{5}(-\\d{4})?$"
+    },
+    {
+        name: "PostalCodeUK",
+        description: "UK postcode, such as SW1A 1AA",
+        normalize: ukPostcode,
+        pattern: "^([A-Z]{1,2}\\d[A-Z\\d]? \\d[A-Z]{2}|GIR 0AA)$"
+    },
+    {
+        name: "URL",
+        description: "Web address starting with http:// or https://",
+        normalizer: "trim",
+        test: isWebUrl
+    },
+    {
+        name: "IPv4",
+        description: "IPv4 address, such as 192.168.0.1",
+        normalizer: "trim",
+        pattern: IPV4.source
+    },
+    {
+        name: "IPv6",
+        description: "IPv6 address, such as 2001:db8::1",
+        normalizer: "lower",
+        test: isIPv6
+    },
+    {
+        name: "ISBN",
+        description: "ISBN-10 or ISBN-13 book number, checked with its check digit",
+        normalizer: "compact",
+        checksum: "isbn"
+    }
+];
+
+// A custom type's pattern must match the whole value, so "\d{4}" does not accept "12345"
+// Held to the same limits as column patterns, as it runs on every value of the column
+const compileTypePattern = (pattern) => {
+    if (typeof pattern !== "string" || pattern === "" || describePatternError(pattern)) return null;
+    try {
+        return new RegExp(`^(?:${pattern})$`);
+    } catch {
+        return null;
+    }
+};
+
+const compileType = (definition, builtIn) => ({
+    name: definition.name,
+    description: definition.description || null,
+    builtIn,
+    normalizer: definition.normalizer || null,
+    normalize: definition.normalize || NORMALIZERS[definition.normalizer] || NORMALIZERS.trim,
+    pattern: builtIn ? (definition.pattern ? new RegExp(definition.pattern) : null) : compileTypePattern(definition.pattern),
+    test: definition.test || null,
+    checksum: definition.checksum ? CHECKSUMS[definition.checksum] : null,
+    message: definition.message || null
+});
+
+// Built-in types followed by the user's (custom_data_types rows), keyed by name
+export const buildDataTypeRegistry = (customTypes = []) => {
+    const registry = {};
+    BUILT_IN_DATA_TYPES.forEach(definition => {
+        registry[definition.name] = compileType(definition, true);
+    });
+    (customTypes || []).forEach(definition => {
+        if (!registry[definition.name]) {
+            registry[definition.name] = compileType(definition, false);
+        }
+    });
+    return registry;
+};
+
+// Why a custom type cannot be saved, or null when it is valid
+export const describeDataTypeError = (definition) => {
+    const name = typeof definition?.name === "string" ? definition.name.trim() : "";
+    if (!/^[A-Za-z][A-Za-z0-9_]{0,63}$/.test(name)) {
+        return "A type name starts with a letter and has only letters, digits and underscores.";
+    }
+    if (BASIC_DATA_TYPES.includes(name) || BUILT_IN_DATA_TYPES.some(type => type.name === name)) {
+        return `'${name}' is the name of a built-in data type.`;
+    }
+    if (!definition.pattern && !definition.checksum) {
+        return "A type needs a pattern, a checksum or both.";
+    }
+    if (definition.pattern) {
+        const patternError = typeof definition.pattern === "string" ? describePatternError(definition.pattern) : "is not a valid regular expression";
+        if (patternError) return `The pattern of '${name}' ${patternError}.`;
+        if (!compileTypePattern(definition.pattern)) return `The pattern of '${name}' is not a valid regular expression.`;
+    }
+    if (definition.checksum && !CHECKSUMS[definition.checksum]) {
+        return `Unknown checksum '${definition.checksum}', use ${Object.keys(CHECKSUMS).join(", ")}.`;
+    }
+    if (definition.normalizer && !NORMALIZERS[definition.normalizer]) {
+        return `Unknown normaliser '${definition.normalizer}', use ${Object.keys(NORMALIZERS).join(", ")}.`;
+    }
+    return null;
+};
+
+// Canonical text of a value for a registry type, or null when the value is not text or a number
+export const normalizeDataTypeValue = (value, type) => {
+    if (value === null || value === undefined || typeof value === "object") return null;
+    return type.normalize(String(value));
+};
+
+// INVALID_FORMAT issue of a value against a registry type, or null when the value fits it.
+// The format is checked before the check digits, so a mistyped value is not reported as a bad checksum.
+export const checkDataType = (value, type) => {
+    const text = normalizeDataTypeValue(value, type);
+    const found = typeof value === "object" ? JSON.stringify(value) : value;
+
+    if (text === null || (type.pattern && !type.pattern.test(text)) || (type.test && !type.test(text))) {
+        return {
+            issueType: "INVALID_FORMAT",
+            issueDesc: `${type.message || `Invalid ${type.name} Format`} (Found: ${found})`
+        };
+    }
+
+    if (type.checksum && !type.checksum(text)) {
+        return {
+            issueType: "INVALID_FORMAT",
+            issueDesc: `${type.message || `Invalid ${type.name} Check Digits`} (Found: ${found})`
+        };
+    }
+
+    return null;
+};
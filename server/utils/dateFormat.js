@@ -0,0 +1,141 @@
+// Column-level date format inference, kept in line with client/utils/date-format.ts.
+// "03/04/2024" alone cannot say which part is the day, so the whole column is read:
+// a first part above 12 can only be a day (DD/MM), a second part above 12 only a day (MM/DD).
+
+const YEAR_FIRST_DATE = /^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})$/;
+const YEAR_LAST_DATE = /^(\d{1,2})([-/.])(\d{1,2})\2(\d{4})$/;
+
+// Splits a date written with a four-digit year first or last.
+// Returns { yearFirst, separator, parts: [number, number, number] } or null.
+export const parseDateText = (value) => {
+    if (typeof value !== "string") return null;
+
+    const text = value.trim();
+    const match = text.match(YEAR_FIRST_DATE) || text.match(YEAR_LAST_DATE);
+    if (!match) return null;
+
+    return {
+        yearFirst: match[1].length === 4,
+        separator: match[2],
+        parts: [Number(match[1]), Number(match[3]), Number(match[4])]
+    };
+};
+
+const isLeapYear = (year) => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+const isValidDay = (year, month, day) => {
+    if (month < 1 || month > 12 || day < 1) return false;
+    const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+    return day <= daysInMonth[month - 1];
+};
+
+// A year-first date, or a year-last date that is valid with the day first or the month first
+export const isDateText = (value) => {
+    const date = parseDateText(value);
+    if (!date) return false;
+
+    const [a, b, c] = date.parts;
+    if (date.yearFirst) return isValidDay(a, b, c);
+    return isValidDay(c, a, b) || isValidDay(c, b, a);
+};
+
+// Counts, over the dates of a column, the evidence for each order and the separators used
+export const createDateTally = () => ({
+    yearFirst: 0,
+    yearLast: 0,
+    dayFirst: 0,
+    monthFirst: 0,
+    separators: {}
+});
+
+export const tallyDate = (tally, value) => {
+    const date = parseDateText(value);
+    if (!date) return;
+
+    tally.separators[date.separator] = (tally.separators[date.separator] || 0) + 1;
+    if (date.yearFirst) {
+        tally.yearFirst++;
+        return;
+    }
+
+    tally.yearLast++;
+    const [first, second] = date.parts;
+    if (first > 12 && second <= 12) tally.dayFirst++;
+    if (second > 12 && first <= 12) tally.monthFirst++;
+};
+
+// Picks the column's format from its tally.
+// Returns { format, separator, ambiguous, evidence: { dayFirst, monthFirst } }; `ambiguous` is set
+// when no value settles the day/month order, or when values point both ways. An unsettled
+// column keeps MM/DD, the order used before this was inferred.
+export const dateFormatFromTally = (tally) => {
+    const separator = Object.keys(tally.separators)
+        .sort((a, b) => tally.separators[b] - tally.separators[a])[0] || "-";
+    const evidence = { dayFirst: tally.dayFirst, monthFirst: tally.monthFirst };
+
+    if (tally.yearFirst >= tally.yearLast) {
+        return { format: ["YYYY", "MM", "DD"].join(separator), separator, ambiguous: false, evidence };
+    }
+
+    const dayFirst = tally.dayFirst > tally.monthFirst;
+    return {
+        format: (dayFirst ? ["DD", "MM", "YYYY"] : ["MM", "DD", "YYYY"]).join(separator),
+        separator,
+        ambiguous: (tally.dayFirst > 0) === (tally.monthFirst > 0),
+        evidence
+    };
+};
+
+// Infers the format of a list of date values
+export const inferDateFormat = (values) => {
+    const tally = createDateTally();
+    values.forEach((value) => tallyDate(tally, value));
+    return dateFormatFromTally(tally);
+};
+
+// Checks a value against a column's date format ("DD/MM/YYYY") and separator.
+// Without a format any valid date is accepted. Returns { issueType, issueDesc } or null.
+export const checkDate = (value, format, separator) => {
+    if (value instanceof Date) return null;
+
+    const expectedFormat = format && separator ? format.replace(/[-/.]/g, separator) : format;
+    const date = parseDateText(value);
+    if (!date) {
+        return {
+            issueType: "INVALID_FORMAT",
+            issueDesc: `Invalid Date Format (Expected: '${expectedFormat || "a date"}', Found: '${value}')`
+        };
+    }
+
+    if (separator && date.separator !== separator) {
+        return {
+            issueType: "INVALID_SEPARATOR",
+            issueDesc: `Invalid Date Separator (Expected: '${separator}', Found: '${date.separator}')`
+        };
+    }
+
+    if (!format) {
+        return isDateText(value) ? null : {
+            issueType: "INVALID_DATE",
+            issueDesc: `Invalid Date ('${value}' is not a calendar date)`
+        };
+    }
+
+    const order = format.split(/[-/.]/);
+    if ((order[0] === "YYYY") !== date.yearFirst) {
+        return {
+            issueType: "INVALID_FORMAT",
+            issueDesc: `Invalid Date Format (Expected: '${expectedFormat}', Found: '${value}')`
+        };
+    }
+
+    const part = (name) => date.parts[order.indexOf(name)];
+    if (!isValidDay(part("YYYY"), part("MM"), part("DD"))) {
+        return {
+            issueType: "INVALID_DATE",
+            issueDesc: `Invalid Date ('${value}' is not a valid date as '${expectedFormat}')`
+        };
+    }
+
+    return null;
+};
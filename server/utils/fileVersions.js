@@ -0,0 +1,125 @@
+import { queryDb } from "../DB_methods/query.js";
+import { BadRequestError, NotFoundError } from "../errors/index.js";
+import { deleteFileFromS3 } from "./deleteFromS3.js";
+import { loadProjectRecords, replaceFileIssues } from "./projectRecords.js";
+import { findActionColumnMismatches } from "./actionColumns.js";
+
+// Versions of a project's source file. The files row always describes the active version
+// (file_key, file_type, file_size, parse_options), so everything that reads a project
+// follows the chosen version; the schema, actions and batches stay on the project.
+
+// Projects uploaded before versioning have no version rows, their current file becomes version 1
+const ensureFirstVersion = async (file) => {
+    const versions = await queryDb(
+        `SELECT version_number FROM file_versions WHERE file_id = ? LIMIT 1`,
+        [file.file_id]
+    );
+
+    if (versions.length === 0) {
+        await queryDb(
+            `INSERT INTO file_versions (file_id, user_id, version_number, original_name, file_key, file_type, file_size, parse_options)
+            VALUES (?, ?, 1, ?, ?, ?, ?, ?)`,
+            [file.file_id, file.user_id, file.original_name, file.file_key, file.file_type, file.file_size, JSON.stringify(file.parse_options || {})]
+        );
+    }
+};
+
+export const getFileVersions = async (file) => {
+    await ensureFirstVersion(file);
+
+    return queryDb(
+        `SELECT version_id, version_number, original_name, file_key, file_type, file_size, parse_options, uploaded_at
+        FROM file_versions WHERE file_id = ? ORDER BY version_number ASC`,
+        [file.file_id]
+    );
+};
+
+// Makes `versionNumber` the project's source, revalidates it against the saved schema and
+// reports the columns that changed and the saved actions that refer to missing columns
+export const activateFileVersion = async ({ userId, file, versionNumber }) => {
+    const versions = await getFileVersions(file);
+    const version = versions.find(v => v.version_number === Number(versionNumber));
+
+    if (!version) {
+        throw new NotFoundError(`Version ${versionNumber} not found.`);
+    }
+
+    const fetchSchema = await queryDb(
+        `SELECT schema_definition FROM FileSchemas WHERE file_id = ? AND user_id = ?`,
+        [file.file_id, userId]
+    );
+
+    if (fetchSchema.length === 0) {
+        throw new BadRequestError("The project has no schema to validate the version against.");
+    }
+
+    const activeFile = {
+        ...file,
+        file_key: version.file_key,
+        file_type: version.file_type,
+        file_size: version.file_size,
+        parse_options: version.parse_options,
+        current_version: version.version_number
+    };
+
+    const records = await loadProjectRecords(activeFile);
+    if (!Array.isArray(records) || records.length === 0) {
+        throw new BadRequestError("This version does not contain any rows.");
+    }
+
+    await queryDb(
+        `UPDATE files SET file_key = ?, file_type = ?, file_size = ?, parse_options = ?, current_version = ? WHERE file_id = ?`,
+        [version.file_key, version.file_type, version.file_size, JSON.stringify(version.parse_options || {}), version.version_number, file.file_id]
+    );
+
+    const schema = fetchSchema[0].schema_definition;
+    const issues = await replaceFileIssues({
+        userId,
+        fileId: file.file_id,
+        records,
+        schema,
+        numberFormat: version.parse_options?.numberFormat
+    });
+
+    const columns = Object.keys(records[0]).filter(column => column !== "originalRowIndex");
+    const schemaColumns = Object.keys(schema);
+
+    const actions = await queryDb(
+        `SELECT action_id, title, action_details FROM actions WHERE file_id = ? AND user_id = ? ORDER BY created_at ASC`,
+        [file.file_id, userId]
+    );
+
+    return {
+        currentVersion: version.version_number,
+        rowCount: records.length,
+        issueCount: issues.length,
+        addedColumns: columns.filter(column => !schemaColumns.includes(column)),
+        removedColumns: schemaColumns.filter(column => !columns.includes(column)),
+        actionWarnings: findActionColumnMismatches(actions, columns)
+    };
+};
+
+// Registers an uploaded file as the newest version of a project and switches to it
+export const addFileVersion = async ({ userId, file, fileKey, originalName, fileType, fileSize, parseOptions }) => {
+    const versions = await getFileVersions(file);
+    const versionNumber = Math.max(...versions.map(v => v.version_number)) + 1;
+
+    await queryDb(
+        `INSERT INTO file_versions (file_id, user_id, version_number, original_name, file_key, file_type, file_size, parse_options)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [file.file_id, userId, versionNumber, originalName, fileKey, fileType, fileSize, JSON.stringify(parseOptions)]
+    );
+
+    try {
+        return await activateFileVersion({ userId, file, versionNumber });
+    } catch (error) {
+        // A version that cannot be read is not kept, and the project goes back to the version it was on
+        await queryDb(`DELETE FROM file_versions WHERE file_id = ? AND version_number = ?`, [file.file_id, versionNumber]);
+        await queryDb(
+            `UPDATE files SET file_key = ?, file_type = ?, file_size = ?, parse_options = ?, current_version = ? WHERE file_id = ?`,
+            [file.file_key, file.file_type, file.file_size, JSON.stringify(file.parse_options || {}), file.current_version, file.file_id]
+        );
+        await deleteFileFromS3(fileKey).catch(() => {});
+        throw error;
+    }
+};
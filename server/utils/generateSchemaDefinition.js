@@ -1,92 +1,56 @@
+import { inferColumnTypes, inferRequired } from "./typeInference.js";
+
+// Builds the initial schema from every parsed row. Each column keeps its `inference`
+// (confidence, counterexamples) so the user can see why the type was chosen.
 export const generateSchemaDefinition = (parsedData) => {
-    const firstRow = parsedData[0]; 
-  
+    const inferred = inferColumnTypes(parsedData);
+
     const schemaDefinition = {};
-  
-    Object.keys(firstRow).forEach((column,index) => {
-      const value = firstRow[column];
-      const dataType = determineDataType(value);
-      const separator = dataType === "Date" ? detectDateSeparator(value) : null;
+
+    Object.keys(inferred).forEach((column,index) => {
+      const inference = inferred[column];
+      const dataType = inference.dataType;
+      // Date columns take the order (MM/DD, DD/MM or YYYY-MM-DD) settled by every value of the column
+      const dateFormat = dataType === "Date" ? inference.dateFormat : null;
 
       const schema = {
         dataType: dataType,
         unique: index === 0 || column === "Email",
-        numericSign: dataType === "Integer" || dataType === "Float" ? determineNumericSign(value) : null,
-        precision: dataType === "Float" ? determinePrecision(value) : null,
-        format: dataType === "Date" ? determineDateFormat(value) : null,
+        // Only required columns report empty values; mostly empty columns start out optional
+        required: inferRequired(inference),
+        numericSign: dataType === "Integer" || dataType === "Float" ? determineNumericSign(inference.numbers) : null,
+        precision: dataType === "Float" ? determinePrecision(inference.numbers) : null,
+        format: dateFormat ? dateFormat.format : null,
         desc: index === 0 ? "Unique identifier for this dataset" : `Represents ${column}`,
-        separator: separator
+        separator: dateFormat ? dateFormat.separator : null,
+        // Text columns with a few repeated values start out limited to the values seen
+        ...(inference.categories ? { allowedValues: inference.categories } : {}),
+        inference: {
+          dataType: dataType,
+          confidence: inference.confidence,
+          nonNull: inference.nonNull,
+          nullCount: inference.nullCount,
+          counterexamples: inference.counterexamples,
+          ...(dateFormat ? { dateFormat } : {}),
+          ...(inference.alternative ? { alternative: inference.alternative } : {})
+        }
       };
-      
+
       schemaDefinition[column] = schema;
     });
-  
+
     return schemaDefinition
 
   };
-  
-  // Determine data type based on the value
-  const determineDataType = (value) => {
-    if (typeof value === "string") {
-
-      if (value.includes("@")) {
-        return "Email";
-      }
 
-    const parsedDate = Date.parse(value);
-        if (!isNaN(parsedDate)) {
-        return "Date";
-    }
-
-      return "String";
-    }
-    
-    if (typeof value === "number") {
-      return Number.isInteger(value) ? "Integer" : "Float";
-    }
-    
-    if (value instanceof Date || !isNaN(Date.parse(value))) {
-      return "Date";
-    }
-  
-    return "String"; 
-  };
-  
-  // Determine numeric sign (positive, negative, or null)
-  const determineNumericSign = (value) => {
-    if (typeof value === "number") {
-      return value > 0 ? "Positive" : value < 0 ? "Negative" : null;
-    }
-    return null;
-  };
-  
-  // Determine precision for numbers (float precision)
-  const determinePrecision = (value) => {
-    if (typeof value === "number" && !Number.isInteger(value)) {
-      return value.toString().split(".")[1].length;
-    }
-    return null;
+  // Determine numeric sign from every number in the column (all positive, all negative, or null)
+  const determineNumericSign = (numbers) => {
+    if (!numbers) return null;
+    return numbers.min >= 0 ? "Positive" : numbers.max <= 0 ? "Negative" : null;
   };
-  
-  // Determine date format if value is a date
-  const determineDateFormat = (value) => {
-    if (value instanceof Date || !isNaN(Date.parse(value))) {
-      const date = new Date(value);
-      return "YYYY-MM-DD"; // Default format for simplicity
-    }
-    return null;
-  };
-
 
-  // Detect the separator used in a date string
-const detectDateSeparator = (value) => {
-    if (typeof value !== "string") return null;
-  
-    const separators = ["-", "/", "."];
-    for (const separator of separators) {
-      if (value.includes(separator)) {
-        return separator;
-      }
-    }
-    return null;
-  };
\ No newline at end of file
+  // Determine precision for numbers (most decimal places in the column)
+  const determinePrecision = (numbers) => {
+    if (!numbers || numbers.maxDecimals === 0) return null;
+    return numbers.maxDecimals;
+  };
@@ -0,0 +1,114 @@
+// JSON / NDJSON helpers, kept in line with parseJSONFile in client/utils/file-parsers.ts
+// so the wizard preview and the stored data produce the same columns.
+
+export const JSON_FORMATS = ["json", "ndjson"];
+export const NDJSON_EXTENSIONS = ["ndjson", "jsonl"];
+
+const isPlainObject = (value) => value !== null && typeof value === "object" && !Array.isArray(value);
+
+// A document is NDJSON when its first line is a complete JSON value followed by more lines,
+// pretty-printed JSON never parses on the first line alone
+export const sniffJSONFormat = (sample) => {
+    const text = sample.replace(/^\uFEFF/, "").trim();
+    if (text.startsWith("[")) return "json";
+
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== "");
+    if (lines.length < 2) return "json";
+
+    try {
+        JSON.parse(lines[0]);
+        return "ndjson";
+    } catch (error) {
+        return "json";
+    }
+};
+
+// Accept a flatten depth sent by the client: a non-negative integer, or null to flatten every level
+const normalizeFlattenDepth = (flattenDepth) => {
+    if (flattenDepth === null) return null;
+    if (Number.isInteger(flattenDepth) && flattenDepth >= 0) return flattenDepth;
+    return undefined;
+};
+
+export const normalizeJSONOptions = (options) => {
+    if (!isPlainObject(options)) return null;
+
+    const jsonOptions = {};
+    if (JSON_FORMATS.includes(options.format)) {
+        jsonOptions.format = options.format;
+    }
+
+    const flattenDepth = normalizeFlattenDepth(options.flattenDepth);
+    if (flattenDepth !== undefined) {
+        jsonOptions.flattenDepth = flattenDepth;
+    }
+
+    return Object.keys(jsonOptions).length > 0 ? jsonOptions : null;
+};
+
+// Split NDJSON text into records, one JSON value per non-empty line
+export const parseNDJSON = (text, numOfRows = Infinity) => {
+    const records = [];
+    const lines = text.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length && records.length < numOfRows; i++) {
+        const line = lines[i].trim();
+        if (line === "") continue;
+
+        try {
+            records.push(JSON.parse(line));
+        } catch (error) {
+            throw new SyntaxError(`Invalid JSON on line ${i + 1}.`);
+        }
+    }
+
+    return records;
+};
+
+// Flatten nested objects into dotted column names (address.city) up to flattenDepth levels.
+// Arrays, empty objects and objects below that depth are kept as values (Array/Object data types).
+export const flattenRecord = (record, flattenDepth = null) => {
+    if (!isPlainObject(record)) {
+        return { value: record };
+    }
+
+    const row = {};
+    const visit = (value, prefix, depth) => {
+        Object.entries(value).forEach(([key, child]) => {
+            const column = prefix ? `${prefix}.${key}` : key;
+            const canFlatten = flattenDepth === null || depth < flattenDepth;
+
+            if (isPlainObject(child) && Object.keys(child).length > 0 && canFlatten) {
+                visit(child, column, depth + 1);
+            } else {
+                row[column] = child;
+            }
+        });
+    };
+
+    visit(record, "", 0);
+    return row;
+};
+
+// Flatten every record and give all rows the same columns, in the order they first appear
+export const flattenRecords = (records, flattenDepth = null) => {
+    const flattened = records.map(record => flattenRecord(record, flattenDepth));
+
+    const columns = [];
+    const seen = new Set();
+    flattened.forEach(row => {
+        Object.keys(row).forEach(column => {
+            if (!seen.has(column)) {
+                seen.add(column);
+                columns.push(column);
+            }
+        });
+    });
+
+    return flattened.map(row =>
+        columns.reduce((acc, column) => {
+            acc[column] = row[column] === undefined ? null : row[column];
+            return acc;
+        }, {})
+    );
+};
@@ -1,12 +1,18 @@
-import { additionMultipleColumn, additionToColumn, deleteColumn, divideMultipleColumn, divisionColumn, fillMissing, multiplicationColumn, multiplicationMultipleColumn, renameColumn, replaceColumnValues, replaceNegativeValues, replaceValue, roundColumn, sortRowsAscending, sortRowsDescending, substractionMultipleColumn, subtractionFromColumn, transformText, standardizeTextFormat, replaceText, trimText, convertDataType, extractKeyword, generateUniqueId,tokenizeText, convertTextEncoding, removeSpecialCharacters, removeAllSpecialCharacters, deleteRowsWithNulls } from "../Actions/columnActions.js";
+import { additionMultipleColumn, additionToColumn, deleteColumn, divideMultipleColumn, divisionColumn, fillMissing, multiplicationColumn, multiplicationMultipleColumn, renameColumn, replaceColumnValues, replaceNegativeValues, replaceValue, roundColumn, sortRowsAscending, sortRowsDescending, substractionMultipleColumn, subtractionFromColumn, transformText, standardizeTextFormat, replaceText, trimText, convertDataType, extractKeyword, generateUniqueId,tokenizeText, convertTextEncoding, removeSpecialCharacters, removeAllSpecialCharacters, deleteRowsWithNulls, normalizeNumbers, normalizeDataType, normalizePhone, replaceOrphanReferences } from "../Actions/columnActions.js";
 import { fillWithAverage, fillWithMean, fillWithMedian, fillWithMode, fillWithRandom, fillWithUpperOrLowerRow, removeRowsWithAnyIssue, removeRowsWithColumnIssues, removeRowsWithIssues, removeRowsWithSpecificColumnIssue, removeRowsWithSpecificIssue, replaceIssueWithValue, updateDateIssues } from "../Actions/issuesActions.js";
-import { deleteDuplicateRow, deleteRowsWhereValueEquals, deleteRowsWhereValueGreaterThan, deleteRowsWhereValueLessThan, deleteRowsWhereValueNotInRange, deleteRowsWithNegativeValues, keepOnlyUniqueRows, limitRows, removeEmptyRows, removeRowsWithNulls, replaceRow } from "../Actions/rowActions.js";
+import { deleteDuplicateRow, deleteRowsWhereValueEquals, deleteRowsWhereValueGreaterThan, deleteRowsWhereValueLessThan, deleteRowsWhereValueNotInRange, deleteRowsWithNegativeValues, deleteRowsWithOrphanReferences, keepOnlyUniqueRows, limitRows, removeEmptyRows, removeRowsWithNulls, replaceRow } from "../Actions/rowActions.js";
 
 
-export const manipulateData = (parsedData, actions, issues,schema) => {
+// `options.numberFormat` is the project's number format, used by NORMALIZE_NUMBERS and
+// DELETE_ROWS_WHERE_VALUE_NOT_IN_RANGE for columns without a number format of their own.
+// `options.references` are the referenced columns' values (loadReferenceValues), used by the ORPHAN_REFERENCE fixes.
+// `options.customTypes` are the user's data types (loadCustomDataTypes), used by NORMALIZE_DATA_TYPE.
+// `options.phoneCountry` is the project's phone country, used by NORMALIZE_PHONE for columns without a country of their own.
+export const manipulateData = (parsedData, actions, issues,schema, options = {}) => {
     let modifiedData = [...parsedData];
     
-    // Convert issues array to a row-based map for quick lookups
+    // Convert issues array to a row-based map for quick lookups. Issues name rows by their ID (rowIds.js),
+    // so the issue actions still find their rows after earlier actions sorted or deleted rows.
     const issuesArray = issues;  // Access the array inside the issues object
     const issuesMap = {};
 
@@ -32,7 +38,7 @@ export const manipulateData = (parsedData, actions, issues,schema) => {
                 break;
 
             case "REMOVE_ROWS_WITH_ISSUES":
-                removeRowsWithIssues(modifiedData, issuesMap, action)
+                modifiedData = removeRowsWithIssues(modifiedData, issuesMap, action)
                 break;
 
             case "REPLACE_VALUE":
@@ -44,7 +50,7 @@ export const manipulateData = (parsedData, actions, issues,schema) => {
                 break;
 
             case "REPLACE_ROW":
-                replaceRow(modifiedData,action)
+                modifiedData = replaceRow(modifiedData,action)
                 break;
 
             case "REPLACE_COLUMN_VALUES":
@@ -52,31 +58,39 @@ export const manipulateData = (parsedData, actions, issues,schema) => {
                 break;
 
             case "DELETE_ROWS_WHERE_VALUE_EQUALS":
-                deleteRowsWhereValueEquals(modifiedData, action);
+                modifiedData = deleteRowsWhereValueEquals(modifiedData, action);
                 break;
             
             case "DELETE_ROWS_WHERE_VALUE_LESS_THAN":
-                deleteRowsWhereValueLessThan(modifiedData,action);
+                modifiedData = deleteRowsWhereValueLessThan(modifiedData,action);
                 break;
 
             case "DELETE_ROWS_WHERE_VALUE_GREATER_THAN":
-                deleteRowsWhereValueGreaterThan(modifiedData,action)
+                modifiedData = deleteRowsWhereValueGreaterThan(modifiedData,action)
                 break;
 
             case "DELETE_ROWS_WITH_NEGATIVE_VALUES":
-                deleteRowsWithNegativeValues(modifiedData);
+                modifiedData = deleteRowsWithNegativeValues(modifiedData);
                 break;
 
             case "DELETE_ROWS_WHERE_VALUE_NOT_IN_RANGE":
-                deleteRowsWhereValueNotInRange(modifiedData,action);
+                modifiedData = deleteRowsWhereValueNotInRange(modifiedData, action, schema?.[action.column], options.numberFormat);
+                break;
+
+            case "DELETE_ROWS_WITH_ORPHAN_REFERENCES":
+                modifiedData = deleteRowsWithOrphanReferences(modifiedData, action, options.references?.[action.column]);
+                break;
+
+            case "REPLACE_ORPHAN_REFERENCES":
+                replaceOrphanReferences(modifiedData, action, options.references?.[action.column]);
                 break;
 
             case "DELETE_DUPLICATE_ROWS":
-                deleteDuplicateRow(modifiedData, action);
+                modifiedData = deleteDuplicateRow(modifiedData, action);
                 break;
 
             case "KEEP_ONLY_UNIQUE_ROWS":
-                keepOnlyUniqueRows(modifiedData, action);
+                modifiedData = keepOnlyUniqueRows(modifiedData, action);
                 break;
 
             case "SORT_ROWS_ASCENDING":
@@ -88,11 +102,11 @@ export const manipulateData = (parsedData, actions, issues,schema) => {
                 break;
     
             case "LIMIT_ROWS":
-                limitRows(modifiedData, action);
+                modifiedData = limitRows(modifiedData, action);
                 break;
 
             case "REMOVE_EMPTY_ROWS":
-                removeEmptyRows(modifiedData)
+                modifiedData = removeEmptyRows(modifiedData)
                 break;
 
             // case "REMOVE_ROWS_WITH_NULLS":
@@ -100,21 +114,21 @@ export const manipulateData = (parsedData, actions, issues,schema) => {
             //     break;
 
             case "REMOVE_ROWS_WITH_ANY_ISSUE":
-                removeRowsWithAnyIssue(modifiedData, issuesMap)
+                modifiedData = removeRowsWithAnyIssue(modifiedData, issuesMap)
                 break;
 
             case "REMOVE_ROWS_WITH_SPECIFIC_ISSUE":
                 // removeRowsWithSpecificIssue(modifiedData, issuesMap ,action)
-                removeEmptyRows(modifiedData ,action)
+                modifiedData = removeEmptyRows(modifiedData ,action)
                 break;
 
             case "REMOVE_ROWS_WITH_COLUMN_ISSUES":
-                removeRowsWithColumnIssues(modifiedData, issuesMap, action);
+                modifiedData = removeRowsWithColumnIssues(modifiedData, issuesMap, action);
                 break;
 
             
             case "REMOVE_ROWS_WITH_SPECIFIC_COLUMN_ISSUE":
-                removeRowsWithSpecificColumnIssue(modifiedData, issuesMap, action)
+                modifiedData = removeRowsWithSpecificColumnIssue(modifiedData, issuesMap, action)
                 break;
 
             case "REPLACE_ISSUE_WITH_VALUE":
@@ -183,7 +197,7 @@ export const manipulateData = (parsedData, actions, issues,schema) => {
                 break;
 
             case "RENAME_COLUMN":
-                renameColumn(modifiedData, action)
+                modifiedData = renameColumn(modifiedData, action);
                 break;
             
             // case "CHANGE_SEPARATOR":
@@ -231,6 +245,18 @@ export const manipulateData = (parsedData, actions, issues,schema) => {
                 convertTextEncoding(modifiedData, action)
                 break;
 
+            case "NORMALIZE_NUMBERS":
+                normalizeNumbers(modifiedData, action, schema?.[action.column], options.numberFormat)
+                break;
+
+            case "NORMALIZE_DATA_TYPE":
+                modifiedData = normalizeDataType(modifiedData, action, schema?.[action.column], options.customTypes)
+                break;
+
+            case "NORMALIZE_PHONE":
+                modifiedData = normalizePhone(modifiedData, action, schema?.[action.column], options.phoneCountry)
+                break;
+
             case "REMOVE_SPECIAL_CHARACTERS":
                 removeSpecialCharacters(modifiedData, action)
                 break;
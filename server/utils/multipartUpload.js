@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import s3 from "../config/s3.js";
+import {
+    AbortMultipartUploadCommand,
+    CompleteMultipartUploadCommand,
+    CreateMultipartUploadCommand,
+    UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { BadRequestError } from "../errors/index.js";
+
+// Chunks are stored as S3 multipart parts, which must be at least 5MB (except the last one)
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+// ParseS3File reads the whole object into one string and V8 strings stop at about 512MB,
+// so larger files could be uploaded but never parsed
+export const MAX_CHUNKED_FILE_SIZE = 500 * 1024 * 1024; // 500MB
+const MAX_PARTS = 10000;
+
+export const getTotalChunks = (fileSize, chunkSize = UPLOAD_CHUNK_SIZE) => Math.max(Math.ceil(fileSize / chunkSize), 1);
+
+// Checks a chunk against the SHA-256 checksum computed by the browser before it was sent
+export const verifyChunkChecksum = (body, checksum) => {
+    const digest = crypto.createHash("sha256").update(body).digest("hex");
+    if (!checksum || digest !== String(checksum).toLowerCase()) {
+        throw new BadRequestError("Chunk checksum does not match, please resend the chunk.");
+    }
+    return digest;
+};
+
+export const startMultipartUpload = async (fileKey, contentType) => {
+    try {
+        const { UploadId } = await s3.send(new CreateMultipartUploadCommand({
+            Bucket: process.env.AWS_BUCKET_NAME,
+            Key: fileKey,
+            ContentType: contentType || "application/octet-stream",
+        }));
+        return UploadId;
+    } catch (error) {
+        console.error("Starting the multipart upload failed:", error);
+        throw new BadRequestError("Could not start the upload.");
+    }
+};
+
+// Uploads one chunk as part `chunkIndex + 1`; sending the same part again replaces it
+export const uploadChunkPart = async ({ fileKey, s3UploadId, chunkIndex, body }) => {
+    if (chunkIndex + 1 > MAX_PARTS) {
+        throw new BadRequestError("The file has too many chunks.");
+    }
+
+    try {
+        const { ETag } = await s3.send(new UploadPartCommand({
+            Bucket: process.env.AWS_BUCKET_NAME,
+            Key: fileKey,
+            UploadId: s3UploadId,
+            PartNumber: chunkIndex + 1,
+            Body: body,
+            ContentLength: body.length,
+        }));
+        return ETag;
+    } catch (error) {
+        console.error("Chunk upload to S3 failed:", error);
+        throw new BadRequestError("Chunk upload to S3 failed.");
+    }
+};
+
+// Reassembles the stored parts into the final object
+export const completeMultipartUpload = async ({ fileKey, s3UploadId, chunks }) => {
+    try {
+        await s3.send(new CompleteMultipartUploadCommand({
+            Bucket: process.env.AWS_BUCKET_NAME,
+            Key: fileKey,
+            UploadId: s3UploadId,
+            MultipartUpload: {
+                Parts: chunks.map(chunk => ({ PartNumber: chunk.chunk_index + 1, ETag: chunk.etag })),
+            },
+        }));
+    } catch (error) {
+        console.error("Completing the multipart upload failed:", error);
+        throw new BadRequestError("Could not assemble the uploaded chunks.");
+    }
+};
+
+export const abortMultipartUpload = async ({ fileKey, s3UploadId }) => {
+    try {
+        await s3.send(new AbortMultipartUploadCommand({
+            Bucket: process.env.AWS_BUCKET_NAME,
+            Key: fileKey,
+            UploadId: s3UploadId,
+        }));
+    } catch (error) {
+        // The parts expire with the bucket lifecycle rules if the abort fails
+        console.error("Aborting the multipart upload failed:", error);
+    }
+};
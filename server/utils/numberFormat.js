@@ -0,0 +1,142 @@
+// Locale-aware number parsing, kept in line with client/utils/number-format.ts
+// so the wizard preview, the stored data and the validation read "1.234,56" the same way.
+
+// Decimal and thousands separators of the locales the wizard offers
+export const NUMBER_LOCALES = {
+    "en-US": { decimalSeparator: ".", thousandsSeparator: "," },
+    "de-DE": { decimalSeparator: ",", thousandsSeparator: "." },
+    "fr-FR": { decimalSeparator: ",", thousandsSeparator: " " },
+    "de-CH": { decimalSeparator: ".", thousandsSeparator: "'" },
+};
+
+export const DEFAULT_CURRENCY_SYMBOLS = ["$", "€", "£", "¥", "₹", "CHF", "USD", "EUR", "GBP"];
+
+export const DEFAULT_NUMBER_FORMAT = {
+    locale: "en-US",
+    ...NUMBER_LOCALES["en-US"],
+    currencySymbols: DEFAULT_CURRENCY_SYMBOLS
+};
+
+const DECIMAL_SEPARATORS = [".", ","];
+// An empty thousands separator means digits are not grouped
+const THOUSANDS_SEPARATORS = [",", ".", " ", "'", ""];
+const MAX_CURRENCY_SYMBOL_LENGTH = 5;
+
+// Spaces used for grouping in French and other locales (regular, no-break, narrow no-break)
+const SPACE_PATTERN = "[ \\u00a0\\u202f]";
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Accept a number format (a locale, separators and currency symbols) sent by the client.
+// Separators given next to a locale override the locale's own.
+export const normalizeNumberFormat = (format) => {
+    if (!format || typeof format !== "object" || Array.isArray(format)) return null;
+
+    const locale = format.locale === undefined ? null : format.locale;
+    if (locale !== null && !NUMBER_LOCALES[locale]) return null;
+
+    const base = locale ? NUMBER_LOCALES[locale] : DEFAULT_NUMBER_FORMAT;
+    const decimalSeparator = format.decimalSeparator ?? base.decimalSeparator;
+    // A decimal comma alone implies a thousands dot, and the other way round
+    const thousandsSeparator = format.thousandsSeparator
+        ?? (base.thousandsSeparator === decimalSeparator ? (decimalSeparator === "," ? "." : ",") : base.thousandsSeparator);
+
+    if (!DECIMAL_SEPARATORS.includes(decimalSeparator) || !THOUSANDS_SEPARATORS.includes(thousandsSeparator)) {
+        return null;
+    }
+    if (decimalSeparator === thousandsSeparator) return null;
+
+    const currencySymbols = format.currencySymbols ?? DEFAULT_CURRENCY_SYMBOLS;
+    if (!Array.isArray(currencySymbols) || currencySymbols.some(symbol => typeof symbol !== "string" || symbol.trim() === "" || symbol.length > MAX_CURRENCY_SYMBOL_LENGTH)) {
+        return null;
+    }
+
+    return {
+        ...(locale ? { locale } : {}),
+        decimalSeparator,
+        thousandsSeparator,
+        currencySymbols: [...new Set(currencySymbols.map(symbol => symbol.trim()))]
+    };
+};
+
+// The format a column is read with: its own, else the project's, else the default
+export const resolveNumberFormat = (columnSchema, projectFormat) => {
+    return normalizeNumberFormat(columnSchema?.numberFormat)
+        || normalizeNumberFormat(projectFormat)
+        || DEFAULT_NUMBER_FORMAT;
+};
+
+const digitPatterns = new Map();
+
+const digitPattern = ({ decimalSeparator, thousandsSeparator }) => {
+    const key = decimalSeparator + thousandsSeparator;
+    if (!digitPatterns.has(key)) {
+        const decimal = escapeRegExp(decimalSeparator);
+        const grouped = thousandsSeparator === ""
+            ? ""
+            : `|\\d{1,3}(?:${thousandsSeparator === " " ? SPACE_PATTERN : escapeRegExp(thousandsSeparator)}\\d{3})+`;
+        digitPatterns.set(key, new RegExp(`^(\\d+${grouped})(?:${decimal}(\\d+))?$`));
+    }
+    return digitPatterns.get(key);
+};
+
+// Strips a leading or trailing currency symbol, longest symbols first ("USD" before "$")
+const stripCurrency = (text, symbols) => {
+    const sorted = [...symbols].sort((a, b) => b.length - a.length);
+    for (const symbol of sorted) {
+        if (text.startsWith(symbol)) return text.slice(symbol.length).trim();
+        if (text.endsWith(symbol)) return text.slice(0, -symbol.length).trim();
+    }
+    return null;
+};
+
+// Reads a formatted number such as "1.234,56", "€12", "(45)" or "12 %".
+// Returns { value, kind } where kind is "number", "currency" or "percentage", or null when the
+// text is not a number in this format. Negatives are written "-12", "12-" or "(12)".
+export const parseLocaleNumber = (value, format = DEFAULT_NUMBER_FORMAT) => {
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? { value, kind: "number" } : null;
+    }
+    if (typeof value !== "string") return null;
+
+    let text = value.trim();
+    let negative = false;
+    let kind = "number";
+
+    const readSign = () => {
+        const accounting = text.match(/^\((.*)\)$/);
+        if (accounting) {
+            text = accounting[1].trim();
+            negative = !negative;
+        } else if (/^[-−]/.test(text)) {
+            text = text.slice(1).trim();
+            negative = !negative;
+        } else if (/[-−]$/.test(text)) {
+            text = text.slice(0, -1).trim();
+            negative = !negative;
+        }
+    };
+
+    readSign();
+
+    if (text.endsWith("%")) {
+        text = text.slice(0, -1).trim();
+        kind = "percentage";
+    } else {
+        const withoutCurrency = stripCurrency(text, format.currencySymbols || DEFAULT_CURRENCY_SYMBOLS);
+        if (withoutCurrency !== null) {
+            text = withoutCurrency;
+            kind = "currency";
+            // "$-12" and "€(12)" put the sign after the symbol
+            readSign();
+        }
+    }
+
+    const match = text.match(digitPattern(format));
+    if (!match) return null;
+
+    const integerPart = match[1].replace(/[^\d]/g, "");
+    const number = Number(match[2] ? `${integerPart}.${match[2]}` : integerPart);
+
+    return { value: negative && number !== 0 ? -number : number, kind };
+};
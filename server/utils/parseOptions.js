@@ -0,0 +1,88 @@
+import { BadRequestError } from "../errors/index.js";
+import { normalizeCSVDialect } from "./csvDialect.js";
+import { normalizeJSONOptions } from "./jsonRecords.js";
+import { normalizeEncoding } from "./textEncoding.js";
+import { normalizeNumberFormat } from "./numberFormat.js";
+import { MAX_HEADER_ROWS, isDefaultTableLayout, normalizeTableLayout } from "./tableLayout.js";
+
+// Read the parse options sent with an upload (multipart fields arrive as strings)
+// and keep only the settings ParseS3File understands.
+export const readParseOptions = (rawOptions) => {
+    if (!rawOptions) return {};
+
+    let options = rawOptions;
+    if (typeof rawOptions === "string") {
+        try {
+            options = JSON.parse(rawOptions);
+        } catch (error) {
+            throw new BadRequestError("Parse options must be valid JSON.");
+        }
+    }
+
+    if (!options || typeof options !== "object" || Array.isArray(options)) {
+        throw new BadRequestError("Parse options must be an object.");
+    }
+
+    const parseOptions = {};
+
+    if (options.encoding !== undefined) {
+        const encoding = normalizeEncoding(options.encoding);
+        if (!encoding) {
+            throw new BadRequestError(`Unsupported text encoding "${options.encoding}".`);
+        }
+        parseOptions.encoding = encoding;
+    }
+
+    const dialect = normalizeCSVDialect(options.dialect);
+    if (dialect) {
+        parseOptions.dialect = dialect;
+    }
+
+    const json = normalizeJSONOptions(options.json);
+    if (json) {
+        parseOptions.json = json;
+    }
+
+    if (options.sheets !== undefined) {
+        const { sheets } = options;
+        if (!Array.isArray(sheets) || sheets.length === 0 || sheets.some(sheet => typeof sheet !== "string" || sheet === "")) {
+            throw new BadRequestError("Sheets must be a non-empty list of sheet names.");
+        }
+        parseOptions.sheets = [...new Set(sheets)];
+    }
+
+    if (options.layout !== undefined) {
+        const layout = normalizeTableLayout(options.layout);
+        if (!layout) {
+            throw new BadRequestError(`Layout must have whole-number skipTop and skipBottom counts and 1 to ${MAX_HEADER_ROWS} header rows.`);
+        }
+        if (!isDefaultTableLayout(layout)) {
+            parseOptions.layout = layout;
+        }
+    }
+
+    if (options.numberFormat !== undefined) {
+        const numberFormat = normalizeNumberFormat(options.numberFormat);
+        if (!numberFormat) {
+            throw new BadRequestError("Number format must use a supported locale and different decimal and thousands separators.");
+        }
+        parseOptions.numberFormat = numberFormat;
+    }
+
+    // Columns of the file read under another name, e.g. a renamed column mapped back to the schema's name
+    if (options.renameColumns !== undefined) {
+        const renames = options.renameColumns;
+        const entries = renames && typeof renames === "object" && !Array.isArray(renames) ? Object.entries(renames) : null;
+        if (!entries || entries.some(([from, to]) => from === "" || typeof to !== "string" || to === "")) {
+            throw new BadRequestError("Renamed columns must map column names to new names.");
+        }
+        if (new Set(entries.map(([, to]) => to)).size !== entries.length) {
+            throw new BadRequestError("Two columns cannot be renamed to the same name.");
+        }
+        if (entries.length > 0) {
+            parseOptions.renameColumns = Object.fromEntries(entries);
+        }
+    }
+
+    return parseOptions;
+};
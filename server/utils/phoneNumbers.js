@@ -0,0 +1,75 @@
+// Phone numbers of PhoneNumber columns, read with the column's country (schema `phoneCountry`) or the project's
+// (FileSchemas.phone_country) when they are written without a +country code. The numbering plans come with
+// libphonenumber-js, so parsing works offline.
+import { isSupportedCountry, parsePhoneNumberFromString } from "libphonenumber-js/max";
+
+// Formats NORMALIZE_PHONE writes numbers in
+export const PHONE_FORMATS = ["E.164", "INTERNATIONAL", "NATIONAL"];
+
+// The column's country takes precedence over the project's
+export const resolvePhoneCountry = (schema, projectCountry) => schema?.phoneCountry || projectCountry || null;
+
+// Why a country cannot be used to read phone numbers, or null when it can (or none is set)
+export const describePhoneCountryError = (country, column = null) => {
+    if (country === null || country === undefined || country === "") return null;
+    if (typeof country !== "string" || !isSupportedCountry(country)) {
+        return column
+            ? `Column '${column}' has an unknown phone country '${country}', use an ISO 3166 code such as US or DE.`
+            : `Unknown phone country '${country}', use an ISO 3166 code such as US or DE.`;
+    }
+    return null;
+};
+
+const parsePhone = (value, country) => {
+    if (value === null || value === undefined || typeof value === "object") return null;
+    const text = String(value).trim();
+    try {
+        return parsePhoneNumberFromString(text, country && isSupportedCountry(country) ? country : undefined) || null;
+    } catch {
+        return null;
+    }
+};
+
+// Issue of one phone number, or null when it is a valid number of the expected country:
+// INVALID_PHONE_NUMBER when it cannot be a phone number (unreadable, or too short or long),
+// POSSIBLE_PHONE_NUMBER when its length fits but no number range of its country does,
+// WRONG_REGION_PHONE_NUMBER when it is a valid number of another country than the column's.
+export const checkPhoneNumber = (value, country) => {
+    const phone = parsePhone(value, country);
+
+    if (!phone || !phone.isPossible()) {
+        return {
+            issueType: "INVALID_PHONE_NUMBER",
+            issueDesc: country || phone
+                ? `Invalid Phone Number (Found: ${value})`
+                : `Invalid Phone Number (Expected: a +country code or a phone country for the column, Found: ${value})`
+        };
+    }
+
+    if (!phone.isValid()) {
+        return {
+            issueType: "POSSIBLE_PHONE_NUMBER",
+            issueDesc: `Possibly Invalid Phone Number (Found: ${value}, no ${phone.country || `+${phone.countryCallingCode}`} number range matches it)`
+        };
+    }
+
+    if (country && phone.country !== country) {
+        return {
+            issueType: "WRONG_REGION_PHONE_NUMBER",
+            issueDesc: `Phone Number From Another Country (Expected: ${country}, Found: ${phone.country || `+${phone.countryCallingCode}`} ${phone.formatInternational()})`
+        };
+    }
+
+    return null;
+};
+
+// A valid number written in E.164 ("+4930123456"), international ("+49 30 123456") or national ("030 123456")
+// format, or null when the value is not a valid phone number
+export const formatPhoneNumber = (value, country, format = "E.164") => {
+    const phone = parsePhone(value, country);
+    if (!phone || !phone.isValid()) return null;
+
+    if (format === "NATIONAL") return phone.formatNational();
+    if (format === "INTERNATIONAL") return phone.formatInternational();
+    return phone.number;
+};
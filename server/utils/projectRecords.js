@@ -0,0 +1,245 @@
+import { v4 as uuidv4 } from "uuid";
+import { queryDb } from "../DB_methods/query.js";
+import { BadRequestError } from "../errors/index.js";
+import { ParseS3File } from "./ParseS3File.js";
+import { validateParsedData } from "./validateParsedData.js";
+import { buildReferenceValues } from "./referenceIntegrity.js";
+import { deleteFileFromS3 } from "./deleteFromS3.js";
+
+const dataColumns = (row) => Object.keys(row || {}).filter(column => column !== "originalRowIndex");
+
+// Keep only the project's columns, in the project's order, so every batch lines up with the first upload
+const projectRow = (row, columns, originalRowIndex) => {
+    const projected = columns.reduce((acc, column) => {
+        acc[column] = row[column] === undefined ? null : row[column];
+        return acc;
+    }, {});
+    projected.originalRowIndex = originalRowIndex;
+    return projected;
+};
+
+// The rows of a parsed file. ParseS3File already flattens Excel files to the rows of the selected sheets,
+// so every format comes back as one list of rows; anything else cannot be validated or cleaned.
+export const requireRows = (parsedData) => {
+    if (!Array.isArray(parsedData) || parsedData.length === 0) {
+        throw new BadRequestError("Parsed data is invalid or empty");
+    }
+    return parsedData;
+};
+
+// Batches of one version of the project, or of every version when versionNumber is omitted
+export const getFileBatches = async (fileId, versionNumber) => {
+    if (versionNumber === undefined) {
+        return queryDb(`SELECT * FROM file_batches WHERE file_id = ?`, [fileId]);
+    }
+
+    return queryDb(
+        `SELECT * FROM file_batches WHERE file_id = ? AND version_number = ? ORDER BY uploaded_at ASC, row_offset ASC`,
+        [fileId, versionNumber]
+    );
+};
+
+// Parse a project's source file followed by every batch appended to that version, numbering
+// rows continuously. `file` is a files row with file_id, file_key, parse_options and current_version.
+export const loadProjectRecords = async (file) => {
+    const records = await ParseS3File({ fileKey: file.file_key, parseOptions: file.parse_options });
+
+    if (!Array.isArray(records) || records.length === 0) {
+        return records;
+    }
+
+    const batches = await getFileBatches(file.file_id, file.current_version || 1);
+    if (batches.length === 0) {
+        return records;
+    }
+
+    const columns = dataColumns(records[0]);
+    for (const batch of batches) {
+        const batchRows = await ParseS3File({ fileKey: batch.file_key, parseOptions: batch.parse_options });
+        batchRows.forEach(row => records.push(projectRow(row, columns, records.length)));
+    }
+
+    return records;
+};
+
+// The project's validation rules, composite unique keys and phone country, empty lists and null when it has none
+const getProjectChecks = async (fileId) => {
+    const rows = await queryDb(`SELECT validation_rules, unique_keys, phone_country FROM FileSchemas WHERE file_id = ?`, [fileId]);
+    return {
+        rules: rows[0]?.validation_rules || [],
+        uniqueKeys: rows[0]?.unique_keys || [],
+        phoneCountry: rows[0]?.phone_country || null
+    };
+};
+
+// Values of the columns a schema references in the user's other projects, keyed by the referencing column.
+// The referenced project is read in its current version; a reference to a project that is gone is skipped.
+export const loadReferenceValues = async (userId, schemaDefinition) => {
+    const references = {};
+    const projects = {};
+
+    for (const [column, definition] of Object.entries(schemaDefinition || {})) {
+        const reference = definition?.reference;
+        if (!reference?.fileId || !reference?.column) continue;
+
+        if (!(reference.fileId in projects)) {
+            const files = await queryDb(
+                `SELECT file_id, file_key, original_name, parse_options, current_version FROM files WHERE file_id = ? AND user_id = ?`,
+                [reference.fileId, userId]
+            );
+            const records = files.length > 0 ? await loadProjectRecords(files[0]) : null;
+            projects[reference.fileId] = Array.isArray(records) ? { name: files[0].original_name, records } : null;
+        }
+
+        const project = projects[reference.fileId];
+        if (!project) continue;
+
+        references[column] = {
+            values: buildReferenceValues(project.records, reference.column),
+            projectName: project.name,
+            column: reference.column
+        };
+    }
+
+    return references;
+};
+
+// The user's own data types (custom_data_types), validated next to the built-in registry types
+export const loadCustomDataTypes = async (userId) => queryDb(
+    `SELECT name, description, pattern, checksum, normalizer, message FROM custom_data_types WHERE user_id = ?`,
+    [userId]
+);
+
+// Validate every row against the schema and replace the stored issues of the project.
+// `numberFormat` is the project's number format from its parse options;
+// `rules`, `uniqueKeys` and `phoneCountry` are its validation rules, composite keys and phone country, read from FileSchemas when not given;
+// `references` are the referenced columns' values and `customTypes` the user's data types, loaded when not given.
+export const replaceFileIssues = async ({ userId, fileId, records, schema, numberFormat, rules, uniqueKeys, phoneCountry, references, customTypes }) => {
+    const saved = rules && uniqueKeys && phoneCountry !== undefined ? { rules, uniqueKeys, phoneCountry } : await getProjectChecks(fileId);
+    const referenceValues = references ?? await loadReferenceValues(userId, schema);
+    const issues = validateParsedData(records, schema, {
+        numberFormat,
+        rules: rules ?? saved.rules,
+        uniqueKeys: uniqueKeys ?? saved.uniqueKeys,
+        phoneCountry: phoneCountry !== undefined ? phoneCountry : saved.phoneCountry,
+        references: referenceValues,
+        customTypes: customTypes ?? await loadCustomDataTypes(userId)
+    });
+
+    await queryDb(`DELETE FROM issues WHERE file_id = ?`, [fileId]);
+
+    if (issues.length > 0) {
+        const insertValues = issues.map(issue => [
+            fileId,
+            userId,
+            issue.row,
+            JSON.stringify(issue.errors)
+        ]);
+
+        await queryDb(
+            `INSERT INTO issues (file_id, user_id, row_index, errors) VALUES ?`,
+            [insertValues]
+        );
+    }
+
+    return issues;
+};
+
+// Parse a batch and make sure it has every column of the project; extra columns are ignored
+const checkBatch = async ({ userId, file, fileKey, parseOptions }) => {
+    const fetchSchema = await queryDb(
+        `SELECT schema_definition, validation_rules, unique_keys, phone_country FROM FileSchemas WHERE file_id = ? AND user_id = ?`,
+        [file.file_id, userId]
+    );
+
+    if (fetchSchema.length === 0) {
+        throw new BadRequestError("The project has no schema to validate the batch against.");
+    }
+
+    const existingRecords = await loadProjectRecords(file);
+    const batchRows = await ParseS3File({ fileKey, parseOptions });
+
+    if (!Array.isArray(batchRows) || batchRows.length === 0) {
+        throw new BadRequestError("The batch does not contain any rows.");
+    }
+
+    const projectColumns = dataColumns(existingRecords[0]);
+    const batchColumns = dataColumns(batchRows[0]);
+    const missingColumns = projectColumns.filter(column => !batchColumns.includes(column));
+
+    if (missingColumns.length > 0) {
+        throw new BadRequestError(`The batch is missing the project's columns: ${missingColumns.join(", ")}.`);
+    }
+
+    return {
+        schema: fetchSchema[0].schema_definition,
+        rules: fetchSchema[0].validation_rules,
+        uniqueKeys: fetchSchema[0].unique_keys,
+        phoneCountry: fetchSchema[0].phone_country,
+        existingRecords,
+        batchRows,
+        projectColumns,
+        ignoredColumns: batchColumns.filter(column => !projectColumns.includes(column))
+    };
+};
+
+// Add an uploaded batch to an existing project: the batch must have the project's columns,
+// it is validated against the saved schema together with the existing rows (so uniqueness
+// holds across batches) and only the issues of the new rows are stored.
+export const appendBatchToFile = async ({ userId, file, fileKey, originalName, fileType, fileSize, parseOptions }) => {
+    let checked;
+    try {
+        checked = await checkBatch({ userId, file, fileKey, parseOptions });
+    } catch (error) {
+        // A rejected batch is not kept in the bucket
+        await deleteFileFromS3(fileKey).catch(() => {});
+        throw error;
+    }
+
+    const { schema, rules, uniqueKeys, phoneCountry, existingRecords, batchRows, projectColumns, ignoredColumns } = checked;
+    const references = await loadReferenceValues(userId, schema);
+    const customTypes = await loadCustomDataTypes(userId);
+
+    const rowOffset = existingRecords.length;
+    const combinedRecords = existingRecords.concat(
+        batchRows.map((row, index) => projectRow(row, projectColumns, rowOffset + index))
+    );
+
+    const newIssues = validateParsedData(combinedRecords, schema, { numberFormat: file.parse_options?.numberFormat, rules, uniqueKeys, phoneCountry, references, customTypes })
+        .filter(issue => issue.row > rowOffset);
+
+    const batchId = uuidv4();
+    await queryDb(
+        `INSERT INTO file_batches (batch_id, file_id, user_id, version_number, original_name, file_key, file_type, file_size, parse_options, row_offset, row_count)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [batchId, file.file_id, userId, file.current_version || 1, originalName, fileKey, fileType, fileSize, JSON.stringify(parseOptions), rowOffset, batchRows.length]
+    );
+
+    if (newIssues.length > 0) {
+        const insertValues = newIssues.map(issue => [
+            file.file_id,
+            userId,
+            issue.row,
+            JSON.stringify(issue.errors)
+        ]);
+
+        try {
+            await queryDb(
+                `INSERT INTO issues (file_id, user_id, row_index, errors) VALUES ?`,
+                [insertValues]
+            );
+        } catch (error) {
+            // Without its issues the batch is dropped, so nothing refers to its object once it is removed
+            await queryDb(`DELETE FROM file_batches WHERE batch_id = ?`, [batchId]);
+            throw error;
+        }
+    }
+
+    return {
+        batch_id: batchId,
+        rowsAdded: batchRows.length,
+        totalRows: combinedRecords.length,
+        issuesAdded: newIssues.length,
+        ignoredColumns
+    };
+};
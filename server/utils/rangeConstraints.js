@@ -0,0 +1,112 @@
+import { parseDateText } from "./dateFormat.js";
+import { parseLocaleNumber, resolveNumberFormat } from "./numberFormat.js";
+
+// Range of a column (schema `min`, `max`), e.g. an Age between 0 and 120 or an order date after 2000-01-01.
+// Bounds are numbers for numeric columns and YYYY-MM-DD dates for Date columns; either bound can be left out.
+// Same rules as the client's utils/range-constraints.ts, so the schema editor and validation agree.
+
+const NUMERIC_RANGE_TYPES = ["Integer", "Float", "Currency", "Percentage", "Timestamp"];
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// "number" or "date" for the types a range applies to, otherwise null
+export const rangeKind = (dataType) => {
+    if (NUMERIC_RANGE_TYPES.includes(dataType)) return "number";
+    if (dataType === "Date") return "date";
+    return null;
+};
+
+const isBound = (value) => value !== null && value !== undefined && value !== "";
+
+// A date as YYYYMMDD, so dates compare as numbers
+const dateKey = (year, month, day) => year * 10000 + month * 100 + day;
+
+const isoDateKey = (text) => {
+    const match = typeof text === "string" ? text.match(ISO_DATE) : null;
+    if (!match) return null;
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? dateKey(year, month, day) : null;
+};
+
+// The key of a bound, or null when it does not suit the column type
+const boundKey = (bound, kind) => {
+    if (kind === "date") return isoDateKey(bound);
+    return typeof bound === "number" && Number.isFinite(bound) ? bound : null;
+};
+
+// Why a column's range cannot be enforced, or null when it is valid.
+// Columns of other types ignore their range, so it is only checked for the types it applies to.
+export const describeRangeError = (column, schema) => {
+    const kind = rangeKind(schema.dataType);
+    if (!kind) return null;
+
+    const bounds = ["min", "max"].filter(key => isBound(schema[key]));
+    if (bounds.some(key => boundKey(schema[key], kind) === null)) {
+        return kind === "date"
+            ? `Column '${column}' range must use YYYY-MM-DD dates.`
+            : `Column '${column}' range must use numbers.`;
+    }
+    if (bounds.length === 2 && boundKey(schema.min, kind) > boundKey(schema.max, kind)) {
+        return `Column '${column}' minimum is above its maximum.`;
+    }
+    return null;
+};
+
+// The column's bounds as comparable keys, read once per validation run; null when it has no range
+export const rangeBounds = (schema) => {
+    const kind = rangeKind(schema.dataType);
+    if (!kind || describeRangeError("", schema)) return null;
+
+    const min = isBound(schema.min) ? boundKey(schema.min, kind) : null;
+    const max = isBound(schema.max) ? boundKey(schema.max, kind) : null;
+    return min === null && max === null ? null : { kind, min, max };
+};
+
+// The key a value is compared on: its number, or YYYYMMDD for a date read in the column's format.
+// Null when the value cannot be read, type and format issues cover those values.
+export const rangeValue = (value, schema, projectNumberFormat) => {
+    const kind = rangeKind(schema.dataType);
+
+    if (kind === "number") {
+        const parsed = parseLocaleNumber(value, resolveNumberFormat(schema, projectNumberFormat));
+        return parsed ? parsed.value : null;
+    }
+
+    if (kind === "date") {
+        if (value instanceof Date) return dateKey(value.getFullYear(), value.getMonth() + 1, value.getDate());
+        const date = parseDateText(value);
+        if (!date) return null;
+        if (date.yearFirst) return dateKey(...date.parts);
+
+        // Year-last dates are read in the column's order, MM/DD when it has none
+        const [first, second, year] = date.parts;
+        const dayFirst = typeof schema.format === "string" && schema.format.startsWith("DD");
+        return dayFirst ? dateKey(year, second, first) : dateKey(year, first, second);
+    }
+
+    return null;
+};
+
+const describeRange = ({ min, max }) => {
+    if (isBound(min) && isBound(max)) return `${min} to ${max}`;
+    if (isBound(min)) return `at least ${min}`;
+    return `at most ${max}`;
+};
+
+// OUT_OF_RANGE issue of one value, or null when it is in range or cannot be read.
+// `bounds` is the column's rangeBounds, read once per validation run.
+// The issue keeps the bounds, so the fix can delete the rows outside them.
+export const checkRange = (value, schema, projectNumberFormat, bounds = rangeBounds(schema)) => {
+    if (!bounds || value === null || value === undefined) return null;
+
+    const key = rangeValue(value, schema, projectNumberFormat);
+    if (key === null) return null;
+    if ((bounds.min === null || key >= bounds.min) && (bounds.max === null || key <= bounds.max)) return null;
+
+    return {
+        issueType: "OUT_OF_RANGE",
+        issueDesc: `Value Out Of Range (Expected: ${describeRange(schema)}, Found: ${value instanceof Date ? value.toISOString().slice(0, 10) : value})`,
+        ...(isBound(schema.min) ? { min: schema.min } : {}),
+        ...(isBound(schema.max) ? { max: schema.max } : {})
+    };
+};
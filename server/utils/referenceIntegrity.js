@@ -0,0 +1,41 @@
+// Reference of a column (schema `reference`: { fileId, column }), e.g. an orders file whose
+// customer_id must exist in the customer_id column of a customers project the user uploaded.
+// Values match on their text, so 42 and "42" are the same key; empty values are left to the column's `required` flag.
+
+const isEmpty = (value) => value === null || value === undefined || String(value).trim() === "";
+
+// The text a value is looked up by
+export const referenceKey = (value) => String(value).trim();
+
+// Why a column's reference cannot be checked, or null when it is valid (or the column has none).
+// Whether the project and its column exist is checked against the database by the caller.
+export const describeReferenceError = (column, schema) => {
+    const { reference } = schema;
+    if (reference === null || reference === undefined) return null;
+
+    if (typeof reference !== "object" || typeof reference.fileId !== "string" || !reference.fileId
+        || typeof reference.column !== "string" || !reference.column) {
+        return `Column '${column}' reference must name a project and one of its columns.`;
+    }
+    return null;
+};
+
+// The values of a referenced column, read once per validation run
+export const buildReferenceValues = (records, column) => new Set(
+    records.filter(record => !isEmpty(record[column])).map(record => referenceKey(record[column]))
+);
+
+// Whether a value is missing from the referenced column; empty values and unloaded references never are
+export const isOrphanReference = (value, reference) => !!reference && !isEmpty(value) && !reference.values.has(referenceKey(value));
+
+// ORPHAN_REFERENCE issue of one value, or null when it exists in the referenced column.
+// `reference` is { values, projectName, column } as loaded for the validation run.
+export const checkReference = (value, reference) => {
+    if (!isOrphanReference(value, reference)) return null;
+
+    return {
+        issueType: "ORPHAN_REFERENCE",
+        issueDesc: `Missing Reference (Value: '${value}' not found in ${reference.column} of ${reference.projectName})`,
+        value
+    };
+};
@@ -0,0 +1,57 @@
+import { queryDb } from "../DB_methods/query.js";
+import { NotFoundError } from "../errors/index.js";
+import { ParseS3File } from "./ParseS3File.js";
+import { generateSchemaDefinition } from "./generateSchemaDefinition.js";
+import { recordSchemaVersion } from "./schemaVersions.js";
+import { requireRows } from "./projectRecords.js";
+
+// Records a file that is already in S3 and generates its initial schema from all of its rows.
+// Shared by the single-request upload and the chunked upload.
+export const registerUploadedFile = async ({ userId, fileKey, originalName, fileType, fileSize, category, description, parseOptions }) => {
+    const newFile = await queryDb(
+        `INSERT INTO files (user_id, original_name, category, description, file_key, file_type, file_size, parse_options)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [userId, originalName, category, description, fileKey, fileType, fileSize, JSON.stringify(parseOptions)]
+    );
+
+    if (!newFile.affectedRows) {
+        throw new Error("Failed to register the uploaded file.");
+    }
+
+    // Fetch files from the database
+    const userFiles = await queryDb(
+        `SELECT file_id FROM files WHERE file_key = ? AND user_id = ?`,
+        [fileKey, userId]
+    );
+
+    if (userFiles.length === 0) {
+        throw new NotFoundError("No file found for the given user and file ID.");
+    }
+
+    // The first upload is version 1 of the project
+    await queryDb(
+        `INSERT INTO file_versions (file_id, user_id, version_number, original_name, file_key, file_type, file_size, parse_options)
+        VALUES (?, ?, 1, ?, ?, ?, ?, ?)`,
+        [userFiles[0].file_id, userId, originalName, fileKey, fileType, fileSize, JSON.stringify(parseOptions)]
+    );
+
+    const parsedData = requireRows(await ParseS3File({ fileKey, parseOptions }));
+    const schemaDefinition = generateSchemaDefinition(parsedData);
+
+    if (schemaDefinition && Object.keys(schemaDefinition).length > 0) {
+        await queryDb(
+            `INSERT INTO FileSchemas (file_id, user_id, schema_definition) VALUES (?, ?, ?)`,
+            [userFiles[0].file_id, userId, JSON.stringify(schemaDefinition)]
+        );
+        await recordSchemaVersion({
+            fileId: userFiles[0].file_id,
+            userId,
+            source: "generated"
+        });
+    }
+
+    return {
+        file_id: userFiles[0].file_id,
+        schema_definition: schemaDefinition
+    };
+};
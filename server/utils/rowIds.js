@@ -0,0 +1,15 @@
+// Every row keeps the 0-based `originalRowIndex` it was given at ingest (ParseS3File, and after the rows
+// before it for appended batches) through every action, so its ID is its 1-based row in the source.
+// Issues (issues.row_index), REPLACE_ROW and the workstation's selected row refer to rows by this ID,
+// which still points at the same record after rows are sorted, deleted or replaced.
+export const ROW_ID_COLUMN = "originalRowIndex";
+
+// The stable ID of a row; rows without an ingest index fall back to their position
+export const rowIdOf = (record, index) => (
+    Number.isInteger(record?.[ROW_ID_COLUMN]) ? record[ROW_ID_COLUMN] + 1 : index + 1
+);
+
+// The row's values without its ID, for the actions that look at every column of a row
+export const rowValues = (record) => Object.entries(record)
+    .filter(([column]) => column !== ROW_ID_COLUMN)
+    .map(([, value]) => value);
@@ -0,0 +1,128 @@
+import { queryDb } from "../DB_methods/query.js";
+import { BadRequestError, NotFoundError } from "../errors/index.js";
+import { loadProjectRecords, replaceFileIssues } from "./projectRecords.js";
+
+// Saved schemas of a project. FileSchemas always holds the current definition; every save
+// (the generated schema, an edit, saved rules, a rollback) is also kept here with its author, so earlier
+// definitions can be compared and restored.
+
+// Every setting of FileSchemas a version keeps: the definition with the project's rules, composite keys
+// and phone country, which name its columns and must be restored with it
+const SNAPSHOT_COLUMNS = "schema_definition, awareness, validation_rules, unique_keys, phone_country";
+
+const jsonOrNull = (value) => (value === null || value === undefined ? null : JSON.stringify(value));
+
+// Projects created before schema history have no version rows, their current schema becomes version 1.
+// Called before a schema is overwritten, so the definition it replaces is not lost.
+export const ensureFirstSchemaVersion = async (fileId) => {
+    const versions = await queryDb(
+        `SELECT version_number FROM schema_versions WHERE file_id = ? LIMIT 1`,
+        [fileId]
+    );
+
+    if (versions.length > 0) return;
+
+    const current = await queryDb(
+        `SELECT user_id FROM FileSchemas WHERE file_id = ?`,
+        [fileId]
+    );
+
+    if (current.length === 0) return;
+
+    await insertSnapshot({ fileId, userId: current[0].user_id, versionNumber: 1, source: "generated" });
+};
+
+// Copies the project's current FileSchemas settings into schema_versions
+const insertSnapshot = async ({ fileId, userId, versionNumber, source, restoredFrom = null }) => {
+    await queryDb(
+        `INSERT INTO schema_versions (file_id, user_id, version_number, ${SNAPSHOT_COLUMNS}, source, restored_from)
+        SELECT file_id, ?, ?, ${SNAPSHOT_COLUMNS}, ?, ? FROM FileSchemas WHERE file_id = ?`,
+        [userId, versionNumber, source, restoredFrom, fileId]
+    );
+};
+
+// Records the project's saved schema, rules, keys and phone country as its next version and returns its number.
+// Called after FileSchemas was written. `source` is "generated", "edit", "rules" or "rollback";
+// a rollback names the version it restored.
+export const recordSchemaVersion = async ({ fileId, userId, source = "edit", restoredFrom = null }) => {
+    const latest = await queryDb(
+        `SELECT MAX(version_number) AS version_number FROM schema_versions WHERE file_id = ?`,
+        [fileId]
+    );
+    const versionNumber = (latest[0]?.version_number || 0) + 1;
+
+    await insertSnapshot({ fileId, userId, versionNumber, source, restoredFrom });
+
+    return versionNumber;
+};
+
+// Every saved schema of a project, oldest first, with the name of the user who saved it
+export const getSchemaVersions = async (fileId) => {
+    await ensureFirstSchemaVersion(fileId);
+
+    const versions = await queryDb(
+        `SELECT v.schema_version_id, v.version_number, v.schema_definition, v.awareness, v.validation_rules, v.unique_keys,
+            v.phone_country, v.source, v.restored_from, v.created_at, v.user_id, u.first_name, u.last_name
+        FROM schema_versions v LEFT JOIN users u ON u.user_id = v.user_id
+        WHERE v.file_id = ? ORDER BY v.version_number ASC`,
+        [fileId]
+    );
+
+    return versions.map(({ user_id, first_name, last_name, ...version }) => ({
+        ...version,
+        author: { userId: user_id, name: [first_name, last_name].filter(Boolean).join(" ") || null }
+    }));
+};
+
+// Makes an earlier schema current again, with the rules, composite keys and phone country saved with it.
+// The rollback is saved as a new version (history is never rewritten) and every row is revalidated,
+// so the stored issues follow the restored schema. `file` is the project's files row.
+export const rollbackSchemaVersion = async ({ userId, file, versionNumber }) => {
+    const versions = await getSchemaVersions(file.file_id);
+    const version = versions.find(v => v.version_number === Number(versionNumber));
+
+    if (!version) {
+        throw new NotFoundError(`Schema version ${versionNumber} not found.`);
+    }
+
+    if (version.version_number === versions[versions.length - 1].version_number) {
+        throw new BadRequestError(`Schema version ${version.version_number} is already the current schema.`);
+    }
+
+    const records = await loadProjectRecords(file);
+    if (!Array.isArray(records) || records.length === 0) {
+        throw new BadRequestError("Parsed data is invalid or empty");
+    }
+
+    await queryDb(
+        `UPDATE FileSchemas SET schema_definition = ?, awareness = COALESCE(?, awareness), validation_rules = ?, unique_keys = ?,
+            phone_country = ? WHERE file_id = ? AND user_id = ?`,
+        [JSON.stringify(version.schema_definition), version.awareness, jsonOrNull(version.validation_rules),
+            jsonOrNull(version.unique_keys), version.phone_country || null, file.file_id, userId]
+    );
+
+    const schemaVersion = await recordSchemaVersion({
+        fileId: file.file_id,
+        userId,
+        source: "rollback",
+        restoredFrom: version.version_number
+    });
+
+    const issues = await replaceFileIssues({
+        userId,
+        fileId: file.file_id,
+        records,
+        schema: version.schema_definition,
+        numberFormat: file.parse_options?.numberFormat,
+        rules: version.validation_rules || [],
+        uniqueKeys: version.unique_keys || [],
+        phoneCountry: version.phone_country || null
+    });
+
+    return {
+        schemaVersion,
+        restoredFrom: version.version_number,
+        rowCount: records.length,
+        issueCount: issues.length
+    };
+};
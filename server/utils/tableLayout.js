@@ -0,0 +1,77 @@
+// Table layout of CSV and Excel files: rows to skip above the header (title banners),
+// the number of header rows (merged into one name per column) and rows to skip at the
+// bottom ("Total" footers). Kept in line with mergeHeaderRows / splitTableRecords in
+// client/utils/file-parsers.ts so the wizard preview and the stored data use the same columns.
+// Blank lines are not counted, as neither parser returns them.
+
+export const DEFAULT_TABLE_LAYOUT = { skipTop: 0, headerRows: 1, skipBottom: 0 };
+export const MAX_HEADER_ROWS = 5;
+
+const isCount = (value, min) => Number.isInteger(value) && value >= min;
+
+// Accept a layout sent by the client; null when it is not a valid layout
+export const normalizeTableLayout = (layout) => {
+    if (!layout || typeof layout !== "object" || Array.isArray(layout)) return null;
+
+    const { skipTop = 0, headerRows = 1, skipBottom = 0 } = layout;
+    if (!isCount(skipTop, 0) || !isCount(skipBottom, 0) || !isCount(headerRows, 1) || headerRows > MAX_HEADER_ROWS) {
+        return null;
+    }
+
+    return { skipTop, headerRows, skipBottom };
+};
+
+export const isDefaultTableLayout = (layout) =>
+    Object.keys(DEFAULT_TABLE_LAYOUT).every(key => layout[key] === DEFAULT_TABLE_LAYOUT[key]);
+
+// The stored layout of a file, or null when the first row is simply the header
+export const readTableLayout = (parseOptions) => {
+    const layout = normalizeTableLayout(parseOptions?.layout);
+    return layout && !isDefaultTableLayout(layout) ? layout : null;
+};
+
+const cellText = (cell) => (cell === null || cell === undefined ? "" : String(cell).trim());
+
+// Build one column name per column from the header rows. A label spanning several columns
+// (left-aligned, empty cells to its right) applies to every column under it, except in the
+// last header row; the labels of a column are joined with a space ("Q1 Sales").
+export const mergeHeaderRows = (headerRows) => {
+    const width = Math.max(0, ...headerRows.map(row => row.length));
+    const filledRows = headerRows.map((row, rowIndex) => {
+        const isLastRow = rowIndex === headerRows.length - 1;
+        let label = "";
+        return Array.from({ length: width }, (_, index) => {
+            const text = cellText(row[index]);
+            if (text !== "" || isLastRow) label = text;
+            return label;
+        });
+    });
+
+    const seen = new Map();
+    return Array.from({ length: width }, (_, index) => {
+        const parts = [];
+        filledRows.forEach(row => {
+            const part = row[index];
+            if (part !== "" && parts[parts.length - 1] !== part) parts.push(part);
+        });
+
+        const name = parts.join(" ") || `Column ${index + 1}`;
+        const count = (seen.get(name) || 0) + 1;
+        seen.set(name, count);
+        return count === 1 ? name : `${name}_${count}`;
+    });
+};
+
+// Split raw records (arrays of cells) into column names and data records. The footer is only
+// removed when `reachedEnd` is set, i.e. the records run to the end of the file.
+export const splitTableRecords = (records, layout, reachedEnd) => {
+    const body = records.slice(layout.skipTop);
+    const headers = mergeHeaderRows(body.slice(0, layout.headerRows));
+
+    let data = body.slice(layout.headerRows);
+    if (reachedEnd && layout.skipBottom > 0) {
+        data = data.slice(0, Math.max(data.length - layout.skipBottom, 0));
+    }
+
+    return { headers, data };
+};
@@ -0,0 +1,113 @@
+// Pattern and length constraints of a column (schema `pattern`, `minLength`, `maxLength`).
+// They apply to the text of a value, so "SKU must match ^[A-Z]{3}-\d{4}$" works on any column type.
+// Same rules as the client's utils/text-constraints.ts, so the live test and validation agree.
+
+// Patterns run on every value of every row on the server, so they are kept short
+// and may not repeat a group that repeats itself, e.g. (a+)+, which can take exponential time
+export const MAX_PATTERN_LENGTH = 200;
+
+// A quantifier at the start of the text: *, +, ? or {n}, {n,}, {n,m}
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+const REPEATING_QUANTIFIER = /^(?:[*+]|\{\d+(?:,\d*)?\})/;
+
+// Whether a group holding a quantifier is itself repeated, e.g. (a+)+, (\d*-?)* or ((ab)+c){2,}
+export const hasNestedQuantifier = (pattern) => {
+    // One entry per open group: whether it holds a quantifier
+    const groups = [];
+    let inClass = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "\\") {
+            i++;
+        } else if (inClass) {
+            if (char === "]") inClass = false;
+        } else if (char === "[") {
+            inClass = true;
+        } else if (char === "(") {
+            groups.push(false);
+            // Skip the ?:, ?=, ?!, ?<=, ?<! or ?<name> of a special group, which is not a quantifier
+            const special = pattern.slice(i + 1).match(/^\?(?:[:=!]|<[=!]|<[^>]*>)/);
+            if (special) i += special[0].length;
+        } else if (char === ")") {
+            const holdsQuantifier = groups.pop();
+            const rest = pattern.slice(i + 1);
+            if (holdsQuantifier && REPEATING_QUANTIFIER.test(rest)) return true;
+            if (groups.length > 0 && (holdsQuantifier || QUANTIFIER.test(rest))) groups[groups.length - 1] = true;
+        } else if (groups.length > 0 && QUANTIFIER.test(pattern.slice(i))) {
+            groups[groups.length - 1] = true;
+        }
+    }
+    return false;
+};
+
+// Why a pattern cannot be used, or null when it can
+export const describePatternError = (pattern) => {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+        return `is longer than ${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+        new RegExp(pattern);
+    } catch {
+        return "is not a valid regular expression";
+    }
+    if (hasNestedQuantifier(pattern)) {
+        return "repeats a group that repeats itself, e.g. (a+)+, which can take too long to check";
+    }
+    return null;
+};
+
+// A pattern is a JavaScript regular expression without slashes or flags; null when it cannot be used
+export const compilePattern = (pattern) => {
+    if (typeof pattern !== "string" || pattern === "" || describePatternError(pattern)) return null;
+    return new RegExp(pattern);
+};
+
+const isLength = (value) => value === null || value === undefined || (Number.isInteger(value) && value >= 0);
+
+// Why a column's constraints cannot be enforced, or null when they are valid
+export const describeTextConstraintError = (column, schema) => {
+    if (schema.pattern) {
+        const patternError = typeof schema.pattern === "string" ? describePatternError(schema.pattern) : "is not a valid regular expression";
+        if (patternError) return `Column '${column}' pattern ${patternError}: ${schema.pattern}`;
+    }
+    if (!isLength(schema.minLength) || !isLength(schema.maxLength)) {
+        return `Column '${column}' lengths must be whole numbers of 0 or more.`;
+    }
+    if (schema.minLength != null && schema.maxLength != null && schema.minLength > schema.maxLength) {
+        return `Column '${column}' minimum length is above its maximum length.`;
+    }
+    return null;
+};
+
+const describeLength = ({ minLength, maxLength }) => {
+    if (minLength != null && maxLength != null) return `${minLength}-${maxLength} characters`;
+    if (minLength != null) return `at least ${minLength} characters`;
+    return `at most ${maxLength} characters`;
+};
+
+// Issues of one value against a column's constraints: PATTERN_MISMATCH and LENGTH_VIOLATION.
+// `pattern` is the column's compiled pattern, compiled once per validation run.
+export const checkTextConstraints = (value, schema, pattern = compilePattern(schema.pattern)) => {
+    if (value === null || value === undefined || typeof value === "object") return [];
+
+    const text = String(value);
+    const issues = [];
+
+    if (pattern && !pattern.test(text)) {
+        issues.push({
+            issueType: "PATTERN_MISMATCH",
+            issueDesc: `Value Does Not Match Pattern (Expected: ${schema.pattern}, Found: '${text}')`
+        });
+    }
+
+    const length = [...text].length;
+    if ((schema.minLength != null && length < schema.minLength) || (schema.maxLength != null && length > schema.maxLength)) {
+        issues.push({
+            issueType: "LENGTH_VIOLATION",
+            issueDesc: `Invalid Length (Expected: ${describeLength(schema)}, Found: ${length})`
+        });
+    }
+
+    return issues;
+};
@@ -0,0 +1,67 @@
+// Character encoding detection, kept in line with sniffEncoding in client/utils/file-parsers.ts
+// so the wizard preview and the stored data are decoded the same way.
+import iconv from "iconv-lite";
+
+export const DEFAULT_ENCODING = "utf-8";
+
+export const SUPPORTED_ENCODINGS = [
+    "utf-8",
+    "utf-16le",
+    "utf-16be",
+    "windows-1252",
+    "iso-8859-1",
+    "iso-8859-15",
+];
+
+const ENCODING_SAMPLE_SIZE = 64 * 1024;
+
+// A strict UTF-8 check; a multi-byte sequence cut off at the end of the sample is accepted
+const isValidUTF8 = (bytes) => {
+    try {
+        new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+        return true;
+    } catch (error) {
+        return false;
+    }
+};
+
+// Detect the encoding from the byte order mark, the NUL pattern of UTF-16 text,
+// then UTF-8 validity; anything else is treated as a single-byte Windows/Latin-1 file
+export const sniffEncoding = (buffer) => {
+    const bytes = buffer.subarray(0, ENCODING_SAMPLE_SIZE);
+
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+    // ASCII text stored as UTF-16 has a NUL in every other byte
+    let evenNulls = 0;
+    let oddNulls = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        if (bytes[i] !== 0) continue;
+        if (i % 2 === 0) evenNulls++;
+        else oddNulls++;
+    }
+    const pairs = bytes.length / 2;
+    if (pairs > 0 && oddNulls / pairs > 0.3 && evenNulls / pairs < 0.05) return "utf-16le";
+    if (pairs > 0 && evenNulls / pairs > 0.3 && oddNulls / pairs < 0.05) return "utf-16be";
+
+    if (isValidUTF8(bytes)) return "utf-8";
+
+    // 0x80-0x9F are printable in Windows-1252 (€, curly quotes) but control characters in Latin-1
+    const hasWindowsRange = bytes.some(byte => byte >= 0x80 && byte <= 0x9f);
+    return hasWindowsRange ? "windows-1252" : "iso-8859-1";
+};
+
+// Accept an encoding sent by the client only if it is one of the supported labels
+export const normalizeEncoding = (encoding) => {
+    if (typeof encoding !== "string") return null;
+
+    const label = encoding.trim().toLowerCase();
+    return SUPPORTED_ENCODINGS.includes(label) ? label : null;
+};
+
+// Decode a file buffer, dropping the byte order mark
+export const decodeBuffer = (buffer, encoding = DEFAULT_ENCODING) => {
+    return iconv.decode(buffer, encoding, { stripBOM: true });
+};
@@ -0,0 +1,163 @@
+import { createDateTally, dateFormatFromTally, isDateText, tallyDate } from "./dateFormat.js";
+import { MAX_CATEGORY_VALUES, seedAllowedValues } from "./allowedValues.js";
+
+// Whole-file column type inference, mirrored by client/utils/type-inference.ts;
+// client/utils/__tests__/type-inference-parity.test.ts runs the same files through both.
+// Every row is counted, so a type is chosen on the whole column instead of its first values.
+
+// Share of the non-empty values a type has to fit before it is chosen over String
+export const INFERENCE_THRESHOLD = 0.95;
+// A type fitting at least this share is reported as the alternative to String
+const ALTERNATIVE_THRESHOLD = 0.5;
+// Columns empty in at most this share of the rows start out required, emptier ones optional (e.g. middle_name)
+export const REQUIRED_NULL_RATE = 0.05;
+const MAX_COUNTEREXAMPLES = 5;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+// Digits with a leading zero ("02134", "0306406152") are codes that ParseS3File keeps as text
+const LEADING_ZERO_PATTERN = /^[-+]?0\d/;
+
+const isText = (value) => typeof value === "string";
+
+// Text holding a number, leaving out codes with a leading zero so postal codes and ISBNs are not proposed as numbers
+const isNumberText = (value, pattern) => (
+    isText(value) && pattern.test(value.trim()) && !LEADING_ZERO_PATTERN.test(value.trim())
+);
+
+// Candidate types, most specific first; a value can fit several of them (an Integer is also a Float)
+const TYPE_CHECKS = [
+    ["Array", (value) => Array.isArray(value)],
+    ["Object", (value) => value !== null && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date)],
+    ["Boolean", (value) => typeof value === "boolean" || (isText(value) && /^(true|false)$/i.test(value.trim()))],
+    ["Integer", (value) => Number.isInteger(value) || isNumberText(value, /^-?\d+$/)],
+    ["Float", (value) => (typeof value === "number" && Number.isFinite(value)) || isNumberText(value, NUMBER_PATTERN)],
+    ["UUID", (value) => isText(value) && UUID_PATTERN.test(value.trim())],
+    ["Email", (value) => isText(value) && EMAIL_PATTERN.test(value.trim())],
+    ["Date", (value) => value instanceof Date || isDateText(value)],
+];
+
+const isEmpty = (value) => value === null || value === undefined || (isText(value) && value.trim() === "");
+
+const decimalPlaces = (value) => String(value).split(".")[1]?.length || 0;
+
+const createColumn = () => ({
+    nonNull: 0,
+    nullCount: 0,
+    matches: TYPE_CHECKS.map(() => 0),
+    misses: TYPE_CHECKS.map(() => []),
+    samples: TYPE_CHECKS.map(() => undefined),
+    numbers: { min: Infinity, max: -Infinity, maxDecimals: 0 },
+    dates: createDateTally(),
+    // Text values and how often each was seen, dropped once the column has too many to be a category
+    distinct: new Map()
+});
+
+const addValue = (column, value, rowNumber) => {
+    if (isEmpty(value)) {
+        column.nullCount++;
+        return;
+    }
+
+    column.nonNull++;
+    TYPE_CHECKS.forEach(([, check], index) => {
+        if (check(value)) {
+            column.matches[index]++;
+            if (column.samples[index] === undefined) column.samples[index] = value;
+        } else if (column.misses[index].length < MAX_COUNTEREXAMPLES) {
+            column.misses[index].push({ row: rowNumber, value });
+        }
+    });
+
+    tallyDate(column.dates, value);
+
+    if (column.distinct && isText(value)) {
+        column.distinct.set(value, (column.distinct.get(value) || 0) + 1);
+        if (column.distinct.size > MAX_CATEGORY_VALUES) column.distinct = null;
+    }
+
+    const number = typeof value === "number" ? value : isNumberText(value, NUMBER_PATTERN) ? Number(value) : NaN;
+    if (Number.isFinite(number)) {
+        column.numbers.min = Math.min(column.numbers.min, number);
+        column.numbers.max = Math.max(column.numbers.max, number);
+        column.numbers.maxDecimals = Math.max(column.numbers.maxDecimals, decimalPlaces(number));
+    }
+};
+
+const roundShare = (share) => Math.round(share * 1000) / 1000;
+
+// Picks the type fitting the largest share of values, the more specific type on a tie
+const columnResult = (column) => {
+    const result = {
+        dataType: "String",
+        confidence: 0,
+        nonNull: column.nonNull,
+        nullCount: column.nullCount,
+        counterexamples: []
+    };
+
+    if (column.nonNull === 0) return result;
+
+    let best = 0;
+    column.matches.forEach((count, index) => {
+        if (count > column.matches[best]) best = index;
+    });
+    const share = column.matches[best] / column.nonNull;
+    const [dataType] = TYPE_CHECKS[best];
+
+    if (share >= INFERENCE_THRESHOLD) {
+        result.dataType = dataType;
+        result.confidence = roundShare(share);
+        result.counterexamples = column.misses[best];
+        result.sample = column.samples[best];
+        if (dataType === "Integer" || dataType === "Float") {
+            result.numbers = column.numbers;
+        }
+        if (dataType === "Date") {
+            result.dateFormat = dateFormatFromTally(column.dates);
+        }
+        return result;
+    }
+
+    // Text: the confidence drops as another type comes close, the counterexamples show what broke it
+    result.confidence = roundShare(1 - share);
+    if (share >= ALTERNATIVE_THRESHOLD) {
+        result.alternative = { dataType, share: roundShare(share) };
+        result.counterexamples = column.misses[best];
+    }
+    // Few values repeated across the rows make a category, e.g. a Status column
+    if (column.distinct && column.distinct.size > 0 && column.nonNull >= column.distinct.size * 2) {
+        result.categories = seedAllowedValues(column.distinct);
+    }
+    return result;
+};
+
+// Whether a column should start out required, from the share of its rows that are empty
+export const inferRequired = ({ nonNull, nullCount }) => nonNull > 0 && nullCount / (nonNull + nullCount) <= REQUIRED_NULL_RATE;
+
+// Infers a type for every column of the parsed rows.
+// Each column gets { dataType, confidence, nonNull, nullCount, counterexamples: [{ row, value }] },
+// plus `sample` (a value of that type), `numbers` ({ min, max, maxDecimals }) for numeric columns,
+// `dateFormat` ({ format, separator, ambiguous, evidence }) for date columns,
+// `alternative` when a String column is mostly another type
+// and `categories` (the allowed values to seed) when a String column holds a few repeated values.
+export const inferColumnTypes = (rows) => {
+    const columns = new Map();
+
+    rows.forEach((row, index) => {
+        Object.keys(row).forEach((name) => {
+            if (name === "originalRowIndex") return;
+            if (!columns.has(name)) {
+                // Rows before the column first appeared did not have a value for it
+                const column = createColumn();
+                column.nullCount = index;
+                columns.set(name, column);
+            }
+        });
+
+        columns.forEach((column, name) => addValue(column, row[name], index + 1));
+    });
+
+    return Object.fromEntries([...columns].map(([name, column]) => [name, columnResult(column)]));
+};
@@ -0,0 +1,85 @@
+// Composite unique keys of a project (FileSchemas.unique_keys), e.g. [["store_id", "date"], ["order_id", "line_no"]]:
+// no two rows may share the values of every column of a key. Rows with an empty key column are left to the
+// columns' `required` flag, as with single unique columns.
+
+import { rowIdOf } from "./rowIds.js";
+
+// Rows a DUPLICATE_KEY issue links to; the description still counts all of them
+const MAX_LINKED_ROWS = 20;
+
+const isEmpty = (value) => value === null || value === undefined || String(value).trim() === "";
+
+// The values a row is compared by, one per key column
+export const compositeKeyValue = (row, columns) => JSON.stringify(columns.map(column => row[column]));
+
+// Whether a row has a value in every column of a key
+export const hasCompleteKey = (row, columns) => columns.every(column => !isEmpty(row[column]));
+
+// Why a project's unique keys cannot be enforced, or null when they are valid (or there are none)
+export const describeUniqueKeysError = (uniqueKeys, columnNames) => {
+    if (uniqueKeys === null || uniqueKeys === undefined) return null;
+    if (!Array.isArray(uniqueKeys)) return "Unique keys must be a list of column lists.";
+
+    const seen = new Set();
+    for (const columns of uniqueKeys) {
+        if (!Array.isArray(columns) || columns.some(column => typeof column !== "string")) {
+            return "Every unique key must be a list of column names.";
+        }
+        if (columns.length < 2) {
+            return "A unique key needs at least two columns, mark a single column as unique instead.";
+        }
+
+        const unknown = columns.find(column => !columnNames.includes(column));
+        if (unknown !== undefined) return `'${unknown}' is not a column of this project.`;
+
+        if (new Set(columns).size !== columns.length) {
+            return `The unique key (${columns.join(", ")}) lists a column more than once.`;
+        }
+
+        const signature = [...columns].sort().join("\u0000");
+        if (seen.has(signature)) return `The unique key (${columns.join(", ")}) is listed more than once.`;
+        seen.add(signature);
+    }
+    return null;
+};
+
+// DUPLICATE_KEY issues keyed by row index (0-based). Every row sharing a key is reported,
+// and each issue lists the IDs (rowIds.js) of the rows it collides with.
+export const checkUniqueKeys = (records, uniqueKeys) => {
+    const issuesByRow = new Map();
+
+    (uniqueKeys || []).forEach(columns => {
+        const groups = new Map();
+        records.forEach((row, index) => {
+            if (!hasCompleteKey(row, columns)) return;
+            const key = compositeKeyValue(row, columns);
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key).push(index);
+        });
+
+        groups.forEach(indexes => {
+            if (indexes.length < 2) return;
+
+            const rows = indexes.map(index => rowIdOf(records[index], index));
+            const values = columns.map(column => `${column} = '${records[indexes[0]][column]}'`).join(", ");
+
+            indexes.forEach((index, member) => {
+                const duplicateRows = rows.slice(0, MAX_LINKED_ROWS + 1).filter(row => row !== rows[member]).slice(0, MAX_LINKED_ROWS);
+                const more = rows.length - 1 - duplicateRows.length;
+
+                const issue = {
+                    issueType: "DUPLICATE_KEY",
+                    issueDesc: `Duplicate Key (${values}; also in rows ${duplicateRows.join(", ")}${more > 0 ? ` and ${more} more` : ""})`,
+                    columns,
+                    column: columns[0],
+                    duplicateRows
+                };
+
+                if (!issuesByRow.has(index)) issuesByRow.set(index, []);
+                issuesByRow.get(index).push(issue);
+            });
+        });
+    });
+
+    return issuesByRow;
+};
@@ -5,9 +5,20 @@ import { PutObjectCommand } from "@aws-sdk/client-s3";
 import s3 from "../config/s3.js";
 import { BadRequestError } from "../errors/index.js";
 
-const allowedTypes = ["csv", "xls", "xlsx"];
+const allowedTypes = ["csv", "xls", "xlsx", "json", "ndjson", "jsonl"];
 const maxFileSize = 100 * 1024 * 1024; // 100MB
 
+// Returns the lower-case extension of an uploaded file name, rejecting unsupported types
+export const getAllowedFileType = (fileName) => {
+    const fileExt = path.extname(fileName || "").substring(1).toLowerCase();
+
+    if (!allowedTypes.includes(fileExt)) {
+        throw new BadRequestError("Invalid file type. Only CSV, Excel and JSON files are allowed.");
+    }
+
+    return fileExt;
+};
+
 export const uploadFileToS3 = async (req, fieldName) => {
     if (!req.files || Object.keys(req.files).length === 0) {
         throw new BadRequestError("No files were uploaded.");
@@ -15,15 +26,12 @@ export const uploadFileToS3 = async (req, fieldName) => {
 
     const uploadedFile = req.files[fieldName];
     const fileSize = uploadedFile.size;
-    const fileExt = path.extname(uploadedFile.name).substring(1).toLowerCase();
 
     if (fileSize > maxFileSize) {
         throw new BadRequestError("File size exceeds the limit (100MB max).");
     }
 
-    if (!allowedTypes.includes(fileExt)) {
-        throw new BadRequestError("Invalid file type. Only CSV and Excel files are allowed.");
-    }
+    const fileExt = getAllowedFileType(uploadedFile.name);
 
     const uniqueFileName = `${fileExt}/${uuidv4()}-${uploadedFile.name}`;
 
@@ -1,12 +1,43 @@
-export function validateParsedData(parsedData, schemaDefinition) {
+import { parseLocaleNumber, resolveNumberFormat } from "./numberFormat.js";
+import { checkDate } from "./dateFormat.js";
+import { checkTextConstraints, compilePattern } from "./textConstraints.js";
+import { checkAllowedValue } from "./allowedValues.js";
+import { checkRange, rangeBounds } from "./rangeConstraints.js";
+import { checkRules, compileRules } from "./validationRules.js";
+import { checkReference } from "./referenceIntegrity.js";
+import { checkUniqueKeys } from "./uniqueKeys.js";
+import { buildDataTypeRegistry, checkDataType } from "./dataTypes.js";
+import { checkPhoneNumber, resolvePhoneCountry } from "./phoneNumbers.js";
+import { rowIdOf } from "./rowIds.js";
+
+// `options.numberFormat` is the project's number format (files.parse_options.numberFormat);
+// a column's own `numberFormat` in the schema takes precedence over it.
+// `options.rules` are the project's cross-column rules (FileSchemas.validation_rules).
+// `options.references` are the values of the columns other projects' columns reference (loadReferenceValues).
+// `options.uniqueKeys` are the project's composite keys (FileSchemas.unique_keys).
+// `options.customTypes` are the user's own data types (loadCustomDataTypes), next to the built-in registry types.
+// `options.phoneCountry` is the project's phone country (FileSchemas.phone_country); a column's `phoneCountry` takes precedence.
+// Each issue names its row by ID (`row`, see rowIds.js) and by its current 1-based `position`.
+export function validateParsedData(parsedData, schemaDefinition, options = {}) {
     const issues = [];
     const uniqueValues = {};
+    const patterns = {};
+    const allowedValues = {};
+    const ranges = {};
+    const rules = compileRules(options.rules);
+    const references = options.references || {};
+    const dataTypes = buildDataTypeRegistry(options.customTypes);
+    // Composite keys need every row, so their duplicates are found before the rows are walked
+    const keyIssues = checkUniqueKeys(parsedData, options.uniqueKeys);
 
-    // Initialize unique tracking sets
+    // Initialize unique tracking sets, compile column patterns, collect allowed values and read ranges once
     Object.keys(schemaDefinition).forEach(column => {
         if (schemaDefinition[column].unique) {
             uniqueValues[column] = new Set();
         }
+        patterns[column] = compilePattern(schemaDefinition[column].pattern);
+        allowedValues[column] = new Set(schemaDefinition[column].allowedValues || []);
+        ranges[column] = rangeBounds(schemaDefinition[column]);
     });
 
     parsedData.forEach((row, rowIndex) => {
@@ -31,12 +62,15 @@ export function validateParsedData(parsedData, schemaDefinition) {
                 return;
             }
 
+            // Optional columns may be empty; schemas saved before `required` existed treat every column as required
             if (value === null || value === undefined) {
-                rowErrors.push({
-                    issueType: "NULL_VALUE",
-                    issueDesc: "Null Value Found",
-                    column
-                });
+                if (schema.required !== false) {
+                    rowErrors.push({
+                        issueType: "NULL_VALUE",
+                        issueDesc: "Null Value Found",
+                        column
+                    });
+                }
                 return;
             }
 
@@ -53,21 +87,26 @@ export function validateParsedData(parsedData, schemaDefinition) {
                 }
             }
 
+            // Numbers kept as text are read with the column's separators ("1.234,56", "(45)")
+            const readNumber = () => parseLocaleNumber(value, resolveNumberFormat(schema, options.numberFormat));
+
             if (schema.dataType === "Integer") {
-                
-                if (!Number.isInteger(value)) {
+                const parsed = readNumber();
+                const number = parsed?.kind === "number" ? parsed.value : NaN;
+
+                if (!Number.isInteger(number)) {
                     rowErrors.push({
                         issueType: "TYPE_MISMATCH",
                         issueDesc: `Invalid Number Format (Expected: Integer, Found: ${typeof value})`,
                         column
                     });
-                } else if (schema.numericSign === "Positive" && value < 0) {
+                } else if (schema.numericSign === "Positive" && number < 0) {
                     rowErrors.push({
                         issueType: "INVALID_VALUE",
                         issueDesc: "Negative Number Not Allowed",
                         column
                     });
-                } else if (schema.numericSign === "Negative" && value > 0) {
+                } else if (schema.numericSign === "Negative" && number > 0) {
                     rowErrors.push({
                         issueType: "INVALID_VALUE",
                         issueDesc: "Positive Number Not Allowed",
@@ -77,7 +116,8 @@ export function validateParsedData(parsedData, schemaDefinition) {
             }
 
             if (schema.dataType === "Float") {
-                const parsedValue = parseFloat(value);
+                const parsed = readNumber();
+                const parsedValue = parsed?.kind === "number" ? parsed.value : NaN;
                 if (isNaN(parsedValue) || typeof parsedValue !== "number") {
                     rowErrors.push({
                         issueType: "TYPE_MISMATCH",
@@ -139,14 +179,11 @@ export function validateParsedData(parsedData, schemaDefinition) {
                 }
             }
 
+            // Numbers without a +country code are read as numbers of the column's or the project's country
             if (schema.dataType === "PhoneNumber") {
-                const phoneRegex = /^\+?[1-9]\d{1,14}$/;
-                if (typeof value !== "string" || !phoneRegex.test(value)) {
-                    rowErrors.push({
-                        issueType: "INVALID_FORMAT",
-                        issueDesc: "Invalid Phone Number Format",
-                        column
-                    });
+                const phoneIssue = checkPhoneNumber(value, resolvePhoneCountry(schema, options.phoneCountry));
+                if (phoneIssue) {
+                    rowErrors.push({ ...phoneIssue, column });
                 }
             }
 
@@ -181,22 +218,23 @@ export function validateParsedData(parsedData, schemaDefinition) {
             }
 
             if (schema.dataType === "Currency") {
-                const currencyRegex = /^\$?\d+(\.\d{2})?$/;
-                if (typeof value !== "string" || !currencyRegex.test(value)) {
+                const parsed = readNumber();
+                if (!parsed || parsed.kind === "percentage") {
                     rowErrors.push({
                         issueType: "INVALID_FORMAT",
-                        issueDesc: "Invalid Currency Format (Expected: $100.50 or 100.50)",
+                        issueDesc: `Invalid Currency Format (Expected: an amount such as ${formatExample(schema, options, "$100.50")}, Found: ${value})`,
                         column
                     });
                 }
             }
 
+            // Plain numbers are accepted too, spreadsheets store 75% as 0.75
             if (schema.dataType === "Percentage") {
-                const percentageRegex = /^\d+(\.\d+)?%$/;
-                if (typeof value !== "string" || !percentageRegex.test(value)) {
+                const parsed = readNumber();
+                if (!parsed || parsed.kind === "currency") {
                     rowErrors.push({
                         issueType: "INVALID_FORMAT",
-                        issueDesc: "Invalid Percentage Format (Expected: 75%)",
+                        issueDesc: `Invalid Percentage Format (Expected: ${formatExample(schema, options, "75.5%")}, Found: ${value})`,
                         column
                     });
                 }
@@ -282,64 +320,62 @@ export function validateParsedData(parsedData, schemaDefinition) {
             //     }
             // }
 
+            // Dates are read in the column's format, so "13/01/2024" is a valid DD/MM/YYYY date only
             if (schema.dataType === "Date") {
-                const expectedSeparator = schema.separator; // e.g., "/"
-                const expectedFormat = schema.format.replace(/[-/.]/g, expectedSeparator);  // e.g., "YYYY-MM-DD"
-                
-                const valueSeparator = value.replace(/\d/g, "")[0];  // Extract first non-digit character
-            
-                if (expectedFormat && expectedSeparator) {
-                    // Strict validation when both format and separator are defined
-                    const formatParts = expectedFormat.split(expectedSeparator);  // ["YYYY", "MM", "DD"]
-                    const valueParts = value.split(valueSeparator);  // ["2023", "01", "15"]
-            
-                    // Validate format structure (allow separators to match)
-                    if (formatParts.length !== valueParts.length) {
-                        rowErrors.push({
-                            issueType: "INVALID_FORMAT",
-                            issueDesc: `Invalid Date Format (Expected: '${expectedFormat}', Found: '${value}')`,
-                            column
-                        });
-                    }
-                    
-                     // Validate separator (only check if they match)
-                    if (expectedSeparator !== valueSeparator) {
-                        rowErrors.push({
-                            issueType: "INVALID_SEPARATOR",
-                            issueDesc: `Invalid Date Separator (Expected: '${expectedSeparator}', Found: '${valueSeparator}')`,
-                            column
-                        });
-                    }
+                const dateIssue = checkDate(value, schema.format, schema.separator);
+                if (dateIssue) {
+                    rowErrors.push({ ...dateIssue, column });
+                }
+            }
 
-                    // Ensure each part is a number
-                    if (!valueParts.every(part => /^\d+$/.test(part))) {
-                        rowErrors.push({
-                            issueType: "INVALID_VALUE",
-                            issueDesc: `Invalid Date Components (Date should contain only numbers with '${expectedSeparator}' separator)`,
-                            column
-                        });
-                    }
-            
-                } else if (!expectedFormat && expectedSeparator) {
-                    // When format is null but separator is defined, allow any format but enforce the separator
-                    if (!/^\d{2,4}[\W]\d{1,2}[\W]\d{1,4}$/.test(value)) {
-                        rowErrors.push({
-                            issueType: "INVALID_DATE",
-                            issueDesc: `Invalid Date Format (Expected separator: '${expectedSeparator}', Found: '${value}')`,
-                            column
-                        });
-                    }
+            // Registry types (IBAN, URL, the user's own types) check the normalised value against their format and checksum
+            if (dataTypes[schema.dataType]) {
+                const typeIssue = checkDataType(value, dataTypes[schema.dataType]);
+                if (typeIssue) {
+                    rowErrors.push({ ...typeIssue, column });
                 }
             }
-            
-            
-            
+
+            // Numbers and dates outside the column's range, read in the column's number or date format
+            const rangeIssue = checkRange(value, schema, options.numberFormat, ranges[column]);
+            if (rangeIssue) {
+                rowErrors.push({ ...rangeIssue, column });
+            }
+
+            // Pattern and length apply to the value's text, whatever the column type
+            checkTextConstraints(value, schema, patterns[column]).forEach(issue => {
+                rowErrors.push({ ...issue, column });
+            });
+
+            // Category columns only take their allowed values, the issue names the closest one
+            const categoryIssue = checkAllowedValue(value, schema, allowedValues[column]);
+            if (categoryIssue) {
+                rowErrors.push({ ...categoryIssue, column });
+            }
+
+            // Keys missing from the column they reference in another project
+            const referenceIssue = checkReference(value, references[column]);
+            if (referenceIssue) {
+                rowErrors.push({ ...referenceIssue, column });
+            }
         });
 
+        // Cross-column rules, each violation names the rule and all of its columns
+        rowErrors.push(...checkRules(row, rules, schemaDefinition, options.numberFormat));
+
+        // Composite keys shared with other rows, each issue links the rows it collides with
+        rowErrors.push(...(keyIssues.get(rowIndex) || []));
+
         if (rowErrors.length > 0) {
-            issues.push({ row: rowIndex + 1, errors: rowErrors });
+            issues.push({ row: rowIdOf(row, rowIndex), position: rowIndex + 1, errors: rowErrors });
         }
     });
 
     return issues ;
-}
\ No newline at end of file
+}
+
+// Writes an example value with the column's decimal separator, e.g. "$100,50" for German columns
+const formatExample = (schema, options, example) => {
+    const { decimalSeparator } = resolveNumberFormat(schema, options.numberFormat);
+    return example.replace(".", decimalSeparator);
+};
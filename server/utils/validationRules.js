@@ -0,0 +1,412 @@
+import { rangeKind, rangeValue } from "./rangeConstraints.js";
+
+// Cross-column validation rules of a project (FileSchemas.validation_rules), e.g.
+//   end_date >= start_date
+//   total == quantity * unit_price
+//   state is required when country == 'US'
+// Rules are parsed into a small tree and evaluated on every row; nothing is run as JavaScript.
+// Same language as the client's utils/validation-rules.ts, so the rule editor and validation agree.
+//
+// Language:
+// - columns by name (`Unit Price` in backticks for names with spaces), numbers, 'text', true, false, null
+// - + - * / %, == != < <= > >=, and or not (&& || !), `x in (a, b)`, `rule when condition`
+// - `x is required` / `x is not empty`, `x is empty`
+// - functions: is_empty(x), len(x), abs(x), round(x, places), lower(x), upper(x), trim(x), date('YYYY-MM-DD')
+// Numeric columns are read in their number format and dates as dates, so "13/01/2024" >= "01/12/2023".
+// An empty value makes a comparison unknown and a rule that cannot be decided passes,
+// whether a column may be empty is up to its `required` flag (or `x is required`).
+
+const KEYWORDS = { and: "&&", or: "||", not: "!", true: true, false: false, null: null };
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "+", "-", "*", "/", "%", "!", "(", ")", ","];
+const COMPARISONS = ["==", "!=", "<", "<=", ">", ">="];
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Functions with their number of arguments [min, max]
+const FUNCTIONS = {
+    is_empty: [1, 1],
+    len: [1, 1],
+    abs: [1, 1],
+    round: [1, 2],
+    lower: [1, 1],
+    upper: [1, 1],
+    trim: [1, 1],
+    date: [1, 1]
+};
+
+// Numbers this close, relative to their size, are equal, so 0.1 * 3 == 0.3
+const EPSILON = 1e-9;
+
+const tokenize = (expression) => {
+    const tokens = [];
+    let position = 0;
+
+    while (position < expression.length) {
+        const rest = expression.slice(position);
+        const space = rest.match(/^\s+/);
+        if (space) {
+            position += space[0].length;
+            continue;
+        }
+
+        const number = rest.match(/^\d+(\.\d+)?/);
+        const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+        const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+
+        if (number) {
+            tokens.push({ kind: "literal", value: Number(number[0]), position });
+            position += number[0].length;
+        } else if (word) {
+            const name = word[0];
+            const keyword = name.toLowerCase();
+            if (keyword in KEYWORDS && typeof KEYWORDS[keyword] === "string") tokens.push({ kind: "operator", value: KEYWORDS[keyword], position });
+            else if (keyword in KEYWORDS) tokens.push({ kind: "literal", value: KEYWORDS[keyword], position });
+            else if (["when", "in", "is"].includes(keyword)) tokens.push({ kind: "operator", value: keyword, position });
+            else tokens.push({ kind: "name", value: name, position });
+            position += name.length;
+        } else if (rest[0] === "`") {
+            const end = rest.indexOf("`", 1);
+            if (end === -1) throw new Error(`Unclosed column name at position ${position + 1}`);
+            tokens.push({ kind: "column", value: rest.slice(1, end), position });
+            position += end + 1;
+        } else if (rest[0] === "'" || rest[0] === '"') {
+            let text = "";
+            let index = 1;
+            while (index < rest.length && rest[index] !== rest[0]) {
+                if (rest[index] === "\\" && index + 1 < rest.length) index++;
+                text += rest[index];
+                index++;
+            }
+            if (index >= rest.length) throw new Error(`Unclosed text at position ${position + 1}`);
+            tokens.push({ kind: "literal", value: text, position });
+            position += index + 1;
+        } else if (operator) {
+            tokens.push({ kind: "operator", value: operator, position });
+            position += operator.length;
+        } else {
+            throw new Error(`Unexpected '${rest[0]}' at position ${position + 1}`);
+        }
+    }
+
+    return tokens;
+};
+
+// Recursive descent parser, lowest precedence first: when, or, and, not, comparison, + -, * / %, unary minus
+const parse = (expression) => {
+    const tokens = tokenize(expression);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const isOperator = (...values) => peek()?.kind === "operator" && values.includes(peek().value);
+    const describeToken = (token) => token ? `'${expression.slice(token.position).split(/\s/)[0] || token.value}' at position ${token.position + 1}` : "the end of the rule";
+    const expect = (value) => {
+        if (!isOperator(value)) throw new Error(`Expected '${value}' but found ${describeToken(peek())}`);
+        index++;
+    };
+
+    const parseWhen = () => {
+        const node = parseOr();
+        if (!isOperator("when")) return node;
+        index++;
+        return { type: "when", rule: node, condition: parseOr() };
+    };
+
+    const parseOr = () => {
+        let node = parseAnd();
+        while (isOperator("||")) {
+            index++;
+            node = { type: "logical", op: "||", left: node, right: parseAnd() };
+        }
+        return node;
+    };
+
+    const parseAnd = () => {
+        let node = parseNot();
+        while (isOperator("&&")) {
+            index++;
+            node = { type: "logical", op: "&&", left: node, right: parseNot() };
+        }
+        return node;
+    };
+
+    const parseNot = () => {
+        if (isOperator("!")) {
+            index++;
+            return { type: "not", operand: parseNot() };
+        }
+        return parseComparison();
+    };
+
+    const parseComparison = () => {
+        const left = parseAdditive();
+        if (isOperator(...COMPARISONS)) {
+            const op = tokens[index++].value;
+            return { type: "compare", op, left, right: parseAdditive() };
+        }
+        if (isOperator("in")) {
+            index++;
+            expect("(");
+            const list = [parseAdditive()];
+            while (isOperator(",")) {
+                index++;
+                list.push(parseAdditive());
+            }
+            expect(")");
+            return { type: "in", value: left, list };
+        }
+        if (isOperator("is")) {
+            index++;
+            const negated = isOperator("!");
+            if (negated) index++;
+            const word = peek()?.kind === "name" ? peek().value.toLowerCase() : null;
+            if (word !== "required" && word !== "empty") throw new Error(`Expected 'required' or 'empty' but found ${describeToken(peek())}`);
+            index++;
+            const empty = { type: "call", name: "is_empty", args: [left] };
+            return (word === "required") !== negated ? { type: "not", operand: empty } : empty;
+        }
+        return left;
+    };
+
+    const parseAdditive = () => {
+        let node = parseMultiplicative();
+        while (isOperator("+", "-")) {
+            const op = tokens[index++].value;
+            node = { type: "arithmetic", op, left: node, right: parseMultiplicative() };
+        }
+        return node;
+    };
+
+    const parseMultiplicative = () => {
+        let node = parseUnary();
+        while (isOperator("*", "/", "%")) {
+            const op = tokens[index++].value;
+            node = { type: "arithmetic", op, left: node, right: parseUnary() };
+        }
+        return node;
+    };
+
+    const parseUnary = () => {
+        if (isOperator("-")) {
+            index++;
+            return { type: "arithmetic", op: "-", left: { type: "literal", value: 0 }, right: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = () => {
+        const token = peek();
+        if (!token) throw new Error("The rule ends too early");
+
+        if (token.kind === "literal") {
+            index++;
+            return { type: "literal", value: token.value };
+        }
+        if (token.kind === "column") {
+            index++;
+            return { type: "column", name: token.value };
+        }
+        if (token.kind === "name") {
+            index++;
+            if (!isOperator("(")) return { type: "column", name: token.value };
+
+            const name = token.value.toLowerCase();
+            if (!FUNCTIONS[name]) throw new Error(`Unknown function '${token.value}' at position ${token.position + 1}`);
+            index++;
+            const args = [];
+            if (!isOperator(")")) {
+                args.push(parseWhen());
+                while (isOperator(",")) {
+                    index++;
+                    args.push(parseWhen());
+                }
+            }
+            expect(")");
+            const [min, max] = FUNCTIONS[name];
+            if (args.length < min || args.length > max) {
+                throw new Error(`${name}() takes ${min === max ? min : `${min} or ${max}`} argument${max > 1 ? "s" : ""}`);
+            }
+            if (name === "date" && (args[0].type !== "literal" || dateKey(args[0].value) === null)) {
+                throw new Error("date() takes a YYYY-MM-DD date in quotes");
+            }
+            return { type: "call", name, args };
+        }
+        if (isOperator("(")) {
+            index++;
+            const node = parseWhen();
+            expect(")");
+            return node;
+        }
+        throw new Error(`Unexpected ${describeToken(token)}`);
+    };
+
+    if (tokens.length === 0) throw new Error("The rule is empty");
+    const tree = parseWhen();
+    if (index < tokens.length) throw new Error(`Unexpected ${describeToken(peek())}`);
+    return tree;
+};
+
+// Nodes that give true or false, the only ones a rule can be made of
+const isCondition = (node) => ["when", "logical", "not", "compare", "in"].includes(node.type)
+    || (node.type === "call" && node.name === "is_empty")
+    || (node.type === "literal" && typeof node.value === "boolean");
+
+const collectColumns = (node, columns = []) => {
+    if (node.type === "column" && !columns.includes(node.name)) columns.push(node.name);
+    ["left", "right", "operand", "rule", "condition", "value"].forEach(key => node[key] && collectColumns(node[key], columns));
+    [...(node.args || []), ...(node.list || [])].forEach(child => collectColumns(child, columns));
+    return columns;
+};
+
+const dateKey = (text) => {
+    const match = typeof text === "string" ? text.match(ISO_DATE) : null;
+    return match ? Number(match[1]) * 10000 + Number(match[2]) * 100 + Number(match[3]) : null;
+};
+
+// Parses a rule's expression.
+// Returns { tree, columns } with the columns it uses in order of appearance; throws an Error naming the problem.
+export const compileRule = (expression) => {
+    if (typeof expression !== "string") throw new Error("The rule is empty");
+    const tree = parse(expression);
+    if (!isCondition(tree)) throw new Error("A rule has to be a condition, such as a comparison");
+    return { tree, columns: collectColumns(tree) };
+};
+
+// Why a rule cannot be used with a project's columns, or null when it is valid
+export const describeRuleError = (rule, columnNames) => {
+    if (!rule || typeof rule.name !== "string" || rule.name.trim() === "") return "Every rule needs a name.";
+    try {
+        const { columns } = compileRule(rule.expression);
+        const unknown = columns.find(column => !columnNames.includes(column));
+        return unknown ? `Rule '${rule.name}' uses '${unknown}', which is not a column of this project.` : null;
+    } catch (error) {
+        return `Rule '${rule.name}': ${error.message}`;
+    }
+};
+
+const isEmpty = (value) => value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+
+// A cell as a rule sees it: numbers read in the column's number format, dates as YYYYMMDD, empty as null
+const readColumn = (row, name, schemaDefinition, numberFormat) => {
+    const value = row[name];
+    if (isEmpty(value)) return null;
+
+    const schema = schemaDefinition?.[name];
+    if (schema && rangeKind(schema.dataType)) {
+        const key = rangeValue(value, schema, numberFormat);
+        if (key !== null) return key;
+    }
+    if (schema?.dataType === "Boolean" && typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === "true";
+    }
+    return value;
+};
+
+const isNumber = (value) => typeof value === "number" && Number.isFinite(value);
+
+const equals = (a, b) => {
+    if (isNumber(a) && isNumber(b)) return Math.abs(a - b) <= EPSILON * Math.max(1, Math.abs(a), Math.abs(b));
+    return String(a) === String(b);
+};
+
+const compare = (op, a, b) => {
+    if (a === null || b === null) return null;
+    if (op === "==") return equals(a, b);
+    if (op === "!=") return !equals(a, b);
+
+    let order;
+    if (isNumber(a) && isNumber(b)) order = a - b;
+    else if (typeof a === "string" && typeof b === "string") order = a.localeCompare(b);
+    else return null;
+
+    if (op === "<") return order < 0;
+    if (op === "<=") return order <= 0;
+    if (op === ">") return order > 0;
+    return order >= 0;
+};
+
+const arithmetic = (op, a, b) => {
+    if (!isNumber(a) || !isNumber(b)) return null;
+    if (op === "+") return a + b;
+    if (op === "-") return a - b;
+    if (op === "*") return a * b;
+    if ((op === "/" || op === "%") && b === 0) return null;
+    return op === "/" ? a / b : a % b;
+};
+
+const call = (name, args) => {
+    const [value, places] = args;
+    if (name === "is_empty") return isEmpty(value);
+    if (name === "date") return dateKey(value);
+    if (value === null) return null;
+    if (name === "len") return [...String(value)].length;
+    if (name === "lower") return String(value).toLowerCase();
+    if (name === "upper") return String(value).toUpperCase();
+    if (name === "trim") return String(value).trim();
+    if (!isNumber(value)) return null;
+    if (name === "abs") return Math.abs(value);
+    const factor = 10 ** (isNumber(places) ? places : 0);
+    return Math.round(value * factor) / factor;
+};
+
+// Evaluates a parsed rule on one row: true, false, or null when it cannot be decided
+const evaluate = (node, read) => {
+    switch (node.type) {
+        case "literal":
+            return node.value;
+        case "column":
+            return read(node.name);
+        case "arithmetic":
+            return arithmetic(node.op, evaluate(node.left, read), evaluate(node.right, read));
+        case "compare":
+            return compare(node.op, evaluate(node.left, read), evaluate(node.right, read));
+        case "in": {
+            const value = evaluate(node.value, read);
+            if (value === null) return null;
+            return node.list.some(item => {
+                const option = evaluate(item, read);
+                return option !== null && equals(value, option);
+            });
+        }
+        case "not": {
+            const value = evaluate(node.operand, read);
+            return value === null ? null : !value;
+        }
+        case "logical": {
+            // Three-valued: false and unknown is false, true or unknown is true
+            const left = evaluate(node.left, read);
+            const right = evaluate(node.right, read);
+            if (node.op === "&&") {
+                if (left === false || right === false) return false;
+                return left === null || right === null ? null : true;
+            }
+            if (left === true || right === true) return true;
+            return left === null || right === null ? null : false;
+        }
+        case "when":
+            return evaluate(node.condition, read) === true ? evaluate(node.rule, read) : true;
+        case "call":
+            return call(node.name, node.args.map(arg => evaluate(arg, read)));
+        default:
+            return null;
+    }
+};
+
+// Compiles a project's rules once per validation run, skipping any that no longer compile
+export const compileRules = (rules) => (Array.isArray(rules) ? rules : []).flatMap(rule => {
+    try {
+        return [{ ...rule, ...compileRule(rule.expression) }];
+    } catch {
+        return [];
+    }
+});
+
+// RULE_VIOLATION issues of one row, one per rule it breaks.
+// `column` is the first column of the rule, `columns` all of them.
+export const checkRules = (row, compiledRules, schemaDefinition, numberFormat) => compiledRules
+    .filter(rule => evaluate(rule.tree, name => readColumn(row, name, schemaDefinition, numberFormat)) === false)
+    .map(rule => ({
+        issueType: "RULE_VIOLATION",
+        issueDesc: `Rule Violated: ${rule.name} (Columns: ${rule.columns.join(", ")})`,
+        rule: rule.name,
+        columns: rule.columns,
+        column: rule.columns[0] ?? null
+    }));